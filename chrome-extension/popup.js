@@ -27,13 +27,14 @@ const loadingSubtext = document.getElementById('loadingSubtext');
 const stepText = document.getElementById('stepText');
 const progressText = document.getElementById('progressText');
 const progressFill = document.getElementById('progressFill');
+const streamedList = document.getElementById('streamedList');
 
 // State
 let currentQuery = '';
 let currentResults = [];
-let loadingSteps = [];
-let currentStepIndex = 0;
-let loadingInterval = null;
+let buildNeeds = [];
+let completedNeeds = 0;
+let activeRequest = null;
 
 // Initialize
 document.addEventListener('DOMContentLoaded', () => {
@@ -95,138 +96,138 @@ function setupEventListeners() {
   });
 }
 
-// Generate loading steps based on query
-function generateLoadingSteps(query) {
-  const lowerQuery = query.toLowerCase();
-  
-  // Check if this is a single item query
-  const isSingleItem = detectSingleItemQuery(lowerQuery);
-  
-  if (isSingleItem) {
-    return [
-      'Analyzing your requirements',
-      'Searching for best options',
-      'Comparing prices & reviews',
-      'Finalizing recommendations'
-    ];
-  }
-  
-  // Multi-item setup queries
-  return [
-    'Analyzing your requirements',
-    'Identifying product categories',
-    'Searching product databases',
-    'Comparing prices & reviews',
-    'AI selecting best matches',
-    'Optimizing for budget',
-    'Finalizing recommendations'
-  ];
+// Start loading state (progress is driven by events from /api/build/stream)
+function startLoadingAnimation() {
+  buildNeeds = [];
+  completedNeeds = 0;
+  streamedList.innerHTML = '';
+
+  loadingSubtext.textContent = `Analyzing the best products for your ${currentQuery}`;
+  setLoadingStep('Analyzing your requirements', false);
 }
 
-// Detect single item queries
-function detectSingleItemQuery(query) {
-  const singleItemKeywords = [
-    'watch', 'watches', 'smartwatch', 'phone', 'smartphone', 'tablet', 'laptop', 'headphones', 'earbuds',
-    'speaker', 'camera', 'tv', 'television', 'monitor', 'keyboard', 'mouse', 'charger',
-    'shirt', 'pants', 'shoes', 'jacket', 'hat', 'bag', 'backpack', 'wallet', 'sunglasses',
-    'bottle', 'water bottle', 'mug', 'cup', 'pillow', 'blanket', 'lamp', 'chair', 'table',
-    'book', 'notebook', 'pen', 'pencil', 'umbrella', 'towel'
-  ];
-  
-  const setupKeywords = [
-    'setup', 'collection', 'kit', 'set', 'bundle', 'essentials', 'gear', 'equipment',
-    'system', 'station', 'workspace', 'room', 'office', 'gaming', 'bedroom', 'kitchen'
-  ];
-  
-  // If query contains setup keywords, it's not a single item
-  for (const keyword of setupKeywords) {
-    if (query.includes(keyword)) {
-      return false;
-    }
-  }
-  
-  // Check if query matches single item patterns
-  for (const keyword of singleItemKeywords) {
-    if (query === keyword || query === keyword + 's' || query.includes(keyword)) {
-      return true;
-    }
+// Update the current loading step and progress bar
+function setLoadingStep(text, completed) {
+  stepText.textContent = text;
+
+  const total = Math.max(buildNeeds.length, 1);
+  progressText.textContent = `${completedNeeds} / ${buildNeeds.length || '?'}`;
+  progressFill.style.width = `${(completedNeeds / total) * 100}%`;
+
+  const stepContent = document.querySelector('.step-content');
+  const loadingStep = document.querySelector('.loading-step');
+  const indicator = document.querySelector('.step-indicator');
+
+  loadingStep.classList.add('active');
+
+  if (completed) {
+    stepContent.classList.add('completed');
+    indicator.innerHTML = `
+      <div class="step-checkmark">
+        <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="3" d="M5 13l4 4L19 7" />
+        </svg>
+      </div>
+    `;
+  } else {
+    stepContent.classList.remove('completed');
+    indicator.innerHTML = '<div class="step-spinner"></div>';
   }
-  
-  // If query is very short (1-2 meaningful words), likely single item
-  const words = query.split(' ').filter(w => w.length > 2);
-  if (words.length <= 2) {
-    return true;
+}
+
+// Stop loading state and abort any in-flight stream
+function stopLoadingAnimation() {
+  if (activeRequest) {
+    activeRequest.abort();
+    activeRequest = null;
   }
-  
-  return false;
 }
 
-// Start loading animation
-function startLoadingAnimation() {
-  loadingSteps = generateLoadingSteps(currentQuery);
-  currentStepIndex = 0;
-  
-  // Update subtext
-  loadingSubtext.textContent = `Analyzing the best products for your ${currentQuery}`;
-  
-  // Start with first step
-  updateLoadingStep();
-  
-  // Set up interval to progress through steps
-  loadingInterval = setInterval(() => {
-    if (currentStepIndex < loadingSteps.length - 1) {
-      // Complete current step
-      completeCurrentStep();
-      
-      // Move to next step after showing completion
-      setTimeout(() => {
-        currentStepIndex++;
-        updateLoadingStep();
-      }, 800);
-    }
-  }, Math.random() * 2000 + 1500); // 1.5-3.5 seconds per step
+// Look up the display name of a need from the plan
+function getNeedName(needKey) {
+  const need = buildNeeds.find(n => n.key === needKey);
+  return need ? need.name : 'item';
 }
 
-// Update loading step
-function updateLoadingStep() {
-  if (currentStepIndex < loadingSteps.length) {
-    stepText.textContent = loadingSteps[currentStepIndex];
-    progressText.textContent = `${currentStepIndex + 1} / ${loadingSteps.length}`;
-    progressFill.style.width = `${((currentStepIndex + 1) / loadingSteps.length) * 100}%`;
-    
-    // Reset step appearance
-    const stepContent = document.querySelector('.step-content');
-    const loadingStep = document.querySelector('.loading-step');
-    stepContent.classList.remove('completed');
-    loadingStep.classList.add('active');
-    
-    // Reset indicator to spinner
-    const indicator = document.querySelector('.step-indicator');
-    indicator.innerHTML = '<div class="step-spinner"></div>';
+// Read a Server-Sent Events response, calling onEvent for each JSON payload
+async function readEventStream(response, onEvent) {
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flush = (frames) => {
+    frames.forEach(frame => {
+      const data = frame
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('\n');
+
+      if (data) {
+        onEvent(JSON.parse(data));
+      }
+    });
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+    const frames = buffer.split('\n\n');
+    buffer = frames.pop();
+    flush(frames);
   }
-}
 
-// Complete current step
-function completeCurrentStep() {
-  const stepContent = document.querySelector('.step-content');
-  const indicator = document.querySelector('.step-indicator');
-  
-  stepContent.classList.add('completed');
-  indicator.innerHTML = `
-    <div class="step-checkmark">
-      <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-        <path stroke-linecap="round" stroke-linejoin="round" stroke-width="3" d="M5 13l4 4L19 7" />
-      </svg>
-    </div>
-  `;
+  flush([buffer]);
 }
 
-// Stop loading animation
-function stopLoadingAnimation() {
-  if (loadingInterval) {
-    clearInterval(loadingInterval);
-    loadingInterval = null;
+// Apply one build progress event to the loading UI; returns the final response on 'done'
+function handleBuildEvent(event) {
+  switch (event.type) {
+    case 'plan_ready':
+      buildNeeds = event.needs;
+      setLoadingStep(`Picking ${buildNeeds.length} item${buildNeeds.length === 1 ? '' : 's'} for you`, false);
+      break;
+
+    case 'search_started':
+      setLoadingStep(`Searching for ${getNeedName(event.needKey)}`, false);
+      break;
+
+    case 'search_finished':
+      if (event.resultCount > 0) {
+        setLoadingStep(`Choosing the best ${getNeedName(event.needKey)}`, false);
+      }
+      break;
+
+    case 'product_selected':
+      completedNeeds++;
+      if (event.product) {
+        const element = createProductElement(event.product);
+        element.dataset.productId = event.product.id;
+        streamedList.appendChild(element);
+        setLoadingStep(`Picked ${getNeedName(event.needKey)}`, true);
+      } else {
+        setLoadingStep(`No match for ${getNeedName(event.needKey)}`, false);
+      }
+      break;
+
+    case 'budget_adjusted':
+      event.removedIds.forEach(id => {
+        const element = streamedList.querySelector(`[data-product-id="${CSS.escape(id)}"]`);
+        if (element) element.remove();
+      });
+      setLoadingStep('Optimizing for budget', false);
+      break;
+
+    case 'done':
+      return event.response;
+
+    case 'error':
+      throw new Error(event.error.message);
   }
+
+  return null;
 }
 
 // Handle search
@@ -249,26 +250,34 @@ async function handleSearch() {
       amazonOnly: amazonOnly.checked
     };
 
-    const response = await fetch(`${API_BASE_URL}/api/build`, {
+    activeRequest = new AbortController();
+
+    const response = await fetch(`${API_BASE_URL}/api/build/stream`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'Accept': 'text/event-stream'
       },
       body: JSON.stringify({
         query: query,
         settings: settings
-      })
+      }),
+      signal: activeRequest.signal
     });
 
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
 
-    const data = await response.json();
-    
+    let data = null;
+    await readEventStream(response, (event) => {
+      data = handleBuildEvent(event) || data;
+    });
+
+    activeRequest = null;
     stopLoadingAnimation();
     
-    if (data.products && data.products.length > 0) {
+    if (data && data.products && data.products.length > 0) {
       currentResults = data.products;
       displayResults(data.products.slice(0, 5)); // Show first 5 results
       showResultsSection();
@@ -277,6 +286,7 @@ async function handleSearch() {
     }
 
   } catch (error) {
+    if (error.name === 'AbortError') return;
     console.error('Search error:', error);
     stopLoadingAnimation();
     showErrorSection(error.message);
@@ -297,7 +307,10 @@ function displayResults(products) {
 function createProductElement(product) {
   const div = document.createElement('div');
   div.className = 'product-item';
-  div.addEventListener('click', () => openProductUrl(product.url || product.link));
+  // Tracked links (relative to the API) count the click before redirecting
+  div.addEventListener('click', () => openProductUrl(
+    product.clickUrl ? new URL(product.clickUrl, API_BASE_URL).href : product.productUrl || product.url || product.link
+  ));
 
   // Fix undefined names - use multiple fallbacks
   const productName = product.title || product.name || product.productName || product.displayName || 'Product Name Not Available';
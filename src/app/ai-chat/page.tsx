@@ -2,6 +2,7 @@
 
 import React, { useState } from 'react';
 import AiChatInput from '@/components/ui/ai-chat-input';
+import type { ChatTurnResponse } from '@/types/api';
 
 interface ChatMessage {
   id: string;
@@ -20,6 +21,8 @@ interface ChatMessage {
 export default function AiChatPage() {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  // The server keeps the conversation and current setup; follow-ups refine it
+  const [sessionId, setSessionId] = useState<string | null>(null);
 
   const handleSubmit = async (data: {
     message: string;
@@ -48,34 +51,48 @@ export default function AiChatPage() {
     setIsLoading(true);
 
     try {
-      // Prepare form data
-      const formData = new FormData();
-      formData.append('message', data.message);
-      formData.append('setupType', data.setupType);
-      formData.append('currency', data.currency);
-      formData.append('minBudget', data.minBudget.toString());
-      formData.append('maxBudget', data.maxBudget.toString());
-      
-      data.images.forEach((image, index) => {
-        formData.append(`image_${index}`, image);
-      });
+      let response: Response;
+      if (sessionId) {
+        response = await fetch(`/api/ai-chat/sessions/${sessionId}/messages`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ message: data.message })
+        });
+      } else {
+        // Prepare form data
+        const formData = new FormData();
+        formData.append('message', data.message);
+        formData.append('setupType', data.setupType);
+        formData.append('currency', data.currency);
+        formData.append('minBudget', data.minBudget.toString());
+        formData.append('maxBudget', data.maxBudget.toString());
+        
+        data.images.forEach((image, index) => {
+          formData.append(`image_${index}`, image);
+        });
 
-      const response = await fetch('/api/ai-chat', {
-        method: 'POST',
-        body: formData
-      });
+        response = await fetch('/api/ai-chat/sessions', {
+          method: 'POST',
+          body: formData
+        });
+      }
 
+      if (response.status === 404 && sessionId) {
+        // The session expired; the next message starts a new one
+        setSessionId(null);
+      }
       if (!response.ok) {
         throw new Error('Failed to get AI response');
       }
 
-      const result = await response.json();
+      const result: ChatTurnResponse = await response.json();
+      setSessionId(result.session.id);
 
       // Add AI response
       const aiMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
         type: 'ai',
-        content: result.response,
+        content: result.reply,
         timestamp: new Date()
       };
 
@@ -183,7 +200,7 @@ export default function AiChatPage() {
           <AiChatInput
             onSubmit={handleSubmit}
             disabled={isLoading}
-            placeholder="Describe your setup requirements..."
+            placeholder={sessionId ? 'Refine your setup, e.g. "cheaper chair" or "make it all white"...' : 'Describe your setup requirements...'}
           />
         </div>
       </div>
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-middleware'
+import { handleAPIError } from '@/lib/errors'
+import { getUpstreamUsageReport } from '@/lib/upstream-usage'
+import { UsageQuerySchema, UsageResponseSchema, validateResponse } from '@/lib/validation'
+
+export const dynamic = 'force-dynamic'
+
+// Daily SerpAPI and LLM spend with budget alerts; admins only (ADMIN_EMAILS)
+export const GET = withAuth(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    // Out-of-range values fall back to 7 days
+    const { days } = UsageQuerySchema.parse({
+      days: searchParams.get('days') ?? undefined
+    })
+
+    const report = await getUpstreamUsageReport(days)
+
+    return NextResponse.json(validateResponse(UsageResponseSchema, report))
+  } catch (error) {
+    console.error('Usage API error:', error)
+    return handleAPIError(error)
+  }
+}, { requireAdmin: true })
\ No newline at end of file
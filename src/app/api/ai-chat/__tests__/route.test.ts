@@ -0,0 +1,135 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '../route'
+import { analyzeRoomImages, generatePlan } from '@/lib/api/gemini'
+
+vi.mock('@/lib/api/gemini')
+
+const mockAnalyzeRoomImages = vi.mocked(analyzeRoomImages)
+const mockGeneratePlan = vi.mocked(generatePlan)
+
+const mockRequest = (fields: Record<string, string | File>) => {
+  const formData = new FormData()
+  for (const [key, value] of Object.entries(fields)) {
+    formData.append(key, value)
+  }
+  return new NextRequest('http://localhost:3000/api/ai-chat', {
+    method: 'POST',
+    body: formData
+  })
+}
+
+const photo = (name = 'room.jpg', type = 'image/jpeg') => new File(['fake image bytes'], name, { type })
+
+const room = {
+  roomType: 'bedroom',
+  existingFurniture: ['oak desk', 'grey rug'],
+  colorPalette: ['sage green', 'white'],
+  dimensions: 'small room, about 3m x 3m',
+  summary: 'A small bedroom with a desk by the window.'
+}
+
+const plan = {
+  categories: [
+    { category: 'Chair', priority: 1, budgetAllocation: 300, searchTerms: ['chair'], requirements: ['Sage green'] },
+    { category: 'Lamp', priority: 2, budgetAllocation: 100, searchTerms: ['lamp'], requirements: [], required: false }
+  ],
+  budgetDistribution: [
+    { category: 'Chair', amount: 300, percentage: 75, color: '#FF6B6B' },
+    { category: 'Lamp', amount: 100, percentage: 25, color: '#4ECDC4' }
+  ],
+  searchStrategy: { approach: 'setup' as const, categories: ['Chair', 'Lamp'], totalItems: 2 }
+}
+
+describe('/api/ai-chat', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockAnalyzeRoomImages.mockResolvedValue(room)
+    mockGeneratePlan.mockResolvedValue(plan)
+  })
+
+  it('should analyse uploaded photos and plan around the room', async () => {
+    const response = await POST(mockRequest({
+      message: 'Make this a study corner',
+      setupType: 'premium',
+      currency: 'EUR',
+      minBudget: '200',
+      maxBudget: '400',
+      image_0: photo()
+    }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    const [images, message] = mockAnalyzeRoomImages.mock.calls[0]
+    expect(images).toEqual([{ data: Buffer.from('fake image bytes').toString('base64'), mimeType: 'image/jpeg' }])
+    expect(message).toBe('Make this a study corner')
+    expect(mockGeneratePlan).toHaveBeenCalledWith({
+      query: 'Make this a study corner',
+      budget: 400,
+      style: 'Premium',
+      currency: 'EUR',
+      room
+    })
+    expect(data.roomAnalysis).toEqual(room)
+    expect(data.plan).toEqual(plan)
+    expect(data.response).toContain('your bedroom')
+    expect(data.response).toContain('Lamp (optional)')
+    expect(data.imageAnalysis).toContain('Already there: oak desk, grey rug')
+    expect(data.metadata.imagesAnalyzed).toBe(1)
+  })
+
+  it('should plan from the room alone when there is no message', async () => {
+    await POST(mockRequest({ maxBudget: '500', image_0: photo() }))
+
+    expect(mockAnalyzeRoomImages.mock.calls[0][1]).toBeUndefined()
+    expect(mockGeneratePlan).toHaveBeenCalledWith(expect.objectContaining({
+      query: 'bedroom setup',
+      style: 'Casual',
+      currency: 'USD'
+    }))
+  })
+
+  it('should still plan when image analysis fails', async () => {
+    mockAnalyzeRoomImages.mockRejectedValue(new Error('model offline'))
+
+    const response = await POST(mockRequest({ message: 'gaming setup', maxBudget: '800', image_0: photo() }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(mockGeneratePlan.mock.calls[0][0]).not.toHaveProperty('room')
+    expect(data.roomAnalysis).toBeNull()
+    expect(data.imageAnalysis).toBe('Images uploaded but analysis temporarily unavailable.')
+    expect(data.metadata.imagesAnalyzed).toBe(0)
+  })
+
+  it('should plan text-only requests without analysing images', async () => {
+    const response = await POST(mockRequest({ message: 'desk setup', maxBudget: '600' }))
+
+    expect(response.status).toBe(200)
+    expect(mockAnalyzeRoomImages).not.toHaveBeenCalled()
+    expect(mockGeneratePlan).toHaveBeenCalledWith({ query: 'desk setup', budget: 600, style: 'Casual', currency: 'USD' })
+  })
+
+  it('should reject uploads that are not images', async () => {
+    const response = await POST(mockRequest({ message: 'desk', image_0: photo('notes.txt', 'text/plain') }))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toBe('Uploads must be image files')
+    expect(mockAnalyzeRoomImages).not.toHaveBeenCalled()
+  })
+
+  it('should reject unsupported currencies', async () => {
+    const response = await POST(mockRequest({ message: 'desk', currency: 'XYZ' }))
+
+    expect(response.status).toBe(400)
+  })
+
+  it('should require a message or images', async () => {
+    const response = await POST(mockRequest({ maxBudget: '500' }))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toBe('Message or images required')
+  })
+})
\ No newline at end of file
@@ -1,25 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createGeminiImageClient } from '@/lib/api/gemini-image';
 import { generatePlan } from '@/lib/api/gemini';
+import { settingsFromChatRequest } from '@/lib/chat-session';
+import { formatCurrency } from '@/lib/currency';
+import { analyzeRoomPhotos, collectRoomPhotos, validateRoomPhotos } from '@/lib/room-photos';
+import { AIChatRequestSchema, AIChatResponseSchema, getValidationMessage, validateResponse } from '@/lib/validation';
+import { PlanRequest, PlanResponse } from '@/types/api';
+import { withRateLimit } from '@/lib/rate-limit';
 
-export async function POST(request: NextRequest) {
+function describePlan(plan: PlanResponse, request: PlanRequest): string {
+  const intro = request.room
+    ? `Here's a ${request.style.toLowerCase()} plan for your ${request.room.roomType}, built around what you already have:`
+    : `Here's a ${request.style.toLowerCase()} plan for "${request.query}":`;
+  const categories = [...plan.categories]
+    .sort((a, b) => a.priority - b.priority)
+    .map(category => {
+      const extra = category.required === false ? ' (optional)' : '';
+      const details = category.requirements.length > 0 ? ` - ${category.requirements.join(', ')}` : '';
+      return `• ${category.category}${extra}: ${formatCurrency(category.budgetAllocation, request.currency)}${details}`;
+    });
+  return [intro, ...categories, `Total budget: ${formatCurrency(request.budget, request.currency)}`].join('\n');
+}
+
+export const POST = withRateLimit('ai-chat', async (request: NextRequest) => {
   try {
     const formData = await request.formData();
     
-    const message = formData.get('message') as string;
-    const setupType = formData.get('setupType') as 'premium' | 'casual';
-    const currency = formData.get('currency') as string;
-    const minBudget = parseInt(formData.get('minBudget') as string);
-    const maxBudget = parseInt(formData.get('maxBudget') as string);
-    
-    // Handle uploaded images
-    const images: File[] = [];
-    let imageIndex = 0;
-    while (formData.get(`image_${imageIndex}`)) {
-      const image = formData.get(`image_${imageIndex}`) as File;
-      images.push(image);
-      imageIndex++;
+    const parsed = AIChatRequestSchema.safeParse({
+      message: formData.get('message') ?? undefined,
+      setupType: formData.get('setupType') || undefined,
+      currency: formData.get('currency') || undefined,
+      minBudget: formData.get('minBudget') || undefined,
+      maxBudget: formData.get('maxBudget') || undefined
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: getValidationMessage(parsed.error) },
+        { status: 400 }
+      );
     }
+    const { message, setupType, currency, minBudget, maxBudget } = parsed.data;
+    
+    const images = collectRoomPhotos(formData);
 
     if (!message && images.length === 0) {
       return NextResponse.json(
@@ -28,48 +49,37 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    let imageAnalysis = '';
-    
-    // Analyze images if provided
-    if (images.length > 0) {
-      try {
-        const imagePromises = images.map(async (image) => {
-          // For now, we'll create a simple analysis prompt
-          // In a full implementation, you'd want to add image analysis capability to the Gemini client
-          return `Reference image uploaded: ${image.name} (${image.type}) - This image will be used to inform the setup recommendations.`;
-        });
-        
-        const analyses = await Promise.all(imagePromises);
-        imageAnalysis = analyses.join('\n\n');
-      } catch (error) {
-        console.error('Image analysis error:', error);
-        imageAnalysis = 'Images uploaded but analysis temporarily unavailable.';
-      }
+    const imageError = validateRoomPhotos(images);
+    if (imageError) {
+      return NextResponse.json({ error: imageError }, { status: 400 });
     }
 
-    // Generate AI response
-    const prompt = `
-User Request: ${message}
-Setup Type: ${setupType}
-Budget: ${minBudget}-${maxBudget} ${currency}
-${imageAnalysis ? `\nImage Analysis:\n${imageAnalysis}` : ''}
+    const { room: roomAnalysis, description: imageAnalysis } = await analyzeRoomPhotos(images, message);
 
-Based on this information, provide helpful recommendations for their setup. Consider their budget, setup type preference, and any visual references provided.
-`;
+    const settings = settingsFromChatRequest(parsed.data);
+    const planRequest: PlanRequest = {
+      query: (message || `${roomAnalysis?.roomType ?? 'room'} setup`).slice(0, 200),
+      budget: settings.budget,
+      style: settings.style,
+      currency: settings.currency,
+      ...(roomAnalysis ? { room: roomAnalysis } : {})
+    };
 
-    const aiResponse = await generatePlan(prompt, setupType, currency, minBudget, maxBudget);
+    const plan = await generatePlan(planRequest);
 
-    return NextResponse.json({
-      response: aiResponse,
-      imageAnalysis: imageAnalysis || null,
+    return NextResponse.json(validateResponse(AIChatResponseSchema, {
+      response: describePlan(plan, planRequest),
+      plan,
+      roomAnalysis,
+      imageAnalysis,
       metadata: {
         setupType,
         currency,
         minBudget,
         maxBudget,
-        imagesAnalyzed: images.length
+        imagesAnalyzed: roomAnalysis ? images.length : 0
       }
-    });
+    }));
 
   } catch (error) {
     console.error('AI Chat API error:', error);
@@ -78,4 +88,4 @@ Based on this information, provide helpful recommendations for their setup. Cons
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSearchProvider } from '@/lib/api/search-provider'
+import { getRequestUserId } from '@/lib/auth-token'
+import { continueChatSession } from '@/lib/chat-session'
+import { getChatSessionStore } from '@/lib/chat-session-store'
+import { handleAPIError } from '@/lib/errors'
+import { ChatTurnRequestSchema, ChatTurnResponseSchema, getValidationMessage, validateResponse } from '@/lib/validation'
+import { withRateLimit } from '@/lib/rate-limit'
+
+// Force Node.js runtime for external SDK compatibility
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Refine the session's setup with a follow-up message ("cheaper chair", "drop the headset"…)
+export const POST = withRateLimit('ai-chat', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) => {
+  try {
+    const { sessionId } = await params
+    const parsed = ChatTurnRequestSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: getValidationMessage(parsed.error) }, { status: 400 })
+    }
+
+    const userId = getRequestUserId(request)
+    const session = await getChatSessionStore().get(userId, sessionId)
+    if (!session) {
+      return NextResponse.json({ error: 'Chat session not found or expired' }, { status: 404 })
+    }
+
+    const turn = await continueChatSession(session, parsed.data.message, {
+      getSearchClient: () => createSearchProvider(),
+      userId
+    })
+
+    return NextResponse.json(validateResponse(ChatTurnResponseSchema, turn))
+
+  } catch (error) {
+    console.error('Chat session error:', error)
+    return handleAPIError(error)
+  }
+})
\ No newline at end of file
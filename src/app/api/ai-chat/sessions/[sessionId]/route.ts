@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUserId } from '@/lib/auth-token'
+import { getChatSessionStore } from '@/lib/chat-session-store'
+import { handleAPIError } from '@/lib/errors'
+import { ChatSessionResponseSchema, MessageResponseSchema, validateResponse } from '@/lib/validation'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params
+
+    // Scoped to the caller, so other users' sessions read as not found
+    const session = await getChatSessionStore().get(getRequestUserId(request), sessionId)
+    if (!session) {
+      return NextResponse.json({ error: 'Chat session not found or expired' }, { status: 404 })
+    }
+
+    return NextResponse.json(validateResponse(ChatSessionResponseSchema, { session }))
+
+  } catch (error) {
+    console.error('Error loading chat session:', error)
+    return handleAPIError(error)
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params
+
+    const deleted = await getChatSessionStore().delete(getRequestUserId(request), sessionId)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Chat session not found or expired' }, { status: 404 })
+    }
+
+    return NextResponse.json(validateResponse(MessageResponseSchema, {
+      success: true,
+      message: 'Chat session deleted successfully'
+    }))
+
+  } catch (error) {
+    console.error('Error deleting chat session:', error)
+    return handleAPIError(error)
+  }
+}
\ No newline at end of file
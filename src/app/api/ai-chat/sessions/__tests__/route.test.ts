@@ -0,0 +1,106 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST as createSession } from '../route'
+import { GET as getSession } from '../[sessionId]/route'
+import { POST as sendMessage } from '../[sessionId]/messages/route'
+import { runBuildPipeline } from '@/lib/build-pipeline'
+import { findAlternatives } from '@/lib/swap-pipeline'
+import { interpretRefinement } from '@/lib/api/gemini'
+import { createMemoryChatSessionStore, setChatSessionStore } from '@/lib/chat-session-store'
+import type { Product } from '@/types'
+import type { BuildResponse } from '@/types/api'
+
+vi.mock('@/lib/build-pipeline', () => ({ runBuildPipeline: vi.fn() }))
+vi.mock('@/lib/swap-pipeline', () => ({ findAlternatives: vi.fn() }))
+vi.mock('@/lib/api/gemini')
+vi.mock('@/lib/api/search-provider', () => ({ createSearchProvider: vi.fn() }))
+
+const product = (id: string, category: string, price: number): Product => ({
+  id,
+  title: `${category} ${id}`,
+  price,
+  currency: 'USD',
+  merchant: 'Amazon',
+  rating: 4.5,
+  reviewCount: 100,
+  imageUrl: `https://example.com/${id}.jpg`,
+  productUrl: `https://example.com/${id}`,
+  rationale: 'Good value',
+  category,
+  features: [],
+  pros: [],
+  cons: [],
+  confidence: 0.8,
+  searchRank: 1,
+})
+
+const formRequest = (fields: Record<string, string>) => {
+  const formData = new FormData()
+  for (const [key, value] of Object.entries(fields)) formData.append(key, value)
+  return new NextRequest('http://localhost:3000/api/ai-chat/sessions', { method: 'POST', body: formData })
+}
+
+const jsonRequest = (sessionId: string, body: unknown) =>
+  new NextRequest(`http://localhost:3000/api/ai-chat/sessions/${sessionId}/messages`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+
+const params = (sessionId: string) => ({ params: Promise.resolve({ sessionId }) })
+
+describe('/api/ai-chat/sessions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    setChatSessionStore(createMemoryChatSessionStore())
+    vi.mocked(runBuildPipeline).mockResolvedValue({
+      products: [product('c1', 'Chair', 300), product('h1', 'Headset', 150)]
+    } as BuildResponse)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    setChatSessionStore(null)
+  })
+
+  it('should start a session and refine it with follow-ups', async () => {
+    const created = await createSession(formRequest({ message: 'gaming setup', setupType: 'casual', maxBudget: '800' }))
+    const { session } = await created.json()
+
+    expect(created.status).toBe(200)
+    expect(runBuildPipeline).toHaveBeenCalledWith(
+      { query: 'gaming setup', settings: expect.objectContaining({ budget: 800, style: 'Casual', currency: 'USD' }) },
+      expect.objectContaining({ userId: 'anonymous' })
+    )
+
+    vi.mocked(interpretRefinement).mockResolvedValue({ action: 'cheaper', categories: ['Chair'], constraints: [] })
+    vi.mocked(findAlternatives).mockResolvedValue({ alternatives: [product('c2', 'Chair', 120)], fromCache: false })
+
+    const refined = await sendMessage(jsonRequest(session.id, { message: 'cheaper chair' }), params(session.id))
+    const data = await refined.json()
+
+    expect(refined.status).toBe(200)
+    expect(data.changes).toEqual([expect.objectContaining({ category: 'Chair', kind: 'replaced' })])
+    expect(data.session.products.map((p: { id: string }) => p.id)).toEqual(['c2', 'h1'])
+
+    const loaded = await (await getSession(jsonRequest(session.id, {}), params(session.id))).json()
+    expect(loaded.session.messages).toHaveLength(4)
+    expect(loaded.session.products.map((p: { id: string }) => p.id)).toEqual(['c2', 'h1'])
+  })
+
+  it('should answer 404 for unknown sessions', async () => {
+    const response = await sendMessage(jsonRequest('chat_missing', { message: 'cheaper chair' }), params('chat_missing'))
+
+    expect(response.status).toBe(404)
+  })
+
+  it('should require a message for follow-ups', async () => {
+    const response = await sendMessage(jsonRequest('chat_1', { message: '  ' }), params('chat_1'))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toBe('Message is required')
+  })
+})
\ No newline at end of file
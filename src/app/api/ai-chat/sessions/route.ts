@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSearchProvider } from '@/lib/api/search-provider'
+import { getRequestUserId } from '@/lib/auth-token'
+import { settingsFromChatRequest, startChatSession } from '@/lib/chat-session'
+import { handleAPIError } from '@/lib/errors'
+import { analyzeRoomPhotos, collectRoomPhotos, validateRoomPhotos } from '@/lib/room-photos'
+import { AIChatRequestSchema, ChatTurnResponseSchema, getValidationMessage, validateResponse } from '@/lib/validation'
+import { withRateLimit } from '@/lib/rate-limit'
+
+// Force Node.js runtime for external SDK compatibility
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Start a chat session: same form fields as /api/ai-chat, answered with a built setup
+export const POST = withRateLimit('ai-chat', async (request: NextRequest) => {
+  try {
+    const formData = await request.formData()
+
+    const parsed = AIChatRequestSchema.safeParse({
+      message: formData.get('message') ?? undefined,
+      setupType: formData.get('setupType') || undefined,
+      currency: formData.get('currency') || undefined,
+      minBudget: formData.get('minBudget') || undefined,
+      maxBudget: formData.get('maxBudget') || undefined
+    })
+    if (!parsed.success) {
+      return NextResponse.json({ error: getValidationMessage(parsed.error) }, { status: 400 })
+    }
+
+    const images = collectRoomPhotos(formData)
+    if (!parsed.data.message && images.length === 0) {
+      return NextResponse.json({ error: 'Message or images required' }, { status: 400 })
+    }
+    const imageError = validateRoomPhotos(images)
+    if (imageError) {
+      return NextResponse.json({ error: imageError }, { status: 400 })
+    }
+
+    const { room } = await analyzeRoomPhotos(images, parsed.data.message)
+
+    const turn = await startChatSession(
+      { message: parsed.data.message, settings: settingsFromChatRequest(parsed.data), room },
+      { getSearchClient: () => createSearchProvider(), userId: getRequestUserId(request) }
+    )
+
+    return NextResponse.json(validateResponse(ChatTurnResponseSchema, turn))
+
+  } catch (error) {
+    console.error('Chat session error:', error)
+    return handleAPIError(error)
+  }
+})
\ No newline at end of file
@@ -2,6 +2,8 @@ import { NextRequest } from 'next/server'
 import { POST } from '../route'
 import { generateScene, generateSceneVariations } from '@/lib/api/gemini-image'
 import { getCachedData, setCachedData } from '@/lib/cache'
+import { createMemorySceneAssetStore, setSceneAssetStore } from '@/lib/scene-asset-store'
+import { getSceneCacheKey } from '@/lib/scene-cache'
 
 import { vi } from 'vitest'
 
@@ -381,4 +383,32 @@ describe('/api/ai-scene', () => {
     expect(data.productCount).toBe(1)
     expect(data.metadata.productTitles).toEqual(['Standing Desk Pro'])
   })
+
+  it('should store inline images and return stable image URLs', async () => {
+    const store = createMemorySceneAssetStore()
+    setSceneAssetStore(store)
+    mockGenerateScene.mockResolvedValue({
+      ...mockSceneResponse,
+      imageUrl: `data:image/png;base64,${Buffer.from('png bytes').toString('base64')}`
+    })
+
+    const request = new NextRequest('http://localhost:3000/api/ai-scene', {
+      method: 'POST',
+      body: JSON.stringify(validSceneRequest)
+    })
+
+    const response = await POST(request)
+    const data = await response.json()
+    setSceneAssetStore(null)
+
+    expect(response.headers.get('X-Cache')).toBe('MISS')
+    expect(data.scenes[0].imageUrl).toMatch(/^\/api\/ai-scene\/image\/[a-f0-9]{64}$/)
+    const id = data.scenes[0].imageUrl.split('/').pop()
+    expect(await store.get(id)).toMatchObject({ mimeType: 'image/png' })
+    expect(mockSetCachedData).toHaveBeenCalledWith(
+      getSceneCacheKey(validSceneRequest),
+      expect.objectContaining({ scenes: data.scenes }),
+      expect.any(Number)
+    )
+  })
 })
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { handleAPIError } from '@/lib/errors'
+import { getSceneAssetStore } from '@/lib/scene-asset-store'
+import { isSceneAssetId } from '@/lib/scene-cache'
+
+export const runtime = 'nodejs'
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const asset = isSceneAssetId(id) ? await getSceneAssetStore().get(id) : null
+    if (!asset) {
+      return NextResponse.json({ error: 'Scene image not found or expired' }, { status: 404 })
+    }
+
+    // IDs are content hashes, so a URL always serves the same bytes
+    return new NextResponse(Buffer.from(asset.data, 'base64'), {
+      headers: {
+        'Content-Type': asset.mimeType,
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        ETag: `"${asset.id}"`
+      }
+    })
+
+  } catch (error) {
+    console.error('Error loading scene image:', error)
+    return handleAPIError(error)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from '../[id]/route'
+import { createMemorySceneAssetStore, setSceneAssetStore, type SceneAssetStore } from '@/lib/scene-asset-store'
+import { storeSceneImage } from '@/lib/scene-cache'
+
+const imageBytes = Buffer.from('fake png bytes')
+
+const get = (id: string) => GET(
+  new NextRequest(`http://localhost:3000/api/ai-scene/image/${id}`),
+  { params: Promise.resolve({ id }) }
+)
+
+describe('/api/ai-scene/image/[id]', () => {
+  let store: SceneAssetStore
+
+  beforeEach(() => {
+    store = createMemorySceneAssetStore()
+    setSceneAssetStore(store)
+  })
+
+  afterEach(() => {
+    setSceneAssetStore(null)
+  })
+
+  it('serves a stored image with immutable caching', async () => {
+    const url = await storeSceneImage(`data:image/png;base64,${imageBytes.toString('base64')}`)
+    const id = url.split('/').pop() as string
+
+    const response = await get(id)
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('image/png')
+    expect(response.headers.get('Cache-Control')).toBe('public, max-age=31536000, immutable')
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(imageBytes)
+  })
+
+  it('returns 404 for unknown or malformed IDs', async () => {
+    expect((await get('a'.repeat(64))).status).toBe(404)
+    expect((await get('../secret')).status).toBe(404)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { handleAPIError } from '@/lib/errors'
+import { getSceneJobQueue } from '@/lib/scene-jobs'
+import { getRequestUserId } from '@/lib/auth-token'
+import { SceneJobResponseSchema, validateResponse } from '@/lib/validation'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params
+
+    const job = await getSceneJobQueue()?.get(jobId)
+    if (!job) {
+      return NextResponse.json({ error: 'Scene job not found or expired' }, { status: 404 })
+    }
+
+    return NextResponse.json(validateResponse(SceneJobResponseSchema, { job }))
+
+  } catch (error) {
+    console.error('Error loading scene job:', error)
+    return handleAPIError(error)
+  }
+}
+
+// Cancel the variations still queued or rendering; scenes already finished are kept.
+// Only whoever queued the job can cancel it; to anyone else it reads as not found.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params
+
+    const job = await getSceneJobQueue()?.cancel(jobId, getRequestUserId(request))
+    if (!job) {
+      return NextResponse.json({ error: 'Scene job not found or expired' }, { status: 404 })
+    }
+
+    return NextResponse.json(validateResponse(SceneJobResponseSchema, { job }))
+
+  } catch (error) {
+    console.error('Error cancelling scene job:', error)
+    return handleAPIError(error)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '../route'
+import { GET, DELETE } from '../[jobId]/route'
+import { createMemorySceneJobQueue, setSceneJobQueue } from '@/lib/scene-jobs'
+import { ANONYMOUS_CLIENT_COOKIE, createAnonymousClientCookie } from '@/lib/auth-token'
+import type { Product } from '@/types'
+
+vi.mock('@/lib/cache')
+
+const product: Product = {
+  id: 'desk1',
+  title: 'Standing Desk',
+  price: 400,
+  currency: 'USD',
+  merchant: 'Amazon',
+  rating: 4.5,
+  reviewCount: 100,
+  imageUrl: 'https://example.com/desk.jpg',
+  productUrl: 'https://example.com/desk',
+  rationale: 'Fits the setup',
+  features: [],
+  pros: [],
+  cons: [],
+  confidence: 0.9,
+  searchRank: 1,
+}
+
+const client = createAnonymousClientCookie()
+const otherClient = createAnonymousClientCookie()
+
+const post = (body: unknown) => POST(new NextRequest('http://localhost:3000/api/ai-scene/jobs', {
+  method: 'POST',
+  headers: { Cookie: `${ANONYMOUS_CLIENT_COOKIE}=${client}` },
+  body: JSON.stringify(body),
+}))
+
+const params = (jobId: string) => ({ params: Promise.resolve({ jobId }) })
+const jobRequest = (jobId: string, method = 'GET', clientCookie = client) =>
+  new NextRequest(`http://localhost:3000/api/ai-scene/jobs/${jobId}`, {
+    method,
+    headers: { Cookie: `${ANONYMOUS_CLIENT_COOKIE}=${clientCookie}` },
+  })
+
+describe('/api/ai-scene/jobs', () => {
+  let finishRender: () => void
+
+  beforeEach(() => {
+    setSceneJobQueue(createMemorySceneJobQueue({
+      render: async (request, variation) => {
+        await new Promise<void>(resolve => { finishRender = resolve })
+        return { imageUrl: `https://example.com/scene-${variation}.jpg`, prompt: 'p', style: request.style }
+      },
+      variationDelayMs: 0,
+    }))
+  })
+
+  afterEach(() => {
+    setSceneJobQueue(null)
+  })
+
+  it('queues a job and reports its progress', async () => {
+    const response = await post({ products: [product], style: 'Modern', variations: 2 })
+    const { job } = await response.json()
+
+    expect(response.status).toBe(202)
+    expect(response.headers.get('Location')).toBe(`/api/ai-scene/jobs/${job.id}`)
+    expect(job).toMatchObject({ status: 'queued', variationCount: 2, result: null })
+
+    finishRender()
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    const progress = await (await GET(jobRequest(job.id), params(job.id))).json()
+    expect(progress.job.status).toBe('running')
+    expect(progress.job.variations.map((variation: { status: string }) => variation.status))
+      .toEqual(['completed', 'running'])
+  })
+
+  it('cancels a job', async () => {
+    const { job } = await (await post({ products: [product], style: 'Cozy' })).json()
+
+    // Someone else holding the job ID can't cancel it
+    expect((await DELETE(jobRequest(job.id, 'DELETE', otherClient), params(job.id))).status).toBe(404)
+
+    const response = await DELETE(jobRequest(job.id, 'DELETE'), params(job.id))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.job.status).toBe('cancelled')
+  })
+
+  it('answers 501 when no queue is configured', async () => {
+    setSceneJobQueue(null)
+    vi.stubEnv('SCENE_JOB_QUEUE', '')
+
+    const response = await post({ products: [product], style: 'Modern' })
+
+    expect(response.status).toBe(501)
+    expect((await response.json()).type).toBe('SCENE_JOBS_DISABLED')
+    expect((await GET(jobRequest('scene_missing'), params('scene_missing'))).status).toBe(404)
+    vi.unstubAllEnvs()
+  })
+
+  it('rejects invalid requests and unknown jobs', async () => {
+    const invalid = await post({ products: [product], style: 'Modern', variations: 9 })
+    expect(invalid.status).toBe(400)
+
+    expect((await GET(jobRequest('scene_missing'), params('scene_missing'))).status).toBe(404)
+    expect((await DELETE(jobRequest('scene_missing', 'DELETE'), params('scene_missing'))).status).toBe(404)
+  })
+})
\ No newline at end of file
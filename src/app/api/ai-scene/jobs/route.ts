@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { handleAPIError } from '@/lib/errors'
+import { getSceneJobQueue } from '@/lib/scene-jobs'
+import { getRequestUserId } from '@/lib/auth-token'
+import { SceneJobRequestSchema, SceneJobResponseSchema, getValidationMessage, validateResponse } from '@/lib/validation'
+import { withRateLimit } from '@/lib/rate-limit'
+
+// Force Node.js runtime for external SDK compatibility
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Queue scene generation and return at once; poll GET /api/ai-scene/jobs/{jobId} for progress.
+// Without a queue (SCENE_JOB_QUEUE unset) answers 501, and clients render with POST /api/ai-scene.
+export const POST = withRateLimit('ai-scene', async (request: NextRequest) => {
+  try {
+    const queue = getSceneJobQueue()
+    if (!queue) {
+      return NextResponse.json(
+        { error: 'Scene jobs are not enabled on this server', type: 'SCENE_JOBS_DISABLED' },
+        { status: 501 }
+      )
+    }
+
+    const parsed = SceneJobRequestSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: getValidationMessage(parsed.error) }, { status: 400 })
+    }
+
+    const { variations, ...sceneRequest } = parsed.data
+    const job = await queue.enqueue(sceneRequest, variations, getRequestUserId(request))
+
+    return NextResponse.json(validateResponse(SceneJobResponseSchema, { job }), {
+      status: 202,
+      headers: { Location: `/api/ai-scene/jobs/${job.id}` }
+    })
+
+  } catch (error) {
+    console.error('Error queueing scene job:', error)
+    return handleAPIError(error)
+  }
+})
\ No newline at end of file
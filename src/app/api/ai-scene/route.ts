@@ -1,13 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { SceneRequestSchema } from '@/lib/validation'
+import { SceneRequestSchema, SceneGenerationResponseSchema, validateResponse } from '@/lib/validation'
 import { generateScene, generateSceneVariations } from '@/lib/api/gemini-image'
 import { ValidationError, handleZodError } from '@/lib/errors'
+import { getCachedData, setCachedData } from '@/lib/cache'
+import { TTL } from '@/lib/redis'
+import {
+  buildSceneGenerationResponse,
+  generateSceneOnce,
+  getSceneCacheKey,
+  persistSceneImages
+} from '@/lib/scene-cache'
+import { SceneGenerationResponse, SceneRequest } from '@/types/api'
+import { withRateLimit } from '@/lib/rate-limit'
 
 // Force Node.js runtime for external SDK compatibility
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit('ai-scene', async (request: NextRequest) => {
   try {
     // Parse and validate request body
     const body = await request.json()
@@ -18,50 +28,27 @@ export async function POST(request: NextRequest) {
     const variationsParam = url.searchParams.get('variations')
     const variationCount = variationsParam ? Math.min(parseInt(variationsParam), 5) : 1
 
-    // For now, generate scenes directly without caching
-    // TODO: Implement proper caching for scene responses
-
-    // Generate scene(s) using Gemini Image API
-    let sceneResponse
-    
-    if (variationCount > 1) {
-      // Generate multiple variations
-      const variations = await generateSceneVariations(validatedRequest, variationCount)
-      sceneResponse = {
-        scenes: variations,
-        count: variations.length,
-        style: validatedRequest.style,
-        productCount: validatedRequest.products.length
-      }
-    } else {
-      // Generate single scene
-      const scene = await generateScene(validatedRequest)
-      sceneResponse = {
-        scenes: [scene],
-        count: 1,
-        style: validatedRequest.style,
-        productCount: validatedRequest.products.length
-      }
-    }
-
-    // Add metadata
-    const finalResponse = {
-      ...sceneResponse,
-      metadata: {
-        generatedAt: new Date().toISOString(),
-        style: validatedRequest.style,
-        roomType: validatedRequest.roomType || 'inferred',
-        productTitles: validatedRequest.products.slice(0, 3).map(p => p.title),
-        estimatedGenerationTime: estimateGenerationTime(
-          validatedRequest.products.length, 
-          variationCount
-        )
-      }
+    // Scenes are the slowest and most expensive call, so identical requests
+    // reuse the images generated the first time
+    const cacheKey = getSceneCacheKey(validatedRequest, variationCount)
+    const cachedResponse = await getCachedData<SceneGenerationResponse>(cacheKey)
+    if (cachedResponse) {
+      return NextResponse.json(
+        validateResponse(SceneGenerationResponseSchema, cachedResponse),
+        { headers: { 'X-Cache': 'HIT' } }
+      )
     }
 
-    // TODO: Cache the response
+    const finalResponse = await generateSceneOnce(cacheKey, async () => {
+      const sceneResponse = await generateSceneResponse(validatedRequest, variationCount)
+      await setCachedData(cacheKey, sceneResponse, TTL.SCENE_CACHE)
+      return sceneResponse
+    })
 
-    return NextResponse.json(finalResponse)
+    return NextResponse.json(
+      validateResponse(SceneGenerationResponseSchema, finalResponse),
+      { headers: { 'X-Cache': 'MISS' } }
+    )
   } catch (error) {
     console.error('AI Scene API error:', error)
     
@@ -82,15 +69,19 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
- * Estimate scene generation time
+ * Generate scene(s) with the Gemini Image API. Inline images are moved to the
+ * asset store so responses carry stable /api/ai-scene/image URLs.
  */
-function estimateGenerationTime(productCount: number, variationCount: number = 1): number {
-  const baseTime = 30 // seconds
-  const timePerProduct = 5 // seconds
-  const timePerVariation = 20 // seconds
-  
-  return baseTime + (productCount * timePerProduct) + ((variationCount - 1) * timePerVariation)
+async function generateSceneResponse(
+  request: SceneRequest,
+  variationCount: number
+): Promise<SceneGenerationResponse> {
+  const scenes = variationCount > 1
+    ? await generateSceneVariations(request, variationCount)
+    : [await generateScene(request)]
+
+  return buildSceneGenerationResponse(request, await persistSceneImages(scenes), variationCount)
 }
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { trackEvent } from '@/lib/analytics'
+import { getRequestUserId } from '@/lib/auth-token'
+import {
+  MessageResponseSchema,
+  ProductClickEventRequestSchema,
+  getValidationMessage,
+  validateResponse
+} from '@/lib/validation'
+
+// Product clicks happen in the browser, so the client reports them here;
+// every other event is recorded by the route that handles it
+export async function POST(request: NextRequest) {
+  const parsed = ProductClickEventRequestSchema.safeParse(await request.json().catch(() => ({})))
+  if (!parsed.success) {
+    return NextResponse.json({ error: getValidationMessage(parsed.error) }, { status: 400 })
+  }
+
+  const { searchId, product } = parsed.data
+  await trackEvent('product_click', getRequestUserId(request), { searchId, products: [product] })
+
+  return NextResponse.json(
+    validateResponse(MessageResponseSchema, { success: true, message: 'Event recorded' }),
+    { status: 202 }
+  )
+}
\ No newline at end of file
@@ -1,24 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { users } from '@/lib/storage'
+import { getUserRepository } from '@/lib/user-repository'
+import { getVerificationCodeStore } from '@/lib/verification-codes'
 import { sendOTPEmail } from '@/lib/email'
+import { createLogger } from '@/lib/logger'
+import { AuthMessageResponseSchema, ResetPasswordRequestSchema, getValidationMessage, validateResponse } from '@/lib/validation'
 
-// In-memory storage for reset OTPs
-const resetOtpStorage: Map<string, { otp: string; expiresAt: Date }> = new Map()
+const log = createLogger('auth')
 
 export async function POST(request: NextRequest) {
   try {
-    const { email } = await request.json()
-
     // Validate input
-    if (!email) {
+    const parsed = ResetPasswordRequestSchema.safeParse(await request.json())
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'Email is required' },
+        { error: getValidationMessage(parsed.error) },
         { status: 400 }
       )
     }
+    const { email } = parsed.data
 
     // Check if user exists
-    const existingUser = users.find(u => u.email === email)
+    const existingUser = await getUserRepository().findByEmail(email)
     if (!existingUser) {
       return NextResponse.json(
         { error: 'No account found with this email address' },
@@ -26,49 +28,41 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Generate reset OTP
-    const otp = Math.floor(100000 + Math.random() * 900000).toString()
-    const expiresAt = new Date(Date.now() + 10 * 60 * 1000) // 10 minutes
-
-    // Store reset OTP
-    resetOtpStorage.set(email, { otp, expiresAt })
+    // Generate and store reset OTP (expires after 10 minutes)
+    const { otp } = await getVerificationCodeStore().issue('password-reset', email)
 
     // Send reset OTP email
     try {
       await sendOTPEmail(email, otp, existingUser.name)
-      console.log(`✅ Password reset OTP sent to ${email}`)
+      log.info('Password reset email sent')
       
       return NextResponse.json(
-        { 
+        validateResponse(AuthMessageResponseSchema, {
           message: 'Password reset code sent to your email',
           success: true
-        },
+        }),
         { status: 200 }
       )
     } catch (emailError: any) {
-      console.error('Failed to send reset OTP email:', emailError)
-      
+      // Never log the code itself: anyone who can read the logs could reset the password
+      log.error('Failed to send password reset email', { error: emailError })
+
       // Fallback: return OTP in response for development
-      console.log(`🔐 Email failed, reset OTP for ${email}: ${otp}`)
-      
       return NextResponse.json(
-        { 
+        validateResponse(AuthMessageResponseSchema, {
           message: 'Password reset code generated (email delivery failed)',
           otp: otp, // Fallback for development
           emailError: true
-        },
+        }),
         { status: 200 }
       )
     }
 
   } catch (error) {
-    console.error('Password reset error:', error)
+    log.error('Password reset failed', { error })
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     )
   }
-}
-
-// Export the reset OTP storage for use in other routes
-export { resetOtpStorage }
\ No newline at end of file
+}
\ No newline at end of file
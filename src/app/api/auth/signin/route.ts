@@ -1,25 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
 import bcrypt from 'bcryptjs'
-import jwt from 'jsonwebtoken'
-import { SignInData } from '@/types/auth'
-import { users } from '@/lib/storage'
-
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'
+import { SignInRequestSchema, AuthSessionResponseSchema, getValidationMessage, validateResponse } from '@/lib/validation'
+import { getUserRepository, toPublicUser } from '@/lib/user-repository'
+import { createAuthToken } from '@/lib/auth-token'
 
 export async function POST(request: NextRequest) {
   try {
-    const { email, password }: SignInData = await request.json()
-
     // Validate input
-    if (!email || !password) {
+    const parsed = SignInRequestSchema.safeParse(await request.json())
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'Email and password are required' },
+        { error: getValidationMessage(parsed.error) },
         { status: 400 }
       )
     }
+    const { email, password } = parsed.data
 
     // Find user
-    const user = users.find(u => u.email === email)
+    const user = await getUserRepository().findByEmail(email)
     if (!user) {
       return NextResponse.json(
         { error: 'Invalid email or password' },
@@ -45,27 +43,17 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id, email: user.email },
-      JWT_SECRET,
-      { expiresIn: '7d' }
-    )
+    const token = createAuthToken({ userId: user.id, email: user.email })
 
     // Return user data (without password)
-    const userResponse = {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      createdAt: user.createdAt,
-      isVerified: user.isVerified
-    }
+    const userResponse = toPublicUser(user)
 
     return NextResponse.json(
-      { 
+      validateResponse(AuthSessionResponseSchema, {
         message: 'Sign in successful',
         user: userResponse,
-        token 
-      },
+        token
+      }),
       { status: 200 }
     )
 
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST as signup } from '../route'
+import { POST as verifyOtp } from '../../verify-otp/route'
+import { POST as signin } from '../../signin/route'
+import { sendOTPEmail } from '@/lib/email'
+import { createMemoryUserRepository, setUserRepository, UserRepository } from '@/lib/user-repository'
+import {
+  createMemoryVerificationCodeStore,
+  setVerificationCodeStore,
+  VerificationCodeStore
+} from '@/lib/verification-codes'
+
+vi.mock('@/lib/email', () => ({
+  sendOTPEmail: vi.fn()
+}))
+
+const mockSendOTPEmail = vi.mocked(sendOTPEmail)
+
+const mockRequest = (path: string, body: any) => {
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body)
+  })
+}
+
+describe('/api/auth/signup', () => {
+  let users: UserRepository
+  let codes: VerificationCodeStore
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockSendOTPEmail.mockResolvedValue(undefined as any)
+    users = createMemoryUserRepository()
+    codes = createMemoryVerificationCodeStore()
+    setUserRepository(users)
+    setVerificationCodeStore(codes)
+  })
+
+  afterEach(() => {
+    setUserRepository(null)
+    setVerificationCodeStore(null)
+    vi.restoreAllMocks()
+  })
+
+  const signupData = { name: 'Alice', email: 'alice@example.com', password: 'secret123' }
+
+  it('should create an unverified account and email a code', async () => {
+    const response = await signup(mockRequest('/api/auth/signup', signupData))
+
+    expect(response.status).toBe(200)
+    const user = await users.findByEmail('alice@example.com')
+    expect(user?.isVerified).toBe(false)
+    expect(user?.password).not.toBe('secret123')
+
+    const code = await codes.get('signup', 'alice@example.com')
+    expect(mockSendOTPEmail).toHaveBeenCalledWith('alice@example.com', code?.otp, 'Alice')
+  })
+
+  it('should not log the code when the email fails to send', async () => {
+    const logged: string[] = []
+    const capture = (...args: unknown[]) => { logged.push(args.map(String).join(' ')) }
+    vi.spyOn(console, 'log').mockImplementation(capture)
+    vi.spyOn(console, 'warn').mockImplementation(capture)
+    vi.spyOn(console, 'error').mockImplementation(capture)
+    mockSendOTPEmail.mockRejectedValue(new Error('Gmail credentials not configured'))
+
+    const response = await signup(mockRequest('/api/auth/signup', signupData))
+
+    expect(response.status).toBe(200)
+    const { otp } = (await codes.get('signup', 'alice@example.com'))!
+    expect(logged.some(line => line.includes('Failed to send verification email'))).toBe(true)
+    expect(logged.join('\n')).not.toContain(otp)
+  })
+
+  it('should complete signup, verification and sign in', async () => {
+    await signup(mockRequest('/api/auth/signup', signupData))
+
+    const unverified = await signin(mockRequest('/api/auth/signin', { email: 'alice@example.com', password: 'secret123' }))
+    expect(unverified.status).toBe(401)
+
+    const wrongCode = await verifyOtp(mockRequest('/api/auth/verify-otp', { email: 'alice@example.com', otp: '000000x' }))
+    expect(wrongCode.status).toBe(400)
+
+    const { otp } = (await codes.get('signup', 'alice@example.com'))!
+    const verified = await verifyOtp(mockRequest('/api/auth/verify-otp', { email: 'alice@example.com', otp }))
+    const verifiedData = await verified.json()
+    expect(verified.status).toBe(200)
+    expect(verifiedData.user).toMatchObject({ email: 'alice@example.com', isVerified: true })
+    expect(verifiedData.user).not.toHaveProperty('password')
+    expect(await codes.get('signup', 'alice@example.com')).toBeNull()
+
+    const signedIn = await signin(mockRequest('/api/auth/signin', { email: 'alice@example.com', password: 'secret123' }))
+    const signedInData = await signedIn.json()
+    expect(signedIn.status).toBe(200)
+    expect(signedInData.token).toEqual(expect.any(String))
+  })
+
+  it('should reject signups for verified accounts', async () => {
+    await users.create({ name: 'Alice', email: 'alice@example.com', password: 'hash', isVerified: true })
+
+    const response = await signup(mockRequest('/api/auth/signup', signupData))
+
+    expect(response.status).toBe(400)
+    expect(mockSendOTPEmail).not.toHaveBeenCalled()
+  })
+
+  it('should replace a pending unverified account', async () => {
+    const pending = await users.create({ name: 'Old', email: 'alice@example.com', password: 'hash' })
+
+    const response = await signup(mockRequest('/api/auth/signup', signupData))
+
+    expect(response.status).toBe(200)
+    const user = await users.findByEmail('alice@example.com')
+    expect(user?.id).not.toBe(pending.id)
+    expect(user?.name).toBe('Alice')
+  })
+
+  it('should let only one of two concurrent signups create the account', async () => {
+    const responses = await Promise.all([
+      signup(mockRequest('/api/auth/signup', signupData)),
+      signup(mockRequest('/api/auth/signup', { ...signupData, name: 'Alice 2' }))
+    ])
+
+    expect(responses.map(r => r.status).sort()).toEqual([200, 400])
+  })
+})
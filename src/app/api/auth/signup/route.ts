@@ -1,103 +1,110 @@
 import { NextRequest, NextResponse } from 'next/server'
 import bcrypt from 'bcryptjs'
-import jwt from 'jsonwebtoken'
-import { SignUpData } from '@/types/auth'
+import {
+  AuthMessageResponseSchema,
+  SignUpRequestSchema,
+  getValidationMessage,
+  validateResponse
+} from '@/lib/validation'
 import { sendOTPEmail } from '@/lib/email'
-import { users, otpStorage } from '@/lib/storage'
+import { getUserRepository } from '@/lib/user-repository'
+import { getVerificationCodeStore } from '@/lib/verification-codes'
+import { ValidationError } from '@/lib/errors'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('auth')
 
 // EmailJS now handled client-side
 
 export async function POST(request: NextRequest) {
   try {
-    const { name, email, password }: SignUpData = await request.json()
-
     // Validate input
-    if (!name || !email || !password) {
+    const parsed = SignUpRequestSchema.safeParse(await request.json())
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'All fields are required' },
+        { error: getValidationMessage(parsed.error) },
         { status: 400 }
       )
     }
+    const { name, email, password } = parsed.data
 
-    if (password.length < 6) {
-      return NextResponse.json(
-        { error: 'Password must be at least 6 characters' },
-        { status: 400 }
-      )
-    }
+    const userRepository = getUserRepository()
 
     // Check if user already exists
-    const existingUser = users.find(u => u.email === email)
-    if (existingUser) {
+    const existingUser = await userRepository.findByEmail(email)
+    if (existingUser?.isVerified) {
       return NextResponse.json(
         { error: 'User already exists with this email' },
         { status: 400 }
       )
     }
 
-    // Generate OTP
-    const otp = Math.floor(100000 + Math.random() * 900000).toString()
-    const expiresAt = new Date(Date.now() + 10 * 60 * 1000) // 10 minutes
+    // Signing up again before verifying replaces the pending account
+    if (existingUser) {
+      await userRepository.delete(email)
+    }
 
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 12)
 
-    // Store OTP and user data temporarily
-    otpStorage.set(email, {
-      otp,
-      expiresAt,
-      userData: {
-        name,
-        email,
-        password: hashedPassword
+    // Create the unverified account; the email is claimed atomically
+    try {
+      await userRepository.create({ name, email, password: hashedPassword, isVerified: false })
+    } catch (error) {
+      if (error instanceof ValidationError && error.code === 'USER_EXISTS') {
+        return NextResponse.json(
+          { error: 'User already exists with this email' },
+          { status: 400 }
+        )
       }
-    })
+      throw error
+    }
+
+    // Generate OTP (expires after 10 minutes)
+    const { otp } = await getVerificationCodeStore().issue('signup', email)
 
     // Send OTP email
     try {
       await sendOTPEmail(email, otp, name)
-      console.log(`✅ OTP email sent to ${email}`)
+      log.info('Verification email sent')
       
       return NextResponse.json(
-        { 
+        validateResponse(AuthMessageResponseSchema, {
           message: 'Account created! Please check your email for the verification code.',
           success: true
-        },
+        }),
         { status: 200 }
       )
     } catch (emailError: any) {
-      console.error('Failed to send OTP email:', emailError)
+      // Never log the code itself: anyone who can read the logs could verify the account
+      log.error('Failed to send verification email', { error: emailError })
       
       // Check if it's a configuration error
       if (emailError.message?.includes('Gmail credentials not configured')) {
-        console.log(`🔐 Gmail not configured - OTP for ${email}: ${otp}`)
-        
         return NextResponse.json(
-          { 
-            message: 'Account created! Gmail not configured - check console for OTP.',
+          validateResponse(AuthMessageResponseSchema, {
+            message: 'Account created! Gmail not configured - your OTP is provided below.',
             otp: otp, // Show OTP for development
             configError: true,
             configInfo: 'Please configure Gmail credentials in your .env.local file.'
-          },
+          }),
           { status: 200 }
         )
       }
       
       // Other email errors - fallback
-      console.log(`🔐 Email failed, OTP for ${email}: ${otp}`)
-      
       return NextResponse.json(
-        { 
+        validateResponse(AuthMessageResponseSchema, {
           message: 'Account created, but email delivery failed. Your OTP is provided below.',
           otp: otp, // Fallback for development
           emailError: true
-        },
+        }),
         { status: 200 }
       )
     }
 
   } catch (error) {
-    console.error('Signup error:', error)
+    log.error('Signup failed', { error })
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -1,29 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
 import bcrypt from 'bcryptjs'
-import { users } from '@/lib/storage'
-import { resetOtpStorage } from '../reset-password/route'
+import { getUserRepository } from '@/lib/user-repository'
+import { getVerificationCodeStore } from '@/lib/verification-codes'
+import { AuthMessageResponseSchema, UpdatePasswordRequestSchema, getValidationMessage, validateResponse } from '@/lib/validation'
 
 export async function POST(request: NextRequest) {
   try {
-    const { email, otp, newPassword } = await request.json()
-
     // Validate input
-    if (!email || !otp || !newPassword) {
-      return NextResponse.json(
-        { error: 'Email, OTP, and new password are required' },
-        { status: 400 }
-      )
-    }
-
-    if (newPassword.length < 6) {
+    const parsed = UpdatePasswordRequestSchema.safeParse(await request.json())
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'Password must be at least 6 characters' },
+        { error: getValidationMessage(parsed.error) },
         { status: 400 }
       )
     }
+    const { email, otp, newPassword } = parsed.data
 
-    // Check if reset OTP exists and is valid
-    const resetData = resetOtpStorage.get(email)
+    // Check if reset OTP exists and is valid (expired codes are treated as missing)
+    const codeStore = getVerificationCodeStore()
+    const resetData = await codeStore.get('password-reset', email)
     if (!resetData) {
       return NextResponse.json(
         { error: 'No reset request found for this email' },
@@ -31,15 +26,6 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if OTP has expired
-    if (new Date() > resetData.expiresAt) {
-      resetOtpStorage.delete(email)
-      return NextResponse.json(
-        { error: 'Reset code has expired. Please request a new one.' },
-        { status: 400 }
-      )
-    }
-
     // Verify OTP
     if (resetData.otp !== otp) {
       return NextResponse.json(
@@ -48,29 +34,26 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Find user
-    const userIndex = users.findIndex(u => u.email === email)
-    if (userIndex === -1) {
+    // Hash new password
+    const hashedPassword = await bcrypt.hash(newPassword, 12)
+
+    // Update user password
+    const updated = await getUserRepository().updatePassword(email, hashedPassword)
+    if (!updated) {
       return NextResponse.json(
         { error: 'User not found' },
         { status: 404 }
       )
     }
 
-    // Hash new password
-    const hashedPassword = await bcrypt.hash(newPassword, 12)
-
-    // Update user password
-    users[userIndex].password = hashedPassword
-
     // Clean up reset OTP
-    resetOtpStorage.delete(email)
+    await codeStore.delete('password-reset', email)
 
     return NextResponse.json(
-      { 
+      validateResponse(AuthMessageResponseSchema, {
         message: 'Password updated successfully',
         success: true
-      },
+      }),
       { status: 200 }
     )
 
@@ -1,27 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server'
-import jwt from 'jsonwebtoken'
-import { OTPVerificationData } from '@/types/auth'
-import { users, otpStorage } from '@/lib/storage'
+import { getUserRepository, toPublicUser } from '@/lib/user-repository'
+import { createAuthToken } from '@/lib/auth-token'
+import { getVerificationCodeStore } from '@/lib/verification-codes'
+import { AuthSessionResponseSchema, OTPVerificationRequestSchema, getValidationMessage, validateResponse } from '@/lib/validation'
+import { createLogger } from '@/lib/logger'
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'
+const log = createLogger('auth')
 
 export async function POST(request: NextRequest) {
   try {
-    const { email, otp }: OTPVerificationData = await request.json()
-
     // Validate input
-    if (!email || !otp) {
+    const parsed = OTPVerificationRequestSchema.safeParse(await request.json())
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'Email and OTP are required' },
+        { error: getValidationMessage(parsed.error) },
         { status: 400 }
       )
     }
+    const { email, otp } = parsed.data
 
-    // Get OTP data
-    const otpData = otpStorage.get(email)
-    console.log(`🔍 Looking for OTP for email: ${email}`)
-    console.log(`🔍 OTP Storage has ${otpStorage.size} entries`)
-    console.log(`🔍 Found OTP data:`, otpData ? 'Yes' : 'No')
+    // Get OTP data (expired codes are treated as missing)
+    const codeStore = getVerificationCodeStore()
+    const otpData = await codeStore.get('signup', email)
+    // No email or code in the log: they would identify and verify the account
+    log.debug('Verification code lookup', { found: Boolean(otpData) })
     
     if (!otpData) {
       return NextResponse.json(
@@ -30,17 +32,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if OTP is expired
-    if (new Date() > otpData.expiresAt) {
-      otpStorage.delete(email)
-      return NextResponse.json(
-        { error: 'OTP has expired' },
-        { status: 400 }
-      )
-    }
-
     // Verify OTP
-    console.log(`🔍 Comparing OTPs - Stored: ${otpData.otp}, Provided: ${otp}`)
     if (otpData.otp !== otp) {
       return NextResponse.json(
         { error: 'Invalid OTP' },
@@ -48,49 +40,35 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Create user
-    const userId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    const newUser = {
-      id: userId,
-      email: otpData.userData.email,
-      name: otpData.userData.name,
-      password: otpData.userData.password,
-      isVerified: true,
-      createdAt: new Date()
+    // Mark the account created at signup as verified
+    const verifiedUser = await getUserRepository().verify(email)
+    if (!verifiedUser) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      )
     }
 
-    users.push(newUser)
-
     // Clean up OTP
-    otpStorage.delete(email)
+    await codeStore.delete('signup', email)
 
     // Generate JWT token
-    const token = jwt.sign(
-      { userId: newUser.id, email: newUser.email },
-      JWT_SECRET,
-      { expiresIn: '7d' }
-    )
+    const token = createAuthToken({ userId: verifiedUser.id, email: verifiedUser.email })
 
     // Return user data (without password)
-    const userResponse = {
-      id: newUser.id,
-      email: newUser.email,
-      name: newUser.name,
-      createdAt: newUser.createdAt,
-      isVerified: newUser.isVerified
-    }
+    const userResponse = toPublicUser(verifiedUser)
 
     return NextResponse.json(
-      { 
+      validateResponse(AuthSessionResponseSchema, {
         message: 'Email verified successfully',
         user: userResponse,
-        token 
-      },
+        token
+      }),
       { status: 200 }
     )
 
   } catch (error) {
-    console.error('OTP verification error:', error)
+    log.error('Verification failed', { error })
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -1,20 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { resetOtpStorage } from '../reset-password/route'
+import { getVerificationCodeStore } from '@/lib/verification-codes'
+import { AuthMessageResponseSchema, OTPVerificationRequestSchema, getValidationMessage, validateResponse } from '@/lib/validation'
 
 export async function POST(request: NextRequest) {
   try {
-    const { email, otp } = await request.json()
-
     // Validate input
-    if (!email || !otp) {
+    const parsed = OTPVerificationRequestSchema.safeParse(await request.json())
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'Email and OTP are required' },
+        { error: getValidationMessage(parsed.error) },
         { status: 400 }
       )
     }
+    const { email, otp } = parsed.data
 
-    // Check if reset OTP exists and is valid
-    const resetData = resetOtpStorage.get(email)
+    // Check if reset OTP exists and is valid (expired codes are treated as missing)
+    const resetData = await getVerificationCodeStore().get('password-reset', email)
     if (!resetData) {
       return NextResponse.json(
         { error: 'No reset request found for this email' },
@@ -22,15 +23,6 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if OTP has expired
-    if (new Date() > resetData.expiresAt) {
-      resetOtpStorage.delete(email)
-      return NextResponse.json(
-        { error: 'Reset code has expired. Please request a new one.' },
-        { status: 400 }
-      )
-    }
-
     // Verify OTP
     if (resetData.otp !== otp) {
       return NextResponse.json(
@@ -41,10 +33,10 @@ export async function POST(request: NextRequest) {
 
     // OTP is valid - don't delete it yet, we need it for password update
     return NextResponse.json(
-      { 
+      validateResponse(AuthMessageResponseSchema, {
         message: 'Reset code verified successfully',
         success: true
-      },
+      }),
       { status: 200 }
     )
 
@@ -10,6 +10,7 @@ import { handleZodError } from '@/lib/errors'
 import { getGhostTipsCached } from '@/lib/ghostTips'
 import { getRegionFromCurrency } from '@/lib/currency'
 import { saveSearchResults } from '@/lib/search-cache'
+import { getRequestUserId } from '@/lib/auth-token'
 import {
   PlanRequest,
   BuildResponse
@@ -153,7 +154,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Step 7: Save results to cache
-    const searchId = saveSearchResults(
+    const searchId = await saveSearchResults(
+      getRequestUserId(request),
       validatedRequest.query,
       validatedRequest.settings,
       selectedProducts
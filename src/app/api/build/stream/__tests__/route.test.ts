@@ -0,0 +1,335 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '../route'
+import { generatePlan, selectBestProduct } from '@/lib/api/gemini'
+import { SerpAPIClient } from '@/lib/api/serpapi'
+import { saveSearchResults } from '@/lib/search-cache'
+import { createSSEParser } from '@/lib/sse'
+import { BuildStreamEvent } from '@/types/api'
+
+vi.mock('@/lib/api/gemini')
+vi.mock('@/lib/api/serpapi')
+vi.mock('@/lib/search-cache', () => ({
+  saveSearchResults: vi.fn(() => 'search_test_123')
+}))
+
+const mockGeneratePlan = vi.mocked(generatePlan)
+const mockSelectBestProduct = vi.mocked(selectBestProduct)
+const mockSearchProducts = vi.fn()
+
+const mockRequest = (body: any) => {
+  return new NextRequest('http://localhost:3000/api/build/stream', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body)
+  })
+}
+
+const readEvents = async (response: Response): Promise<BuildStreamEvent[]> => {
+  const parse = createSSEParser<BuildStreamEvent>()
+  return parse(await response.text())
+}
+
+const rawProduct = (id: string, price: number) => ({
+  id,
+  title: `Product ${id}`,
+  url: `https://example.com/${id}`,
+  price,
+  currency: 'USD',
+  merchant: 'Amazon',
+  rating: 4.5,
+  reviewCount: 200,
+  image: `https://example.com/${id}.jpg`
+})
+
+const selected = (id: string, price: number, category: string) => ({
+  id,
+  title: `Product ${id}`,
+  price,
+  currency: 'USD',
+  merchant: 'Amazon',
+  rating: 4.5,
+  reviewCount: 200,
+  imageUrl: `https://example.com/${id}.jpg`,
+  productUrl: `https://example.com/${id}`,
+  rationale: 'Great pick',
+  category,
+  features: [],
+  pros: [],
+  cons: [],
+  confidence: 0.9,
+  searchRank: 1
+})
+
+describe('/api/build/stream', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    process.env.SERPAPI_KEY = 'test-serpapi-key'
+    vi.mocked(SerpAPIClient).mockImplementation(() => ({
+      searchProducts: mockSearchProducts
+    }) as any)
+  })
+
+  const setupRequest = {
+    query: 'gaming setup',
+    settings: {
+      style: 'Premium' as const,
+      budget: 1000,
+      currency: 'USD' as const,
+      amazonOnly: false
+    }
+  }
+
+  const plan = {
+    categories: [
+      { category: 'Monitor', priority: 1, budgetAllocation: 600, searchTerms: ['monitor'], requirements: [] },
+      { category: 'Chair', priority: 2, budgetAllocation: 400, searchTerms: ['chair'], requirements: [] }
+    ],
+    budgetDistribution: [],
+    searchStrategy: { approach: 'setup' as const, categories: ['Monitor', 'Chair'], totalItems: 2 }
+  }
+
+  it('should stream progress events followed by the final build response', async () => {
+    mockGeneratePlan.mockResolvedValue(plan)
+    mockSearchProducts.mockImplementation(async ({ query }: { query: string }) => ({
+      products: [rawProduct(query.toLowerCase(), 300)],
+      totalResults: 1,
+      searchMetadata: { totalResults: 1, searchTime: 10, currency: 'USD', query }
+    }))
+    mockSelectBestProduct.mockImplementation(async (need: any) => selected(need.name.toLowerCase(), 300, need.name))
+
+    const response = await POST(mockRequest(setupRequest))
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream')
+
+    const events = await readEvents(response)
+    const types = events.map(e => e.type)
+
+    expect(types[0]).toBe('plan_ready')
+    expect(types.filter(t => t === 'search_started')).toHaveLength(2)
+    expect(types.filter(t => t === 'search_finished')).toHaveLength(2)
+    expect(types.filter(t => t === 'product_selected')).toHaveLength(2)
+    expect(types[types.length - 1]).toBe('done')
+
+    const planEvent = events[0] as Extract<BuildStreamEvent, { type: 'plan_ready' }>
+    expect(planEvent.needs.map(n => n.name)).toEqual(['Monitor', 'Chair'])
+
+    const done = events[events.length - 1] as Extract<BuildStreamEvent, { type: 'done' }>
+    expect(done.response.products).toHaveLength(2)
+    expect(done.response.searchId).toBe('search_test_123')
+  })
+
+  it('should emit budget_adjusted when selected products exceed the budget', async () => {
+    mockGeneratePlan.mockResolvedValue(plan)
+    // Each fits its allocation, but not both together
+    const prices: Record<string, number> = { monitor: 600, chair: 440 }
+    mockSearchProducts.mockImplementation(async ({ query }: { query: string }) => ({
+      products: [rawProduct(query.toLowerCase(), prices[query.toLowerCase()])],
+      totalResults: 1,
+      searchMetadata: { totalResults: 1, searchTime: 10, currency: 'USD', query }
+    }))
+    mockSelectBestProduct.mockImplementation(async (need: any) =>
+      selected(need.name.toLowerCase(), prices[need.name.toLowerCase()], need.name))
+
+    const response = await POST(mockRequest(setupRequest))
+    const events = await readEvents(response)
+
+    const adjusted = events.find(e => e.type === 'budget_adjusted') as Extract<BuildStreamEvent, { type: 'budget_adjusted' }>
+    expect(adjusted).toBeDefined()
+    expect(adjusted.removedIds).toHaveLength(1)
+    expect(adjusted.totalCost).toBe(600)
+
+    const done = events[events.length - 1] as Extract<BuildStreamEvent, { type: 'done' }>
+    expect(done.response.products).toHaveLength(1)
+  })
+
+  it('should swap in a cheaper candidate rather than drop a category', async () => {
+    mockGeneratePlan.mockResolvedValue(plan)
+    mockSearchProducts.mockImplementation(async ({ query }: { query: string }) => {
+      const id = query.toLowerCase()
+      const products = id === 'monitor'
+        ? [rawProduct('monitor', 650), rawProduct('monitor-budget', 550)]
+        : [rawProduct(id, 400)]
+      return { products, totalResults: products.length, searchMetadata: { totalResults: products.length, searchTime: 10, currency: 'USD', query } }
+    })
+    mockSelectBestProduct.mockImplementation(async (need: any) =>
+      selected(need.name.toLowerCase(), need.name === 'Monitor' ? 650 : 400, need.name))
+
+    const response = await POST(mockRequest(setupRequest))
+    const events = await readEvents(response)
+
+    const adjusted = events.find(e => e.type === 'budget_adjusted') as Extract<BuildStreamEvent, { type: 'budget_adjusted' }>
+    expect(adjusted.removedIds).toEqual(['monitor'])
+    expect(adjusted.totalCost).toBe(950)
+    expect(adjusted.tradeoffs).toEqual([
+      expect.objectContaining({ needKey: 'monitor', kind: 'swapped', replacedId: 'monitor', savings: 100 })
+    ])
+
+    const done = events[events.length - 1] as Extract<BuildStreamEvent, { type: 'done' }>
+    expect(done.response.products.map(p => p.id)).toEqual(['monitor-budget', 'chair'])
+    expect(done.response.tradeoffs?.[0].product?.id).toBe('monitor-budget')
+  })
+
+  it('should compare candidates in the requested currency', async () => {
+    mockGeneratePlan.mockResolvedValue(plan)
+    mockSearchProducts.mockImplementation(async ({ query }: { query: string }) => {
+      const id = query.toLowerCase()
+      // 510 EUR is 600 USD, so both items can't fit a 1000 USD budget
+      const products = id === 'monitor'
+        ? [{ ...rawProduct(id, 510), currency: 'EUR' }]
+        : [rawProduct(id, 440), { ...rawProduct('chair-sek', 100), currency: 'SEK' }]
+      return { products, totalResults: products.length, searchMetadata: { totalResults: products.length, searchTime: 10, currency: 'USD', query } }
+    })
+    mockSelectBestProduct.mockResolvedValue(null)
+
+    const response = await POST(mockRequest(setupRequest))
+    const events = await readEvents(response)
+
+    const done = events[events.length - 1] as Extract<BuildStreamEvent, { type: 'done' }>
+    expect(done.response.products).toHaveLength(1)
+    expect(done.response.products[0]).toMatchObject({
+      id: 'monitor',
+      price: 600,
+      currency: 'USD',
+      originalPrice: 510,
+      originalCurrency: 'EUR'
+    })
+    expect(events.find(e => e.type === 'budget_adjusted')).toBeDefined()
+  })
+
+  it('should report failed searches without aborting the stream', async () => {
+    mockGeneratePlan.mockResolvedValue(plan)
+    mockSearchProducts.mockRejectedValue(new Error('SerpAPI down'))
+
+    const response = await POST(mockRequest(setupRequest))
+    const events = await readEvents(response)
+
+    const finished = events.filter(e => e.type === 'search_finished') as Extract<BuildStreamEvent, { type: 'search_finished' }>[]
+    expect(finished).toHaveLength(2)
+    expect(finished.every(e => e.error === 'SerpAPI down')).toBe(true)
+
+    const done = events[events.length - 1] as Extract<BuildStreamEvent, { type: 'done' }>
+    expect(done.type).toBe('done')
+    expect(done.response.products).toHaveLength(0)
+  })
+
+  it('should not make tracked links for the user\'s own items', async () => {
+    mockGeneratePlan.mockResolvedValue(plan)
+    mockSearchProducts.mockImplementation(async ({ query }: { query: string }) => ({
+      products: [rawProduct(query.toLowerCase(), 300)],
+      totalResults: 1,
+      searchMetadata: { totalResults: 1, searchTime: 10, currency: 'USD', query }
+    }))
+    mockSelectBestProduct.mockResolvedValue(null)
+    const forged = {
+      ...selected('own-lamp', 50, 'Lamp'),
+      productUrl: 'https://phishing.example/login',
+      clickUrl: '/api/go/forged',
+      custom: true
+    }
+
+    const response = await POST(mockRequest({ ...setupRequest, fixedProducts: [forged] }))
+    const events = await readEvents(response)
+
+    const done = events[events.length - 1] as Extract<BuildStreamEvent, { type: 'done' }>
+    expect(done.response.products).toHaveLength(3)
+    const own = done.response.products.find(p => p.id === 'own-lamp')
+    expect(own).toMatchObject({ productUrl: 'https://phishing.example/login' })
+    expect(own?.clickUrl).toBeUndefined()
+    expect(done.response.products.filter(p => p.id !== 'own-lamp').every(p => p.clickUrl?.startsWith('/api/go/'))).toBe(true)
+  })
+
+  it('should build from a template without planning', async () => {
+    mockSearchProducts.mockImplementation(async ({ query }: { query: string }) => ({
+      products: [rawProduct(query.replace(/\s+/g, '-'), 50)],
+      totalResults: 1,
+      searchMetadata: { totalResults: 1, searchTime: 10, currency: 'USD', query }
+    }))
+    mockSelectBestProduct.mockResolvedValue(null)
+
+    const response = await POST(mockRequest({ ...setupRequest, query: 'my office', templateId: 'office' }))
+    const events = await readEvents(response)
+
+    expect(mockGeneratePlan).not.toHaveBeenCalled()
+
+    const planEvent = events[0] as Extract<BuildStreamEvent, { type: 'plan_ready' }>
+    expect(planEvent.isSingleItem).toBe(false)
+    expect(planEvent.needs[0]).toMatchObject({
+      name: 'Premium Business Laptop',
+      targetPrice: 400,
+      searchTerms: ['premium laptop', 'business laptop', 'professional laptop']
+    })
+    // Each category is searched by its first search term
+    expect(mockSearchProducts).toHaveBeenCalledWith(expect.objectContaining({ query: 'premium laptop' }))
+  })
+
+  it('should report an unknown template as an error event', async () => {
+    const response = await POST(mockRequest({ ...setupRequest, templateId: 'template_missing' }))
+    const events = await readEvents(response)
+
+    expect(events).toHaveLength(1)
+    expect(events[0]).toMatchObject({ type: 'error', error: { code: 'TEMPLATE_NOT_FOUND' } })
+    expect(mockGeneratePlan).not.toHaveBeenCalled()
+  })
+
+  it('should send an error event when the final response fails validation', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockGeneratePlan.mockResolvedValue(plan)
+    mockSearchProducts.mockImplementation(async ({ query }: { query: string }) => ({
+      products: [rawProduct(query.toLowerCase(), 300)],
+      totalResults: 1,
+      searchMetadata: { totalResults: 1, searchTime: 10, currency: 'USD', query }
+    }))
+    mockSelectBestProduct.mockResolvedValue(null)
+    vi.mocked(saveSearchResults).mockResolvedValueOnce(42 as any)
+
+    const response = await POST(mockRequest(setupRequest))
+    const events = await readEvents(response)
+
+    expect(events.some(e => e.type === 'done')).toBe(false)
+    expect(events[events.length - 1]).toMatchObject({ type: 'error', error: { code: 'INVALID_RESPONSE' } })
+  })
+
+  it('should stop the build when the client cancels the stream', async () => {
+    mockGeneratePlan.mockResolvedValue(plan)
+    let finishSearches = () => {}
+    const searchesFinished = new Promise<void>(resolve => { finishSearches = resolve })
+    mockSearchProducts.mockImplementation(async ({ query }: { query: string }) => {
+      await searchesFinished
+      return {
+        products: [rawProduct(query.toLowerCase(), 300)],
+        totalResults: 1,
+        searchMetadata: { totalResults: 1, searchTime: 10, currency: 'USD', query }
+      }
+    })
+
+    const response = await POST(mockRequest(setupRequest))
+    const reader = response.body!.getReader()
+    await reader.read()
+    await reader.cancel()
+    finishSearches()
+    await new Promise(resolve => setTimeout(resolve, 10))
+
+    expect(mockSearchProducts).toHaveBeenCalledTimes(2)
+    expect(mockSelectBestProduct).not.toHaveBeenCalled()
+    expect(saveSearchResults).not.toHaveBeenCalled()
+  })
+
+  it('should return 400 for invalid requests before streaming', async () => {
+    const response = await POST(mockRequest({ query: '' }))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.type).toBe('VALIDATION_ERROR')
+  })
+
+  it('should return 500 when SerpAPI is not configured', async () => {
+    delete process.env.SERPAPI_KEY
+
+    const response = await POST(mockRequest(setupRequest))
+
+    expect(response.status).toBe(500)
+  })
+})
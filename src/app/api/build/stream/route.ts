@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { BuildRequestSchema, BuildStreamEventSchema, validateResponse } from '@/lib/validation'
+
+// Force Node.js runtime for external SDK compatibility
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+import { ProductSearchProvider, createSearchProvider, isSearchProviderConfigError } from '@/lib/api/search-provider'
+import { handleZodError, toClientAPIError } from '@/lib/errors'
+import { runBuildPipeline } from '@/lib/build-pipeline'
+import { getRequestUserId } from '@/lib/auth-token'
+import { toAnalyticsProduct, trackEvent } from '@/lib/analytics'
+import { SSE_HEADERS, createSSEStream } from '@/lib/sse'
+import { BuildStreamEvent } from '@/types/api'
+import { withRateLimit } from '@/lib/rate-limit'
+import { createLogger, getRequestId, withRequestId } from '@/lib/logger'
+
+const log = createLogger('build')
+
+/**
+ * Streaming variant of POST /api/build.
+ *
+ * Responds with `text/event-stream` and emits one event per pipeline step
+ * (plan_ready, search_started, search_finished, product_selected,
+ * budget_adjusted) followed by a final `done` event carrying the full
+ * BuildResponse, or an `error` event if the build fails mid-stream.
+ */
+export const POST = withRequestId(withRateLimit('build', async (request: NextRequest) => {
+  let validatedRequest
+  try {
+    const body = await request.json()
+    validatedRequest = BuildRequestSchema.parse(body)
+  } catch (error) {
+    const validationError = handleZodError(error)
+    return NextResponse.json(
+      {
+        error: 'Invalid request data',
+        type: 'VALIDATION_ERROR',
+        details: validationError.message
+      },
+      { status: 400 }
+    )
+  }
+
+  // Resolve the provider before opening the stream so config errors get a real status code
+  let searchProvider: ProductSearchProvider
+  try {
+    searchProvider = createSearchProvider()
+  } catch (error) {
+    log.error('Build stream provider error', { error })
+    if (isSearchProviderConfigError(error)) {
+      return NextResponse.json(
+        { error: 'SerpAPI key not configured', type: 'configuration' },
+        { status: 500 }
+      )
+    }
+    return NextResponse.json(
+      { error: 'Internal server error', type: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+
+  const buildRequest = validatedRequest
+  const userId = getRequestUserId(request)
+  const requestId = getRequestId()
+
+  const stream = createSSEStream<BuildStreamEvent>(async (send, signal) => {
+    try {
+      const buildResponse = await runBuildPipeline(buildRequest, {
+        getSearchClient: () => searchProvider,
+        // `done` is sent below, where a response that fails validation becomes an error event
+        onEvent: event => {
+          if (event.type !== 'done') send(validateResponse(BuildStreamEventSchema, event))
+        },
+        userId,
+        requestId,
+        signal
+      })
+      send(validateResponse(BuildStreamEventSchema, { type: 'done' as const, response: buildResponse }))
+      await trackEvent('build', userId, {
+        query: buildRequest.query,
+        searchId: buildResponse.searchId,
+        products: buildResponse.products.map(toAnalyticsProduct)
+      })
+    } catch (error) {
+      if (signal.aborted) {
+        log.info('Build stream cancelled by the client')
+        return
+      }
+      log.error('Build stream error', { error })
+      send({ type: 'error', error: toClientAPIError(error) })
+    }
+  })
+
+  return new Response(stream, { headers: SSE_HEADERS })
+}))
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { redis } from '@/lib/redis'
+import { withAuth } from '@/lib/auth-middleware'
+import { CacheClearResponseSchema, validateResponse } from '@/lib/validation'
 
-export async function POST(req: NextRequest) {
+// Clearing the shared cache affects every user, so only admins (ADMIN_EMAILS) may do it
+export const POST = withAuth(async (req: NextRequest) => {
   try {
     // Clear all search-related cache keys
     const searchKeys = await redis.keys('search:*')
@@ -14,11 +17,11 @@ export async function POST(req: NextRequest) {
       console.log(`Cleared ${allKeys.length} cache keys`)
     }
     
-    return NextResponse.json({ 
-      success: true, 
+    return NextResponse.json(validateResponse(CacheClearResponseSchema, {
+      success: true,
       message: `Cleared ${allKeys.length} cache entries`,
       clearedKeys: allKeys.length
-    })
+    }))
   } catch (error) {
     console.error('Cache clear error:', error)
     return NextResponse.json(
@@ -26,4 +29,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}, { requireAdmin: true })
\ No newline at end of file
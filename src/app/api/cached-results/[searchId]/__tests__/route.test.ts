@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { DELETE, GET } from '../route'
+import { ANONYMOUS_CLIENT_COOKIE, createAnonymousClientCookie, getRequestUserId } from '@/lib/auth-token'
+import { createMemorySearchHistoryStore, setSearchHistoryStore } from '@/lib/search-history-store'
+import { saveSearchResults } from '@/lib/search-cache'
+
+const mockRequest = (searchId: string, method: string, clientCookie?: string) =>
+  new NextRequest(`http://localhost:3000/api/cached-results/${searchId}`, {
+    method,
+    headers: clientCookie ? { Cookie: `theme=dark; ${ANONYMOUS_CLIENT_COOKIE}=${clientCookie}` } : {}
+  })
+
+const params = (searchId: string) => ({ params: Promise.resolve({ searchId }) })
+
+describe('/api/cached-results/[searchId]', () => {
+  const alice = createAnonymousClientCookie()
+  const bob = createAnonymousClientCookie()
+  let searchId: string
+
+  beforeEach(async () => {
+    setSearchHistoryStore(createMemorySearchHistoryStore())
+    searchId = await saveSearchResults(getRequestUserId(mockRequest('', 'GET', alice)), 'desk setup', {
+      style: 'Premium', budget: 1000, currency: 'USD', amazonOnly: false
+    }, [])
+  })
+
+  afterEach(() => {
+    setSearchHistoryStore(null)
+  })
+
+  it('keeps signed-out browsers\' searches apart by client cookie', async () => {
+    expect(getRequestUserId(mockRequest('', 'GET', alice))).toMatch(/^anonymous:[0-9a-f-]{36}$/)
+
+    expect((await GET(mockRequest(searchId, 'GET', alice), params(searchId))).status).toBe(200)
+    expect((await GET(mockRequest(searchId, 'GET', bob), params(searchId))).status).toBe(404)
+    expect((await GET(mockRequest(searchId, 'GET'), params(searchId))).status).toBe(404)
+
+    expect((await DELETE(mockRequest(searchId, 'DELETE', bob), params(searchId))).status).toBe(404)
+    expect((await DELETE(mockRequest(searchId, 'DELETE', alice), params(searchId))).status).toBe(200)
+  })
+
+  it('ignores client cookies with a forged signature', async () => {
+    const [clientId] = alice.split('.')
+    const forged = `${clientId}.${bob.split('.')[1]}`
+
+    expect(getRequestUserId(mockRequest('', 'GET', forged))).toBe('anonymous')
+    expect((await GET(mockRequest(searchId, 'GET', forged), params(searchId))).status).toBe(404)
+  })
+})
\ No newline at end of file
@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getCachedSearchResult } from '@/lib/search-cache'
+import { getCachedSearchResult, deleteCachedSearch } from '@/lib/search-cache'
+import { getRequestUserId } from '@/lib/auth-token'
+import { handleAPIError } from '@/lib/errors'
+import { CachedResultsResponseSchema, MessageResponseSchema, validateResponse } from '@/lib/validation'
 
 export async function GET(
   request: NextRequest,
-  { params }: { params: { searchId: string } }
+  { params }: { params: Promise<{ searchId: string }> }
 ) {
   try {
-    const { searchId } = params
+    const { searchId } = await params
     
     if (!searchId) {
       return NextResponse.json(
@@ -15,7 +18,8 @@ export async function GET(
       )
     }
 
-    const cachedResult = getCachedSearchResult(searchId)
+    // Scoped to the caller, so other users' searches read as not found
+    const cachedResult = await getCachedSearchResult(getRequestUserId(request), searchId)
     
     if (!cachedResult) {
       return NextResponse.json(
@@ -24,8 +28,8 @@ export async function GET(
       )
     }
 
-    return NextResponse.json({
-      success: true,
+    return NextResponse.json(validateResponse(CachedResultsResponseSchema, {
+      success: true as const,
       data: {
         query: cachedResult.query,
         settings: cachedResult.settings,
@@ -33,13 +37,37 @@ export async function GET(
         productCount: cachedResult.productCount,
         createdAt: cachedResult.createdAt
       }
-    })
+    }))
 
   } catch (error) {
     console.error('Error retrieving cached results:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    return handleAPIError(error)
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ searchId: string }> }
+) {
+  try {
+    const { searchId } = await params
+
+    const deleted = await deleteCachedSearch(getRequestUserId(request), searchId)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Cached results not found or expired' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(validateResponse(MessageResponseSchema, {
+      success: true,
+      message: 'Cached results deleted successfully'
+    }))
+
+  } catch (error) {
+    console.error('Error deleting cached results:', error)
+    return handleAPIError(error)
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '../route'
+import { saveSearchResults } from '@/lib/search-cache'
+import { createMemorySearchHistoryStore, setSearchHistoryStore } from '@/lib/search-history-store'
+import { ANONYMOUS_USER_ID } from '@/lib/auth-token'
+import type { Product, SearchSettings } from '@/types'
+
+vi.mock('@/lib/api/gemini', () => ({
+  extractComparisonSpecs: vi.fn()
+}))
+
+const { extractComparisonSpecs } = await import('@/lib/api/gemini')
+
+const settings: SearchSettings = {
+  style: 'Premium',
+  budget: 1000,
+  currency: 'USD',
+  amazonOnly: false
+}
+
+const product = (id: string, price: number): Product => ({
+  id,
+  title: `Standing Desk ${id}`,
+  price,
+  currency: 'USD',
+  merchant: 'Amazon',
+  rating: 4.5,
+  reviewCount: 200,
+  imageUrl: `https://example.com/${id}.jpg`,
+  productUrl: `https://example.com/p/${id}`,
+  rationale: 'Sturdy frame',
+  features: ['Electric lift'],
+  pros: ['Quiet motor'],
+  cons: [],
+  confidence: 0.9,
+  searchRank: 1
+})
+
+const mockRequest = (body: unknown) =>
+  new NextRequest('http://localhost:3000/api/compare', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+
+describe('/api/compare', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setSearchHistoryStore(createMemorySearchHistoryStore())
+  })
+
+  afterEach(() => {
+    setSearchHistoryStore(null)
+  })
+
+  it('should compare full products', async () => {
+    const response = await POST(mockRequest({ products: [product('a', 400), product('b', 300)] }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.products.map((p: Product) => p.id)).toEqual(['a', 'b'])
+    expect(data.rows.find((row: { key: string }) => row.key === 'price').winnerId).toBe('b')
+    expect(extractComparisonSpecs).not.toHaveBeenCalled()
+  })
+
+  it('should resolve product IDs from a search', async () => {
+    const searchId = await saveSearchResults(ANONYMOUS_USER_ID, 'desk', settings, [product('a', 400), product('b', 300)])
+
+    const response = await POST(mockRequest({ searchId, productIds: ['b'], products: [product('c', 350)] }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.products.map((p: Product) => p.id)).toEqual(['b', 'c'])
+  })
+
+  it('should return 404 for products missing from the search', async () => {
+    const searchId = await saveSearchResults(ANONYMOUS_USER_ID, 'desk', settings, [product('a', 400)])
+
+    const response = await POST(mockRequest({ searchId, productIds: ['a', 'zzz'] }))
+    const data = await response.json()
+
+    expect(response.status).toBe(404)
+    expect(data.error).toBe('Products not found in this search: zzz')
+  })
+
+  it('should require a search for product IDs', async () => {
+    const response = await POST(mockRequest({ productIds: ['a', 'b'] }))
+
+    expect(response.status).toBe(400)
+  })
+
+  it('should require at least two distinct products', async () => {
+    const response = await POST(mockRequest({ products: [product('a', 400), product('a', 400)] }))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('Compare between 2 and 6 products')
+  })
+
+  it('should extract specs with the model when asked', async () => {
+    vi.mocked(extractComparisonSpecs).mockResolvedValue([
+      { label: 'Max height', unit: 'cm', better: 'higher', values: [120, 125] }
+    ])
+
+    const response = await POST(mockRequest({ products: [product('a', 400), product('b', 300)], extractSpecs: true }))
+    const data = await response.json()
+
+    expect(data.specsSource).toBe('model')
+    expect(data.rows.at(-1)).toMatchObject({ key: 'maxHeight', group: 'specs', winnerId: 'b' })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUserId } from '@/lib/auth-token'
+import { compareProducts, MAX_COMPARE_PRODUCTS, MIN_COMPARE_PRODUCTS } from '@/lib/compare'
+import { handleAPIError } from '@/lib/errors'
+import { getCachedSearchResult } from '@/lib/search-cache'
+import { CompareRequestSchema, CompareResponseSchema, getValidationMessage, validateResponse } from '@/lib/validation'
+import type { Product } from '@/types'
+import { withRateLimit } from '@/lib/rate-limit'
+
+// Force Node.js runtime for external SDK compatibility
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export const POST = withRateLimit('compare', async (request: NextRequest) => {
+  try {
+    const parsed = CompareRequestSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: getValidationMessage(parsed.error) }, { status: 400 })
+    }
+    const { products, productIds, searchId, currency, extractSpecs } = parsed.data
+
+    // Products sent by ID come from one of the user's searches
+    let found: Product[] = []
+    if (productIds.length > 0) {
+      if (!searchId) {
+        return NextResponse.json({ error: 'searchId is required to compare products by ID' }, { status: 400 })
+      }
+
+      const search = await getCachedSearchResult(getRequestUserId(request), searchId)
+      if (!search) {
+        return NextResponse.json({ error: 'Search not found' }, { status: 404 })
+      }
+
+      const results = search.results as Product[]
+      const missing = productIds.filter(id => !results.some(product => product?.id === id))
+      if (missing.length > 0) {
+        return NextResponse.json({ error: `Products not found in this search: ${missing.join(', ')}` }, { status: 404 })
+      }
+      found = productIds.map(id => results.find(product => product.id === id) as Product)
+    }
+
+    // The same product sent twice is compared once
+    const compared = [...found, ...products].filter((product, index, all) =>
+      all.findIndex(other => other.id === product.id) === index
+    )
+    if (compared.length < MIN_COMPARE_PRODUCTS || compared.length > MAX_COMPARE_PRODUCTS) {
+      return NextResponse.json(
+        { error: `Compare between ${MIN_COMPARE_PRODUCTS} and ${MAX_COMPARE_PRODUCTS} products` },
+        { status: 400 }
+      )
+    }
+
+    const comparison = await compareProducts(compared, { currency, extractSpecs })
+
+    return NextResponse.json(validateResponse(CompareResponseSchema, comparison))
+
+  } catch (error) {
+    console.error('Compare API error:', error)
+    return handleAPIError(error)
+  }
+})
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AuthenticationError, handleAPIError } from '@/lib/errors'
+import { getBearerToken } from '@/lib/auth-token'
+import { checkPrices } from '@/lib/price-tracker'
+import { PriceCheckResponseSchema, validateResponse } from '@/lib/validation'
+
+// Force Node.js runtime for external SDK compatibility
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Called on a schedule (see `crons` in vercel.json) with `Authorization: Bearer $CRON_SECRET`
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET
+    if (!secret || getBearerToken(request) !== secret) {
+      throw new AuthenticationError('Invalid cron secret', 'INVALID_CRON_SECRET')
+    }
+
+    const summary = await checkPrices()
+
+    return NextResponse.json(validateResponse(PriceCheckResponseSchema, {
+      success: true as const,
+      data: summary
+    }))
+
+  } catch (error) {
+    console.error('Error checking prices:', error)
+    return handleAPIError(error)
+  }
+}
\ No newline at end of file
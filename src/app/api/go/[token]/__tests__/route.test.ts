@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import jwt from 'jsonwebtoken'
+import { GET } from '../route'
+import { getClickUrl } from '@/lib/click-tracking'
+import { verifyAuthToken } from '@/lib/auth-token'
+import { createMemoryAnalyticsStore, setAnalyticsStore, AnalyticsStore } from '@/lib/analytics-store'
+import type { Product } from '@/types'
+
+const product = (productUrl: string): Product => ({
+  id: 'chair',
+  title: 'Desk Chair',
+  price: 200,
+  currency: 'USD',
+  merchant: 'Amazon',
+  rating: 4.5,
+  reviewCount: 100,
+  imageUrl: 'https://example.com/chair.jpg',
+  productUrl,
+  rationale: '',
+  category: 'Chair',
+  features: [],
+  pros: [],
+  cons: [],
+  confidence: 0.9,
+  searchRank: 1
+})
+
+const follow = (clickUrl: string) => {
+  const token = clickUrl.replace('/api/go/', '')
+  return GET(new NextRequest(`http://localhost:3000${clickUrl}`), { params: Promise.resolve({ token }) })
+}
+
+describe('/api/go/[token]', () => {
+  let store: AnalyticsStore
+  const originalTag = process.env.AMAZON_AFFILIATE_TAG
+
+  beforeEach(() => {
+    store = createMemoryAnalyticsStore()
+    setAnalyticsStore(store)
+    delete process.env.AMAZON_AFFILIATE_TAG
+  })
+
+  afterEach(() => {
+    setAnalyticsStore(null)
+    vi.unstubAllEnvs()
+    if (originalTag === undefined) delete process.env.AMAZON_AFFILIATE_TAG
+    else process.env.AMAZON_AFFILIATE_TAG = originalTag
+  })
+
+  it('logs the click and redirects to the product', async () => {
+    const clickUrl = getClickUrl(product('https://shop.example.com/chair?id=1'), { searchId: 'search_1' })
+
+    const response = await follow(clickUrl!)
+
+    expect(response.status).toBe(302)
+    expect(response.headers.get('location')).toBe('https://shop.example.com/chair?id=1')
+    const events = await store.list(new Date(Date.now() - 60_000), new Date())
+    expect(events).toHaveLength(1)
+    expect(events[0]).toMatchObject({
+      type: 'product_click',
+      userId: 'anonymous',
+      searchId: 'search_1',
+      products: [{ id: 'chair', title: 'Desk Chair', merchant: 'Amazon', price: 200 }]
+    })
+  })
+
+  it('adds the configured affiliate tag on the way out', async () => {
+    process.env.AMAZON_AFFILIATE_TAG = 'ghost-20'
+    const clickUrl = getClickUrl(product('https://www.amazon.com/dp/B000?tag=other-21'))
+
+    const response = await follow(clickUrl!)
+
+    expect(response.headers.get('location')).toBe('https://www.amazon.com/dp/B000?tag=ghost-20')
+  })
+
+  it('rejects altered tokens without redirecting', async () => {
+    const clickUrl = getClickUrl(product('https://shop.example.com/chair'))!
+    const [header, , signature] = clickUrl.replace('/api/go/', '').split('.')
+    const payload = Buffer.from(JSON.stringify({ typ: 'click', url: 'https://evil.example.com' })).toString('base64url')
+
+    const response = await follow(`/api/go/${header}.${payload}.${signature}`)
+
+    expect(response.status).toBe(404)
+    expect(await store.list(new Date(Date.now() - 60_000), new Date())).toHaveLength(0)
+  })
+
+  it('makes no tracked link for products without a web link', () => {
+    expect(getClickUrl(product('#'))).toBeUndefined()
+  })
+
+  it('makes no tracked link without CLICK_TOKEN_SECRET', () => {
+    vi.stubEnv('CLICK_TOKEN_SECRET', '')
+    expect(getClickUrl(product('https://shop.example.com/chair'))).toBeUndefined()
+  })
+
+  it('keeps click and sign-in tokens apart', async () => {
+    const clickToken = getClickUrl(product('https://shop.example.com/chair'))!.replace('/api/go/', '')
+    expect(verifyAuthToken(clickToken)).toBeNull()
+    expect(jwt.decode(clickToken)).not.toHaveProperty('userId')
+
+    // Even signed with the same secret, neither passes for the other
+    vi.stubEnv('CLICK_TOKEN_SECRET', process.env.JWT_SECRET || 'your-secret-key')
+    const sameSecretClick = getClickUrl(product('https://shop.example.com/chair'))!.replace('/api/go/', '')
+    expect(verifyAuthToken(sameSecretClick)).toBeNull()
+    const authToken = jwt.sign({ typ: 'auth', userId: 'user_1', email: 'user@example.com' }, process.env.JWT_SECRET || 'your-secret-key')
+    expect((await follow(`/api/go/${authToken}`)).status).toBe(404)
+  })
+})
\ No newline at end of file
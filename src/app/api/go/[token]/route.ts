@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyAffiliateTag } from '@/lib/affiliate'
+import { trackEvent } from '@/lib/analytics'
+import { verifyClickToken } from '@/lib/click-tracking'
+import { getRequestUserId } from '@/lib/auth-token'
+
+type RouteContext = { params: Promise<{ token: string }> }
+
+// Log a click on a tracked product link, then send the browser to the merchant
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { token } = await params
+
+  const target = verifyClickToken(token)
+  if (!target) {
+    return NextResponse.json({ error: 'Link not found' }, { status: 404 })
+  }
+
+  // Links don't carry a user, so the click is the visitor's
+  await trackEvent('product_click', getRequestUserId(request), {
+    searchId: target.searchId,
+    products: [target.product]
+  })
+
+  const { url } = applyAffiliateTag(target.url)
+  const response = NextResponse.redirect(url, 302)
+  // Every click has to reach us to be counted
+  response.headers.set('Cache-Control', 'no-store')
+  return response
+}
\ No newline at end of file
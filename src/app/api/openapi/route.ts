@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { generateOpenAPIDocument } from '@/lib/openapi'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json(generateOpenAPIDocument({ serverUrl: request.nextUrl.origin }))
+  } catch (error) {
+    console.error('OpenAPI generation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate API description' },
+      { status: 500 }
+    )
+  }
+}
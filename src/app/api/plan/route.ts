@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { PlanRequestSchema } from '@/lib/validation'
+import { PlanRequestSchema, PlanResponseSchema, validateResponse } from '@/lib/validation'
 
 // Force Node.js runtime for external SDK compatibility
 export const runtime = 'nodejs'
@@ -7,8 +7,12 @@ export const dynamic = 'force-dynamic'
 import { generatePlan } from '@/lib/api/gemini'
 import { ValidationError, handleZodError } from '@/lib/errors'
 import { cacheSearchResults, getCachedSearchResults } from '@/lib/cache'
+import { withRateLimit } from '@/lib/rate-limit'
+import { createLogger, withRequestId } from '@/lib/logger'
 
-export async function POST(request: NextRequest) {
+const log = createLogger('plan')
+
+export const POST = withRequestId(withRateLimit('plan', async (request: NextRequest) => {
   try {
     // Parse and validate request body
     const body = await request.json()
@@ -18,9 +22,9 @@ export async function POST(request: NextRequest) {
     // TODO: Implement proper caching for plan responses
     const planResponse = await generatePlan(validatedRequest)
 
-    return NextResponse.json(planResponse)
+    return NextResponse.json(validateResponse(PlanResponseSchema, planResponse))
   } catch (error) {
-    console.error('Planning API error:', error)
+    log.error('Planning API error', { error })
     
     if (error && typeof error === 'object' && 'name' in error && error.name === 'ZodError') {
       const validationError = handleZodError(error)
@@ -42,4 +46,4 @@ export async function POST(request: NextRequest) {
       { status: 502 }
     )
   }
-}
\ No newline at end of file
+}))
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { RankRequestSchema } from '@/lib/validation'
+import { RankRequestSchema, RankResponseSchema, validateResponse } from '@/lib/validation'
 
 // Force Node.js runtime for external SDK compatibility
 export const runtime = 'nodejs'
@@ -7,8 +7,9 @@ export const dynamic = 'force-dynamic'
 import { rankProducts } from '@/lib/api/gemini'
 import { handleZodError } from '@/lib/errors'
 import { RankRequest, RankResponse } from '@/types/api'
+import { withRateLimit } from '@/lib/rate-limit'
 
-export async function POST(request: NextRequest) {
+export const POST = withRateLimit('rank', async (request: NextRequest) => {
   try {
     // Parse and validate request body
     const body = await request.json()
@@ -37,7 +38,7 @@ export async function POST(request: NextRequest) {
       }
       const defaultRankResponse = await rankProducts(defaultRequest)
       
-      return NextResponse.json(defaultRankResponse)
+      return NextResponse.json(validateResponse(RankResponseSchema, defaultRankResponse))
     }
 
     // Rank products using Gemini AI (with heuristic fallback)
@@ -52,7 +53,7 @@ export async function POST(request: NextRequest) {
       reasoning: rankResponse.reasoning
     }
 
-    return NextResponse.json(finalResponse)
+    return NextResponse.json(validateResponse(RankResponseSchema, finalResponse))
   } catch (error) {
     console.error('Ranking API error:', error)
     
@@ -76,4 +77,4 @@ export async function POST(request: NextRequest) {
       { status: 502 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
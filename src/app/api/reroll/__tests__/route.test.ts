@@ -1,9 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { POST } from '../route'
 import { NextRequest } from 'next/server'
+import { runBuildPipeline } from '@/lib/build-pipeline'
+import type { BuildResponse } from '@/types/api'
 
-// Mock fetch for internal API calls
-global.fetch = vi.fn()
+vi.mock('@/lib/build-pipeline', () => ({ runBuildPipeline: vi.fn() }))
+vi.mock('@/lib/api/search-provider', () => ({ createSearchProvider: vi.fn() }))
 
 describe('/api/reroll', () => {
   beforeEach(() => {
@@ -90,6 +92,7 @@ describe('/api/reroll', () => {
     searchMetadata: {
       totalResults: 2,
       searchTime: 150,
+      currency: 'USD',
       region: 'US',
       query: 'office setup'
     },
@@ -97,10 +100,7 @@ describe('/api/reroll', () => {
   }
 
   it('should successfully reroll setup', async () => {
-    vi.mocked(fetch).mockResolvedValueOnce({
-      ok: true,
-      json: async () => mockBuildResponse
-    } as Response)
+    vi.mocked(runBuildPipeline).mockResolvedValueOnce(mockBuildResponse as BuildResponse)
 
     const request = mockRequest(validRerollRequest)
     const response = await POST(request)
@@ -115,18 +115,13 @@ describe('/api/reroll', () => {
     expect(data.ghostTips).toContain('Fresh setup generated! 👻')
     expect(data.searchMetadata.query).toBe('office setup (rerolled)')
 
-    expect(fetch).toHaveBeenCalledWith(
-      'http://localhost:3000/api/build',
+    // The pipeline runs in-process, so the build route's rate limit doesn't apply
+    expect(runBuildPipeline).toHaveBeenCalledWith(
       {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          query: 'office setup',
-          settings: validRerollRequest.settings
-        })
-      }
+        query: 'office setup',
+        settings: validRerollRequest.settings
+      },
+      expect.objectContaining({ userId: 'anonymous' })
     )
   })
 
@@ -156,10 +151,7 @@ describe('/api/reroll', () => {
       ]
     }
 
-    vi.mocked(fetch).mockResolvedValueOnce({
-      ok: true,
-      json: async () => buildResponseWithExcluded
-    } as Response)
+    vi.mocked(runBuildPipeline).mockResolvedValueOnce(buildResponseWithExcluded as BuildResponse)
 
     const request = mockRequest(validRerollRequest)
     const response = await POST(request)
@@ -178,10 +170,7 @@ describe('/api/reroll', () => {
       excludeIds: []
     }
 
-    vi.mocked(fetch).mockResolvedValueOnce({
-      ok: true,
-      json: async () => mockBuildResponse
-    } as Response)
+    vi.mocked(runBuildPipeline).mockResolvedValueOnce(mockBuildResponse as BuildResponse)
 
     const request = mockRequest(requestWithoutExcludes)
     const response = await POST(request)
@@ -194,10 +183,7 @@ describe('/api/reroll', () => {
   it('should handle missing excludeIds field', async () => {
     const { excludeIds, ...requestWithoutExcludes } = validRerollRequest
 
-    vi.mocked(fetch).mockResolvedValueOnce({
-      ok: true,
-      json: async () => mockBuildResponse
-    } as Response)
+    vi.mocked(runBuildPipeline).mockResolvedValueOnce(mockBuildResponse as BuildResponse)
 
     const request = mockRequest(requestWithoutExcludes)
     const response = await POST(request)
@@ -222,11 +208,8 @@ describe('/api/reroll', () => {
     expect(response.status).toBe(400)
   })
 
-  it('should handle build API errors', async () => {
-    vi.mocked(fetch).mockResolvedValueOnce({
-      ok: false,
-      json: async () => ({ message: 'Build API failed' })
-    } as Response)
+  it('should handle build errors', async () => {
+    vi.mocked(runBuildPipeline).mockRejectedValueOnce(new Error('Build failed'))
 
     const request = mockRequest(validRerollRequest)
     const response = await POST(request)
@@ -238,7 +221,7 @@ describe('/api/reroll', () => {
   })
 
   it('should handle network errors', async () => {
-    vi.mocked(fetch).mockRejectedValueOnce(new Error('Network error'))
+    vi.mocked(runBuildPipeline).mockRejectedValueOnce(new TypeError('fetch failed'))
 
     const request = mockRequest(validRerollRequest)
     const response = await POST(request)
@@ -250,10 +233,7 @@ describe('/api/reroll', () => {
   })
 
   it('should add reroll-specific ghost tips', async () => {
-    vi.mocked(fetch).mockResolvedValueOnce({
-      ok: true,
-      json: async () => mockBuildResponse
-    } as Response)
+    vi.mocked(runBuildPipeline).mockResolvedValueOnce(mockBuildResponse as BuildResponse)
 
     const request = mockRequest(validRerollRequest)
     const response = await POST(request)
@@ -269,10 +249,7 @@ describe('/api/reroll', () => {
   })
 
   it('should modify search metadata query', async () => {
-    vi.mocked(fetch).mockResolvedValueOnce({
-      ok: true,
-      json: async () => mockBuildResponse
-    } as Response)
+    vi.mocked(runBuildPipeline).mockResolvedValueOnce(mockBuildResponse as BuildResponse)
 
     const request = mockRequest(validRerollRequest)
     const response = await POST(request)
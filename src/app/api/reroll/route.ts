@@ -1,55 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { z } from 'zod'
 import { handleAPIError } from '@/lib/errors'
-import { RerollRequest, RerollResponse } from '@/types/api'
+import { toAnalyticsProduct, trackEvent } from '@/lib/analytics'
+import { getRequestUserId } from '@/lib/auth-token'
+import { RerollResponse } from '@/types/api'
+import { RerollRequestSchema, RerollResponseSchema, validateResponse } from '@/lib/validation'
+import { withRateLimit } from '@/lib/rate-limit'
+import { withRequestId } from '@/lib/logger'
+import { runBuildPipeline } from '@/lib/build-pipeline'
+import { createSearchProvider } from '@/lib/api/search-provider'
 
 // Force Node.js runtime for external SDK compatibility
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
-const RerollRequestSchema = z.object({
-  originalQuery: z.string().min(1),
-  settings: z.object({
-    style: z.enum(['Premium', 'Casual']),
-    budget: z.number().positive(),
-    currency: z.string(),
-    resultsMode: z.enum(['Single', 'Multiple']),
-    region: z.string(),
-    amazonOnly: z.boolean()
-  }),
-  excludeIds: z.array(z.string()).optional()
-})
-
-export async function POST(request: NextRequest) {
+export const POST = withRequestId(withRateLimit('reroll', async (request: NextRequest) => {
   try {
     const body = await request.json()
-    const { originalQuery, settings, excludeIds = [] } = RerollRequestSchema.parse(body)
+    const { originalQuery, settings, excludeIds = [], templateId, fixedProducts } = RerollRequestSchema.parse(body)
+    const userId = getRequestUserId(request)
 
-    // For reroll, we essentially call the build API again with the same parameters
-    // but we can exclude previously shown products if needed
-    const buildResponse = await fetch(`${request.nextUrl.origin}/api/build`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        query: originalQuery,
-        settings
-      }),
+    // For reroll, we essentially run the build again with the same parameters
+    // but we can exclude previously shown products if needed. It runs in-process,
+    // so the reroll limit is the only one that applies.
+    const buildData = await runBuildPipeline({
+      query: originalQuery,
+      settings,
+      ...(templateId ? { templateId } : {}),
+      ...(fixedProducts?.length ? { fixedProducts } : {})
+    }, {
+      getSearchClient: () => createSearchProvider(),
+      // Private templates are only visible to their owner
+      userId
     })
 
-    if (!buildResponse.ok) {
-      const error = await buildResponse.json()
-      throw new Error(error.message || 'Failed to reroll setup')
-    }
-
-    const buildData = await buildResponse.json()
-
     // Filter out excluded products if any
     let filteredProducts = buildData.products
     if (excludeIds.length > 0) {
       filteredProducts = buildData.products.filter(
-        (product: any) => !excludeIds.includes(product.id)
+        product => !excludeIds.includes(product.id)
       )
     }
 
@@ -66,12 +54,19 @@ export async function POST(request: NextRequest) {
         ...buildData.searchMetadata,
         query: `${originalQuery} (rerolled)`
       },
-      isSetup: buildData.isSetup
+      isSetup: buildData.isSetup,
+      // Same constraints as the original build, applied by the build pipeline
+      ...(buildData.constraintRemovals ? { constraintRemovals: buildData.constraintRemovals } : {})
     }
 
-    return NextResponse.json(response)
+    await trackEvent('reroll', userId, {
+      query: originalQuery,
+      products: response.products.map(toAnalyticsProduct)
+    })
+
+    return NextResponse.json(validateResponse(RerollResponseSchema, response))
 
   } catch (error) {
     return handleAPIError(error)
   }
-}
\ No newline at end of file
+}))
\ No newline at end of file
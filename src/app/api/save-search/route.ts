@@ -1,68 +1,87 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getCachedSearchResult } from '@/lib/search-cache'
+import { getSavedSearches, isSearchSaved, saveSearch, unsaveSearch } from '@/lib/search-cache'
+import { withAuth } from '@/lib/auth-middleware'
+import {
+  MessageResponseSchema,
+  SaveSearchRequestSchema,
+  SavedIdsResponseSchema,
+  SavedStateResponseSchema,
+  getValidationMessage,
+  validatePaginationQuery,
+  validateResponse
+} from '@/lib/validation'
+import { handleAPIError } from '@/lib/errors'
+import { trackEvent } from '@/lib/analytics'
+import { createLogger } from '@/lib/logger'
 
-// In-memory storage for saved search IDs (in production, use database)
-const savedSearchIds = new Set<string>()
+const log = createLogger('saved-searches')
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, { user }) => {
   try {
-    const { searchId } = await request.json()
-    
-    if (!searchId) {
+    const parsed = SaveSearchRequestSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'Search ID is required' },
+        { error: getValidationMessage(parsed.error) },
         { status: 400 }
       )
     }
+    const { searchId } = parsed.data
 
-    // Verify the search exists
-    const cachedResult = getCachedSearchResult(searchId)
-    if (!cachedResult) {
+    // Only searches in the caller's own history can be saved
+    const saved = await saveSearch(user.id, searchId)
+    if (!saved) {
       return NextResponse.json(
         { error: 'Search not found' },
         { status: 404 }
       )
     }
 
-    // Add to saved searches
-    savedSearchIds.add(searchId)
-    console.log(`💾 Saved search: ${searchId} - "${cachedResult.query}"`)
+    log.info('Search saved', { searchId })
+    await trackEvent('save', user.id, { searchId })
 
-    return NextResponse.json({
+    return NextResponse.json(validateResponse(MessageResponseSchema, {
       success: true,
       message: 'Search saved successfully'
-    })
+    }))
 
   } catch (error) {
-    console.error('Error saving search:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    log.error('Failed to save search', { error })
+    return handleAPIError(error)
   }
-}
+})
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, { user }) => {
   try {
-    // Return list of saved search IDs
-    return NextResponse.json({
-      success: true,
-      data: Array.from(savedSearchIds)
-    })
+    const searchId = request.nextUrl.searchParams.get('id')
+
+    // Saved state of a single search
+    if (searchId) {
+      return NextResponse.json(validateResponse(SavedStateResponseSchema, {
+        success: true as const,
+        data: { searchId, isSaved: await isSearchSaved(user.id, searchId) }
+      }))
+    }
+
+    // One page of saved search IDs
+    const page = validatePaginationQuery(request.nextUrl.searchParams)
+    const { items, pagination } = await getSavedSearches(user.id, page)
+
+    return NextResponse.json(validateResponse(SavedIdsResponseSchema, {
+      success: true as const,
+      data: items.map(search => search.id),
+      pagination
+    }))
 
   } catch (error) {
-    console.error('Error retrieving saved search IDs:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    log.error('Failed to load saved search IDs', { error })
+    return handleAPIError(error)
   }
-}
+})
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, { user }) => {
   try {
-    const { searchParams } = new URL(request.url)
-    const searchId = searchParams.get('id')
+    const searchId = request.nextUrl.searchParams.get('id')
     
     if (!searchId) {
       return NextResponse.json(
@@ -71,8 +90,7 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
-    // Remove from saved searches
-    const wasRemoved = savedSearchIds.delete(searchId)
+    const wasRemoved = await unsaveSearch(user.id, searchId)
     
     if (!wasRemoved) {
       return NextResponse.json(
@@ -81,18 +99,15 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
-    console.log(`🗑️ Unsaved search: ${searchId}`)
+    log.info('Search unsaved', { searchId })
 
-    return NextResponse.json({
+    return NextResponse.json(validateResponse(MessageResponseSchema, {
       success: true,
       message: 'Search unsaved successfully'
-    })
+    }))
 
   } catch (error) {
-    console.error('Error unsaving search:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    log.error('Failed to unsave search', { error })
+    return handleAPIError(error)
   }
-}
\ No newline at end of file
+})
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-middleware'
+import { handleAPIError } from '@/lib/errors'
+import { getSavedSearchPrices, unwatchSavedSearch, watchSavedSearch } from '@/lib/price-tracker'
+import {
+  MessageResponseSchema,
+  PriceAlertRequestSchema,
+  PriceHistoryResponseSchema,
+  getValidationMessage,
+  validateResponse
+} from '@/lib/validation'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+async function pricesResponse(userId: string, searchId: string) {
+  const prices = await getSavedSearchPrices(userId, searchId)
+  if (!prices) {
+    return NextResponse.json({ error: 'Saved search not found' }, { status: 404 })
+  }
+
+  return NextResponse.json(validateResponse(PriceHistoryResponseSchema, {
+    success: true as const,
+    data: { searchId, ...prices }
+  }))
+}
+
+// Price history of every product in the saved search, and its alert settings
+export const GET = withAuth<RouteContext>(async (_request: NextRequest, { params, user }) => {
+  try {
+    const { id } = await params
+    return await pricesResponse(user.id, id)
+
+  } catch (error) {
+    console.error('Error retrieving price history:', error)
+    return handleAPIError(error)
+  }
+})
+
+// Turn on price-drop alerts, or change their threshold
+export const POST = withAuth<RouteContext>(async (request: NextRequest, { params, user }) => {
+  try {
+    const { id } = await params
+
+    const parsed = PriceAlertRequestSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: getValidationMessage(parsed.error) }, { status: 400 })
+    }
+
+    const watch = await watchSavedSearch(user.id, id, parsed.data.thresholdPercent)
+    if (!watch) {
+      return NextResponse.json({ error: 'Saved search not found' }, { status: 404 })
+    }
+
+    return await pricesResponse(user.id, id)
+
+  } catch (error) {
+    console.error('Error enabling price alerts:', error)
+    return handleAPIError(error)
+  }
+})
+
+// Turn off price-drop alerts; the recorded history is kept
+export const DELETE = withAuth<RouteContext>(async (_request: NextRequest, { params, user }) => {
+  try {
+    const { id } = await params
+
+    if (!(await unwatchSavedSearch(user.id, id))) {
+      return NextResponse.json({ error: 'Price alert not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(validateResponse(MessageResponseSchema, {
+      success: true,
+      message: 'Price alert removed successfully'
+    }))
+
+  } catch (error) {
+    console.error('Error removing price alert:', error)
+    return handleAPIError(error)
+  }
+})
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import jwt from 'jsonwebtoken'
+import { GET, POST, DELETE } from '../[id]/prices/route'
+import { saveSearchResults, saveSearch } from '@/lib/search-cache'
+import { createMemorySearchHistoryStore, setSearchHistoryStore } from '@/lib/search-history-store'
+import { createMemoryPriceHistoryStore, setPriceHistoryStore } from '@/lib/price-history-store'
+import { createMemoryUserRepository, setUserRepository } from '@/lib/user-repository'
+import { SearchSettings } from '@/types'
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'
+
+const settings: SearchSettings = {
+  style: 'Premium',
+  budget: 1000,
+  currency: 'USD',
+  amazonOnly: false
+}
+
+const desk = {
+  id: 'desk1',
+  title: 'Standing Desk',
+  price: 400,
+  currency: 'USD',
+  productUrl: 'https://shop.example.com/desk1'
+}
+
+const userIds: Record<string, string> = {}
+const tokenFor = (name: string) => jwt.sign({ userId: userIds[name], email: `${name}@example.com` }, JWT_SECRET)
+
+const mockRequest = (searchId: string, token: string, method: string = 'GET', body?: unknown) =>
+  new NextRequest(`http://localhost:3000/api/saved-searches/${searchId}/prices`, {
+    method,
+    headers: { Authorization: `Bearer ${token}` },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  })
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) })
+
+describe('/api/saved-searches/[id]/prices', () => {
+  let searchId: string
+
+  beforeEach(async () => {
+    setSearchHistoryStore(createMemorySearchHistoryStore())
+    setPriceHistoryStore(createMemoryPriceHistoryStore())
+    const repository = createMemoryUserRepository()
+    setUserRepository(repository)
+    for (const name of ['alice', 'bob']) {
+      const user = await repository.create({ email: `${name}@example.com`, name, password: 'hashed', isVerified: true })
+      userIds[name] = user.id
+    }
+
+    searchId = await saveSearchResults(userIds.alice, 'desk setup', settings, [desk])
+    await saveSearch(userIds.alice, searchId)
+  })
+
+  afterEach(() => {
+    setSearchHistoryStore(null)
+    setPriceHistoryStore(null)
+    setUserRepository(null)
+  })
+
+  it('should turn on alerts and report price history', async () => {
+    const response = await POST(mockRequest(searchId, tokenFor('alice'), 'POST', { thresholdPercent: 15 }), params(searchId))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.alert).toMatchObject({ thresholdPercent: 15, lastCheckedAt: null })
+    expect(data.data.products).toEqual([expect.objectContaining({
+      productId: 'desk1',
+      savedPrice: 400,
+      currentPrice: 400,
+      changePercent: 0,
+      history: [expect.objectContaining({ price: 400, currency: 'USD' })]
+    })])
+
+    const history = await (await GET(mockRequest(searchId, tokenFor('alice')), params(searchId))).json()
+    expect(history.data.alert.thresholdPercent).toBe(15)
+  })
+
+  it('should reject invalid thresholds', async () => {
+    const response = await POST(mockRequest(searchId, tokenFor('alice'), 'POST', { thresholdPercent: 0 }), params(searchId))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('Threshold must be at least 1%')
+  })
+
+  it('should hide other users\' saved searches', async () => {
+    const response = await GET(mockRequest(searchId, tokenFor('bob')), params(searchId))
+
+    expect(response.status).toBe(404)
+  })
+
+  it('should turn alerts off', async () => {
+    await POST(mockRequest(searchId, tokenFor('alice'), 'POST', {}), params(searchId))
+
+    const response = await DELETE(mockRequest(searchId, tokenFor('alice'), 'DELETE'), params(searchId))
+    expect(response.status).toBe(200)
+
+    const history = await (await GET(mockRequest(searchId, tokenFor('alice')), params(searchId))).json()
+    expect(history.data.alert).toBeNull()
+    expect((await DELETE(mockRequest(searchId, tokenFor('alice'), 'DELETE'), params(searchId))).status).toBe(404)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import jwt from 'jsonwebtoken'
+import { GET, DELETE } from '../route'
+import { saveSearchResults, saveSearch, isSearchSaved } from '@/lib/search-cache'
+import { createMemorySearchHistoryStore, setSearchHistoryStore } from '@/lib/search-history-store'
+import { createMemoryUserRepository, setUserRepository } from '@/lib/user-repository'
+import { SearchSettings } from '@/types'
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'
+
+const settings: SearchSettings = {
+  style: 'Premium',
+  budget: 1000,
+  currency: 'USD',
+  amazonOnly: false
+}
+
+const userIds: Record<string, string> = {}
+const tokenFor = (name: string) => jwt.sign({ userId: userIds[name], email: `${name}@example.com` }, JWT_SECRET)
+
+const mockRequest = (url: string, token?: string, method: string = 'GET') =>
+  new NextRequest(`http://localhost:3000${url}`, {
+    method,
+    headers: token ? { Authorization: `Bearer ${token}` } : {}
+  })
+
+describe('/api/saved-searches', () => {
+  beforeEach(async () => {
+    setSearchHistoryStore(createMemorySearchHistoryStore())
+    const repository = createMemoryUserRepository()
+    setUserRepository(repository)
+    for (const name of ['alice', 'bob']) {
+      const user = await repository.create({ email: `${name}@example.com`, name, password: 'hashed', isVerified: true })
+      userIds[name] = user.id
+    }
+  })
+
+  afterEach(() => {
+    setSearchHistoryStore(null)
+    setUserRepository(null)
+  })
+
+  it('should return 401 without a token', async () => {
+    const response = await GET(mockRequest('/api/saved-searches'), {})
+    const data = await response.json()
+
+    expect(response.status).toBe(401)
+    expect(data.type).toBe('AUTHENTICATION_ERROR')
+  })
+
+  it('should list only the caller\'s saved searches with pagination', async () => {
+    const aliceSearch = await saveSearchResults(userIds.alice, 'desk setup', settings, [{ id: 'p1' }])
+    const bobSearch = await saveSearchResults(userIds.bob, 'gaming chair', settings, [])
+    await saveSearch(userIds.alice, aliceSearch)
+    await saveSearch(userIds.bob, bobSearch)
+
+    const response = await GET(mockRequest('/api/saved-searches?limit=10', tokenFor('alice')), {})
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.map((search: { id: string }) => search.id)).toEqual([aliceSearch])
+    expect(data.pagination).toEqual({ offset: 0, limit: 10, total: 1, hasMore: false })
+  })
+
+  it('should reject invalid pagination', async () => {
+    const response = await GET(mockRequest('/api/saved-searches?limit=0', tokenFor('alice')), {})
+
+    expect(response.status).toBe(400)
+  })
+
+  it('should not let users unsave other users\' searches', async () => {
+    const bobSearch = await saveSearchResults(userIds.bob, 'gaming chair', settings, [])
+    await saveSearch(userIds.bob, bobSearch)
+
+    const response = await DELETE(mockRequest(`/api/saved-searches?id=${bobSearch}`, tokenFor('alice'), 'DELETE'), {})
+
+    expect(response.status).toBe(404)
+    expect(await isSearchSaved(userIds.bob, bobSearch)).toBe(true)
+  })
+
+  it('should unsave the caller\'s search', async () => {
+    const aliceSearch = await saveSearchResults(userIds.alice, 'desk setup', settings, [])
+    await saveSearch(userIds.alice, aliceSearch)
+
+    const response = await DELETE(mockRequest(`/api/saved-searches?id=${aliceSearch}`, tokenFor('alice'), 'DELETE'), {})
+
+    expect(response.status).toBe(200)
+    expect(await isSearchSaved(userIds.alice, aliceSearch)).toBe(false)
+  })
+})
@@ -1,57 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getAllCachedSearches, deleteCachedSearch } from '@/lib/search-cache'
-
-// Get saved search IDs from the save-search API
-async function getSavedSearchIds(request: NextRequest): Promise<string[]> {
+import { getSavedSearches, unsaveSearch } from '@/lib/search-cache'
+import { withAuth } from '@/lib/auth-middleware'
+import {
+  MessageResponseSchema,
+  SearchSummaryPageResponseSchema,
+  validatePaginationQuery,
+  validateResponse
+} from '@/lib/validation'
+import { handleAPIError } from '@/lib/errors'
+
+export const GET = withAuth(async (request: NextRequest, { user }) => {
   try {
-    const response = await fetch(`${request.nextUrl.origin}/api/save-search`)
-    if (response.ok) {
-      const data = await response.json()
-      return data.data || []
-    }
-  } catch (error) {
-    console.error('Error fetching saved search IDs:', error)
-  }
-  return []
-}
+    const page = validatePaginationQuery(request.nextUrl.searchParams)
 
-export async function GET(request: NextRequest) {
-  try {
-    const allSearches = getAllCachedSearches()
-    const savedSearchIds = await getSavedSearchIds(request)
-    
-    // Return only saved searches
-    const savedSearches = allSearches.filter(search => 
-      savedSearchIds.includes(search.id)
-    )
-    
-    const searchList = savedSearches.map(search => ({
-      id: search.id,
-      query: search.query,
-      settings: search.settings,
-      createdAt: search.createdAt,
-      productCount: search.productCount
-    }))
+    const { items, pagination } = await getSavedSearches(user.id, page)
 
-    return NextResponse.json({
-      success: true,
-      data: searchList
-    })
+    return NextResponse.json(validateResponse(SearchSummaryPageResponseSchema, {
+      success: true as const,
+      data: items,
+      pagination
+    }))
 
   } catch (error) {
     console.error('Error retrieving saved searches:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    return handleAPIError(error)
   }
-}
+})
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth(async (request: NextRequest, { user }) => {
   try {
-    const { searchParams } = new URL(request.url)
-    const searchId = searchParams.get('id')
-    
+    const searchId = request.nextUrl.searchParams.get('id')
+
     if (!searchId) {
       return NextResponse.json(
         { error: 'Search ID is required' },
@@ -59,25 +38,23 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
-    const deleted = deleteCachedSearch(searchId)
-    
-    if (!deleted) {
+    // Removes the search from the saved list; it stays in history until it expires
+    const removed = await unsaveSearch(user.id, searchId)
+
+    if (!removed) {
       return NextResponse.json(
         { error: 'Search not found' },
         { status: 404 }
       )
     }
 
-    return NextResponse.json({
+    return NextResponse.json(validateResponse(MessageResponseSchema, {
       success: true,
       message: 'Search deleted successfully'
-    })
+    }))
 
   } catch (error) {
     console.error('Error deleting saved search:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    return handleAPIError(error)
   }
-}
\ No newline at end of file
+})
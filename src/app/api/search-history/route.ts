@@ -1,39 +1,61 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getAllCachedSearches } from '@/lib/search-cache'
+import { getSearchHistory, deleteCachedSearch } from '@/lib/search-cache'
+import { withAuth } from '@/lib/auth-middleware'
+import {
+  MessageResponseSchema,
+  SearchSummaryPageResponseSchema,
+  validatePaginationQuery,
+  validateResponse
+} from '@/lib/validation'
+import { handleAPIError } from '@/lib/errors'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, { user }) => {
   try {
-    const allSearches = getAllCachedSearches()
-    
-    // Get saved search IDs
-    const savedResponse = await fetch(`${request.nextUrl.origin}/api/save-search`)
-    let savedSearchIds: string[] = []
-    
-    if (savedResponse.ok) {
-      const savedData = await savedResponse.json()
-      savedSearchIds = savedData.data || []
-    }
+    const page = validatePaginationQuery(request.nextUrl.searchParams)
+
+    // Newest first, each entry marked as saved or not
+    const { items, pagination } = await getSearchHistory(user.id, page)
 
-    // Mark searches as saved or not
-    const historyData = allSearches.map(search => ({
-      id: search.id,
-      query: search.query,
-      settings: search.settings,
-      createdAt: search.createdAt,
-      productCount: search.productCount,
-      isSaved: savedSearchIds.includes(search.id)
+    return NextResponse.json(validateResponse(SearchSummaryPageResponseSchema, {
+      success: true as const,
+      data: items,
+      pagination
     }))
 
-    return NextResponse.json({
+  } catch (error) {
+    console.error('Error retrieving search history:', error)
+    return handleAPIError(error)
+  }
+})
+
+export const DELETE = withAuth(async (request: NextRequest, { user }) => {
+  try {
+    const searchId = request.nextUrl.searchParams.get('id')
+
+    if (!searchId) {
+      return NextResponse.json(
+        { error: 'Search ID is required' },
+        { status: 400 }
+      )
+    }
+
+    // Removes the search from history and from the saved list
+    const deleted = await deleteCachedSearch(user.id, searchId)
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Search not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(validateResponse(MessageResponseSchema, {
       success: true,
-      data: historyData
-    })
+      message: 'Search deleted successfully'
+    }))
 
   } catch (error) {
-    console.error('Error retrieving search history:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    console.error('Error deleting search history entry:', error)
+    return handleAPIError(error)
   }
-}
\ No newline at end of file
+})
@@ -1,15 +1,15 @@
 import { NextRequest } from 'next/server'
 import { POST } from '../route'
-import { searchProducts } from '@/lib/api/serpapi'
+import { createSearchProvider } from '@/lib/api/search-provider'
 import { getCachedData, setCachedData } from '@/lib/cache'
 
-import { vi } from 'vitest'
+import { vi, expect } from 'vitest'
 
 // Mock dependencies
-vi.mock('@/lib/api/serpapi')
+vi.mock('@/lib/api/search-provider')
 vi.mock('@/lib/cache')
 
-const mockSearchProducts = vi.mocked(searchProducts)
+const mockSearchProducts = vi.fn()
 const mockGetCachedData = vi.mocked(getCachedData)
 const mockSetCachedData = vi.mocked(setCachedData)
 
@@ -18,6 +18,10 @@ describe('/api/search', () => {
     vi.clearAllMocks()
     mockGetCachedData.mockResolvedValue(null)
     mockSetCachedData.mockResolvedValue(undefined)
+    vi.mocked(createSearchProvider).mockReturnValue({
+      name: 'test',
+      searchProducts: mockSearchProducts
+    })
   })
 
   const validSearchRequest = {
@@ -37,8 +41,8 @@ describe('/api/search', () => {
         merchant: 'Amazon',
         rating: 4.5,
         reviewCount: 1250,
-        imageUrl: 'https://example.com/chair1.jpg',
-        productUrl: 'https://amazon.com/chair1',
+        image: 'https://example.com/chair1.jpg',
+        url: 'https://amazon.com/chair1',
         category: 'Office Furniture'
       },
       {
@@ -49,8 +53,8 @@ describe('/api/search', () => {
         merchant: 'Best Buy',
         rating: 4.2,
         reviewCount: 850,
-        imageUrl: 'https://example.com/chair2.jpg',
-        productUrl: 'https://bestbuy.com/chair2',
+        image: 'https://example.com/chair2.jpg',
+        url: 'https://bestbuy.com/chair2',
         category: 'Gaming'
       },
       {
@@ -61,8 +65,8 @@ describe('/api/search', () => {
         merchant: 'Walmart',
         rating: 3.8,
         reviewCount: 420,
-        imageUrl: 'https://example.com/chair3.jpg',
-        productUrl: 'https://walmart.com/chair3',
+        image: 'https://example.com/chair3.jpg',
+        url: 'https://walmart.com/chair3',
         category: 'Office Furniture'
       }
     ],
@@ -70,6 +74,7 @@ describe('/api/search', () => {
     searchMetadata: {
       totalResults: 3,
       searchTime: 1500,
+      currency: 'USD',
       region: 'US',
       query: 'office chair'
     }
@@ -89,7 +94,7 @@ describe('/api/search', () => {
     expect(response.status).toBe(200)
     expect(data.products).toHaveLength(3)
     expect(data.products[0].title).toBe('Ergonomic Office Chair')
-    expect(mockSearchProducts).toHaveBeenCalledWith(validSearchRequest)
+    expect(mockSearchProducts).toHaveBeenCalledWith(expect.objectContaining({ query: 'office chair' }))
     expect(mockSetCachedData).toHaveBeenCalled()
   })
 
@@ -212,7 +217,7 @@ describe('/api/search', () => {
     const response = await POST(request)
 
     expect(response.status).toBe(200)
-    expect(mockSearchProducts).toHaveBeenCalledWith(categoryRequest)
+    expect(mockSearchProducts).toHaveBeenCalledWith(expect.objectContaining({ query: 'gaming office chair', category: 'gaming' }))
   })
 
   it('should handle different regions', async () => {
@@ -242,7 +247,7 @@ describe('/api/search', () => {
 
     expect(response.status).toBe(200)
     expect(data.products[0].currency).toBe('GBP')
-    expect(mockSearchProducts).toHaveBeenCalledWith(ukRequest)
+    expect(mockSearchProducts).toHaveBeenCalledWith(expect.objectContaining({ query: 'office chair' }))
   })
 
   it('should handle SerpAPI errors', async () => {
@@ -258,7 +263,7 @@ describe('/api/search', () => {
 
     expect(response.status).toBe(500)
     expect(data.error).toBeDefined()
-    expect(mockSearchProducts).toHaveBeenCalledWith(validSearchRequest)
+    expect(mockSearchProducts).toHaveBeenCalledWith(expect.objectContaining({ query: 'office chair' }))
   })
 
   it('should handle empty search results', async () => {
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUserId } from '@/lib/auth-token'
+import { ValidationError, handleAPIError } from '@/lib/errors'
+import { removeSetupProduct } from '@/lib/setup-edits'
+import { RevisionResponseSchema, validateResponse } from '@/lib/validation'
+
+type RouteContext = { params: Promise<{ id: string; productId: string }> }
+
+// Remove a product from the setup; returns the new revision
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id, productId } = await params
+
+    const revision = await removeSetupProduct(getRequestUserId(request), id, productId)
+    if (!revision) {
+      return NextResponse.json({ error: 'Product not found in setup' }, { status: 404 })
+    }
+
+    return NextResponse.json(validateResponse(RevisionResponseSchema, { success: true as const, data: revision }))
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error removing from setup:', error)
+    return handleAPIError(error)
+  }
+}
\ No newline at end of file
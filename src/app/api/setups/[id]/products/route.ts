@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUserId } from '@/lib/auth-token'
+import { ValidationError, handleAPIError } from '@/lib/errors'
+import { addSetupProduct } from '@/lib/setup-edits'
+import { withRateLimit } from '@/lib/rate-limit'
+import {
+  RevisionResponseSchema,
+  SetupAddRequestSchema,
+  getValidationMessage,
+  validateResponse
+} from '@/lib/validation'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Add a category, searched like a swap, or a custom item; returns the new revision
+export const POST = withRateLimit('setup-add', async (request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params
+
+    const parsed = SetupAddRequestSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: getValidationMessage(parsed.error) }, { status: 400 })
+    }
+
+    const revision = await addSetupProduct(getRequestUserId(request), id, parsed.data)
+    if (!revision) {
+      return NextResponse.json({ error: 'Setup not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(validateResponse(RevisionResponseSchema, { success: true as const, data: revision }))
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error adding to setup:', error)
+    return handleAPIError(error)
+  }
+})
\ No newline at end of file
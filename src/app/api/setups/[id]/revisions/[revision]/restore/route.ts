@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUserId } from '@/lib/auth-token'
+import { ValidationError, handleAPIError } from '@/lib/errors'
+import { restoreSetupRevision } from '@/lib/setup-revisions'
+import { RevisionResponseSchema, validateResponse } from '@/lib/validation'
+
+type RouteContext = { params: Promise<{ id: string; revision: string }> }
+
+// Make an older revision current again; the restore is itself a new revision
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id, revision } = await params
+
+    const restored = await restoreSetupRevision(getRequestUserId(request), id, Number(revision))
+    if (!restored) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(validateResponse(RevisionResponseSchema, { success: true as const, data: restored }))
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error restoring setup revision:', error)
+    return handleAPIError(error)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUserId } from '@/lib/auth-token'
+import { handleAPIError } from '@/lib/errors'
+import { getSetupRevision } from '@/lib/setup-revisions'
+import { RevisionResponseSchema, validateResponse } from '@/lib/validation'
+
+type RouteContext = { params: Promise<{ id: string; revision: string }> }
+
+// One revision of the caller's search, with its products
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id, revision } = await params
+
+    const found = await getSetupRevision(getRequestUserId(request), id, Number(revision))
+    if (!found) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(validateResponse(RevisionResponseSchema, { success: true as const, data: found }))
+
+  } catch (error) {
+    console.error('Error retrieving setup revision:', error)
+    return handleAPIError(error)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import jwt from 'jsonwebtoken'
+import { GET, POST } from '../route'
+import { GET as GET_REVISION } from '../[revision]/route'
+import { POST as RESTORE } from '../[revision]/restore/route'
+import { GET as DIFF } from '../diff/route'
+import { createMemorySetupRevisionStore, setSetupRevisionStore } from '@/lib/setup-revision-store'
+import { createMemorySearchHistoryStore, setSearchHistoryStore } from '@/lib/search-history-store'
+import { saveSearchResults } from '@/lib/search-cache'
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'
+const token = jwt.sign({ userId: 'user_1', email: 'user@example.com' }, JWT_SECRET)
+
+const mockRequest = (path: string, method: string = 'GET', body?: unknown, auth: boolean = true) =>
+  new NextRequest(`http://localhost:3000/api/setups/${path}`, {
+    method,
+    headers: auth ? { Authorization: `Bearer ${token}` } : {},
+    body: body === undefined ? undefined : JSON.stringify(body)
+  })
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) })
+const revisionParams = (id: string, revision: number) => ({ params: Promise.resolve({ id, revision: String(revision) }) })
+
+const product = (id: string, price: number, category: string) => ({
+  id,
+  title: `Product ${id}`,
+  price,
+  currency: 'USD',
+  merchant: 'Amazon',
+  rating: 4.5,
+  reviewCount: 100,
+  imageUrl: `https://example.com/${id}.jpg`,
+  productUrl: `https://example.com/${id}`,
+  rationale: '',
+  category,
+  features: [],
+  pros: [],
+  cons: [],
+  confidence: 0.9,
+  searchRank: 1
+})
+
+describe('/api/setups/[id]/revisions', () => {
+  let searchId: string
+
+  beforeEach(async () => {
+    setSetupRevisionStore(createMemorySetupRevisionStore())
+    setSearchHistoryStore(createMemorySearchHistoryStore())
+    searchId = await saveSearchResults('user_1', 'gaming setup', {
+      style: 'Premium', budget: 1500, currency: 'USD', amazonOnly: false, region: 'US'
+    }, [product('monitor', 400, 'Monitor'), product('keyboard', 100, 'Keyboard')])
+  })
+
+  afterEach(() => {
+    setSetupRevisionStore(null)
+    setSearchHistoryStore(null)
+  })
+
+  it('lists the build as the first revision, scoped to the owner', async () => {
+    const response = await GET(mockRequest(`${searchId}/revisions`), params(searchId))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.latest).toBe(1)
+    expect(data.data.revisions[0]).toMatchObject({ revision: 1, kind: 'build', totalCost: 500 })
+    expect(data.data.revisions[0].products).toBeUndefined()
+
+    const anonymous = await GET(mockRequest(`${searchId}/revisions`, 'GET', undefined, false), params(searchId))
+    expect(anonymous.status).toBe(404)
+  })
+
+  it('records a swap and diffs it against the build', async () => {
+    const swap = await POST(mockRequest(`${searchId}/revisions`, 'POST', {
+      kind: 'swap',
+      products: [product('monitor2', 350, 'Monitor'), product('keyboard', 100, 'Keyboard')]
+    }), params(searchId))
+    expect(swap.status).toBe(200)
+    expect((await swap.json()).data).toMatchObject({ revision: 2, kind: 'swap', author: { id: 'user_1' } })
+
+    const diff = await DIFF(mockRequest(`${searchId}/revisions/diff?from=1&to=2`), params(searchId))
+    const data = await diff.json()
+
+    expect(diff.status).toBe(200)
+    expect(data.data).toMatchObject({
+      from: 1,
+      to: 2,
+      added: [],
+      removed: [],
+      replaced: [{ from: { id: 'monitor' }, to: { id: 'monitor2' } }],
+      costDelta: -50
+    })
+  })
+
+  it('rejects unchanged setups and bad diff queries', async () => {
+    const unchanged = await POST(mockRequest(`${searchId}/revisions`, 'POST', {
+      kind: 'reroll',
+      products: [product('monitor', 400, 'Monitor'), product('keyboard', 100, 'Keyboard')]
+    }), params(searchId))
+    expect(unchanged.status).toBe(400)
+
+    const badKind = await POST(mockRequest(`${searchId}/revisions`, 'POST', { kind: 'build', products: [] }), params(searchId))
+    expect(badKind.status).toBe(400)
+
+    const badQuery = await DIFF(mockRequest(`${searchId}/revisions/diff?from=1`), params(searchId))
+    expect(badQuery.status).toBe(400)
+  })
+
+  it('restores an older revision and serves it in full', async () => {
+    await POST(mockRequest(`${searchId}/revisions`, 'POST', {
+      kind: 'remove',
+      products: [product('monitor', 400, 'Monitor')]
+    }), params(searchId))
+
+    const restored = await RESTORE(mockRequest(`${searchId}/revisions/1/restore`, 'POST'), revisionParams(searchId, 1))
+    expect((await restored.json()).data).toMatchObject({ revision: 3, kind: 'restore', restoredFrom: 1 })
+
+    const revision = await GET_REVISION(mockRequest(`${searchId}/revisions/3`), revisionParams(searchId, 3))
+    expect((await revision.json()).data.products).toHaveLength(2)
+
+    const missing = await RESTORE(mockRequest(`${searchId}/revisions/7/restore`, 'POST'), revisionParams(searchId, 7))
+    expect(missing.status).toBe(404)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUserId } from '@/lib/auth-token'
+import { handleAPIError } from '@/lib/errors'
+import { diffSetupRevisions } from '@/lib/setup-revisions'
+import {
+  RevisionDiffQuerySchema,
+  RevisionDiffResponseSchema,
+  getValidationMessage,
+  validateResponse
+} from '@/lib/validation'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Products added, removed and replaced between two revisions, and the cost delta
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+
+    const { searchParams } = new URL(request.url)
+    const parsed = RevisionDiffQuerySchema.safeParse({
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined
+    })
+    if (!parsed.success) {
+      return NextResponse.json({ error: getValidationMessage(parsed.error) }, { status: 400 })
+    }
+
+    const { from, to } = parsed.data
+    const changes = await diffSetupRevisions(getRequestUserId(request), id, from, to)
+    if (!changes) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(validateResponse(RevisionDiffResponseSchema, {
+      success: true as const,
+      data: { searchId: id, from, to, ...changes }
+    }))
+
+  } catch (error) {
+    console.error('Error comparing setup revisions:', error)
+    return handleAPIError(error)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUserId } from '@/lib/auth-token'
+import { ValidationError, handleAPIError } from '@/lib/errors'
+import { listSetupRevisions, recordSetupRevision } from '@/lib/setup-revisions'
+import {
+  RevisionListResponseSchema,
+  RevisionRequestSchema,
+  RevisionResponseSchema,
+  getValidationMessage,
+  validateResponse
+} from '@/lib/validation'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Revisions of one of the caller's searches, oldest first, without their products
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+
+    const revisions = await listSetupRevisions(getRequestUserId(request), id)
+    if (!revisions) {
+      return NextResponse.json({ error: 'Setup not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(validateResponse(RevisionListResponseSchema, {
+      success: true as const,
+      data: {
+        searchId: id,
+        latest: revisions[revisions.length - 1].revision,
+        revisions: revisions.map(({ products: _products, ...summary }) => summary)
+      }
+    }))
+
+  } catch (error) {
+    console.error('Error listing setup revisions:', error)
+    return handleAPIError(error)
+  }
+}
+
+// Record the setup's products after a swap, reroll, add or remove
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+
+    const parsed = RevisionRequestSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: getValidationMessage(parsed.error) }, { status: 400 })
+    }
+
+    const revision = await recordSetupRevision(getRequestUserId(request), id, parsed.data)
+    if (!revision) {
+      return NextResponse.json({ error: 'Setup not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(validateResponse(RevisionResponseSchema, { success: true as const, data: revision }))
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error recording setup revision:', error)
+    return handleAPIError(error)
+  }
+}
\ No newline at end of file
@@ -1,9 +1,13 @@
 import { NextRequest } from 'next/server'
 import { POST, GET } from '../route'
 import { redis } from '@/lib/redis'
-import { generateUniqueShareId } from '@/lib/share-id'
+import { generateUniqueShareId, isValidShareId } from '@/lib/share-id'
+import { createMemorySetupRevisionStore, setSetupRevisionStore } from '@/lib/setup-revision-store'
+import { createMemorySearchHistoryStore, setSearchHistoryStore } from '@/lib/search-history-store'
+import { saveSearchResults } from '@/lib/search-cache'
+import { recordSetupRevision, restoreSetupRevision } from '@/lib/setup-revisions'
 
-import { vi } from 'vitest'
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest'
 
 // Mock dependencies
 vi.mock('@/lib/redis')
@@ -357,4 +361,66 @@ describe('/api/share', () => {
       )
     })
   })
+  describe('setup revisions', () => {
+    const mockShareId = 'abc123XY'
+    let searchId: string
+
+    beforeEach(async () => {
+      setSetupRevisionStore(createMemorySetupRevisionStore())
+      setSearchHistoryStore(createMemorySearchHistoryStore())
+      searchId = await saveSearchResults('anonymous', mockSetup.query, { ...mockSetup.settings, currency: 'USD' }, mockSetup.products)
+      await recordSetupRevision('anonymous', searchId, {
+        kind: 'swap',
+        products: [{ ...mockSetup.products[0], id: 'desk2', price: 299.99 }]
+      })
+      mockGenerateUniqueShareId.mockResolvedValue(mockShareId)
+      vi.mocked(isValidShareId).mockReturnValue(true)
+      mockRedis.setex.mockResolvedValue('OK')
+    })
+
+    afterEach(() => {
+      setSetupRevisionStore(null)
+      setSearchHistoryStore(null)
+    })
+
+    const share = async (body: Record<string, unknown>) => {
+      await POST(new NextRequest('http://localhost:3000/api/share', {
+        method: 'POST',
+        body: JSON.stringify({ setup: mockSetup, ...body })
+      }))
+      return JSON.parse(mockRedis.setex.mock.calls[0][2] as string)
+    }
+
+    const view = async (stored: unknown, query: string = '') => {
+      mockRedis.get.mockResolvedValue(JSON.stringify(stored))
+      const response = await GET(new NextRequest(`http://localhost:3000/api/share?id=${mockShareId}${query}`))
+      return { status: response.status, data: await response.json() }
+    }
+
+    it('pins a revision when one is given', async () => {
+      const stored = await share({ searchId, revision: 1 })
+      expect(stored.products[0].id).toBe('desk1')
+      expect(stored.source).toEqual({ userId: 'anonymous', searchId, revision: 1 })
+
+      const { data } = await view(stored, '&revision=2')
+      expect(data.setup.products[0].id).toBe('desk1')
+      expect(data.setup.source).toBeUndefined()
+      expect(data.metadata.revision).toEqual({ number: 1, pinned: true, latest: 2 })
+    })
+
+    it('follows the latest revision unless the link asks for another', async () => {
+      const stored = await share({ searchId })
+      await restoreSetupRevision('anonymous', searchId, 1)
+
+      const latest = await view(stored)
+      expect(latest.data.setup.products[0].id).toBe('desk1')
+      expect(latest.data.metadata.revision).toEqual({ number: 3, pinned: false, latest: 3 })
+
+      const second = await view(stored, '&revision=2')
+      expect(second.data.setup.products[0].id).toBe('desk2')
+      expect(second.data.setup.totalCost).toBe(299.99)
+
+      expect((await view(stored, '&revision=9')).status).toBe(404)
+    })
+  })
 })
\ No newline at end of file
@@ -1,10 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { ShareRequestSchema } from '@/lib/validation'
+import {
+  ShareRequestSchema,
+  ShareResponseSchema,
+  SharedSetupResponseSchema,
+  validateResponse
+} from '@/lib/validation'
 import { ValidationError, handleZodError } from '@/lib/errors'
 import { redis, generateKey, TTL } from '@/lib/redis'
 import { generateUniqueShareId, isValidShareId } from '@/lib/share-id'
+import { getExchangeRates } from '@/lib/exchange-rates'
+import { getExchangeRateInfo } from '@/lib/currency'
+import { persistSceneImages } from '@/lib/scene-cache'
+import { getRequestUserId } from '@/lib/auth-token'
+import { listSetupRevisions } from '@/lib/setup-revisions'
+import { trackEvent } from '@/lib/analytics'
 import { ShareResponse } from '@/types/api'
 
+// The search a share follows; `revision` pins it to one revision
+interface ShareSource {
+  userId: string
+  searchId: string
+  revision: number | null
+}
+
+function revisionNotFound() {
+  return NextResponse.json(
+    {
+      error: 'Setup revision not found',
+      type: 'REVISION_NOT_FOUND'
+    },
+    { status: 404 }
+  )
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Parse and validate request body
@@ -18,9 +46,33 @@ export async function POST(request: NextRequest) {
       return exists === 1
     })
 
+    // Record the rate the setup's prices were quoted at, so later views can tell
+    await getExchangeRates()
+
     // Prepare setup data for storage
+    const { scenes, ...setup } = validatedRequest.setup
+
+    // A share of one of the user's searches shows its latest (or pinned) revision
+    const userId = getRequestUserId(request)
+    let source: ShareSource | undefined
+    if (validatedRequest.searchId) {
+      const revisions = await listSetupRevisions(userId, validatedRequest.searchId)
+      const shown = validatedRequest.revision
+        ? revisions?.find(item => item.revision === validatedRequest.revision)
+        : revisions?.[revisions.length - 1]
+      if (!shown) return revisionNotFound()
+
+      setup.products = shown.products
+      setup.totalCost = shown.totalCost
+      source = { userId, searchId: validatedRequest.searchId, revision: validatedRequest.revision ?? null }
+    }
+
     const setupData = {
-      ...validatedRequest.setup,
+      ...setup,
+      ...(source && { source }),
+      // Stored as /api/ai-scene/image links rather than inline image data
+      ...(scenes && { scenes: await persistSceneImages(scenes) }),
+      exchangeRate: getExchangeRateInfo(validatedRequest.setup.settings.currency),
       shareId,
       sharedAt: new Date().toISOString(),
       expiresAt: new Date(Date.now() + TTL.SHARED_SETUP * 1000).toISOString()
@@ -29,6 +81,7 @@ export async function POST(request: NextRequest) {
     // Store in Redis with expiration
     const key = generateKey('SHARED_SETUP', shareId)
     await redis.setex(key, TTL.SHARED_SETUP, JSON.stringify(setupData))
+    await trackEvent('share', userId, { searchId: validatedRequest.searchId })
 
     // Generate short URL (in production, this would be your domain)
     const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'
@@ -40,7 +93,7 @@ export async function POST(request: NextRequest) {
       expiresAt: new Date(Date.now() + TTL.SHARED_SETUP * 1000)
     }
 
-    return NextResponse.json(response)
+    return NextResponse.json(validateResponse(ShareResponseSchema, response))
   } catch (error) {
     console.error('Share API error:', error)
     
@@ -120,18 +173,40 @@ export async function GET(request: NextRequest) {
     await redis.setex(key, TTL.SHARED_SETUP, JSON.stringify(updatedSetup))
 
     // Return setup data without internal metadata
-    const { sharedAt, accessCount, lastAccessed, ...publicSetup } = updatedSetup
+    const { source, sharedAt, accessCount, lastAccessed, ...publicSetup } = updatedSetup
+
+    // Shares of a search follow its revisions: the pinned one, else ?revision= or the latest.
+    // Once the search's revisions expire, the stored copy is shown.
+    let revision: { number: number; pinned: boolean; latest: number } | undefined
+    if (source) {
+      const { userId, searchId, revision: pinned } = source as ShareSource
+      const requested = url.searchParams.get('revision')
+      const revisions = await listSetupRevisions(userId, searchId)
+      if (revisions) {
+        const latest = revisions[revisions.length - 1].revision
+        const number = pinned ?? (requested ? Number(requested) : latest)
+        const shown = revisions.find(item => item.revision === number)
+        if (shown) {
+          publicSetup.products = shown.products
+          publicSetup.totalCost = shown.totalCost
+        } else if (!pinned) {
+          return revisionNotFound()
+        }
+        revision = { number, pinned: pinned !== null, latest }
+      }
+    }
 
-    return NextResponse.json({
+    return NextResponse.json(validateResponse(SharedSetupResponseSchema, {
       setup: publicSetup,
       metadata: {
         shareId,
         sharedAt,
         expiresAt: parsedSetup.expiresAt,
         accessCount,
-        lastAccessed
+        lastAccessed,
+        ...(revision && { revision })
       }
-    })
+    }))
   } catch (error) {
     console.error('Share retrieval API error:', error)
     return NextResponse.json(
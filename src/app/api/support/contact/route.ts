@@ -1,22 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-interface ContactData {
-  name: string
-  email: string
-  issue: string
-}
+import { ContactRequestSchema, MessageResponseSchema, getValidationMessage, validateResponse } from '@/lib/validation'
 
 export async function POST(request: NextRequest) {
   try {
-    const { name, email, issue }: ContactData = await request.json()
-
     // Validate input
-    if (!name || !email || !issue) {
+    const parsed = ContactRequestSchema.safeParse(await request.json())
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'All fields are required' },
+        { error: getValidationMessage(parsed.error) },
         { status: 400 }
       )
     }
+    const { name, email, issue } = parsed.data
 
     // Get Telegram configuration
     const botToken = process.env.TELEGRAM_BOT_TOKEN
@@ -80,11 +75,11 @@ ${issue}
       console.log(`Issue: ${issue}`)
       
       return NextResponse.json(
-        { 
+        validateResponse(MessageResponseSchema, {
           message: 'Message received! We will get back to you soon.',
           success: true,
           fallback: true
-        },
+        }),
         { status: 200 }
       )
     }
@@ -92,10 +87,10 @@ ${issue}
     console.log(`✅ Support request sent to Telegram from ${email}`)
 
     return NextResponse.json(
-      { 
+      validateResponse(MessageResponseSchema, {
         message: 'Message sent successfully! We will get back to you soon.',
         success: true
-      },
+      }),
       { status: 200 }
     )
 
@@ -3,7 +3,7 @@ import { POST } from '../route'
 import { NextRequest } from 'next/server'
 
 // Mock external dependencies
-vi.mock('@/lib/api/serpapi', () => ({
+vi.mock('@/lib/api/search-provider', () => ({
   searchProducts: vi.fn()
 }))
 
@@ -16,7 +16,7 @@ vi.mock('@/lib/cache', () => ({
   setCachedData: vi.fn()
 }))
 
-const { searchProducts } = await import('@/lib/api/serpapi')
+const { searchProducts } = await import('@/lib/api/search-provider')
 const { rankProducts } = await import('@/lib/api/gemini')
 const { getCachedData, setCachedData } = await import('@/lib/cache')
 
@@ -134,7 +134,11 @@ describe('/api/swap', () => {
     const data = await response.json()
 
     expect(response.status).toBe(200)
-    expect(data.alternatives).toEqual(mockRankResponse.rankedProducts)
+    // Each alternative gets a tracked link
+    expect(data.alternatives).toEqual(mockRankResponse.rankedProducts.map(product => ({
+      ...product,
+      clickUrl: expect.stringMatching(/^\/api\/go\//)
+    })))
     expect(data.fromCache).toBe(true)
     expect(searchProducts).not.toHaveBeenCalled()
     expect(rankProducts).not.toHaveBeenCalled()
@@ -335,6 +339,47 @@ describe('/api/swap', () => {
     expect(data.code).toBe('SWAP_NO_NEW_RESULTS')
   })
 
+  it('should drop alternatives that break the settings constraints before ranking', async () => {
+    vi.mocked(getCachedData).mockResolvedValue(null)
+    vi.mocked(searchProducts).mockResolvedValue(mockSearchResponse as any)
+    vi.mocked(rankProducts).mockResolvedValue({ ...mockRankResponse, rankedProducts: mockRankResponse.rankedProducts.slice(0, 1) })
+
+    const request = mockRequest({
+      ...validSwapRequest,
+      settings: { ...validSwapRequest.settings, constraints: { denyMerchants: ['Best Buy'] } }
+    })
+    const response = await POST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(rankProducts).toHaveBeenCalledWith(expect.objectContaining({
+      products: [mockSearchResponse.products[0]]
+    }))
+    expect(data.constraintRemovals).toEqual([{
+      needKey: 'chair',
+      constraint: 'denyMerchants',
+      removed: [{ id: 'alt-2', title: 'Alternative Chair 2' }]
+    }])
+  })
+
+  it('should report the constraints when no alternative meets them', async () => {
+    vi.mocked(getCachedData).mockResolvedValue(null)
+    vi.mocked(searchProducts).mockResolvedValue(mockSearchResponse as any)
+
+    const request = mockRequest({
+      ...validSwapRequest,
+      settings: { ...validSwapRequest.settings, constraints: { minRating: 4.8 } }
+    })
+    const response = await POST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(422)
+    expect(data.code).toBe('SWAP_NO_MATCHING_RESULTS')
+    expect(data.constraintRemovals[0].constraint).toBe('minRating')
+    expect(data.constraintRemovals[0].removed).toHaveLength(2)
+    expect(rankProducts).not.toHaveBeenCalled()
+  })
+
   it('should use generic search query when no category provided', async () => {
     const requestWithoutCategory = {
       ...validSwapRequest,
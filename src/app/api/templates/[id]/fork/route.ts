@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-middleware'
+import { handleAPIError } from '@/lib/errors'
+import { forkTemplate } from '@/lib/setup-templates'
+import {
+  TemplateForkRequestSchema,
+  TemplateResponseSchema,
+  getValidationMessage,
+  validateResponse
+} from '@/lib/validation'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Copy a built-in or shared template into the caller's own, private templates
+export const POST = withAuth<RouteContext>(async (request: NextRequest, { params, user }) => {
+  try {
+    const { id } = await params
+
+    const parsed = TemplateForkRequestSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: getValidationMessage(parsed.error) }, { status: 400 })
+    }
+
+    const template = await forkTemplate(user.id, id, parsed.data.name)
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(validateResponse(TemplateResponseSchema, { success: true as const, data: template }))
+
+  } catch (error) {
+    console.error('Error forking template:', error)
+    return handleAPIError(error)
+  }
+})
\ No newline at end of file
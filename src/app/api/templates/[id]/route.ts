@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-middleware'
+import { getRequestUserId } from '@/lib/auth-token'
+import { ValidationError, handleAPIError } from '@/lib/errors'
+import { deleteTemplate, getTemplate, updateTemplate } from '@/lib/setup-templates'
+import {
+  MessageResponseSchema,
+  TemplateResponseSchema,
+  TemplateUpdateSchema,
+  getValidationMessage,
+  validateResponse
+} from '@/lib/validation'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// A built-in template, one of the caller's own, or a shared one
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+
+    const template = await getTemplate(id, getRequestUserId(request))
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(validateResponse(TemplateResponseSchema, { success: true as const, data: template }))
+
+  } catch (error) {
+    console.error('Error retrieving template:', error)
+    return handleAPIError(error)
+  }
+}
+
+// Edit one of the caller's templates; `shared` publishes it to anyone with the ID
+export const PATCH = withAuth<RouteContext>(async (request: NextRequest, { params, user }) => {
+  try {
+    const { id } = await params
+
+    const parsed = TemplateUpdateSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: getValidationMessage(parsed.error) }, { status: 400 })
+    }
+
+    const template = await updateTemplate(user.id, id, parsed.data)
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(validateResponse(TemplateResponseSchema, { success: true as const, data: template }))
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error updating template:', error)
+    return handleAPIError(error)
+  }
+})
+
+export const DELETE = withAuth<RouteContext>(async (_request: NextRequest, { params, user }) => {
+  try {
+    const { id } = await params
+
+    if (!(await deleteTemplate(user.id, id))) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(validateResponse(MessageResponseSchema, {
+      success: true,
+      message: 'Template deleted successfully'
+    }))
+
+  } catch (error) {
+    console.error('Error deleting template:', error)
+    return handleAPIError(error)
+  }
+})
\ No newline at end of file
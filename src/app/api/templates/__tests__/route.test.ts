@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import jwt from 'jsonwebtoken'
+import { GET, POST } from '../route'
+import { GET as GET_TEMPLATE, PATCH, DELETE } from '../[id]/route'
+import { POST as FORK } from '../[id]/fork/route'
+import { createMemoryTemplateStore, setTemplateStore } from '@/lib/template-store'
+import { createMemoryUserRepository, setUserRepository } from '@/lib/user-repository'
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'
+
+const userIds: Record<string, string> = {}
+const tokenFor = (name: string) => jwt.sign({ userId: userIds[name], email: `${name}@example.com` }, JWT_SECRET)
+
+const mockRequest = (path: string, token?: string, method: string = 'GET', body?: unknown) =>
+  new NextRequest(`http://localhost:3000/api/templates${path}`, {
+    method,
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: body === undefined ? undefined : JSON.stringify(body)
+  })
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) })
+
+const studio = {
+  name: 'Home studio',
+  categories: [
+    { category: 'Audio Interface', budgetPercent: 40, searchTerms: ['usb audio interface'] },
+    { category: 'Studio Monitors', budgetPercent: 50, requirements: ['5 inch woofer'] }
+  ]
+}
+
+describe('/api/templates', () => {
+  beforeEach(async () => {
+    setTemplateStore(createMemoryTemplateStore())
+    const repository = createMemoryUserRepository()
+    setUserRepository(repository)
+    for (const name of ['alice', 'bob']) {
+      const user = await repository.create({ email: `${name}@example.com`, name, password: 'hashed', isVerified: true })
+      userIds[name] = user.id
+    }
+  })
+
+  afterEach(() => {
+    setTemplateStore(null)
+    setUserRepository(null)
+  })
+
+  it('lists the built-in templates without signing in', async () => {
+    const response = await GET(mockRequest(''))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.data.builtIn.map((template: { id: string }) => template.id)).toContain('gaming')
+    expect(data.data.own).toEqual([])
+  })
+
+  it('requires authentication to create templates', async () => {
+    const response = await POST(mockRequest('', undefined, 'POST', studio), {})
+
+    expect(response.status).toBe(401)
+  })
+
+  it('creates, shares and deletes a template', async () => {
+    const created = await POST(mockRequest('', tokenFor('alice'), 'POST', studio), {})
+    const { data: template } = await created.json()
+
+    expect(created.status).toBe(200)
+    expect(template).toMatchObject({ name: 'Home studio', ownerId: userIds.alice, shared: false })
+    expect(template.categories[1]).toMatchObject({ searchTerms: [], required: true })
+
+    expect((await GET_TEMPLATE(mockRequest(`/${template.id}`, tokenFor('bob')), params(template.id))).status).toBe(404)
+
+    const shared = await PATCH(mockRequest(`/${template.id}`, tokenFor('alice'), 'PATCH', { shared: true }), params(template.id))
+    expect((await shared.json()).data).toMatchObject({ shared: true, name: 'Home studio' })
+    expect((await GET_TEMPLATE(mockRequest(`/${template.id}`, tokenFor('bob')), params(template.id))).status).toBe(200)
+
+    expect((await DELETE(mockRequest(`/${template.id}`, tokenFor('bob'), 'DELETE'), params(template.id))).status).toBe(404)
+    expect((await DELETE(mockRequest(`/${template.id}`, tokenFor('alice'), 'DELETE'), params(template.id))).status).toBe(200)
+  })
+
+  it('rejects budget percentages over 100%', async () => {
+    const overBudget = { ...studio, categories: [...studio.categories, { category: 'Microphone', budgetPercent: 20 }] }
+
+    const response = await POST(mockRequest('', tokenFor('alice'), 'POST', overBudget), {})
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toContain('110%')
+  })
+
+  it('forks a built-in template into the caller\'s own', async () => {
+    const response = await FORK(mockRequest('/office/fork', tokenFor('bob'), 'POST', {}), params('office'))
+    const { data: fork } = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(fork).toMatchObject({ name: 'Home office (copy)', ownerId: userIds.bob, forkedFrom: 'office', shared: false })
+
+    const list = await (await GET(mockRequest('', tokenFor('bob')))).json()
+    expect(list.data.own.map((template: { id: string }) => template.id)).toEqual([fork.id])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-middleware'
+import { getRequestUserId } from '@/lib/auth-token'
+import { ValidationError, handleAPIError } from '@/lib/errors'
+import { createTemplate, listTemplates } from '@/lib/setup-templates'
+import {
+  TemplateInputSchema,
+  TemplateListResponseSchema,
+  TemplateResponseSchema,
+  getValidationMessage,
+  validateResponse
+} from '@/lib/validation'
+
+// Built-in templates, plus the caller's own when signed in
+export async function GET(request: NextRequest) {
+  try {
+    const templates = await listTemplates(getRequestUserId(request))
+
+    return NextResponse.json(validateResponse(TemplateListResponseSchema, {
+      success: true as const,
+      data: templates
+    }))
+
+  } catch (error) {
+    console.error('Error listing templates:', error)
+    return handleAPIError(error)
+  }
+}
+
+// Create a template from categories, budget percentages, search terms and requirements
+export const POST = withAuth(async (request: NextRequest, { user }) => {
+  try {
+    const parsed = TemplateInputSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ error: getValidationMessage(parsed.error) }, { status: 400 })
+    }
+
+    const template = await createTemplate(user.id, parsed.data)
+
+    return NextResponse.json(validateResponse(TemplateResponseSchema, { success: true as const, data: template }))
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error creating template:', error)
+    return handleAPIError(error)
+  }
+})
\ No newline at end of file
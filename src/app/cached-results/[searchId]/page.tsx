@@ -7,6 +7,7 @@ import { ProductCard } from '@/components/product/product-card'
 import { ExportButtons } from '@/components/ui/export-buttons'
 import { SearchSettings } from '@/types'
 import { Product } from '@/types'
+import { AuthService } from '@/lib/auth'
 
 const DEFAULT_SETTINGS: SearchSettings = {
   style: 'Premium',
@@ -42,7 +43,9 @@ export default function CachedResultsPage() {
   const loadCachedResults = async () => {
     try {
       setIsLoading(true)
-      const response = await fetch(`/api/cached-results/${searchId}`)
+      const response = await fetch(`/api/cached-results/${searchId}`, {
+        headers: AuthService.getAuthHeaders()
+      })
       
       if (response.ok) {
         const data = await response.json()
@@ -6,6 +6,7 @@ import { Navbar } from '@/components/ui/navbar'
 import { useAuth } from '@/hooks/use-auth'
 import { SearchSettings } from '@/types'
 import SpotlightCard from '@/components/ui/spotlight-card'
+import { AuthService } from '@/lib/auth'
 
 const DEFAULT_SETTINGS: SearchSettings = {
   style: 'Premium',
@@ -18,7 +19,7 @@ interface HistorySearch {
   id: string
   query: string
   settings: SearchSettings
-  createdAt: Date
+  createdAt: string
   productCount: number
   isSaved: boolean
 }
@@ -43,7 +44,9 @@ export default function HistoryPage() {
 
   const loadSearchHistory = async () => {
     try {
-      const response = await fetch('/api/search-history')
+      const response = await fetch('/api/search-history', {
+        headers: AuthService.getAuthHeaders()
+      })
       if (response.ok) {
         const data = await response.json()
         setHistorySearches(data.data || [])
@@ -79,7 +82,7 @@ export default function HistoryPage() {
     try {
       const response = await fetch('/api/save-search', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...AuthService.getAuthHeaders() },
         body: JSON.stringify({ searchId })
       })
       
@@ -103,7 +106,8 @@ export default function HistoryPage() {
   const handleUnsaveSearch = async (searchId: string) => {
     try {
       const response = await fetch(`/api/saved-searches?id=${searchId}`, {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: AuthService.getAuthHeaders()
       })
       
       if (response.ok) {
@@ -123,14 +127,14 @@ export default function HistoryPage() {
     }
   }
 
-  const formatDate = (date: Date) => {
+  const formatDate = (date: string) => {
     return new Intl.DateTimeFormat('en-US', {
       year: 'numeric',
       month: 'short',
       day: 'numeric',
       hour: '2-digit',
       minute: '2-digit'
-    }).format(date)
+    }).format(new Date(date))
   }
 
   if (authLoading || !isAuthenticated) {
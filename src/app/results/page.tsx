@@ -12,11 +12,47 @@ import { ExportButtons } from '@/components/ui/export-buttons'
 import { EnhancedGhostLoader } from '@/components/ghost/enhanced-ghost-loader'
 import Noise from '@/components/ui/noise'
 import { SwapModal } from '@/components/product/swap-modal'
+import { CompareView } from '@/components/product/compare-view'
+import { AddToSetup } from '@/components/product/add-to-setup'
 
 import { SaveButton } from '@/components/ui/save-button'
 import { useSwap, useSwapHistory } from '@/hooks/use-swap'
+import { useSetupRevisions } from '@/hooks/use-setup-revisions'
+import { streamBuild, useBuildProgress, getArrivedProducts } from '@/hooks/use-build-stream'
 
 import { useAuth } from '@/hooks/use-auth'
+import { SearchConstraintsSchema } from '@/lib/validation'
+import { getBudgetDistribution } from '@/lib/utils'
+import { SetupAddRequest } from '@/types/api'
+
+// As many columns as fit the compare view side by side
+const MAX_COMPARED_PRODUCTS = 4
+
+// Constraints travel in the URL as JSON so shared result links keep them
+function parseConstraintsParam(value: string | null): SearchSettings['constraints'] {
+  if (!value) return undefined
+  try {
+    const parsed = SearchConstraintsSchema.safeParse(JSON.parse(value))
+    return parsed.success ? parsed.data : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function toSearchParams(query: string, settings: SearchSettings): URLSearchParams {
+  const params = new URLSearchParams({
+    q: query,
+    style: settings.style,
+    budget: settings.budget.toString(),
+    currency: settings.currency,
+    region: settings.region || 'US',
+    amazonOnly: settings.amazonOnly.toString()
+  })
+  if (settings.constraints) {
+    params.set('constraints', JSON.stringify(settings.constraints))
+  }
+  return params
+}
 
 interface BuildResponse {
   products: Product[]
@@ -41,42 +77,48 @@ function ResultsContent() {
   const [swapAlternatives, setSwapAlternatives] = useState<Product[]>([])
   const [swappingProductId, setSwappingProductId] = useState<string | null>(null)
   const [isRerolling, setIsRerolling] = useState(false)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [compareOpen, setCompareOpen] = useState(false)
+  // Search the setup was first built as; swaps and rerolls are recorded as its revisions
+  const [setupId, setSetupId] = useState<string | undefined>(undefined)
 
   const { isAuthenticated } = useAuth()
+  const {
+    revisions,
+    recordRevision,
+    restoreRevision,
+    isRestoring,
+    addProduct,
+    removeProduct,
+    isEditing
+  } = useSetupRevisions(setupId)
+  // Items the user added themselves stay put and are worked around by rerolls and swaps
+  const customProducts = products.filter(product => product.custom)
+  // Custom items have no rating
+  const ratedProducts = products.filter(product => !product.custom)
 
   const [settings, setSettings] = useState<SearchSettings>({
     style: (searchParams.get('style') as 'Premium' | 'Casual') || 'Premium',
     budget: Number(searchParams.get('budget')) || 1000,
     currency: (searchParams.get('currency') as SearchSettings['currency']) || 'USD',
     amazonOnly: searchParams.get('amazonOnly') === 'true',
-    region: searchParams.get('region') || 'US'
+    region: searchParams.get('region') || 'US',
+    constraints: parseConstraintsParam(searchParams.get('constraints'))
   })
 
   const { getSwapHistory, addToSwapHistory } = useSwapHistory()
+  const { progress: buildProgress, onEvent: onBuildEvent, start: startBuildProgress } = useBuildProgress()
 
   const query = searchParams.get('q') || ''
 
   // Fetch search results
   const { data, isLoading, error, refetch } = useQuery<BuildResponse>({
     queryKey: ['search', query, settings, isRerolling ? Date.now() : 'stable'], // Use timestamp to force new query when rerolling
-    queryFn: async () => {
-      const response = await fetch('/api/build', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          query,
-          settings,
-          reroll: isRerolling // Add reroll flag to get fresh results
-        }),
-      })
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch results')
-      }
-
-      return response.json()
+    queryFn: async ({ signal }) => {
+      // Stream the build so products render as soon as each one is selected
+      startBuildProgress()
+      const fixedProducts = isRerolling && customProducts.length > 0 ? customProducts : undefined
+      return streamBuild({ query, settings, fixedProducts }, { onEvent: onBuildEvent, signal })
     },
     enabled: !!query,
     staleTime: 0, // Always fetch fresh data
@@ -89,7 +131,11 @@ function ResultsContent() {
   useEffect(() => {
     if (data?.products) {
       setProducts(data.products)
+      setCompareIds([])
+      // A reroll builds a new search, but it's still the same setup
+      setSetupId(prev => (isRerolling && prev ? prev : data.searchId))
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [data])
 
   // Swap functionality
@@ -110,17 +156,12 @@ function ResultsContent() {
   const handleSettingsChange = (newSettings: SearchSettings) => {
     console.log('Results page - handleSettingsChange called with:', newSettings)
     console.log('Current settings:', settings)
-    setSettings(newSettings)
+    // The navbar doesn't edit constraints, so keep the current ones
+    const nextSettings = { ...newSettings, constraints: newSettings.constraints ?? settings.constraints }
+    setSettings(nextSettings)
 
     // Update URL parameters
-    const params = new URLSearchParams({
-      q: query,
-      style: newSettings.style,
-      budget: newSettings.budget.toString(),
-      currency: newSettings.currency,
-      region: newSettings.region || 'US',
-      amazonOnly: newSettings.amazonOnly.toString()
-    })
+    const params = toSearchParams(query, nextSettings)
 
     console.log('Updating URL to:', `/results?${params.toString()}`)
     router.replace(`/results?${params.toString()}`)
@@ -147,12 +188,27 @@ function ResultsContent() {
         style: settings.style,
         region: settings.region || 'US',
         amazonOnly: settings.amazonOnly,
-        currency: settings.currency
+        currency: settings.currency,
+        constraints: settings.constraints
       },
-      excludeIds
+      excludeIds,
+      fixedProducts: customProducts.length > 0 ? customProducts : undefined
     })
   }
 
+  // Add or remove a product from the comparison
+  const handleCompareToggle = (productId: string) => {
+    setCompareIds(prev =>
+      prev.includes(productId)
+        ? prev.filter(id => id !== productId)
+        : prev.length < MAX_COMPARED_PRODUCTS ? [...prev, productId] : prev
+    )
+  }
+
+  const comparedProducts = compareIds
+    .map(id => products.find(p => p.id === id))
+    .filter((product): product is Product => !!product)
+
   // Handle alternative selection
   const handleSelectAlternative = (alternative: Product) => {
     if (!swapProduct) return
@@ -161,11 +217,14 @@ function ResultsContent() {
     addToSwapHistory(swapProduct.id, alternative.id)
 
     // Replace the product in the products array
-    setProducts(prevProducts =>
-      prevProducts.map(p =>
-        p.id === swapProduct.id ? alternative : p
-      )
+    const nextProducts = products.map(p =>
+      p.id === swapProduct.id ? alternative : p
     )
+    setProducts(nextProducts)
+    if (setupId) {
+      recordRevision({ kind: 'swap', products: nextProducts, note: `Swapped ${swapProduct.title}` })
+    }
+    setCompareIds(prev => prev.filter(id => id !== swapProduct.id))
 
     // Close modal and reset state
     setSwapModalOpen(false)
@@ -184,8 +243,12 @@ function ResultsContent() {
       const result = await refetch()
       
       // Update products with new results
-      if (result.data?.products) {
-        setProducts(result.data.products)
+      const rerolled = result.data?.products
+      if (rerolled) {
+        setProducts(rerolled)
+        if (setupId && rerolled.length > 0) {
+          recordRevision({ kind: 'reroll', products: rerolled })
+        }
       }
     } catch (error) {
       console.error('Reroll failed:', error)
@@ -198,16 +261,36 @@ function ResultsContent() {
     }
   }
 
+  // Make an older revision current again
+  const handleRestoreRevision = async (revision: number) => {
+    try {
+      const restored = await restoreRevision(revision)
+      setProducts(restored.products)
+      setCompareIds([])
+    } catch (error) {
+      console.error('Restore failed:', error)
+    }
+  }
+
+  // Add a category or one of the user's own items as a new revision
+  const handleAddToSetup = async (request: SetupAddRequest) => {
+    const revision = await addProduct(request)
+    setProducts(revision.products)
+  }
+
+  const handleRemoveProduct = async (productId: string) => {
+    try {
+      const revision = await removeProduct(productId)
+      setProducts(revision.products)
+      setCompareIds(prev => prev.filter(id => id !== productId))
+    } catch (error) {
+      console.error('Remove failed:', error)
+    }
+  }
+
   // Handle new search
   const handleNewSearch = (newQuery: string, newSettings: SearchSettings) => {
-    const params = new URLSearchParams({
-      q: newQuery,
-      style: newSettings.style,
-      budget: newSettings.budget.toString(),
-      currency: newSettings.currency,
-      region: newSettings.region || 'US',
-      amazonOnly: newSettings.amazonOnly.toString()
-    })
+    const params = toSearchParams(newQuery, { ...newSettings, constraints: newSettings.constraints ?? settings.constraints })
 
     router.push(`/results?${params.toString()}`)
   }
@@ -271,13 +354,13 @@ function ResultsContent() {
                 )}
 
                 {/* Export Button */}
-                {data && data.products.length > 0 && (
+                {products.length > 0 && (
                   <div className="flex-shrink-0">
                     <ExportButtons
-                      products={data.products}
+                      products={products}
                       query={query}
                       settings={settings}
-                      totalCost={data.products.reduce((sum, p) => sum + p.price, 0)}
+                      totalCost={products.reduce((sum, p) => sum + p.price, 0)}
                     />
                   </div>
                 )}
@@ -288,6 +371,33 @@ function ResultsContent() {
                     <SaveButton searchId={data.searchId} isAuthenticated={isAuthenticated} />
                   </div>
                 )}
+
+                {/* Revision history - once the setup has been changed */}
+                {revisions.length > 1 && (
+                  <select
+                    value=""
+                    onChange={(e) => handleRestoreRevision(Number(e.target.value))}
+                    disabled={isRestoring}
+                    className="px-3 py-2 bg-card text-card-foreground border border-border rounded-lg text-sm flex-shrink-0 disabled:opacity-50"
+                    aria-label="Restore an earlier revision"
+                  >
+                    <option value="" disabled>Revision {revisions[revisions.length - 1].revision}</option>
+                    {revisions.slice(0, -1).reverse().map((revision) => (
+                      <option key={revision.revision} value={revision.revision}>
+                        Restore #{revision.revision} ({revision.kind}, {new Date(revision.createdAt).toLocaleTimeString()})
+                      </option>
+                    ))}
+                  </select>
+                )}
+
+                {/* Add a category or the user's own item */}
+                {setupId && (
+                  <AddToSetup
+                    currency={settings.currency}
+                    onAdd={handleAddToSetup}
+                    isAdding={isEditing}
+                  />
+                )}
               </div>
 
               {/* Right Side - Reroll Button */}
@@ -321,7 +431,22 @@ function ResultsContent() {
             <EnhancedGhostLoader
               isLoading={true}
               query={isRerolling ? `Rerolling ${query}` : query}
+              progress={buildProgress}
             />
+
+            {/* Products streamed in so far */}
+            {getArrivedProducts(buildProgress).length > 0 && (
+              <div className="w-full mt-8 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-3 sm:gap-4 lg:gap-6">
+                {getArrivedProducts(buildProgress).map((product) => (
+                  <ProductCard
+                    key={product.id}
+                    product={product}
+                    showRationale={true}
+                    category={product.category}
+                  />
+                ))}
+              </div>
+            )}
           </div>
         )}
 
@@ -352,11 +477,11 @@ function ResultsContent() {
             {/* Products Grid - Show by default */}
             {products.length > 0 ? (
               <>
-                {/* Budget Chart for Setups */}
-                {data.isSetup && data.budgetChart && (
+                {/* Budget Chart for Setups, following swaps, adds and removals */}
+                {data.isSetup && (
                   <div className="mb-4 sm:mb-8">
                     <BudgetChart
-                      distribution={data.budgetChart}
+                      distribution={getBudgetDistribution(products)}
                       totalBudget={settings.budget}
                       currency={settings.currency}
                       chartType="pie"
@@ -369,7 +494,9 @@ function ResultsContent() {
                   <StatsView
                     products={products}
                     totalCost={products.reduce((sum, p) => sum + p.price, 0)}
-                    averageRating={products.reduce((sum, p) => sum + p.rating, 0) / products.length}
+                    averageRating={ratedProducts.length > 0
+                      ? ratedProducts.reduce((sum, p) => sum + p.rating, 0) / ratedProducts.length
+                      : 0}
                     categoryDistribution={[]} // Will be calculated in StatsView component
                     currency={settings.currency}
                     onToggleView={() => setShowStats(false)}
@@ -381,7 +508,11 @@ function ResultsContent() {
                       <ProductCard
                         key={product.id}
                         product={product}
-                        onSwap={handleSwap}
+                        onSwap={product.custom ? undefined : handleSwap}
+                        onCompare={handleCompareToggle}
+                        onRemove={setupId && products.length > 1 ? handleRemoveProduct : undefined}
+                        searchId={setupId}
+                        isCompared={compareIds.includes(product.id)}
                         showRationale={true}
                         category={product.category}
                         isSwapping={swappingProductId === product.id}
@@ -413,6 +544,36 @@ function ResultsContent() {
           </>
         )}
 
+        {/* Compare Tray */}
+        {comparedProducts.length > 0 && !compareOpen && (
+          <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 px-4 py-3 bg-card border border-border rounded-xl shadow-2xl">
+            <span className="text-sm text-card-foreground">
+              {comparedProducts.length} of {MAX_COMPARED_PRODUCTS} selected to compare
+            </span>
+            <button
+              onClick={() => setCompareIds([])}
+              className="px-3 py-1.5 text-sm text-muted-foreground hover:text-card-foreground transition-colors"
+            >
+              Clear
+            </button>
+            <button
+              onClick={() => setCompareOpen(true)}
+              disabled={comparedProducts.length < 2}
+              className="px-4 py-1.5 text-sm bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-medium"
+            >
+              Compare
+            </button>
+          </div>
+        )}
+
+        {/* Compare View */}
+        <CompareView
+          isOpen={compareOpen}
+          onClose={() => setCompareOpen(false)}
+          products={comparedProducts}
+          onRemoveProduct={handleCompareToggle}
+        />
+
         {/* Swap Modal */}
         {swapProduct && (
           <SwapModal
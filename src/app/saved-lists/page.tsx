@@ -6,6 +6,7 @@ import { Navbar } from '@/components/ui/navbar'
 import { useAuth } from '@/hooks/use-auth'
 import { SearchSettings } from '@/types'
 import SpotlightCard from '@/components/ui/spotlight-card'
+import { AuthService } from '@/lib/auth'
 
 const DEFAULT_SETTINGS: SearchSettings = {
   style: 'Premium',
@@ -18,7 +19,7 @@ interface SavedSearch {
   id: string
   query: string
   settings: SearchSettings
-  createdAt: Date
+  createdAt: string
   productCount: number
 }
 
@@ -43,7 +44,9 @@ export default function SavedListsPage() {
 
   const loadSavedSearches = async () => {
     try {
-      const response = await fetch('/api/saved-searches')
+      const response = await fetch('/api/saved-searches', {
+        headers: AuthService.getAuthHeaders()
+      })
       if (response.ok) {
         const data = await response.json()
         setSavedSearches(data.data || [])
@@ -79,7 +82,8 @@ export default function SavedListsPage() {
   const handleDeleteSearch = async (searchId: string) => {
     try {
       const response = await fetch(`/api/saved-searches?id=${searchId}`, {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: AuthService.getAuthHeaders()
       })
       
       if (response.ok) {
@@ -92,12 +96,12 @@ export default function SavedListsPage() {
     }
   }
 
-  const formatDate = (date: Date) => {
+  const formatDate = (date: string) => {
     return new Intl.DateTimeFormat('en-US', {
       year: 'numeric',
       month: 'short',
       day: 'numeric'
-    }).format(date)
+    }).format(new Date(date))
   }
 
   if (authLoading || !isAuthenticated) {
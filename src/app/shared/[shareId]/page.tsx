@@ -1,16 +1,18 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useParams, useRouter } from 'next/navigation'
+import { useParams, useRouter, useSearchParams } from 'next/navigation'
 import { useQuery } from '@tanstack/react-query'
 import { Setup, Product, SearchSettings } from '@/types'
+import { SceneResponse, SharedSetupResponse as SharedSetupData } from '@/types/api'
 import { ProductCard } from '@/components/product/product-card'
 import { BudgetChart } from '@/components/charts/budget-chart'
 import { StatsView } from '@/components/ui/stats-view'
 import DotGrid from '@/components/ui/dot-grid'
 
 interface SharedSetupResponse {
-  setup: Setup
+  setup: Setup & { scenes?: SceneResponse[] }
+  metadata?: SharedSetupData['metadata']
   success: boolean
   error?: string
 }
@@ -20,12 +22,16 @@ export default function SharedSetupPage() {
   const router = useRouter()
   const [showStats, setShowStats] = useState(false)
   const shareId = params.shareId as string
+  // Links to a setup that follows its revisions can ask for one with ?revision=
+  const revisionParam = useSearchParams().get('revision')
 
   // Fetch shared setup
   const { data, isLoading, error } = useQuery<SharedSetupResponse>({
-    queryKey: ['shared-setup', shareId],
+    queryKey: ['shared-setup', shareId, revisionParam],
     queryFn: async () => {
-      const response = await fetch(`/api/share/${shareId}`)
+      const query = new URLSearchParams({ id: shareId })
+      if (revisionParam) query.set('revision', revisionParam)
+      const response = await fetch(`/api/share?${query.toString()}`)
       
       if (!response.ok) {
         throw new Error('Failed to load shared setup')
@@ -179,6 +185,19 @@ export default function SharedSetupPage() {
                     <span>
                       Shared {new Date(data.setup.createdAt).toLocaleDateString()}
                     </span>
+                    {data.metadata?.revision && (
+                      <>
+                        <span>•</span>
+                        <span>
+                          Revision {data.metadata.revision.number}
+                          {data.metadata.revision.pinned
+                            ? ' (pinned)'
+                            : data.metadata.revision.number < data.metadata.revision.latest
+                              ? ` of ${data.metadata.revision.latest}`
+                              : ' (latest)'}
+                        </span>
+                      </>
+                    )}
                   </div>
                 </div>
                 
@@ -211,6 +230,20 @@ export default function SharedSetupPage() {
               </div>
             </div>
 
+            {/* Scenes generated before the setup was shared */}
+            {data.setup.scenes && data.setup.scenes.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+                {data.setup.scenes.map((scene) => (
+                  <img
+                    key={scene.imageUrl}
+                    src={scene.imageUrl}
+                    alt={`${scene.style} scene featuring this setup`}
+                    className="w-full rounded-lg object-cover"
+                  />
+                ))}
+              </div>
+            )}
+
             {/* Budget Chart */}
             {data.setup.budgetDistribution && data.setup.budgetDistribution.length > 0 && (
               <div className="mb-8">
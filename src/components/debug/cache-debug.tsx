@@ -1,6 +1,7 @@
 'use client'
 
 import { useState } from 'react'
+import { AuthService } from '@/lib/auth'
 
 export function CacheDebug() {
   const [isClearing, setIsClearing] = useState(false)
@@ -15,6 +16,7 @@ export function CacheDebug() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...AuthService.getAuthHeaders(),
         },
       })
       
@@ -23,7 +25,7 @@ export function CacheDebug() {
       if (data.success) {
         setResult(`✅ Cleared ${data.clearedKeys} cache entries`)
       } else {
-        setResult(`❌ Failed to clear cache: ${data.error}`)
+        setResult(`❌ Failed to clear cache: ${data.message || data.error}`)
       }
     } catch (error) {
       setResult(`❌ Error: ${error}`)
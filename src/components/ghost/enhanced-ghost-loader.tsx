@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useRef } from 'react'
 import { useRive, useStateMachineInput } from '@rive-app/react-canvas'
+import type { BuildProgress } from '@/hooks/use-build-stream'
 
 interface LoadingItem {
   id: string
@@ -20,9 +21,35 @@ interface EnhancedGhostLoaderProps {
   isLoading: boolean
   query: string
   products?: Product[]
+  progress?: BuildProgress // Real pipeline progress from /api/build/stream
   className?: string
 }
 
+// Map streamed build progress to the single "current step" the loader displays
+function getStreamedItem(progress: BuildProgress): LoadingItem {
+  if (progress.stage === 'planning' || progress.stage === 'idle') {
+    return { id: 'plan', name: 'Analyzing your requirements', status: 'loading' }
+  }
+
+  const active = progress.items.find(item => item.status === 'searching' || item.status === 'selecting')
+  if (active) {
+    return {
+      id: active.key,
+      name: active.status === 'searching' ? `Searching for ${active.name}` : `Choosing the best ${active.name}`,
+      status: 'loading'
+    }
+  }
+
+  const lastSelected = [...progress.items].reverse().find(item => item.status === 'selected')
+  if (progress.completed >= progress.total) {
+    return { id: 'final', name: 'Finalizing recommendations', status: progress.stage === 'done' ? 'completed' : 'loading' }
+  }
+
+  return lastSelected
+    ? { id: lastSelected.key, name: `Picked ${lastSelected.name}`, status: 'completed' }
+    : { id: 'search', name: 'Searching product databases', status: 'loading' }
+}
+
 // Generate dynamic loading steps based on query complexity
 function generateLoadingItems(query: string): LoadingItem[] {
   const lowerQuery = query.toLowerCase()
@@ -114,8 +141,10 @@ export function EnhancedGhostLoader({
   isLoading, 
   query,
   products = [],
+  progress,
   className = '' 
 }: EnhancedGhostLoaderProps) {
+  const isStreamed = !!progress && progress.stage !== 'idle'
   const [items, setItems] = useState<LoadingItem[]>([])
   const [currentItemIndex, setCurrentItemIndex] = useState(0)
   const [currentItem, setCurrentItem] = useState<LoadingItem | null>(null)
@@ -146,9 +175,9 @@ export function EnhancedGhostLoader({
     }
   }, [isLoading, isSearchingInput])
 
-  // Initialize items when loading starts
+  // Initialize items when loading starts (simulated steps unless real progress is streamed)
   useEffect(() => {
-    if (isLoading) {
+    if (isLoading && !isStreamed) {
       const loadingItems = generateLoadingItems(query)
       setItems(loadingItems)
       setCurrentItemIndex(0)
@@ -197,12 +226,18 @@ export function EnhancedGhostLoader({
       setCurrentItem(null)
       setShowProducts(false)
     }
-  }, [isLoading, query, products.length])
+  }, [isLoading, isStreamed, query, products.length])
 
   if (!isLoading) {
     return null
   }
 
+  const displayItem = isStreamed ? getStreamedItem(progress!) : currentItem
+  const completedCount = isStreamed
+    ? progress!.completed
+    : Math.min(currentItemIndex + (currentItem?.status === 'completed' ? 1 : 0), items.length)
+  const totalCount = isStreamed ? Math.max(progress!.total, 1) : items.length
+
   return (
     <div className={`flex flex-col items-center justify-center space-y-8 ${className}`}>
       {/* Much Larger Ghost Animation Container */}
@@ -241,27 +276,27 @@ export function EnhancedGhostLoader({
       </div>
 
       {/* Single Current Item Display */}
-      {currentItem && (
+      {displayItem && (
         <div className="w-full max-w-md mx-auto">
           <div 
             className={`flex items-center justify-between p-6 rounded-xl border-2 transition-all duration-500 ${
-              currentItem.status === 'completed' 
+              displayItem.status === 'completed' 
                 ? 'bg-green-900/20 border-green-500/50 shadow-green-500/20 shadow-lg' 
-                : currentItem.status === 'loading'
+                : displayItem.status === 'loading'
                 ? 'bg-blue-900/20 border-blue-500/50 shadow-blue-500/20 shadow-lg'
                 : 'bg-card border-border'
             }`}
           >
-            <span className="font-semibold text-lg text-foreground">{currentItem.name}</span>
+            <span className="font-semibold text-lg text-foreground">{displayItem.name}</span>
             
             <div className="flex items-center">
-              {currentItem.status === 'loading' && (
+              {displayItem.status === 'loading' && (
                 <div className="w-8 h-8">
                   <div className="w-full h-full border-3 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
                 </div>
               )}
               
-              {currentItem.status === 'completed' && (
+              {displayItem.status === 'completed' && (
                 <div className="w-8 h-8 bg-green-500 rounded-full flex items-center justify-center animate-scale-in">
                   <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
@@ -277,13 +312,13 @@ export function EnhancedGhostLoader({
       <div className="w-full max-w-md mx-auto">
         <div className="flex justify-between text-sm text-muted-foreground mb-2">
           <span>Progress</span>
-          <span>{Math.min(currentItemIndex + (currentItem?.status === 'completed' ? 1 : 0), items.length)} / {items.length}</span>
+          <span>{completedCount} / {isStreamed ? progress!.total : items.length}</span>
         </div>
         <div className="w-full bg-muted rounded-full h-3">
           <div 
             className="bg-primary h-3 rounded-full transition-all duration-500 ease-out"
             style={{ 
-              width: `${Math.min(((currentItemIndex + (currentItem?.status === 'completed' ? 1 : 0)) / items.length) * 100, 100)}%` 
+              width: `${Math.min((completedCount / totalCount) * 100, 100)}%` 
             }}
           ></div>
         </div>
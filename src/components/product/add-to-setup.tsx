@@ -0,0 +1,159 @@
+'use client'
+
+import { useState } from 'react'
+import { SetupAddRequest } from '@/types/api'
+
+interface AddToSetupProps {
+  currency: string
+  onAdd: (request: SetupAddRequest) => Promise<void>
+  isAdding?: boolean
+  className?: string
+}
+
+type Mode = SetupAddRequest['type']
+
+const inputClassName = 'w-full px-3 py-2 bg-background text-foreground border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary/50'
+
+export function AddToSetup({ currency, onAdd, isAdding = false, className = '' }: AddToSetupProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [mode, setMode] = useState<Mode>('category')
+  const [category, setCategory] = useState('')
+  const [title, setTitle] = useState('')
+  const [price, setPrice] = useState('')
+  const [productUrl, setProductUrl] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const reset = () => {
+    setCategory('')
+    setTitle('')
+    setPrice('')
+    setProductUrl('')
+    setError(null)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    const request: SetupAddRequest = mode === 'category'
+      ? { type: 'category', category: category.trim() }
+      : {
+        type: 'custom',
+        item: {
+          title: title.trim(),
+          price: Number(price),
+          ...(productUrl.trim() && { productUrl: productUrl.trim() })
+        }
+      }
+
+    try {
+      await onAdd(request)
+      reset()
+      setIsOpen(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add to setup')
+    }
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className={`px-3 py-2 bg-card text-card-foreground border border-border rounded-lg hover:bg-accent font-medium transition-colors text-sm flex-shrink-0 ${className}`}
+      >
+        + Add to setup
+      </button>
+    )
+  }
+
+  const canSubmit = mode === 'category'
+    ? category.trim().length > 0
+    : title.trim().length > 0 && Number(price) > 0
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className={`w-full p-4 bg-card border border-border rounded-xl space-y-3 ${className}`}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex gap-2" role="tablist">
+          {(['category', 'custom'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              role="tab"
+              aria-selected={mode === option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${mode === option
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:bg-accent'
+                }`}
+            >
+              {option === 'category' ? 'New category' : 'Your own item'}
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => {
+            reset()
+            setIsOpen(false)
+          }}
+          className="text-muted-foreground hover:text-card-foreground text-sm"
+        >
+          Cancel
+        </button>
+      </div>
+
+      {mode === 'category' ? (
+        <input
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          placeholder="e.g. Desk lamp"
+          maxLength={100}
+          className={inputClassName}
+          aria-label="Category to add"
+        />
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="What is it?"
+            maxLength={200}
+            className={inputClassName}
+            aria-label="Item name"
+          />
+          <input
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder={`Price (${currency})`}
+            className={inputClassName}
+            aria-label="Item price"
+          />
+          <input
+            value={productUrl}
+            onChange={(e) => setProductUrl(e.target.value)}
+            type="url"
+            placeholder="Link (optional)"
+            className={inputClassName}
+            aria-label="Item link"
+          />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={!canSubmit || isAdding}
+        className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition-colors"
+      >
+        {isAdding ? 'Adding...' : 'Add'}
+      </button>
+    </form>
+  )
+}
\ No newline at end of file
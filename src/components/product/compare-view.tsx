@@ -0,0 +1,243 @@
+'use client'
+
+import { useEffect } from 'react'
+import { Product } from '@/types'
+import { ComparisonRow, ComparisonValue } from '@/types/api'
+import { formatCurrency, isSupportedCurrency } from '@/lib/currency'
+import { useCompare } from '@/hooks/use-compare'
+import Noise from '@/components/ui/noise'
+
+interface CompareViewProps {
+  isOpen: boolean
+  onClose: () => void
+  products: Product[]
+  onRemoveProduct?: (productId: string) => void
+}
+
+export function CompareView({
+  isOpen,
+  onClose,
+  products,
+  onRemoveProduct
+}: CompareViewProps) {
+  const { compare, comparison, isComparing, error, reset } = useCompare()
+  const productKey = products.map(product => product.id).join(',')
+
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden'
+    } else {
+      document.body.style.overflow = 'unset'
+    }
+
+    return () => {
+      document.body.style.overflow = 'unset'
+    }
+  }, [isOpen])
+
+  // Compare again whenever the set of products changes
+  useEffect(() => {
+    if (!isOpen) return
+    if (products.length < 2) {
+      reset()
+      return
+    }
+    compare({ products })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, productKey])
+
+  if (!isOpen) return null
+
+  const formatValue = (row: ComparisonRow, value: ComparisonValue) => {
+    if (value === null) return <span className="text-muted-foreground">—</span>
+
+    if (Array.isArray(value)) {
+      if (value.length === 0) return <span className="text-muted-foreground">—</span>
+      return (
+        <ul className="space-y-1 text-left">
+          {value.map((item, index) => (
+            <li key={index} className="text-xs">{item}</li>
+          ))}
+        </ul>
+      )
+    }
+
+    if (typeof value === 'number') {
+      if (row.key === 'price' && row.unit && isSupportedCurrency(row.unit)) return formatCurrency(value, row.unit)
+      if (row.key === 'rating') return `${value.toFixed(1)} ★`
+      if (row.key === 'reviewCount') return value.toLocaleString()
+      return row.unit ? `${value.toLocaleString()} ${row.unit}` : value.toLocaleString()
+    }
+
+    return value
+  }
+
+  const renderRows = (rows: ComparisonRow[]) => rows.map((row) => (
+    <tr key={row.key} className="border-t border-border">
+      <th scope="row" className="px-4 py-3 text-left text-sm font-medium text-card-foreground align-top whitespace-nowrap">
+        {row.label}
+        {row.better && (
+          <span className="block text-xs font-normal text-muted-foreground">
+            {row.better === 'higher' ? 'Higher is better' : 'Lower is better'}
+          </span>
+        )}
+      </th>
+      {comparison?.products.map((product, index) => {
+        const isWinner = row.winnerId === product.id
+        return (
+          <td
+            key={product.id}
+            className={`px-4 py-3 text-sm align-top text-center ${isWinner ? 'bg-green-500/10 text-card-foreground font-medium' : 'text-muted-foreground'}`}
+          >
+            {formatValue(row, row.values[index] ?? null)}
+            {isWinner && (
+              <span className="mt-1 block text-xs text-green-400">Best</span>
+            )}
+          </td>
+        )
+      })}
+    </tr>
+  ))
+
+  const overviewRows = comparison?.rows.filter(row => row.group === 'overview') ?? []
+  const specRows = comparison?.rows.filter(row => row.group === 'specs') ?? []
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black/70 backdrop-blur-sm transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-card border border-border rounded-xl shadow-2xl max-w-6xl w-full max-h-[90vh] overflow-hidden animate-scale-in">
+          {/* Noise Effect */}
+          <div className="absolute inset-0 opacity-30 pointer-events-none">
+            <Noise
+              patternAlpha={5}
+              patternRefreshInterval={4}
+            />
+          </div>
+
+          {/* Header */}
+          <div className="relative px-6 py-4 border-b border-border bg-card/80 backdrop-blur-sm">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-card-foreground">
+                Compare Products
+              </h2>
+              <div className="flex items-center space-x-3">
+                {comparison && comparison.specsSource === 'listing' && (
+                  <button
+                    onClick={() => compare({ products, extractSpecs: true })}
+                    disabled={isComparing}
+                    className="px-3 py-1.5 text-sm border border-border rounded-lg text-card-foreground hover:bg-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Extract specs with AI
+                  </button>
+                )}
+                <button
+                  onClick={onClose}
+                  className="text-muted-foreground hover:text-card-foreground transition-colors p-1 rounded-lg hover:bg-accent"
+                >
+                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground mt-1">
+              {products.length} products side by side; the best value in each row is highlighted
+            </p>
+          </div>
+
+          {/* Content */}
+          <div className="relative overflow-auto max-h-[calc(90vh-120px)] bg-card/20">
+            {products.length < 2 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                Pick at least two products to compare.
+              </div>
+            ) : isComparing ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="text-center">
+                  <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+                  <p className="text-muted-foreground">Comparing products...</p>
+                </div>
+              </div>
+            ) : error ? (
+              <div className="text-center py-12">
+                <h3 className="text-lg font-medium text-card-foreground mb-2">Comparison failed</h3>
+                <p className="text-muted-foreground mb-4">{error.message}</p>
+                <button
+                  onClick={() => compare({ products })}
+                  className="px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
+                >
+                  Try Again
+                </button>
+              </div>
+            ) : comparison ? (
+              <table className="w-full border-collapse">
+                <thead>
+                  <tr>
+                    <th className="px-4 py-3" />
+                    {comparison.products.map((product) => (
+                      <th key={product.id} scope="col" className="px-4 py-3 align-top min-w-[10rem]">
+                        <div className="relative">
+                          {onRemoveProduct && (
+                            <button
+                              onClick={() => onRemoveProduct(product.id)}
+                              className="absolute -top-1 right-0 text-muted-foreground hover:text-card-foreground"
+                              aria-label={`Remove ${product.title} from comparison`}
+                            >
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                              </svg>
+                            </button>
+                          )}
+                          <div className="h-24 mb-2 flex items-center justify-center">
+                            <img
+                              src={product.imageUrl}
+                              alt={product.title}
+                              className="max-h-full object-contain"
+                              onError={(e) => {
+                                const target = e.target as HTMLImageElement
+                                target.style.display = 'none'
+                              }}
+                            />
+                          </div>
+                          <a
+                            href={product.clickUrl ?? product.productUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="block text-sm font-medium text-card-foreground line-clamp-2 hover:text-primary"
+                          >
+                            {product.title}
+                          </a>
+                          <span className="mt-1 inline-block px-2 py-0.5 text-xs rounded-full bg-primary/10 text-primary border border-primary/20">
+                            Best in {comparison.wins[product.id] ?? 0}
+                          </span>
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {renderRows(overviewRows)}
+                  {specRows.length > 0 && (
+                    <tr className="border-t border-border">
+                      <th colSpan={comparison.products.length + 1} className="px-4 pt-6 pb-2 text-left text-xs uppercase tracking-wide text-muted-foreground">
+                        Specs {comparison.specsSource === 'model' ? '(extracted by AI)' : '(from listings)'}
+                      </th>
+                    </tr>
+                  )}
+                  {renderRows(specRows)}
+                </tbody>
+              </table>
+            ) : null}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
\ No newline at end of file
@@ -1 +1,2 @@
-export { ProductCard } from './product-card'
\ No newline at end of file
+export { ProductCard } from './product-card'
+export { CompareView } from './compare-view'
\ No newline at end of file
@@ -4,10 +4,15 @@ import { useState } from 'react'
 import Image from 'next/image'
 import { Product } from '@/types'
 import SpotlightCard from '@/components/ui/spotlight-card'
+import { trackProductClick } from '@/hooks/use-analytics'
 
 interface ProductCardProps {
   product: Product
-  onSwap: (productId: string) => void
+  onSwap?: (productId: string) => void // Swap button is hidden when omitted
+  onCompare?: (productId: string) => void // Compare toggle is hidden when omitted
+  onRemove?: (productId: string) => void // Remove button is hidden when omitted
+  searchId?: string // Search the card belongs to, reported with clicks
+  isCompared?: boolean
   showRationale?: boolean
   category?: string
   isSwapping?: boolean
@@ -26,6 +31,10 @@ const MERCHANT_COLORS = {
 export function ProductCard({
   product,
   onSwap,
+  onCompare,
+  onRemove,
+  searchId,
+  isCompared = false,
   showRationale = true,
   category,
   isSwapping = false,
@@ -112,7 +121,12 @@ export function ProductCard({
           </span>
         )}
         
-        {/* Confidence Badge */}
+        {/* Confidence Badge; custom items were picked by the user, not matched */}
+        {product.custom ? (
+          <div className="px-3 py-1.5 rounded-full text-xs font-medium border backdrop-blur-md shadow-lg flex-shrink-0 bg-ghost-purple/90 text-white border-ghost-purple/50">
+            Your item
+          </div>
+        ) : (
         <div className={`px-3 py-1.5 rounded-full text-xs font-medium border backdrop-blur-md shadow-lg flex-shrink-0 ${product.confidence >= 0.8
           ? 'bg-green-500/90 text-white border-green-400/50'
           : product.confidence >= 0.6
@@ -121,6 +135,7 @@ export function ProductCard({
           }`}>
           {Math.round(product.confidence * 100)}% match
         </div>
+        )}
       </div>
 
       {/* Product Image */}
@@ -166,8 +181,15 @@ export function ProductCard({
 
         {/* Price and Merchant */}
         <div className="flex items-center justify-between">
-          <div className="text-2xl font-bold text-foreground">
-            {formatPrice(product.price, product.currency)}
+          <div>
+            <div className="text-2xl font-bold text-foreground">
+              {formatPrice(product.price, product.currency)}
+            </div>
+            {product.originalCurrency && product.originalPrice !== undefined && (
+              <div className="text-xs text-muted-foreground">
+                Listed at {formatPrice(product.originalPrice, product.originalCurrency)} {product.originalCurrency}
+              </div>
+            )}
           </div>
           <span className={`px-3 py-1.5 rounded-full text-xs font-medium ${getMerchantColor(product.merchant.split(' - ')[0])}`}>
             {product.merchant.split(' - ')[0]}
@@ -175,9 +197,11 @@ export function ProductCard({
         </div>
 
         {/* Rating */}
-        <div className="flex items-center">
-          {renderStars(product.rating)}
-        </div>
+        {!product.custom && (
+          <div className="flex items-center">
+            {renderStars(product.rating)}
+          </div>
+        )}
 
         {/* Features */}
         {product.features && product.features.length > 0 && (
@@ -211,29 +235,59 @@ export function ProductCard({
 
         {/* Action Buttons */}
         <div className="flex gap-3 pt-2">
-          <a
-            href={product.productUrl}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground text-center py-3 px-4 rounded-lg font-medium transition-all duration-200 hover:shadow-lg"
-          >
-            View Product
-          </a>
-
-          <button
-            onClick={() => onSwap(product.id)}
-            disabled={isSwapping}
-            className="px-4 py-3 border border-border text-foreground rounded-lg font-medium hover:bg-accent hover:text-accent-foreground transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {isSwapping ? (
-              <div className="flex items-center space-x-2">
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
-                <span>Swapping...</span>
-              </div>
-            ) : (
-              'Swap'
-            )}
-          </button>
+          {/* Custom items added without a link have nothing to view */}
+          {product.productUrl !== '#' && (
+            <a
+              href={product.clickUrl ?? product.productUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              // Tracked links count the click themselves
+              onClick={product.clickUrl ? undefined : () => trackProductClick(product, searchId)}
+              className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground text-center py-3 px-4 rounded-lg font-medium transition-all duration-200 hover:shadow-lg"
+            >
+              View Product
+            </a>
+          )}
+
+          {onSwap && (
+            <button
+              onClick={() => onSwap(product.id)}
+              disabled={isSwapping}
+              className="px-4 py-3 border border-border text-foreground rounded-lg font-medium hover:bg-accent hover:text-accent-foreground transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSwapping ? (
+                <div className="flex items-center space-x-2">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
+                  <span>Swapping...</span>
+                </div>
+              ) : (
+                'Swap'
+              )}
+            </button>
+          )}
+
+          {onCompare && (
+            <button
+              onClick={() => onCompare(product.id)}
+              aria-pressed={isCompared}
+              className={`px-4 py-3 border rounded-lg font-medium transition-all duration-200 ${isCompared
+                ? 'border-primary bg-primary/10 text-primary'
+                : 'border-border text-foreground hover:bg-accent hover:text-accent-foreground'
+                }`}
+            >
+              {isCompared ? 'Comparing' : 'Compare'}
+            </button>
+          )}
+
+          {onRemove && (
+            <button
+              onClick={() => onRemove(product.id)}
+              aria-label={`Remove ${product.title} from the setup`}
+              className="px-4 py-3 border border-border text-muted-foreground rounded-lg font-medium hover:bg-destructive/10 hover:text-destructive transition-all duration-200"
+            >
+              Remove
+            </button>
+          )}
         </div>
       </div>
     </SpotlightCard>
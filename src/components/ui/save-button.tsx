@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { AuthService } from '@/lib/auth'
 
 interface SaveButtonProps {
   searchId: string
@@ -18,10 +19,12 @@ export function SaveButton({ searchId, isAuthenticated = false }: SaveButtonProp
 
   const checkSaveStatus = async () => {
     try {
-      const response = await fetch('/api/save-search')
+      const response = await fetch(`/api/save-search?id=${searchId}`, {
+        headers: AuthService.getAuthHeaders()
+      })
       if (response.ok) {
         const data = await response.json()
-        setIsSaved(data.data.includes(searchId))
+        setIsSaved(data.data.isSaved)
       }
     } catch (error) {
       console.error('Error checking save status:', error)
@@ -36,7 +39,8 @@ export function SaveButton({ searchId, isAuthenticated = false }: SaveButtonProp
       if (isSaved) {
         // Unsave
         const response = await fetch(`/api/save-search?id=${searchId}`, {
-          method: 'DELETE'
+          method: 'DELETE',
+          headers: AuthService.getAuthHeaders()
         })
         
         if (response.ok) {
@@ -48,7 +52,7 @@ export function SaveButton({ searchId, isAuthenticated = false }: SaveButtonProp
         // Save
         const response = await fetch('/api/save-search', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...AuthService.getAuthHeaders() },
           body: JSON.stringify({ searchId })
         })
         
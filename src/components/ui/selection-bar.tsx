@@ -8,6 +8,7 @@ interface SelectionBarProps {
   selectedProducts: string[]
   onProductToggle: (productId: string) => void
   onGenerateScene: (style: AISceneStyle, selectedProducts: string[]) => void
+  onCompare?: (selectedProducts: string[]) => void // Compare button is hidden when omitted
   isGenerating?: boolean
   generatedScenes?: AIScene[]
   className?: string
@@ -47,6 +48,7 @@ export function SelectionBar({
   selectedProducts, 
   onProductToggle, 
   onGenerateScene,
+  onCompare,
   isGenerating = false,
   generatedScenes = [],
   className = '' 
@@ -180,8 +182,23 @@ export function SelectionBar({
             </div>
           </div>
 
-          {/* Generate Button */}
-          <div className="flex-shrink-0 sm:ml-6">
+          {/* Compare and Generate Buttons */}
+          <div className="flex-shrink-0 flex items-center space-x-3 sm:ml-6">
+            {onCompare && (
+              <button
+                onClick={() => onCompare(selectedProducts)}
+                disabled={selectedProducts.length < 2}
+                title={selectedProducts.length < 2 ? 'Select at least two products to compare' : undefined}
+                className={`px-6 py-3 rounded-lg font-medium border transition-all duration-200 ${
+                  selectedProducts.length < 2
+                    ? 'border-gray-200 text-gray-400 cursor-not-allowed'
+                    : 'border-blue-500 text-blue-600 hover:bg-blue-50'
+                }`}
+              >
+                Compare ({selectedProducts.length})
+              </button>
+            )}
+
             <button
               onClick={handleGenerateScene}
               disabled={selectedProducts.length === 0 || isGenerating}
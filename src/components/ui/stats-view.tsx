@@ -112,7 +112,7 @@ export function StatsView({
 
     // Category distribution (item types)
     const categoryCounts = products.reduce((acc, product) => {
-      const category = categorizeProduct(product.title)
+      const category = product.category ?? categorizeProduct(product.title)
       acc[category] = (acc[category] || 0) + 1
       return acc
     }, {} as Record<string, number>)
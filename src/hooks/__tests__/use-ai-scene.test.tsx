@@ -77,20 +77,52 @@ describe('useAIScene', () => {
     }
   ]
 
-  it('should generate AI scene successfully', async () => {
-    const mockResponse = {
-      imageUrl: 'https://example.com/scene.jpg',
-      prompt: 'A gaming setup with chair',
-      style: 'Gaming'
+  const mockScene = {
+    imageUrl: 'https://example.com/scene.jpg',
+    prompt: 'A gaming setup with chair',
+    style: 'Gaming'
+  }
+
+  const mockResult = {
+    scenes: [mockScene],
+    count: 1,
+    style: 'Gaming',
+    productCount: 1,
+    metadata: {
+      generatedAt: '2026-01-01T00:00:00.000Z',
+      style: 'Gaming',
+      roomType: 'inferred',
+      productTitles: ['Gaming Chair'],
+      estimatedGenerationTime: 35
     }
+  }
 
-    ;(fetch as any).mockResolvedValueOnce({
-      ok: true,
-      json: async () => mockResponse,
-    })
+  const mockJob = (status: string, overrides: Record<string, unknown> = {}) => ({
+    job: {
+      id: 'scene_1',
+      status,
+      style: 'Gaming',
+      roomType: null,
+      productCount: 1,
+      variationCount: 1,
+      variations: [{ variation: 1, status, scene: null, error: null }],
+      result: null,
+      error: null,
+      estimatedGenerationTime: 35,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      ...overrides
+    }
+  })
+
+  it('should queue a scene job and poll it until it completes', async () => {
+    ;(fetch as any)
+      .mockResolvedValueOnce({ ok: true, json: async () => mockJob('queued') })
+      .mockResolvedValueOnce({ ok: true, json: async () => mockJob('running') })
+      .mockResolvedValueOnce({ ok: true, json: async () => mockJob('completed', { result: mockResult }) })
 
     const { result } = renderHook(
-      () => useAIScene(),
+      () => useAIScene({ pollIntervalMs: 1 }),
       { wrapper: createWrapper() }
     )
 
@@ -100,17 +132,73 @@ describe('useAIScene', () => {
     })
 
     await waitFor(() => {
-      expect(result.current.sceneData).toEqual(mockResponse)
+      expect(result.current.sceneData).toEqual(mockResult)
     })
 
-    expect(fetch).toHaveBeenCalledWith('/api/ai-scene', {
+    expect(fetch).toHaveBeenCalledWith('/api/ai-scene/jobs', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         products: mockProducts,
-        style: 'Gaming'
+        style: 'Gaming',
+        variations: 1
       }),
     })
+    expect(fetch).toHaveBeenCalledWith('/api/ai-scene/jobs/scene_1')
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(result.current.job?.status).toBe('completed')
+  })
+
+  it('should render with one request when the server has no job queue', async () => {
+    ;(fetch as any)
+      .mockResolvedValueOnce({ ok: false, status: 501, json: async () => ({ error: 'Scene jobs are not enabled on this server' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => mockResult })
+
+    const { result } = renderHook(
+      () => useAIScene({ pollIntervalMs: 1 }),
+      { wrapper: createWrapper() }
+    )
+
+    result.current.generateScene({
+      products: mockProducts,
+      style: 'Gaming',
+      variations: 2
+    })
+
+    await waitFor(() => {
+      expect(result.current.sceneData).toEqual(mockResult)
+    })
+
+    expect(fetch).toHaveBeenLastCalledWith('/api/ai-scene?variations=2', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ products: mockProducts, style: 'Gaming' }),
+    })
+    expect(fetch).toHaveBeenCalledTimes(2)
+    expect(result.current.job).toBeNull()
+  })
+
+  it('should report failed jobs as errors', async () => {
+    ;(fetch as any)
+      .mockResolvedValueOnce({ ok: true, json: async () => mockJob('queued') })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockJob('failed', { error: 'Failed to generate any scene variations' })
+      })
+
+    const { result } = renderHook(
+      () => useAIScene({ pollIntervalMs: 1 }),
+      { wrapper: createWrapper() }
+    )
+
+    result.current.generateScene({
+      products: mockProducts,
+      style: 'Gaming'
+    })
+
+    await waitFor(() => {
+      expect(result.current.error?.message).toBe('Failed to generate any scene variations')
+    })
   })
 
   it('should handle AI scene generation errors', async () => {
@@ -2,6 +2,9 @@
 export { useLocalStorage } from './use-local-storage'
 export { useSearch, useSearchMutation, useProductSearch, useSearchSuggestions } from './use-search'
 export { useSwap, useSwapHistory } from './use-swap'
+export { useCompare } from './use-compare'
+export { useSetupRevisions } from './use-setup-revisions'
 export { useReroll } from './use-reroll'
 export { useShare, useSharedSetup, useCopyToClipboard, useExport } from './use-share'
-export { useAIScene, useCachedAIScene, useMultipleAIScenes, useSceneStyleSuggestions, useSceneGallery } from './use-ai-scene'
\ No newline at end of file
+export { useAIScene, useCachedAIScene, useMultipleAIScenes, useSceneStyleSuggestions, useSceneGallery } from './use-ai-scene'
+export { useBuildStream, useBuildProgress, streamBuild } from './use-build-stream'
\ No newline at end of file
@@ -1,7 +1,8 @@
 'use client'
 
+import { useCallback, useRef, useState } from 'react'
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
-import { SceneRequest, SceneResponse } from '@/types/api'
+import { SceneGenerationResponse, SceneJob, SceneJobRequest, SceneJobResponse, SceneRequest, SceneResponse } from '@/types/api'
 import { Product } from '@/types'
 
 interface UseAISceneOptions {
@@ -9,38 +10,104 @@ interface UseAISceneOptions {
   onError?: (error: Error) => void
 }
 
+interface UseAISceneJobOptions {
+  onSuccess?: (data: SceneGenerationResponse) => void
+  onError?: (error: Error) => void
+  // How often to check on a running job
+  pollIntervalMs?: number
+}
+
 interface SceneGenerationRequest {
   products: Product[]
   style: 'Cozy' | 'Minimal' | 'Gaming' | 'Modern'
   roomType?: string
+  // 1 to 5 renders of the same scene
+  variations?: number
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 2000
+const FINISHED_JOB_STATUSES: ReadonlyArray<SceneJob['status']> = ['completed', 'failed', 'cancelled']
+
+async function readSceneJob(response: Response, fallbackMessage: string): Promise<SceneJob> {
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.message || error.error || fallbackMessage)
+  }
+
+  const data: SceneJobResponse = await response.json()
+  return data.job
 }
 
-// Hook for generating AI scenes
-export function useAIScene(options: UseAISceneOptions = {}) {
+// Render with one blocking request, for servers without a scene job queue
+async function generateSceneBlocking(request: SceneJobRequest): Promise<SceneGenerationResponse> {
+  const { variations, ...sceneRequest } = request
+  const response = await fetch(`/api/ai-scene?variations=${variations}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(sceneRequest),
+  })
+
+  if (!response.ok) {
+    const error = await response.json()
+    throw new Error(error.message || error.error || 'Failed to generate AI scene')
+  }
+  return response.json()
+}
+
+// Hook for generating AI scenes. Rendering takes 30s or more, so where the
+// server has a job queue the scene is queued and polled rather than awaited in
+// one long request; otherwise (the jobs route answers 501) it is awaited.
+export function useAIScene(options: UseAISceneJobOptions = {}) {
   const queryClient = useQueryClient()
+  const [job, setJob] = useState<SceneJob | null>(null)
+  const activeJobId = useRef<string | null>(null)
 
   const sceneMutation = useMutation({
-    mutationFn: async (request: SceneGenerationRequest): Promise<SceneResponse> => {
-      const sceneRequest: SceneRequest = {
+    mutationFn: async (request: SceneGenerationRequest): Promise<SceneGenerationResponse> => {
+      const jobRequest: SceneJobRequest = {
         products: request.products,
         style: request.style,
-        roomType: request.roomType
+        roomType: request.roomType,
+        variations: request.variations ?? 1
       }
 
-      const response = await fetch('/api/ai-scene', {
+      const response = await fetch('/api/ai-scene/jobs', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(sceneRequest),
+        body: JSON.stringify(jobRequest),
       })
+      if (response.status === 501) {
+        return generateSceneBlocking(jobRequest)
+      }
 
-      if (!response.ok) {
-        const error = await response.json()
-        throw new Error(error.message || 'Failed to generate AI scene')
+      let current = await readSceneJob(response, 'Failed to generate AI scene')
+      activeJobId.current = current.id
+      setJob(current)
+
+      try {
+        while (!FINISHED_JOB_STATUSES.includes(current.status)) {
+          await new Promise(resolve => setTimeout(resolve, options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS))
+          current = await readSceneJob(
+            await fetch(`/api/ai-scene/jobs/${current.id}`),
+            'Failed to check AI scene progress'
+          )
+          setJob(current)
+        }
+      } finally {
+        activeJobId.current = null
       }
 
-      return response.json()
+      if (current.status === 'cancelled') {
+        throw new Error('AI scene generation was cancelled')
+      }
+      if (!current.result) {
+        throw new Error(current.error || 'Failed to generate AI scene')
+      }
+      return current.result
     },
     onSuccess: (data, variables) => {
       // Cache the generated scene
@@ -55,12 +122,32 @@ export function useAIScene(options: UseAISceneOptions = {}) {
     }
   })
 
+  // Stop the running job; scenes that already finished stay in `job`
+  const cancel = useCallback(async () => {
+    const jobId = activeJobId.current
+    if (!jobId) return
+
+    const response = await fetch(`/api/ai-scene/jobs/${jobId}`, { method: 'DELETE' })
+    if (response.ok) {
+      setJob(await readSceneJob(response, 'Failed to cancel AI scene'))
+    }
+  }, [])
+
+  const { reset: resetMutation } = sceneMutation
+  const reset = useCallback(() => {
+    setJob(null)
+    resetMutation()
+  }, [resetMutation])
+
   return {
     generateScene: sceneMutation.mutate,
     isGenerating: sceneMutation.isPending,
     sceneData: sceneMutation.data,
+    // Per-variation progress of the current or last job
+    job,
+    cancel,
     error: sceneMutation.error,
-    reset: sceneMutation.reset
+    reset
   }
 }
 
@@ -75,7 +162,7 @@ export function useCachedAIScene(
   
   return useQuery({
     queryKey: ['aiScene', cacheKey],
-    queryFn: async (): Promise<SceneResponse | null> => {
+    queryFn: async (): Promise<SceneGenerationResponse | null> => {
       // This will only return cached data, not make a new request
       return null
     },
@@ -1,42 +1,31 @@
 import { useState, useEffect } from 'react';
+import { AuthService } from '@/lib/auth';
+import type { Product } from '@/types';
+import type { AnalyticsResponse } from '@/types/api';
 
-interface AnalyticsData {
-  metrics: {
-    totalSearches: number;
-    uniqueUsers: number;
-    avgSearchesPerUser: number;
-    conversionRate: number;
-    totalSavedSearches: number;
-    activeUsers: number;
-  };
-  searchTrends: Array<{
-    date: string;
-    searches: number;
-    uniqueUsers: number;
-  }>;
-  popularProducts: Array<{
-    name: string;
-    views: number;
-    avgPrice: number;
-    category: string;
-    merchant: string;
-    rating: number;
-  }>;
-  userActivity: Array<{
-    date: string;
-    uniqueUsers: number;
-    totalSearches: number;
-  }>;
-  conversionFunnel: Array<{
-    stage: string;
-    count: number;
-    percentage: number;
-  }>;
-  topSearchTerms: Array<{
-    query: string;
-    count: number;
-  }>;
-  timeRange: string;
+type AnalyticsData = AnalyticsResponse;
+
+/**
+ * Report that a product link was opened. Fire-and-forget: `keepalive` lets the
+ * request finish after the page navigates away, and failures are ignored.
+ */
+export function trackProductClick(product: Product, searchId?: string): void {
+  fetch('/api/analytics/events', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...AuthService.getAuthHeaders() },
+    body: JSON.stringify({
+      ...(searchId && { searchId }),
+      product: {
+        id: product.id,
+        title: product.title,
+        price: product.price,
+        category: product.category ?? null,
+        merchant: product.merchant,
+        rating: product.custom ? null : product.rating
+      }
+    }),
+    keepalive: true
+  }).catch(() => {});
 }
 
 export function useAnalytics(timeRange: string = '7d') {
@@ -49,7 +38,9 @@ export function useAnalytics(timeRange: string = '7d') {
       setLoading(true);
       setError(null);
       
-      const response = await fetch(`/api/analytics?timeRange=${timeRange}`);
+      const response = await fetch(`/api/analytics?timeRange=${timeRange}`, {
+        headers: AuthService.getAuthHeaders()
+      });
       
       if (!response.ok) {
         throw new Error(`Failed to fetch analytics: ${response.statusText}`);
@@ -0,0 +1,194 @@
+'use client'
+
+import { useReducer, useCallback } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { BuildRequest, BuildResponse, BuildStreamEvent } from '@/types/api'
+import { Product, SearchSettings } from '@/types'
+import { readSSEStream } from '@/lib/sse'
+import { AuthService } from '@/lib/auth'
+
+export type BuildProgressItemStatus = 'pending' | 'searching' | 'selecting' | 'selected' | 'skipped' | 'removed'
+
+export interface BuildProgressItem {
+  key: string
+  name: string
+  targetPrice: number
+  status: BuildProgressItemStatus
+  resultCount?: number
+  product?: Product
+}
+
+export interface BuildProgress {
+  stage: 'idle' | 'planning' | 'searching' | 'done' | 'error'
+  items: BuildProgressItem[]
+  completed: number
+  total: number
+}
+
+export const initialBuildProgress: BuildProgress = {
+  stage: 'idle',
+  items: [],
+  completed: 0,
+  total: 0
+}
+
+type BuildProgressAction = BuildStreamEvent | { type: 'start' } | { type: 'reset' }
+
+const FINISHED_STATUSES: BuildProgressItemStatus[] = ['selected', 'skipped', 'removed']
+
+function countCompleted(items: BuildProgressItem[]): number {
+  return items.filter(item => FINISHED_STATUSES.includes(item.status)).length
+}
+
+function updateItem(
+  state: BuildProgress,
+  key: string,
+  patch: Partial<BuildProgressItem>
+): BuildProgress {
+  const items = state.items.map(item => item.key === key ? { ...item, ...patch } : item)
+  return { ...state, items, completed: countCompleted(items) }
+}
+
+/**
+ * Fold a build stream event into the progress state rendered by the loader
+ */
+export function buildProgressReducer(state: BuildProgress, action: BuildProgressAction): BuildProgress {
+  switch (action.type) {
+    case 'reset':
+      return initialBuildProgress
+    case 'start':
+      return { ...initialBuildProgress, stage: 'planning' }
+    case 'plan_ready':
+      return {
+        stage: 'searching',
+        items: action.needs.map(need => ({
+          key: need.key,
+          name: need.name,
+          targetPrice: need.targetPrice,
+          status: 'pending'
+        })),
+        completed: 0,
+        total: action.needs.length
+      }
+    case 'search_started':
+      return updateItem(state, action.needKey, { status: 'searching' })
+    case 'search_finished':
+      return updateItem(state, action.needKey, {
+        status: action.error || action.resultCount === 0 ? 'skipped' : 'selecting',
+        resultCount: action.resultCount
+      })
+    case 'product_selected':
+      return updateItem(state, action.needKey, action.product
+        ? { status: 'selected', product: action.product }
+        : { status: 'skipped' })
+    case 'budget_adjusted': {
+      const items = state.items.map(item => {
+        // Swapped needs keep a (cheaper) product; dropped ones are marked removed
+        const swap = action.tradeoffs?.find(t => t.needKey === item.key && t.product)
+        if (swap?.product) return { ...item, status: 'selected' as const, product: swap.product }
+        return item.product && action.removedIds.includes(item.product.id)
+          ? { ...item, status: 'removed' as const }
+          : item
+      })
+      return { ...state, items, completed: countCompleted(items) }
+    }
+    case 'done':
+      return { ...state, stage: 'done' }
+    case 'error':
+      return { ...state, stage: 'error' }
+    default:
+      return state
+  }
+}
+
+/**
+ * Products that have been selected so far and not dropped for budget
+ */
+export function getArrivedProducts(progress: BuildProgress): Product[] {
+  return progress.items
+    .filter(item => item.status === 'selected' && item.product)
+    .map(item => item.product as Product)
+}
+
+/**
+ * POST to /api/build/stream and resolve with the final BuildResponse,
+ * forwarding every intermediate event to `onEvent`
+ */
+export async function streamBuild(
+  request: BuildRequest,
+  options: { onEvent?: (event: BuildStreamEvent) => void; signal?: AbortSignal } = {}
+): Promise<BuildResponse> {
+  const response = await fetch('/api/build/stream', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      ...AuthService.getAuthHeaders(),
+    },
+    body: JSON.stringify(request),
+    signal: options.signal,
+  })
+
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.message || error.error || 'Search failed')
+  }
+
+  let result: BuildResponse | null = null
+  let streamError: string | null = null
+
+  await readSSEStream<BuildStreamEvent>(response.body, (event) => {
+    options.onEvent?.(event)
+    if (event.type === 'done') {
+      result = event.response
+    } else if (event.type === 'error') {
+      streamError = event.error.message
+    }
+  })
+
+  if (streamError) {
+    throw new Error(streamError)
+  }
+  if (!result) {
+    throw new Error('Build stream ended unexpectedly')
+  }
+
+  return result
+}
+
+/**
+ * Local progress state for a streamed build.
+ * Returns the progress, an event handler to pass to `streamBuild`, and a reset.
+ */
+export function useBuildProgress() {
+  const [progress, dispatch] = useReducer(buildProgressReducer, initialBuildProgress)
+
+  const onEvent = useCallback((event: BuildStreamEvent) => dispatch(event), [])
+  const start = useCallback(() => dispatch({ type: 'start' }), [])
+  const reset = useCallback(() => dispatch({ type: 'reset' }), [])
+
+  return { progress, onEvent, start, reset }
+}
+
+// Streaming counterpart of useSearch: same query semantics plus live progress
+export function useBuildStream(query: string, settings: SearchSettings, options: { enabled?: boolean } = {}) {
+  const { progress, onEvent, start } = useBuildProgress()
+
+  const queryResult = useQuery({
+    queryKey: ['search', 'stream', query, settings],
+    queryFn: ({ signal }): Promise<BuildResponse> => {
+      start()
+      return streamBuild({ query, settings }, { onEvent, signal })
+    },
+    enabled: options.enabled !== false && !!query.trim(),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    gcTime: 1000 * 60 * 30, // 30 minutes
+    retry: false // A retry would replay the whole stream
+  })
+
+  return {
+    ...queryResult,
+    progress,
+    arrivedProducts: getArrivedProducts(progress)
+  }
+}
@@ -0,0 +1,45 @@
+'use client'
+
+import { useMutation } from '@tanstack/react-query'
+import { CompareRequest, CompareResponse } from '@/types/api'
+
+interface UseCompareOptions {
+  onSuccess?: (comparison: CompareResponse) => void
+  onError?: (error: Error) => void
+}
+
+export function useCompare(options: UseCompareOptions = {}) {
+  const compareMutation = useMutation({
+    mutationFn: async (request: Partial<CompareRequest>): Promise<CompareResponse> => {
+      const response = await fetch('/api/compare', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+      })
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}))
+        throw new Error(error.message || error.error || 'Failed to compare products')
+      }
+
+      return response.json()
+    },
+    onSuccess: (data) => {
+      options.onSuccess?.(data)
+    },
+    onError: (error) => {
+      console.error('Compare failed:', error)
+      options.onError?.(error as Error)
+    }
+  })
+
+  return {
+    compare: compareMutation.mutate,
+    comparison: compareMutation.data,
+    isComparing: compareMutation.isPending,
+    error: compareMutation.error,
+    reset: compareMutation.reset
+  }
+}
\ No newline at end of file
@@ -3,6 +3,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { BuildRequest, BuildResponse, SearchRequest, SearchResponse } from '@/types/api'
 import { SearchSettings } from '@/types'
+import { AuthService } from '@/lib/auth'
 
 interface UseSearchOptions {
   enabled?: boolean
@@ -24,6 +25,7 @@ export function useSearch(query: string, settings: SearchSettings, options: UseS
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...AuthService.getAuthHeaders(),
         },
         body: JSON.stringify(request),
       })
@@ -66,6 +68,7 @@ export function useSearchMutation(options: UseSearchOptions = {}) {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...AuthService.getAuthHeaders(),
         },
         body: JSON.stringify(request),
       })
@@ -0,0 +1,91 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { AuthService } from '@/lib/auth'
+import { RevisionRequest, SetupAddRequest, SetupRevision, SetupRevisionSummary } from '@/types/api'
+
+async function readRevision(response: Response, fallbackMessage: string): Promise<SetupRevision> {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.message || error.error || fallbackMessage)
+  }
+  return (await response.json()).data
+}
+
+// Revision history of a built setup (one of the user's searches)
+export function useSetupRevisions(searchId: string | undefined) {
+  const queryClient = useQueryClient()
+  const queryKey = ['setup-revisions', searchId]
+
+  const revisionsQuery = useQuery({
+    queryKey,
+    queryFn: async (): Promise<SetupRevisionSummary[]> => {
+      const response = await fetch(`/api/setups/${searchId}/revisions`, {
+        headers: AuthService.getAuthHeaders()
+      })
+      if (!response.ok) {
+        throw new Error('Failed to load setup revisions')
+      }
+      return (await response.json()).data.revisions
+    },
+    enabled: !!searchId
+  })
+
+  const recordMutation = useMutation({
+    mutationFn: async (request: RevisionRequest): Promise<SetupRevision> => {
+      const response = await fetch(`/api/setups/${searchId}/revisions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...AuthService.getAuthHeaders() },
+        body: JSON.stringify(request)
+      })
+      return readRevision(response, 'Failed to record setup revision')
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (error) => console.error('Recording setup revision failed:', error)
+  })
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: number): Promise<SetupRevision> => {
+      const response = await fetch(`/api/setups/${searchId}/revisions/${revision}/restore`, {
+        method: 'POST',
+        headers: AuthService.getAuthHeaders()
+      })
+      return readRevision(response, 'Failed to restore setup revision')
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey })
+  })
+
+  const addMutation = useMutation({
+    mutationFn: async (request: SetupAddRequest): Promise<SetupRevision> => {
+      const response = await fetch(`/api/setups/${searchId}/products`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...AuthService.getAuthHeaders() },
+        body: JSON.stringify(request)
+      })
+      return readRevision(response, 'Failed to add to setup')
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey })
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: async (productId: string): Promise<SetupRevision> => {
+      const response = await fetch(`/api/setups/${searchId}/products/${encodeURIComponent(productId)}`, {
+        method: 'DELETE',
+        headers: AuthService.getAuthHeaders()
+      })
+      return readRevision(response, 'Failed to remove from setup')
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey })
+  })
+
+  return {
+    revisions: revisionsQuery.data ?? [],
+    isLoading: revisionsQuery.isLoading,
+    recordRevision: recordMutation.mutate,
+    restoreRevision: restoreMutation.mutateAsync,
+    isRestoring: restoreMutation.isPending,
+    addProduct: addMutation.mutateAsync,
+    removeProduct: removeMutation.mutateAsync,
+    isEditing: addMutation.isPending || removeMutation.isPending
+  }
+}
\ No newline at end of file
@@ -1,7 +1,7 @@
 'use client'
 
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
-import { ShareRequest, ShareResponse } from '@/types/api'
+import { SceneResponse, ShareRequest, ShareResponse } from '@/types/api'
 import { Product, SearchSettings, BudgetDistribution } from '@/types'
 
 interface UseShareOptions {
@@ -15,6 +15,7 @@ interface ShareSetup {
   budgetDistribution?: BudgetDistribution[]
   totalCost: number
   settings: SearchSettings
+  scenes?: SceneResponse[]
 }
 
 // Hook for creating shareable links
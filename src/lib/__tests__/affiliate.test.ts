@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { AFFILIATE_PROGRAMS, applyAffiliateTag, findAffiliateProgram } from '../affiliate'
+
+describe('Affiliate links', () => {
+  it('matches programs by domain, subdomains included', () => {
+    expect(findAffiliateProgram('https://www.amazon.com/dp/B000')?.merchant).toBe('Amazon')
+    expect(findAffiliateProgram('https://amazon.co.uk/dp/B000')?.merchant).toBe('Amazon UK')
+    expect(findAffiliateProgram('https://notamazon.com/dp/B000')).toBeNull()
+    expect(findAffiliateProgram('not a url')).toBeNull()
+  })
+
+  it('replaces any tag on the link with ours', () => {
+    expect(applyAffiliateTag('https://www.amazon.com/dp/B000?tag=other-21&th=1', { env: { AMAZON_AFFILIATE_TAG: 'ghost-20' } }))
+      .toEqual({ url: 'https://www.amazon.com/dp/B000?tag=ghost-20&th=1', program: 'Amazon' })
+  })
+
+  it('adds the fixed parameters a program expects', () => {
+    const { url } = applyAffiliateTag('https://www.ebay.com/itm/123', { env: { EBAY_CAMPAIGN_ID: '5338000000' } })
+
+    const params = new URL(url).searchParams
+    expect(params.get('campid')).toBe('5338000000')
+    expect(params.get('mkevt')).toBe('1')
+  })
+
+  it('leaves links alone when the program has no tag configured', () => {
+    expect(applyAffiliateTag('https://www.amazon.com/dp/B000', { env: {} }))
+      .toEqual({ url: 'https://www.amazon.com/dp/B000', program: null })
+    expect(applyAffiliateTag('https://shop.example.com/chair', { env: { AMAZON_AFFILIATE_TAG: 'ghost-20' } }).program).toBeNull()
+    expect(AFFILIATE_PROGRAMS.every(program => program.tagEnv && program.param)).toBe(true)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { getAnalytics, trackEvent } from '../analytics'
+import { AnalyticsEvent, createMemoryAnalyticsStore, setAnalyticsStore } from '../analytics-store'
+import type { AnalyticsProduct } from '@/types/api'
+
+const NOW = new Date('2025-03-10T12:00:00Z')
+
+const chair: AnalyticsProduct = { id: 'chair', title: 'Desk Chair', price: 200, category: 'Chair', merchant: 'Amazon', rating: 4.5 }
+const desk: AnalyticsProduct = { id: 'desk', title: 'Standing Desk', price: 400, category: 'Desk', merchant: 'Best Buy', rating: 4.2 }
+
+let sequence = 0
+const event = (type: AnalyticsEvent['type'], userId: string, occurredAt: string, data: Partial<AnalyticsEvent> = {}): AnalyticsEvent => ({
+  id: `event_${++sequence}`,
+  type,
+  userId,
+  occurredAt,
+  ...data
+})
+
+describe('Analytics', () => {
+  beforeEach(() => {
+    // The memory store drops events past the retention period of the real clock
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(NOW)
+    setAnalyticsStore(createMemoryAnalyticsStore())
+  })
+
+  afterEach(() => {
+    setAnalyticsStore(null)
+    vi.useRealTimers()
+  })
+
+  it('records events through the active store', async () => {
+    await trackEvent('build', 'user_1', { query: 'office setup', searchId: 'search_1', products: [chair] })
+
+    const analytics = await getAnalytics('24h')
+    expect(analytics.metrics.totalSearches).toBe(1)
+    expect(analytics.popularProducts).toEqual([
+      { name: 'Desk Chair', views: 1, avgPrice: 200, category: 'Chair', merchant: 'Amazon', rating: 4.5 }
+    ])
+  })
+
+  it('never fails the request when the store does', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    setAnalyticsStore({
+      name: 'broken',
+      record: async () => { throw new Error('down') },
+      list: async () => []
+    })
+
+    await expect(trackEvent('search', 'user_1', { query: 'desk' })).resolves.toBeUndefined()
+    expect(warn).toHaveBeenCalled()
+    warn.mockRestore()
+  })
+
+  it('aggregates the events in the time range', async () => {
+    const store = createMemoryAnalyticsStore()
+    setAnalyticsStore(store)
+    const events = [
+      // Outside the 7 day range
+      event('build', 'user_9', '2025-02-20T10:00:00Z', { query: 'old' }),
+      event('build', 'user_1', '2025-03-08T10:00:00Z', { query: 'Office setup', searchId: 'search_1', products: [chair, desk] }),
+      event('search', 'user_2', '2025-03-08T15:00:00Z', { query: 'office setup ' }),
+      event('build', 'user_2', '2025-03-10T09:00:00Z', { query: 'gaming setup', searchId: 'search_2', products: [{ ...chair, price: 180 }] }),
+      event('swap', 'user_1', '2025-03-08T11:00:00Z', { query: 'Chair' }),
+      event('product_click', 'user_1', '2025-03-08T11:30:00Z', { searchId: 'search_1', products: [chair] }),
+      event('product_click', 'user_1', '2025-03-08T11:31:00Z', { searchId: 'search_1', products: [desk] }),
+      event('save', 'user_1', '2025-03-08T12:00:00Z', { searchId: 'search_1' }),
+      event('share', 'anonymous', '2025-03-10T10:00:00Z')
+    ]
+    for (const item of events) await store.record(item)
+
+    const analytics = await getAnalytics('7d', { now: NOW })
+
+    expect(analytics.metrics).toEqual({
+      totalSearches: 3,
+      uniqueUsers: 3,
+      avgSearchesPerUser: 1.5,
+      conversionRate: 33.33,
+      totalSavedSearches: 1,
+      activeUsers: 2
+    })
+    expect(analytics.searchTrends).toEqual([
+      { date: '2025-03-08', searches: 2, uniqueUsers: 2 },
+      { date: '2025-03-10', searches: 1, uniqueUsers: 1 }
+    ])
+    expect(analytics.userActivity[0]).toEqual({ date: '2025-03-08', uniqueUsers: 2, totalSearches: 2 })
+    expect(analytics.topSearchTerms).toEqual([
+      { query: 'office setup', count: 2 },
+      { query: 'gaming setup', count: 1 }
+    ])
+    expect(analytics.popularProducts[0]).toMatchObject({ name: 'Desk Chair', views: 2, avgPrice: 190 })
+    expect(analytics.conversionFunnel).toEqual([
+      { stage: 'Searches', count: 3, percentage: 100 },
+      { stage: 'Products Clicked', count: 1, percentage: 33 },
+      { stage: 'Searches Saved', count: 1, percentage: 33 },
+      { stage: 'Setups Shared', count: 1, percentage: 33 }
+    ])
+  })
+
+  it('buckets trends by hour for a day and by month for 90 days', async () => {
+    const store = createMemoryAnalyticsStore()
+    setAnalyticsStore(store)
+    await store.record(event('search', 'user_1', '2025-03-10T09:15:00Z', { query: 'desk' }))
+    await store.record(event('search', 'user_1', '2025-02-01T09:15:00Z', { query: 'desk' }))
+
+    expect((await getAnalytics('24h', { now: NOW })).searchTrends).toEqual([
+      { date: '2025-03-10 09:00', searches: 1, uniqueUsers: 1 }
+    ])
+    expect((await getAnalytics('90d', { now: NOW })).searchTrends.map(trend => trend.date)).toEqual(['2025-02', '2025-03'])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import jwt from 'jsonwebtoken'
+import { authenticateRequest, isAdminUser, withAuth } from '../auth-middleware'
+import { AuthenticationError, AuthorizationError } from '../errors'
+import { createMemoryUserRepository, setUserRepository, UserRepository } from '../user-repository'
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'
+
+const signToken = (userId: string, email: string, options: jwt.SignOptions = { expiresIn: '7d' }) =>
+  jwt.sign({ userId, email }, JWT_SECRET, options)
+
+const mockRequest = (token?: string) =>
+  new NextRequest('http://localhost:3000/api/saved-searches', {
+    headers: token ? { Authorization: `Bearer ${token}` } : {}
+  })
+
+describe('Auth middleware', () => {
+  const originalAdminEmails = process.env.ADMIN_EMAILS
+  let repository: UserRepository
+  let alice: { id: string; email: string; createdAt: Date }
+  let bob: { id: string; email: string }
+
+  beforeEach(async () => {
+    repository = createMemoryUserRepository()
+    setUserRepository(repository)
+    alice = await repository.create({ email: 'alice@example.com', name: 'Alice', password: 'hashed', isVerified: true })
+    bob = await repository.create({ email: 'bob@example.com', name: 'Bob', password: 'hashed' })
+    delete process.env.ADMIN_EMAILS
+  })
+
+  afterEach(() => {
+    setUserRepository(null)
+    process.env.ADMIN_EMAILS = originalAdminEmails
+    if (originalAdminEmails === undefined) delete process.env.ADMIN_EMAILS
+  })
+
+  describe('authenticateRequest', () => {
+    it('should resolve the user without the password hash', async () => {
+      const user = await authenticateRequest(mockRequest(signToken(alice.id, alice.email)))
+
+      expect(user).toEqual({
+        id: alice.id,
+        email: 'alice@example.com',
+        name: 'Alice',
+        isVerified: true,
+        createdAt: alice.createdAt
+      })
+      expect(user).not.toHaveProperty('password')
+    })
+
+    it('should reject requests without a bearer token', async () => {
+      await expect(authenticateRequest(mockRequest())).rejects.toThrow(AuthenticationError)
+    })
+
+    it('should reject invalid and expired tokens', async () => {
+      const forged = jwt.sign({ userId: alice.id, email: alice.email }, 'wrong-secret')
+      const expired = signToken(alice.id, alice.email, { expiresIn: -10 })
+
+      await expect(authenticateRequest(mockRequest(forged))).rejects.toThrow('Invalid or expired token')
+      await expect(authenticateRequest(mockRequest(expired))).rejects.toThrow('Invalid or expired token')
+    })
+
+    it('should reject tokens for users that no longer exist', async () => {
+      const token = signToken(alice.id, alice.email)
+      await repository.delete(alice.email)
+
+      await expect(authenticateRequest(mockRequest(token))).rejects.toThrow(AuthenticationError)
+    })
+
+    it('should forbid unverified users', async () => {
+      const token = signToken(bob.id, bob.email)
+
+      await expect(authenticateRequest(mockRequest(token))).rejects.toThrow(AuthorizationError)
+    })
+
+    it('should require an admin email when requireAdmin is set', async () => {
+      const token = signToken(alice.id, alice.email)
+
+      await expect(authenticateRequest(mockRequest(token), { requireAdmin: true })).rejects.toThrow('Admin access required')
+
+      process.env.ADMIN_EMAILS = 'ops@example.com, Alice@Example.com'
+      expect((await authenticateRequest(mockRequest(token), { requireAdmin: true })).id).toBe(alice.id)
+    })
+  })
+
+  describe('isAdminUser', () => {
+    it('should be false when ADMIN_EMAILS is not set', async () => {
+      expect(isAdminUser((await repository.findById(alice.id))!)).toBe(false)
+    })
+  })
+
+  describe('withAuth', () => {
+    it('should pass the user and route context to the handler', async () => {
+      const route = withAuth<{ params: Promise<{ id: string }> }>(async (_request, context) =>
+        Response.json({ userId: context.user.id, params: await context.params })
+      )
+
+      const response = await route(mockRequest(signToken(alice.id, alice.email)), {
+        params: Promise.resolve({ id: 'abc' })
+      })
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({ userId: alice.id, params: { id: 'abc' } })
+    })
+
+    it('should answer 401 without calling the handler', async () => {
+      const handler = vi.fn()
+      const response = await withAuth(handler)(mockRequest(), {})
+      const data = await response.json()
+
+      expect(response.status).toBe(401)
+      expect(data).toMatchObject({ error: true, type: 'AUTHENTICATION_ERROR', code: 'AUTHENTICATION_REQUIRED' })
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('should answer 403 for non-admins on admin routes', async () => {
+      const handler = vi.fn()
+      const route = withAuth(handler, { requireAdmin: true })
+      const response = await route(mockRequest(signToken(alice.id, alice.email)), {})
+      const data = await response.json()
+
+      expect(response.status).toBe(403)
+      expect(data).toMatchObject({ error: true, type: 'AUTHORIZATION_ERROR', code: 'ADMIN_REQUIRED' })
+      expect(handler).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  createMemoryChatSessionStore,
+  getChatSessionStoreName,
+} from '../chat-session-store'
+import type { ChatSession } from '@/types/api'
+
+const session = (userId: string, id: string): ChatSession => ({
+  id,
+  userId,
+  query: 'desk setup',
+  settings: { style: 'Casual', budget: 500, currency: 'USD', amazonOnly: false },
+  room: null,
+  products: [],
+  constraints: [],
+  messages: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+})
+
+describe('Memory chat session store', () => {
+  it('scopes sessions to their owner', async () => {
+    const store = createMemoryChatSessionStore()
+    await store.save(session('alice', 'chat_1'))
+
+    expect(await store.get('alice', 'chat_1')).toMatchObject({ id: 'chat_1' })
+    expect(await store.get('bob', 'chat_1')).toBeNull()
+    expect(await store.delete('bob', 'chat_1')).toBe(false)
+    expect(await store.delete('alice', 'chat_1')).toBe(true)
+    expect(await store.get('alice', 'chat_1')).toBeNull()
+  })
+
+  it('expires sessions a TTL after the last save', async () => {
+    let clock = 0
+    const store = createMemoryChatSessionStore({ ttlSeconds: 60, now: () => clock })
+    await store.save(session('alice', 'chat_1'))
+
+    clock = 50_000
+    await store.save(session('alice', 'chat_1'))
+    clock = 100_000
+    expect(await store.get('alice', 'chat_1')).not.toBeNull()
+
+    clock = 111_000
+    expect(await store.get('alice', 'chat_1')).toBeNull()
+  })
+
+  it('returns copies, not the stored session', async () => {
+    const store = createMemoryChatSessionStore()
+    await store.save(session('alice', 'chat_1'))
+
+    const loaded = await store.get('alice', 'chat_1')
+    loaded!.constraints.push('white')
+
+    expect((await store.get('alice', 'chat_1'))!.constraints).toEqual([])
+  })
+})
+
+describe('Chat session store selection', () => {
+  const original = { store: process.env.CHAT_SESSION_STORE, redis: process.env.UPSTASH_REDIS_REST_URL }
+
+  afterEach(() => {
+    process.env.CHAT_SESSION_STORE = original.store
+    process.env.UPSTASH_REDIS_REST_URL = original.redis
+    if (original.store === undefined) delete process.env.CHAT_SESSION_STORE
+    if (original.redis === undefined) delete process.env.UPSTASH_REDIS_REST_URL
+  })
+
+  it('uses Redis only when it is configured', () => {
+    delete process.env.CHAT_SESSION_STORE
+    delete process.env.UPSTASH_REDIS_REST_URL
+    expect(getChatSessionStoreName()).toBe('memory')
+
+    process.env.UPSTASH_REDIS_REST_URL = 'https://redis.example.com'
+    expect(getChatSessionStoreName()).toBe('redis')
+
+    process.env.CHAT_SESSION_STORE = 'Memory'
+    expect(getChatSessionStoreName()).toBe('memory')
+  })
+})
\ No newline at end of file
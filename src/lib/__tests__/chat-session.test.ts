@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  applyRefinement,
+  continueChatSession,
+  parseRefinement,
+  startChatSession,
+  type ChatSessionOptions,
+} from '../chat-session'
+import { createMemoryChatSessionStore, setChatSessionStore } from '../chat-session-store'
+import { findAlternatives } from '../swap-pipeline'
+import { runBuildPipeline } from '../build-pipeline'
+import { interpretRefinement } from '@/lib/api/gemini'
+import type { Product } from '@/types'
+import type { BuildResponse, ChatSession } from '@/types/api'
+
+vi.mock('../swap-pipeline', () => ({ findAlternatives: vi.fn() }))
+vi.mock('../build-pipeline', () => ({ runBuildPipeline: vi.fn() }))
+vi.mock('@/lib/api/gemini', () => ({ interpretRefinement: vi.fn() }))
+
+const product = (id: string, category: string, price: number, title = `${category} ${id}`): Product => ({
+  id,
+  title,
+  price,
+  currency: 'USD',
+  merchant: 'Amazon',
+  rating: 4.5,
+  reviewCount: 100,
+  imageUrl: `https://example.com/${id}.jpg`,
+  productUrl: `https://example.com/${id}`,
+  rationale: 'Good value',
+  category,
+  features: [],
+  pros: [],
+  cons: [],
+  confidence: 0.8,
+  searchRank: 1,
+})
+
+const session = (products: Product[]): ChatSession => ({
+  id: 'chat_1',
+  userId: 'user_1',
+  query: 'gaming setup',
+  settings: { style: 'Casual', budget: 1000, currency: 'USD', amazonOnly: false },
+  room: null,
+  products,
+  constraints: [],
+  messages: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+})
+
+const options: ChatSessionOptions = { getSearchClient: vi.fn(), userId: 'user_1' }
+
+const setup = () => [product('c1', 'Chair', 300), product('d1', 'Desk', 400), product('h1', 'Headset', 150)]
+
+describe('parseRefinement', () => {
+  const categories = ['Chair', 'Desk', 'Headset', 'Monitor Arm']
+
+  it.each([
+    ['cheaper chair', { action: 'cheaper', categories: ['Chair'], constraints: [] }],
+    ['drop the headset', { action: 'remove', categories: ['Headset'], constraints: [] }],
+    ['make it all white', { action: 'restyle', categories: [], constraints: ['white'] }],
+    ['add a desk lamp', { action: 'add', categories: ['desk lamp'], constraints: [] }],
+    ['I want a better monitor arm', { action: 'upgrade', categories: ['Monitor Arm'], constraints: [] }],
+    ['start over with a budget of 1,500', { action: 'rebuild', categories: [], constraints: [], budget: 1500 }],
+    ['thanks!', { action: 'none', categories: [], constraints: [] }],
+  ])('interprets "%s"', (message, expected) => {
+    expect(parseRefinement(message, categories)).toEqual(expected)
+  })
+
+  it('treats regex characters in titles and custom items as text', () => {
+    const custom = ['C++ Primer', 'Monitor Stand (black', 'Desk']
+
+    expect(parseRefinement('cheaper c++ primer', custom)).toEqual({ action: 'cheaper', categories: ['C++ Primer'], constraints: [] })
+    expect(parseRefinement('drop the stand (black', custom)).toEqual({ action: 'remove', categories: ['Monitor Stand (black'], constraints: [] })
+    expect(parseRefinement('drop the desks', custom)).toEqual({ action: 'remove', categories: ['Desk'], constraints: [] })
+  })
+})
+
+describe('applyRefinement', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('swaps only the targeted category for a cheaper option', async () => {
+    const chat = session(setup())
+    vi.mocked(findAlternatives).mockResolvedValue({
+      alternatives: [product('c2', 'Office chair', 350), product('c3', 'Office chair', 180)],
+      fromCache: false,
+    })
+
+    const changes = await applyRefinement(chat, { action: 'cheaper', categories: ['Chair'], constraints: [] }, options)
+
+    expect(findAlternatives).toHaveBeenCalledTimes(1)
+    expect(vi.mocked(findAlternatives).mock.calls[0][0]).toMatchObject({
+      productId: 'c1',
+      category: 'Chair',
+      budget: 300,
+      excludeIds: ['c1', 'd1', 'h1'],
+    })
+    expect(changes).toEqual([expect.objectContaining({ category: 'Chair', kind: 'replaced', after: expect.objectContaining({ id: 'c3' }) })])
+    expect(chat.products.map(p => p.id)).toEqual(['c3', 'd1', 'h1'])
+    expect(chat.products[0].category).toBe('Chair')
+  })
+
+  it('removes a category without searching', async () => {
+    const chat = session(setup())
+
+    const changes = await applyRefinement(chat, { action: 'remove', categories: ['headset'], constraints: [] }, options)
+
+    expect(findAlternatives).not.toHaveBeenCalled()
+    expect(changes).toEqual([expect.objectContaining({ category: 'Headset', kind: 'removed' })])
+    expect(chat.products.map(p => p.id)).toEqual(['c1', 'd1'])
+  })
+
+  it('restyles every category and keeps the constraint for later turns', async () => {
+    const chat = session(setup())
+    vi.mocked(findAlternatives).mockImplementation(async request => ({
+      alternatives: [product(`${request.productId}-white`, 'x', 100)],
+      fromCache: false,
+    }))
+
+    await applyRefinement(chat, { action: 'restyle', categories: [], constraints: ['white'] }, options)
+
+    expect(chat.constraints).toEqual(['white'])
+    expect(vi.mocked(findAlternatives).mock.calls.map(call => call[0].constraints)).toEqual([['white'], ['white'], ['white']])
+    expect(chat.products.map(p => p.id)).toEqual(['c1-white', 'd1-white', 'h1-white'])
+  })
+
+  it('keeps a product when no alternative fits', async () => {
+    const chat = session(setup())
+    vi.mocked(findAlternatives).mockResolvedValue({ alternatives: [product('c2', 'Chair', 450)], fromCache: false })
+
+    const changes = await applyRefinement(chat, { action: 'cheaper', categories: ['Chair'], constraints: [] }, options)
+
+    expect(changes).toEqual([expect.objectContaining({ kind: 'unchanged', note: 'no cheaper chair found' })])
+    expect(chat.products.map(p => p.id)).toEqual(['c1', 'd1', 'h1'])
+  })
+
+  it('adds a new category within the remaining budget', async () => {
+    const chat = session(setup())
+    vi.mocked(findAlternatives).mockResolvedValue({
+      alternatives: [product('l1', 'Lamp', 200), product('l2', 'Lamp', 60)],
+      fromCache: false,
+    })
+
+    const changes = await applyRefinement(chat, { action: 'add', categories: ['Lamp'], constraints: [] }, options)
+
+    expect(vi.mocked(findAlternatives).mock.calls[0][0]).toMatchObject({ category: 'Lamp', budget: 150 })
+    expect(changes).toEqual([expect.objectContaining({ category: 'Lamp', kind: 'added' })])
+    expect(chat.products.map(p => p.id)).toEqual(['c1', 'd1', 'h1', 'l2'])
+  })
+
+  it('rebuilds through the build pipeline with the new budget and constraints', async () => {
+    const chat = session(setup())
+    chat.constraints = ['white']
+    vi.mocked(runBuildPipeline).mockResolvedValue({ products: [product('c9', 'Chair', 500)] } as BuildResponse)
+
+    const changes = await applyRefinement(chat, { action: 'rebuild', categories: [], constraints: [], budget: 1500 }, options)
+
+    expect(runBuildPipeline).toHaveBeenCalledWith(
+      { query: 'white gaming setup', settings: expect.objectContaining({ budget: 1500 }) },
+      options
+    )
+    expect(changes.map(change => [change.category, change.kind])).toEqual([
+      ['Chair', 'replaced'],
+      ['Desk', 'removed'],
+      ['Headset', 'removed'],
+    ])
+  })
+})
+
+describe('Chat sessions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    setChatSessionStore(createMemoryChatSessionStore())
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    setChatSessionStore(null)
+  })
+
+  it('starts with a built setup and remembers each turn', async () => {
+    vi.mocked(runBuildPipeline).mockResolvedValue({ products: setup() } as BuildResponse)
+    vi.mocked(interpretRefinement).mockRejectedValue(new Error('model offline'))
+
+    const first = await startChatSession(
+      { message: 'gaming setup', settings: session([]).settings, room: null },
+      options
+    )
+    expect(first.session.products).toHaveLength(3)
+    expect(first.reply).toContain('Chair: Chair c1')
+
+    // Falls back to keyword matching when the model is unavailable
+    const second = await continueChatSession(first.session, 'drop the headset', options)
+
+    expect(second.refinement).toEqual({ action: 'remove', categories: ['Headset'], constraints: [] })
+    expect(second.reply).toContain('Headset: removed Headset h1')
+    expect(second.session.messages.map(m => m.role)).toEqual(['user', 'assistant', 'user', 'assistant'])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { compareProducts, extractListingSpecs, pickWinner } from '../compare'
+import type { Product } from '@/types'
+
+vi.mock('@/lib/api/gemini', () => ({
+  extractComparisonSpecs: vi.fn()
+}))
+
+const product = (overrides: Partial<Product> & { id: string }): Product => ({
+  title: `Product ${overrides.id}`,
+  price: 100,
+  currency: 'USD',
+  merchant: 'Amazon',
+  rating: 4.5,
+  reviewCount: 100,
+  imageUrl: `https://example.com/${overrides.id}.jpg`,
+  productUrl: `https://example.com/p/${overrides.id}`,
+  rationale: 'Fits the setup',
+  features: [],
+  pros: [],
+  cons: [],
+  confidence: 0.9,
+  searchRank: 1,
+  ...overrides
+})
+
+const monitors = [
+  product({ id: 'a', title: 'Dell 27" 4K Monitor, 60Hz', price: 400, rating: 4.6, reviewCount: 900, pros: ['Sharp'], cons: ['Slow'] }),
+  product({ id: 'b', title: 'LG 32 inch QHD Gaming Monitor', price: 350, rating: 4.4, reviewCount: 1200, features: ['165Hz refresh rate'], pros: ['Fast', 'Big'], cons: [] })
+]
+
+describe('Product comparison', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('picks the best value, ranking lists by length', () => {
+    expect(pickWinner([400, 350], 'lower', ['a', 'b'])).toBe('b')
+    expect(pickWinner([['x'], ['x', 'y']], 'higher', ['a', 'b'])).toBe('b')
+  })
+
+  it('declares no winner on ties, unranked rows or a single value', () => {
+    expect(pickWinner([4.5, 4.5], 'higher', ['a', 'b'])).toBeNull()
+    expect(pickWinner(['Amazon', 'Walmart'], null, ['a', 'b'])).toBeNull()
+    expect(pickWinner([27, null], 'higher', ['a', 'b'])).toBeNull()
+  })
+
+  it('reads specs from titles and features', () => {
+    const specs = extractListingSpecs(monitors)
+
+    expect(specs.map(spec => [spec.key, spec.values])).toEqual([
+      ['screenSize', [27, 32]],
+      ['resolution', [2160, 1440]],
+      ['refreshRate', [60, 165]]
+    ])
+  })
+
+  it('aligns attributes into rows with a winner each', async () => {
+    const comparison = await compareProducts(monitors)
+    const row = (key: string) => comparison.rows.find(item => item.key === key)
+
+    expect(comparison.currency).toBe('USD')
+    expect(comparison.specsSource).toBe('listing')
+    expect(row('price')).toMatchObject({ values: [400, 350], winnerId: 'b', group: 'overview' })
+    expect(row('rating')?.winnerId).toBe('a')
+    expect(row('cons')?.winnerId).toBe('b')
+    expect(row('merchant')?.winnerId).toBeNull()
+    expect(row('refreshRate')).toMatchObject({ group: 'specs', winnerId: 'b' })
+    expect(comparison.wins).toEqual({ a: 2, b: 5 })
+  })
+
+  it('converts prices to one currency', async () => {
+    const comparison = await compareProducts([
+      product({ id: 'a', price: 100, currency: 'USD' }),
+      product({ id: 'b', price: 100, currency: 'EUR' })
+    ], { currency: 'EUR' })
+
+    const price = comparison.rows.find(item => item.key === 'price')
+    expect(price?.unit).toBe('EUR')
+    expect(price?.values[1]).toBe(100)
+    expect(price?.values[0]).toBeLessThan(100)
+  })
+
+  it('uses model-extracted specs when asked', async () => {
+    const extract = vi.fn(async () => [
+      { label: 'Panel type', unit: null, better: null, values: ['IPS', 'VA'] },
+      { label: 'Price', unit: 'USD', better: 'lower' as const, values: [1, 2] }
+    ])
+
+    const comparison = await compareProducts(monitors, { extractSpecs: true, extract })
+
+    expect(extract).toHaveBeenCalledWith(monitors)
+    expect(comparison.specsSource).toBe('model')
+    expect(comparison.rows.filter(row => row.group === 'specs')).toEqual([
+      expect.objectContaining({ key: 'panelType', values: ['IPS', 'VA'], winnerId: null })
+    ])
+  })
+
+  it('falls back to listing specs when extraction fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const extract = vi.fn(async () => { throw new Error('Model unavailable') })
+
+    const comparison = await compareProducts(monitors, { extractSpecs: true, extract })
+
+    expect(comparison.specsSource).toBe('listing')
+    expect(comparison.rows.some(row => row.key === 'screenSize')).toBe(true)
+  })
+})
\ No newline at end of file
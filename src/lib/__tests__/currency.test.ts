@@ -11,6 +11,7 @@ import {
   formatPriceRange,
   isWithinBudget,
   calculateBudgetPercentages,
+  normalizeProductCurrency,
   CURRENCY_SYMBOLS,
   CURRENCY_NAMES
 } from '../currency'
@@ -210,6 +211,27 @@ describe('Currency Utilities', () => {
     })
   })
 
+  describe('normalizeProductCurrency', () => {
+    it('should convert the price and keep the listed one', () => {
+      expect(normalizeProductCurrency({ id: 'p1', price: 85, currency: 'EUR' }, 'USD')).toEqual({
+        id: 'p1',
+        price: 100,
+        currency: 'USD',
+        originalPrice: 85,
+        originalCurrency: 'EUR'
+      })
+    })
+
+    it('should leave prices already in the target currency alone', () => {
+      expect(normalizeProductCurrency({ price: 100, currency: 'usd' }, 'USD')).toEqual({ price: 100, currency: 'USD' })
+      expect(normalizeProductCurrency({ price: 100 }, 'INR')).toEqual({ price: 100, currency: 'INR' })
+    })
+
+    it('should return null for unsupported currencies', () => {
+      expect(normalizeProductCurrency({ price: 100, currency: 'SEK' }, 'USD')).toBeNull()
+    })
+  })
+
   describe('Currency Constants', () => {
     it('should have symbols for all supported currencies', () => {
       expect(CURRENCY_SYMBOLS.USD).toBe('$')
@@ -5,6 +5,8 @@ import {
   RateLimitError,
   NetworkError,
   InternalError,
+  AuthenticationError,
+  AuthorizationError,
   createAPIError,
   handleZodError,
   handleFetchError,
@@ -81,6 +83,26 @@ describe('Error Utilities', () => {
         expect(error.retryable).toBe(false)
       })
     })
+
+    describe('AuthenticationError', () => {
+      it('should create authentication error correctly', () => {
+        const error = new AuthenticationError('Missing token')
+        
+        expect(error.type).toBe(ErrorType.AUTHENTICATION_ERROR)
+        expect(error.code).toBe('AUTHENTICATION_REQUIRED')
+        expect(error.retryable).toBe(false)
+      })
+    })
+
+    describe('AuthorizationError', () => {
+      it('should create authorization error correctly', () => {
+        const error = new AuthorizationError('Admins only', 'ADMIN_REQUIRED')
+        
+        expect(error.type).toBe(ErrorType.AUTHORIZATION_ERROR)
+        expect(error.code).toBe('ADMIN_REQUIRED')
+        expect(error.retryable).toBe(false)
+      })
+    })
   })
 
   describe('Error Utilities', () => {
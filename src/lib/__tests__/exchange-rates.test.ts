@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  createHttpExchangeRateProvider,
+  createMemoryExchangeRateCache,
+  getExchangeRateProviderName,
+  getExchangeRates,
+  setExchangeRateCache,
+  setExchangeRateProvider,
+  type ExchangeRateProvider,
+} from '../exchange-rates'
+import {
+  EXCHANGE_RATES,
+  convertCurrency,
+  getExchangeRateInfo,
+  setCurrentExchangeRates,
+  type SupportedCurrency,
+} from '../currency'
+
+const liveRates: Record<SupportedCurrency, number> = { ...EXCHANGE_RATES, EUR: 0.9, INR: 85 }
+
+const provider = (fetchRates: ExchangeRateProvider['fetchRates']): ExchangeRateProvider => ({
+  name: 'test',
+  fetchRates: vi.fn(fetchRates),
+})
+
+describe('Exchange rates', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    setExchangeRateCache(createMemoryExchangeRateCache())
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+    setExchangeRateProvider(null)
+    setExchangeRateCache(null)
+    setCurrentExchangeRates(null)
+  })
+
+  it('loads live rates and uses them for conversions', async () => {
+    setExchangeRateProvider(provider(async () => liveRates))
+
+    const snapshot = await getExchangeRates()
+
+    expect(snapshot).toEqual({ rates: liveRates, source: 'test', updatedAt: '2026-01-01T00:00:00.000Z' })
+    expect(convertCurrency(100, 'USD', 'EUR')).toBe(90)
+    expect(getExchangeRateInfo('INR')).toEqual({
+      currency: 'INR',
+      rate: 85,
+      source: 'test',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    })
+  })
+
+  it('refreshes only after the refresh interval', async () => {
+    const rateProvider = provider(async () => liveRates)
+    setExchangeRateProvider(rateProvider)
+
+    await getExchangeRates()
+    vi.advanceTimersByTime(60 * 60 * 1000)
+    await getExchangeRates()
+    expect(rateProvider.fetchRates).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(6 * 60 * 60 * 1000)
+    const snapshot = await getExchangeRates()
+    expect(rateProvider.fetchRates).toHaveBeenCalledTimes(2)
+    expect(snapshot.updatedAt).toBe('2026-01-01T07:00:00.000Z')
+  })
+
+  it('keeps stale rates when a refresh fails', async () => {
+    const rateProvider = provider(async () => liveRates)
+    setExchangeRateProvider(rateProvider)
+    await getExchangeRates()
+
+    vi.mocked(rateProvider.fetchRates).mockRejectedValue(new Error('rate API down'))
+    vi.advanceTimersByTime(7 * 60 * 60 * 1000)
+
+    const snapshot = await getExchangeRates()
+    expect(snapshot.rates.EUR).toBe(0.9)
+    expect(snapshot.updatedAt).toBe('2026-01-01T00:00:00.000Z')
+  })
+
+  it('falls back to the static table without any cached rates', async () => {
+    setExchangeRateProvider(provider(async () => {
+      throw new Error('rate API down')
+    }))
+
+    const snapshot = await getExchangeRates()
+
+    expect(snapshot).toEqual({ rates: EXCHANGE_RATES, source: 'static', updatedAt: null })
+    expect(convertCurrency(100, 'USD', 'EUR')).toBe(85)
+  })
+})
+
+describe('HTTP exchange rate provider', () => {
+  const mockFetch = vi.fn()
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', mockFetch)
+    mockFetch.mockReset()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('reads USD-based rates for every supported currency', async () => {
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ base_code: 'USD', rates: { ...liveRates, SEK: 10.5 } })))
+
+    const rates = await createHttpExchangeRateProvider('https://rates.example.com/latest/USD').fetchRates()
+
+    expect(rates).toEqual(liveRates)
+    expect(mockFetch).toHaveBeenCalledWith('https://rates.example.com/latest/USD', expect.any(Object))
+  })
+
+  it('rejects responses missing a supported currency', async () => {
+    const { MXN: _omitted, ...partial } = liveRates
+    mockFetch.mockResolvedValue(new Response(JSON.stringify({ rates: partial })))
+
+    await expect(createHttpExchangeRateProvider('https://rates.example.com').fetchRates())
+      .rejects.toThrow('no rate for MXN')
+  })
+
+  it('rejects failed responses', async () => {
+    mockFetch.mockResolvedValue(new Response('unavailable', { status: 503 }))
+
+    await expect(createHttpExchangeRateProvider('https://rates.example.com').fetchRates())
+      .rejects.toThrow('Exchange rate API returned 503')
+  })
+})
+
+describe('Exchange rate provider selection', () => {
+  const originalProvider = process.env.EXCHANGE_RATE_PROVIDER
+  const originalUrl = process.env.EXCHANGE_RATE_API_URL
+
+  afterEach(() => {
+    process.env.EXCHANGE_RATE_PROVIDER = originalProvider
+    process.env.EXCHANGE_RATE_API_URL = originalUrl
+    if (originalProvider === undefined) delete process.env.EXCHANGE_RATE_PROVIDER
+    if (originalUrl === undefined) delete process.env.EXCHANGE_RATE_API_URL
+  })
+
+  it('uses the HTTP provider only when a URL is configured', () => {
+    delete process.env.EXCHANGE_RATE_PROVIDER
+    delete process.env.EXCHANGE_RATE_API_URL
+    expect(getExchangeRateProviderName()).toBe('static')
+
+    process.env.EXCHANGE_RATE_API_URL = 'https://rates.example.com'
+    expect(getExchangeRateProviderName()).toBe('http')
+
+    process.env.EXCHANGE_RATE_PROVIDER = 'Static'
+    expect(getExchangeRateProviderName()).toBe('static')
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest, NextResponse } from 'next/server'
+import { createLogger, getRequestId, withRequestContext, withRequestId } from '../logger'
+import { SerpAPIClient } from '../api/serpapi'
+
+// Every JSON line written to the console, parsed
+const captureLogs = () => {
+  const lines: Record<string, any>[] = []
+  const capture = (line: string) => { lines.push(JSON.parse(line)) }
+  vi.spyOn(console, 'debug').mockImplementation(capture)
+  vi.spyOn(console, 'log').mockImplementation(capture)
+  vi.spyOn(console, 'warn').mockImplementation(capture)
+  vi.spyOn(console, 'error').mockImplementation(capture)
+  return lines
+}
+
+describe('Logger', () => {
+  let logs: Record<string, any>[]
+
+  beforeEach(() => {
+    vi.stubEnv('LOG_LEVEL', 'debug')
+    vi.stubEnv('LOG_FORMAT', 'json')
+    logs = captureLogs()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllEnvs()
+  })
+
+  it('writes JSON entries tagged with the request ID of their context', async () => {
+    const log = createLogger('build')
+
+    await Promise.all(['req_1', 'req_2'].map(requestId =>
+      withRequestContext(requestId, async () => {
+        await Promise.resolve()
+        log.info('Plan ready', { needs: 2 })
+      })
+    ))
+    log.warn('Outside any request')
+
+    expect(logs).toEqual([
+      expect.objectContaining({ level: 'info', component: 'build', requestId: 'req_1', msg: 'Plan ready', needs: 2 }),
+      expect.objectContaining({ level: 'info', component: 'build', requestId: 'req_2', msg: 'Plan ready', needs: 2 }),
+      expect.objectContaining({ level: 'warn', msg: 'Outside any request' })
+    ])
+    expect(logs[2].requestId).toBeUndefined()
+  })
+
+  it('drops entries below LOG_LEVEL', () => {
+    vi.stubEnv('LOG_LEVEL', 'warn')
+    const log = createLogger('serpapi')
+
+    log.debug('debug')
+    log.info('info')
+    log.warn('warn')
+    log.error('error')
+
+    expect(logs.map(entry => entry.level)).toEqual(['warn', 'error'])
+  })
+
+  it('times spans and logs failures with the error', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const log = createLogger('build')
+
+    await log.span('search', async () => {
+      vi.advanceTimersByTime(250)
+      return []
+    }, { needKey: 'desk' })
+    await expect(log.span('plan', async () => {
+      vi.advanceTimersByTime(40)
+      throw new Error('Plan timeout')
+    })).rejects.toThrow('Plan timeout')
+    vi.useRealTimers()
+
+    expect(logs).toEqual([
+      expect.objectContaining({ level: 'debug', msg: 'search started', span: 'search', needKey: 'desk' }),
+      expect.objectContaining({ level: 'info', msg: 'search finished', span: 'search', needKey: 'desk', durationMs: 250 }),
+      expect.objectContaining({ level: 'debug', msg: 'plan started', span: 'plan' }),
+      expect.objectContaining({
+        level: 'warn',
+        msg: 'plan failed',
+        durationMs: 40,
+        error: expect.objectContaining({ name: 'Error', message: 'Plan timeout' })
+      })
+    ])
+  })
+
+  it('redacts credentials in URLs and secret fields', () => {
+    createLogger('serpapi').info('Fetching https://serpapi.com/search.json?api_key=abc123', {
+      url: 'https://serpapi.com/search.json?q=desk&api_key=abc123&hl=en',
+      headers: { authorization: 'Bearer abc123', accept: 'application/json' },
+      needs: [{ key: 'desk' }],
+      error: new Error('fetch failed for https://serpapi.com/search.json?engine=amazon&api_key=abc123')
+    })
+
+    expect(JSON.stringify(logs)).not.toContain('abc123')
+    expect(logs[0]).toMatchObject({
+      msg: 'Fetching https://serpapi.com/search.json?api_key=[REDACTED]',
+      url: 'https://serpapi.com/search.json?q=desk&api_key=[REDACTED]&hl=en',
+      headers: { authorization: '[REDACTED]', accept: 'application/json' },
+      needs: [{ key: 'desk' }]
+    })
+  })
+
+  it('never logs the SerpAPI key from search requests', async () => {
+    vi.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify({ shopping_results: [] })))
+
+    await new SerpAPIClient('serp-secret-key').searchProducts({ query: 'desk', currency: 'USD', amazonOnly: false, limit: 8 })
+
+    expect(logs.some(entry => entry.msg === 'SerpAPI request')).toBe(true)
+    expect(JSON.stringify(logs)).not.toContain('serp-secret-key')
+  })
+
+  it('runs routes under the caller\'s X-Request-Id and echoes it back', async () => {
+    const POST = withRequestId(async (_request: NextRequest) => NextResponse.json({ requestId: getRequestId() }))
+
+    const traced = await POST(new NextRequest('http://localhost:3000/api/build', {
+      method: 'POST',
+      headers: { 'X-Request-Id': 'upstream-42' }
+    }))
+    expect(traced.headers.get('X-Request-Id')).toBe('upstream-42')
+    expect(await traced.json()).toEqual({ requestId: 'upstream-42' })
+
+    const fresh = await POST(new NextRequest('http://localhost:3000/api/build', {
+      method: 'POST',
+      headers: { 'X-Request-Id': 'not an <id>' }
+    }))
+    expect(fresh.headers.get('X-Request-Id')).toMatch(/^req_\d+_\w+$/)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { API_OPERATIONS, generateOpenAPIDocument } from '../openapi'
+
+describe('OpenAPI document', () => {
+  const document = generateOpenAPIDocument({ serverUrl: 'https://ghostsetup.com' })
+
+  it('describes every operation', () => {
+    for (const operation of API_OPERATIONS) {
+      expect(document.paths[operation.path]?.[operation.method]).toBeDefined()
+    }
+    expect(document.servers).toEqual([{ url: 'https://ghostsetup.com' }])
+  })
+
+  it('resolves every schema reference to a component', () => {
+    const refs = JSON.stringify(document).match(/#\/components\/schemas\/\w+/g) ?? []
+
+    expect(refs.length).toBeGreaterThan(0)
+    for (const ref of refs) {
+      expect(document.components.schemas).toHaveProperty(ref.split('/').pop() as string)
+    }
+  })
+
+  it('describes requests as clients send them', () => {
+    const search = document.components.schemas.SearchRequest as { required: string[]; properties: Record<string, { enum?: string[] }> }
+
+    expect(search.required).toEqual(['query'])
+    expect(search.properties.currency.enum).toContain('MXN')
+  })
+
+  it('serializes dates as date-time strings', () => {
+    const share = document.components.schemas.ShareResponse as { properties: Record<string, object> }
+
+    expect(share.properties.expiresAt).toEqual({ type: 'string', format: 'date-time' })
+  })
+
+  it('marks authenticated routes', () => {
+    const history = document.paths['/api/search-history'].get as { security?: unknown; parameters: Array<{ name: string }> }
+
+    expect(history.security).toEqual([{ bearerAuth: [] }])
+    expect(history.parameters.map(parameter => parameter.name)).toEqual(['offset', 'limit'])
+  })
+})
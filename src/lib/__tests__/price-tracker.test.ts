@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  checkPrices,
+  getPriceTrackingKey,
+  getSavedSearchPrices,
+  normalizeProductUrl,
+  watchSavedSearch,
+  type PriceDropNotifier,
+} from '../price-tracker'
+import { createMemoryPriceHistoryStore, setPriceHistoryStore } from '../price-history-store'
+import { createMemorySearchHistoryStore, setSearchHistoryStore } from '../search-history-store'
+import { saveSearch, saveSearchResults, unsaveSearch } from '../search-cache'
+import type { Product, SearchSettings } from '@/types'
+import type { RawProduct, SearchRequest, SearchResponse } from '@/types/api'
+
+const settings: SearchSettings = { style: 'Premium', budget: 1000, currency: 'USD', amazonOnly: false }
+
+const product = (id: string, price: number): Product => ({
+  id,
+  title: `Product ${id}`,
+  price,
+  currency: 'USD',
+  merchant: 'Amazon',
+  rating: 4.5,
+  reviewCount: 10,
+  imageUrl: `https://example.com/${id}.jpg`,
+  productUrl: `https://shop.example.com/p/${id}?ref=ghost`,
+  rationale: 'Fits the setup',
+  features: [],
+  pros: [],
+  cons: [],
+  confidence: 0.9,
+  searchRank: 1,
+})
+
+// A provider whose listings are priced from `prices`, keyed by product ID
+const searchWith = (prices: Record<string, number>) => vi.fn(async (request: SearchRequest): Promise<SearchResponse> => {
+  const id = request.query.replace('Product ', '')
+  const products: RawProduct[] = id in prices
+    ? [{ id: `serp-${id}`, title: request.query, url: `https://shop.example.com/p/${id}/`, price: prices[id], currency: 'USD' }]
+    : []
+  return {
+    products,
+    totalResults: products.length,
+    searchMetadata: { query: request.query, totalResults: products.length, searchTime: 1, currency: 'USD' },
+  }
+})
+
+async function savedSearch(userId: string, products: Product[]): Promise<string> {
+  const searchId = await saveSearchResults(userId, 'desk setup', settings, products)
+  await saveSearch(userId, searchId)
+  return searchId
+}
+
+describe('Price tracking', () => {
+  let clock: number
+  const now = () => clock
+  const hours = (count: number) => count * 60 * 60 * 1000
+
+  beforeEach(() => {
+    clock = Date.parse('2026-01-01T00:00:00Z')
+    setSearchHistoryStore(createMemorySearchHistoryStore())
+    setPriceHistoryStore(createMemoryPriceHistoryStore())
+  })
+
+  afterEach(() => {
+    setSearchHistoryStore(null)
+    setPriceHistoryStore(null)
+    vi.restoreAllMocks()
+  })
+
+  it('keys history by listing URL, ignoring query strings', () => {
+    expect(normalizeProductUrl('https://Shop.example.com/p/1/?ref=a#top')).toBe('shop.example.com/p/1')
+    expect(getPriceTrackingKey({ id: 'a', productUrl: 'https://shop.example.com/p/1?ref=a' }))
+      .toBe(getPriceTrackingKey({ id: 'b', productUrl: 'https://shop.example.com/p/1' }))
+  })
+
+  it('only watches searches the user has saved', async () => {
+    const searchId = await saveSearchResults('alice', 'desk setup', settings, [product('desk', 400)])
+
+    expect(await watchSavedSearch('alice', searchId, 10)).toBeNull()
+    expect(await getSavedSearchPrices('alice', searchId)).toBeNull()
+  })
+
+  it('records prices and alerts once a drop crosses the threshold', async () => {
+    const searchId = await savedSearch('alice', [product('desk', 400), product('chair', 200)])
+    await watchSavedSearch('alice', searchId, 10)
+    const notify = vi.fn<PriceDropNotifier>(async () => {})
+
+    // 5% off the desk: recorded, but under the threshold
+    let summary = await checkPrices({ search: searchWith({ desk: 380, chair: 200 }), notify, now })
+    expect(summary).toEqual({ watchesChecked: 1, pricesRecorded: 2, alertsSent: 0 })
+
+    clock += hours(13)
+    summary = await checkPrices({ search: searchWith({ desk: 340, chair: 200 }), notify, now })
+    expect(summary.alertsSent).toBe(1)
+    expect(notify).toHaveBeenCalledWith({
+      userId: 'alice',
+      searchId,
+      query: 'desk setup',
+      drops: [expect.objectContaining({ productId: 'desk', savedPrice: 400, price: 340, dropPercent: 15 })],
+    })
+
+    const prices = await getSavedSearchPrices('alice', searchId)
+    const desk = prices?.products.find(item => item.productId === 'desk')
+    expect(desk?.history.map(point => point.price)).toEqual([400, 380, 340])
+    expect(desk).toMatchObject({ savedPrice: 400, currentPrice: 340, lowestPrice: 340, changePercent: -15 })
+    expect(prices?.alert).toMatchObject({ thresholdPercent: 10, lastCheckedAt: '2026-01-01T13:00:00.000Z' })
+  })
+
+  it('alerts again only when the price falls further', async () => {
+    const searchId = await savedSearch('alice', [product('desk', 400)])
+    await watchSavedSearch('alice', searchId, 10)
+    const notify = vi.fn<PriceDropNotifier>(async () => {})
+
+    await checkPrices({ search: searchWith({ desk: 340 }), notify, now })
+    clock += hours(13)
+    await checkPrices({ search: searchWith({ desk: 340 }), notify, now })
+    clock += hours(13)
+    await checkPrices({ search: searchWith({ desk: 300 }), notify, now })
+
+    expect(notify).toHaveBeenCalledTimes(2)
+  })
+
+  it('retries the alert when sending fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const searchId = await savedSearch('alice', [product('desk', 400)])
+    await watchSavedSearch('alice', searchId, 10)
+    const notify = vi.fn<PriceDropNotifier>()
+      .mockRejectedValueOnce(new Error('SMTP down'))
+      .mockResolvedValue(undefined)
+
+    await checkPrices({ search: searchWith({ desk: 340 }), notify, now })
+    clock += hours(13)
+    const summary = await checkPrices({ search: searchWith({ desk: 340 }), notify, now })
+
+    expect(summary.alertsSent).toBe(1)
+    expect(notify).toHaveBeenCalledTimes(2)
+  })
+
+  it('skips watches checked within the interval and drops unsaved ones', async () => {
+    const searchId = await savedSearch('alice', [product('desk', 400)])
+    await watchSavedSearch('alice', searchId, 10)
+    const search = searchWith({ desk: 400 })
+
+    await checkPrices({ search, notify: async () => {}, now })
+    clock += hours(1)
+    expect((await checkPrices({ search, notify: async () => {}, now })).watchesChecked).toBe(0)
+
+    await unsaveSearch('alice', searchId)
+    clock += hours(13)
+    expect((await checkPrices({ search, notify: async () => {}, now })).watchesChecked).toBe(0)
+    expect(search).toHaveBeenCalledTimes(1)
+  })
+
+  it('caps lookups per run and checks the remaining watches next run', async () => {
+    const first = await savedSearch('alice', [product('desk', 400), product('chair', 200)])
+    const second = await savedSearch('bob', [product('lamp', 50), product('shelf', 80)])
+    await watchSavedSearch('alice', first, 10)
+    await watchSavedSearch('bob', second, 10)
+    const search = searchWith({ desk: 400, chair: 200, lamp: 50, shelf: 80 })
+
+    let summary = await checkPrices({ search, notify: async () => {}, now, maxLookups: 3 })
+    expect(summary).toEqual({ watchesChecked: 1, pricesRecorded: 2, alertsSent: 0 })
+
+    summary = await checkPrices({ search, notify: async () => {}, now, maxLookups: 3 })
+    expect(summary).toEqual({ watchesChecked: 1, pricesRecorded: 2, alertsSent: 0 })
+    expect(search).toHaveBeenCalledTimes(4)
+  })
+
+  it('looks products up in parallel, at most `concurrency` at a time', async () => {
+    const searchId = await savedSearch('alice', ['a', 'b', 'c', 'd', 'e'].map(id => product(id, 100)))
+    await watchSavedSearch('alice', searchId, 10)
+    const lookup = searchWith({ a: 100, b: 100, c: 100, d: 100, e: 100 })
+    let inFlight = 0
+    let peak = 0
+    const search = async (request: SearchRequest) => {
+      peak = Math.max(peak, ++inFlight)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      inFlight--
+      return lookup(request)
+    }
+
+    const summary = await checkPrices({ search, notify: async () => {}, now, concurrency: 2 })
+
+    expect(summary.pricesRecorded).toBe(5)
+    expect(peak).toBe(2)
+  })
+
+  it('keeps a 12-hour cadence when lookups take time', async () => {
+    const searchId = await savedSearch('alice', [product('desk', 400)])
+    await watchSavedSearch('alice', searchId, 10)
+    const lookup = searchWith({ desk: 400 })
+    // Each lookup takes two minutes
+    const search = async (request: SearchRequest) => {
+      clock += 2 * 60 * 1000
+      return lookup(request)
+    }
+
+    const started = clock
+    await checkPrices({ search, notify: async () => {}, now })
+    expect((await getSavedSearchPrices('alice', searchId))?.alert?.lastCheckedAt).toBe(new Date(started).toISOString())
+
+    // The next cron tick, 12 hours after the previous one started
+    clock = started + hours(12)
+    expect((await checkPrices({ search, notify: async () => {}, now })).watchesChecked).toBe(1)
+  })
+
+  it('ignores products the provider no longer lists', async () => {
+    const searchId = await savedSearch('alice', [product('desk', 400)])
+    await watchSavedSearch('alice', searchId, 10)
+
+    const summary = await checkPrices({ search: searchWith({}), notify: async () => {}, now })
+
+    expect(summary).toEqual({ watchesChecked: 1, pricesRecorded: 0, alertsSent: 0 })
+  })
+})
\ No newline at end of file
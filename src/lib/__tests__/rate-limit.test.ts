@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest, NextResponse } from 'next/server'
+import jwt from 'jsonwebtoken'
+import { getRateLimit, withRateLimit } from '../rate-limit'
+import { ANONYMOUS_CLIENT_COOKIE, createAnonymousClientCookie } from '../auth-token'
+import { createMemoryRateLimitStore, setRateLimitStore } from '../rate-limit-store'
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'
+
+const NOW = new Date('2025-03-10T12:00:00Z')
+
+const mockRequest = (headers: Record<string, string> = {}) =>
+  new NextRequest('http://localhost:3000/api/build', { method: 'POST', headers })
+
+const fromIp = (ip: string) => mockRequest({ 'x-forwarded-for': `${ip}, 10.0.0.1` })
+
+const asUser = (userId: string, ip: string) =>
+  mockRequest({
+    Authorization: `Bearer ${jwt.sign({ userId, email: `${userId}@example.com` }, JWT_SECRET)}`,
+    'x-forwarded-for': ip
+  })
+
+describe('withRateLimit', () => {
+  const { requests, window } = getRateLimit('build')
+  const handler = vi.fn(async () => NextResponse.json({ ok: true }))
+  const POST = withRateLimit('build', handler)
+
+  const exhaust = async (request: () => NextRequest, count = requests) => {
+    for (let i = 0; i < count; i++) {
+      expect((await POST(request())).status).toBe(200)
+    }
+  }
+
+  beforeEach(() => {
+    vi.stubEnv('RATE_LIMIT_ENABLED', 'true')
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(NOW)
+    setRateLimitStore(createMemoryRateLimitStore())
+    handler.mockClear()
+  })
+
+  afterEach(() => {
+    setRateLimitStore(null)
+    vi.useRealTimers()
+    vi.unstubAllEnvs()
+  })
+
+  it('answers requests over the limit with a 429 and Retry-After', async () => {
+    const first = await POST(fromIp('203.0.113.1'))
+    expect(first.headers.get('X-RateLimit-Limit')).toBe(String(requests))
+    expect(first.headers.get('X-RateLimit-Remaining')).toBe(String(requests - 1))
+    expect(first.headers.get('X-RateLimit-Reset')).toBe(String((NOW.getTime() + window) / 1000))
+
+    vi.setSystemTime(NOW.getTime() + 10_000)
+    await exhaust(() => fromIp('203.0.113.1'), requests - 1)
+
+    const limited = await POST(fromIp('203.0.113.1'))
+    expect(limited.status).toBe(429)
+    expect(limited.headers.get('X-RateLimit-Remaining')).toBe('0')
+    // The first request leaves the window 50 seconds later
+    expect(limited.headers.get('Retry-After')).toBe(String(window / 1000 - 10))
+    expect(await limited.json()).toMatchObject({ error: true, type: 'RATE_LIMIT_ERROR', code: 'RATE_LIMIT_EXCEEDED', retryable: true })
+    expect(handler).toHaveBeenCalledTimes(requests)
+  })
+
+  it('frees slots as earlier requests leave the window', async () => {
+    await exhaust(() => fromIp('203.0.113.1'))
+    expect((await POST(fromIp('203.0.113.1'))).status).toBe(429)
+
+    vi.setSystemTime(NOW.getTime() + window)
+    const allowed = await POST(fromIp('203.0.113.1'))
+    expect(allowed.status).toBe(200)
+    expect(allowed.headers.get('X-RateLimit-Remaining')).toBe(String(requests - 1))
+  })
+
+  it('counts every request by IP and signed-in users by account too', async () => {
+    await exhaust(() => fromIp('203.0.113.1'))
+
+    expect((await POST(fromIp('203.0.113.2'))).status).toBe(200)
+    // A new client cookie doesn't reset a signed-out caller's quota
+    expect((await POST(mockRequest({
+      'x-forwarded-for': '203.0.113.1',
+      Cookie: `${ANONYMOUS_CLIENT_COOKIE}=${createAnonymousClientCookie()}`
+    }))).status).toBe(429)
+    // Neither does signing in
+    expect((await POST(asUser('user_1', '203.0.113.1'))).status).toBe(429)
+
+    await exhaust(() => asUser('user_2', '198.51.100.1'))
+    // Changing networks doesn't reset a user's quota
+    expect((await POST(asUser('user_2', '198.51.100.2'))).status).toBe(429)
+  })
+
+  it('reports the stricter of the IP and account limits', async () => {
+    await exhaust(() => fromIp('203.0.113.1'), 3)
+
+    const response = await POST(asUser('user_1', '203.0.113.1'))
+    expect(response.status).toBe(200)
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe(String(requests - 4))
+  })
+
+  it('lets requests through when the store fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    setRateLimitStore({ name: 'broken', hit: async () => { throw new Error('down') } })
+
+    const response = await POST(fromIp('203.0.113.1'))
+    expect(response.status).toBe(200)
+    expect(response.headers.get('X-RateLimit-Limit')).toBeNull()
+    expect(warn).toHaveBeenCalled()
+    warn.mockRestore()
+  })
+})
\ No newline at end of file
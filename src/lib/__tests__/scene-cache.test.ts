@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  generateSceneOnce,
+  getSceneCacheKey,
+  persistSceneImages,
+  storeSceneImage,
+} from '../scene-cache'
+import { createMemorySceneAssetStore, setSceneAssetStore, type SceneAssetStore } from '../scene-asset-store'
+import type { Product } from '@/types'
+import type { SceneRequest } from '@/types/api'
+
+const product = (id: string): Product => ({
+  id,
+  title: `Product ${id}`,
+  price: 100,
+  currency: 'USD',
+  merchant: 'Amazon',
+  rating: 4.5,
+  reviewCount: 10,
+  imageUrl: `https://example.com/${id}.jpg`,
+  productUrl: `https://example.com/${id}`,
+  rationale: 'Fits the setup',
+  features: [],
+  pros: [],
+  cons: [],
+  confidence: 0.9,
+  searchRank: 1,
+})
+
+const sceneRequest = (ids: string[], overrides: Partial<SceneRequest> = {}): SceneRequest => ({
+  products: ids.map(product),
+  style: 'Modern',
+  roomType: 'office',
+  ...overrides,
+})
+
+const dataUrl = (content: string) => `data:image/png;base64,${Buffer.from(content).toString('base64')}`
+
+describe('Scene cache keys', () => {
+  it('depend on the products, not their order', () => {
+    expect(getSceneCacheKey(sceneRequest(['desk', 'chair']))).toBe(getSceneCacheKey(sceneRequest(['chair', 'desk'])))
+    expect(getSceneCacheKey(sceneRequest(['desk', 'chair']))).not.toBe(getSceneCacheKey(sceneRequest(['desk', 'lamp'])))
+  })
+
+  it('separate styles, room types and variation counts', () => {
+    const key = getSceneCacheKey(sceneRequest(['desk']))
+
+    expect(getSceneCacheKey(sceneRequest(['desk'], { roomType: ' Office ' }))).toBe(key)
+    expect(getSceneCacheKey(sceneRequest(['desk'], { style: 'Cozy' }))).not.toBe(key)
+    expect(getSceneCacheKey(sceneRequest(['desk'], { roomType: 'bedroom' }))).not.toBe(key)
+    expect(getSceneCacheKey(sceneRequest(['desk']), 3)).not.toBe(key)
+  })
+})
+
+describe('Scene images', () => {
+  let store: SceneAssetStore
+
+  beforeEach(() => {
+    store = createMemorySceneAssetStore()
+    setSceneAssetStore(store)
+  })
+
+  afterEach(() => {
+    setSceneAssetStore(null)
+    vi.restoreAllMocks()
+  })
+
+  it('stores identical images once under a content hash', async () => {
+    const save = vi.spyOn(store, 'save')
+
+    const first = await storeSceneImage(dataUrl('scene'))
+    const second = await storeSceneImage(dataUrl('scene'))
+    const other = await storeSceneImage(dataUrl('another scene'))
+
+    expect(first).toMatch(/^\/api\/ai-scene\/image\/[a-f0-9]{64}$/)
+    expect(second).toBe(first)
+    expect(other).not.toBe(first)
+    expect(save).toHaveBeenCalledTimes(3)
+    expect(await store.get(first.split('/').pop() as string)).toMatchObject({
+      mimeType: 'image/png',
+      data: Buffer.from('scene').toString('base64'),
+    })
+  })
+
+  it('leaves hosted URLs alone', async () => {
+    const scenes = await persistSceneImages([
+      { imageUrl: 'https://picsum.photos/seed/abc/800/600', prompt: 'p', style: 'Modern' },
+    ])
+
+    expect(scenes[0].imageUrl).toBe('https://picsum.photos/seed/abc/800/600')
+  })
+
+  it('keeps the inline image when the store fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(store, 'save').mockRejectedValue(new Error('value too large'))
+
+    expect(await storeSceneImage(dataUrl('scene'))).toBe(dataUrl('scene'))
+  })
+
+  it('expires assets after their TTL', async () => {
+    let clock = 0
+    const expiring = createMemorySceneAssetStore({ ttlSeconds: 60, now: () => clock })
+    const asset = { id: 'a'.repeat(64), mimeType: 'image/png', data: 'AA==', createdAt: '2026-01-01T00:00:00.000Z' }
+    await expiring.save(asset)
+
+    clock = 59_000
+    expect(await expiring.get(asset.id)).toEqual(asset)
+
+    clock = 61_000
+    expect(await expiring.get(asset.id)).toBeNull()
+  })
+})
+
+describe('generateSceneOnce', () => {
+  it('shares one generation between concurrent identical requests', async () => {
+    const generate = vi.fn(async () => 'scene')
+
+    const results = await Promise.all([
+      generateSceneOnce('scene:same', generate),
+      generateSceneOnce('scene:same', generate),
+    ])
+
+    expect(results).toEqual(['scene', 'scene'])
+    expect(generate).toHaveBeenCalledTimes(1)
+
+    await generateSceneOnce('scene:same', generate)
+    expect(generate).toHaveBeenCalledTimes(2)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createMemorySceneJobQueue, type SceneVariationRenderer } from '../scene-jobs'
+import { getCachedData, setCachedData } from '@/lib/cache'
+import type { Product } from '@/types'
+import type { SceneGenerationResponse, SceneJob, SceneRequest } from '@/types/api'
+
+vi.mock('@/lib/cache')
+
+const product: Product = {
+  id: 'desk1',
+  title: 'Standing Desk',
+  price: 400,
+  currency: 'USD',
+  merchant: 'Amazon',
+  rating: 4.5,
+  reviewCount: 100,
+  imageUrl: 'https://example.com/desk.jpg',
+  productUrl: 'https://example.com/desk',
+  rationale: 'Fits the setup',
+  features: [],
+  pros: [],
+  cons: [],
+  confidence: 0.9,
+  searchRank: 1,
+}
+
+const sceneRequest: SceneRequest = { products: [product], style: 'Modern', roomType: 'office' }
+
+const renderer = (): SceneVariationRenderer => vi.fn(async (request, variation) => ({
+  imageUrl: `https://example.com/scene-${variation}.jpg`,
+  prompt: `Variation ${variation}`,
+  style: request.style,
+}))
+
+// Resolves once the queue's background work has had a chance to run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+async function waitForJob(
+  queue: ReturnType<typeof createMemorySceneJobQueue>,
+  jobId: string,
+  done: (job: SceneJob) => boolean
+): Promise<SceneJob> {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const job = await queue.get(jobId)
+    if (job && done(job)) return job
+    await settle()
+  }
+  throw new Error(`Job ${jobId} never reached the expected state`)
+}
+
+describe('Memory scene job queue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getCachedData).mockResolvedValue(null)
+    vi.mocked(setCachedData).mockResolvedValue(undefined)
+  })
+
+  it('renders every variation and caches the combined result', async () => {
+    const render = renderer()
+    const queue = createMemorySceneJobQueue({ render, variationDelayMs: 0 })
+
+    const queued = await queue.enqueue(sceneRequest, 3, 'user_1')
+    expect(queued.status).toBe('queued')
+    expect(queued.variations.map(variation => variation.status)).toEqual(['queued', 'queued', 'queued'])
+
+    const job = await waitForJob(queue, queued.id, job => job.status === 'completed')
+
+    expect(render).toHaveBeenCalledTimes(3)
+    expect(job.variations.map(variation => variation.scene?.imageUrl)).toEqual([
+      'https://example.com/scene-1.jpg',
+      'https://example.com/scene-2.jpg',
+      'https://example.com/scene-3.jpg',
+    ])
+    expect(job.result?.count).toBe(3)
+    expect(setCachedData).toHaveBeenCalledWith(expect.stringMatching(/^scene:/), job.result, expect.any(Number))
+  })
+
+  it('completes with the variations that succeeded', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const render: SceneVariationRenderer = vi.fn(async (request, variation) => {
+      if (variation === 2) throw new Error('Image API overloaded')
+      return { imageUrl: `https://example.com/scene-${variation}.jpg`, prompt: 'p', style: request.style }
+    })
+    const queue = createMemorySceneJobQueue({ render, variationDelayMs: 0 })
+
+    const { id } = await queue.enqueue(sceneRequest, 2, 'user_1')
+    const job = await waitForJob(queue, id, job => job.status === 'completed')
+
+    expect(job.variations[1]).toMatchObject({ status: 'failed', error: 'Image API overloaded', scene: null })
+    expect(job.result?.scenes).toHaveLength(1)
+  })
+
+  it('fails when no variation renders', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const queue = createMemorySceneJobQueue({
+      render: async () => { throw new Error('Image API down') },
+      variationDelayMs: 0,
+    })
+
+    const { id } = await queue.enqueue(sceneRequest, 1, 'user_1')
+    const job = await waitForJob(queue, id, job => job.status === 'failed')
+
+    expect(job.error).toBe('Failed to generate any scene variations')
+    expect(setCachedData).not.toHaveBeenCalled()
+  })
+
+  it('serves cached scenes without rendering', async () => {
+    const cached: SceneGenerationResponse = {
+      scenes: [{ imageUrl: '/api/ai-scene/image/abc', prompt: 'p', style: 'Modern' }],
+      count: 1,
+      style: 'Modern',
+      productCount: 1,
+      metadata: {
+        generatedAt: '2026-01-01T00:00:00.000Z',
+        style: 'Modern',
+        roomType: 'office',
+        productTitles: ['Standing Desk'],
+        estimatedGenerationTime: 35,
+      },
+    }
+    vi.mocked(getCachedData).mockResolvedValue(cached)
+    const render = renderer()
+    const queue = createMemorySceneJobQueue({ render })
+
+    const { id } = await queue.enqueue(sceneRequest, 1, 'user_1')
+    const job = await waitForJob(queue, id, job => job.status === 'completed')
+
+    expect(render).not.toHaveBeenCalled()
+    expect(job.result).toEqual(cached)
+    expect(job.variations[0].scene).toEqual(cached.scenes[0])
+  })
+
+  it('cancels the variations that have not finished', async () => {
+    let finishFirst: () => void = () => {}
+    const render: SceneVariationRenderer = vi.fn(async (request, variation) => {
+      await new Promise<void>(resolve => { finishFirst = resolve })
+      return { imageUrl: `https://example.com/scene-${variation}.jpg`, prompt: 'p', style: request.style }
+    })
+    const queue = createMemorySceneJobQueue({ render, variationDelayMs: 0 })
+
+    const { id } = await queue.enqueue(sceneRequest, 3, 'user_1')
+    await waitForJob(queue, id, job => job.variations[0].status === 'running')
+
+    // Only the user who queued the job can cancel it
+    expect(await queue.cancel(id, 'user_2')).toBeNull()
+    const cancelled = await queue.cancel(id, 'user_1')
+    finishFirst()
+    await settle()
+
+    expect(cancelled?.status).toBe('cancelled')
+    expect(cancelled?.variations.map(variation => variation.status)).toEqual(['cancelled', 'cancelled', 'cancelled'])
+    expect(render).toHaveBeenCalledTimes(1)
+    expect((await queue.get(id))?.variations[0].scene).toBeNull()
+    expect(await queue.cancel('scene_missing', 'user_1')).toBeNull()
+  })
+
+  it('runs at most `concurrency` jobs at a time', async () => {
+    const releases: Array<() => void> = []
+    const render: SceneVariationRenderer = vi.fn(async request => {
+      await new Promise<void>(resolve => releases.push(resolve))
+      return { imageUrl: 'https://example.com/scene.jpg', prompt: 'p', style: request.style }
+    })
+    const queue = createMemorySceneJobQueue({ render, concurrency: 1 })
+
+    const first = await queue.enqueue(sceneRequest, 1, 'user_1')
+    const second = await queue.enqueue({ ...sceneRequest, style: 'Cozy' }, 1, 'user_1')
+    await settle()
+
+    expect((await queue.get(second.id))?.status).toBe('queued')
+    releases[0]()
+    await waitForJob(queue, first.id, job => job.status === 'completed')
+    await waitForJob(queue, second.id, job => job.status === 'running')
+    releases[1]()
+    await waitForJob(queue, second.id, job => job.status === 'completed')
+  })
+
+  it('forgets jobs a TTL after their last update', async () => {
+    let clock = 0
+    const queue = createMemorySceneJobQueue({ render: renderer(), ttlSeconds: 60, now: () => clock })
+
+    const { id } = await queue.enqueue(sceneRequest, 1, 'user_1')
+    await waitForJob(queue, id, job => job.status === 'completed')
+
+    clock = 61_000
+    expect(await queue.get(id)).toBeNull()
+  })
+})
\ No newline at end of file
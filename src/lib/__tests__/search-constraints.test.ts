@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { applySearchConstraints, getCategoryPriceRange, hasSearchConstraints } from '../search-constraints'
+import type { RawProduct } from '@/types/api'
+
+const candidate = (overrides: Partial<RawProduct> & { id: string }): RawProduct => ({
+  title: `Product ${overrides.id}`,
+  url: `https://example.com/p/${overrides.id}`,
+  price: 100,
+  currency: 'USD',
+  merchant: 'Amazon',
+  rating: 4.5,
+  reviewCount: 500,
+  shipRegion: 'US',
+  ...overrides
+})
+
+const monitors = [
+  candidate({ id: 'dell', title: 'Dell 27" 4K Monitor', price: 400 }),
+  candidate({ id: 'lg', title: 'LG UltraGear 32 inch', price: 350, merchant: 'Best Buy' }),
+  candidate({ id: 'logi', title: 'Logitech Monitor Stand', price: 60, rating: 3.9 }),
+  candidate({ id: 'cheap', title: 'Generic 24 inch Monitor', price: 90, reviewCount: undefined, shipRegion: 'GB' })
+]
+
+const ids = (products: RawProduct[]) => products.map(product => product.id)
+
+describe('Search constraints', () => {
+  it('passes candidates through when nothing is constrained', () => {
+    expect(hasSearchConstraints({ includeBrands: [], excludeBrands: [] })).toBe(false)
+    expect(applySearchConstraints(monitors, { includeBrands: [] }, 'monitor')).toEqual({ candidates: monitors, removals: [] })
+    expect(applySearchConstraints(monitors, undefined, 'monitor').candidates).toBe(monitors)
+  })
+
+  it('matches brands as whole words', () => {
+    const { candidates, removals } = applySearchConstraints(monitors, { includeBrands: ['LG', 'dell'] }, 'monitor')
+
+    expect(ids(candidates)).toEqual(['dell', 'lg'])
+    expect(removals).toEqual([{
+      needKey: 'monitor',
+      constraint: 'includeBrands',
+      removed: [
+        { id: 'logi', title: 'Logitech Monitor Stand' },
+        { id: 'cheap', title: 'Generic 24 inch Monitor' }
+      ]
+    }])
+    expect(ids(applySearchConstraints(monitors, { excludeBrands: ['lg'] }, 'monitor').candidates))
+      .toEqual(['dell', 'logi', 'cheap'])
+  })
+
+  it('filters merchants, ratings, reviews and shipping region', () => {
+    expect(ids(applySearchConstraints(monitors, { allowMerchants: ['best buy'] }, 'monitor').candidates)).toEqual(['lg'])
+    expect(ids(applySearchConstraints(monitors, { denyMerchants: ['amazon'] }, 'monitor').candidates)).toEqual(['lg'])
+    expect(ids(applySearchConstraints(monitors, { minRating: 4 }, 'monitor').candidates)).toEqual(['dell', 'lg', 'cheap'])
+    // A listing without a review count can't show it meets the floor
+    expect(ids(applySearchConstraints(monitors, { minReviewCount: 100 }, 'monitor').candidates)).toEqual(['dell', 'lg', 'logi'])
+    expect(ids(applySearchConstraints(monitors, { shipsTo: 'gb' }, 'monitor').candidates)).toEqual(['cheap'])
+  })
+
+  it('reports each candidate under the first constraint it fails', () => {
+    const { candidates, removals } = applySearchConstraints(
+      monitors,
+      { denyMerchants: ['Best Buy'], minRating: 4, minReviewCount: 100 },
+      'monitor'
+    )
+
+    expect(ids(candidates)).toEqual(['dell'])
+    expect(removals.map(removal => [removal.constraint, ids(removal.removed as RawProduct[])])).toEqual([
+      ['denyMerchants', ['lg']],
+      ['minRating', ['logi']],
+      ['minReviewCount', ['cheap']]
+    ])
+  })
+
+  it('uses the category price range, falling back to "*"', () => {
+    const constraints = { categoryPrices: { Monitor: { min: 100, max: 380 }, '*': { max: 70 } } }
+
+    expect(getCategoryPriceRange(constraints, ['monitor'])).toEqual({ min: 100, max: 380 })
+    expect(getCategoryPriceRange(constraints, ['desk'])).toEqual({ max: 70 })
+    expect(getCategoryPriceRange({}, ['desk'])).toBeNull()
+
+    expect(ids(applySearchConstraints(monitors, constraints, 'monitor').candidates)).toEqual(['lg'])
+    expect(ids(applySearchConstraints(monitors, constraints, 'need-1', ['Monitor']).candidates)).toEqual(['lg'])
+    expect(ids(applySearchConstraints(monitors, constraints, 'stand').candidates)).toEqual(['logi'])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import {
+  createMemorySearchHistoryStore,
+  getSearchHistoryStore,
+  getSearchHistoryStoreName,
+  setSearchHistoryStore,
+} from '../search-history-store'
+import {
+  saveSearchResults,
+  getCachedSearchResult,
+  getSearchHistory,
+  getSavedSearches,
+  isSearchSaved,
+  saveSearch,
+  unsaveSearch,
+  deleteCachedSearch,
+  type CachedSearchResult,
+} from '../search-cache'
+import type { SearchSettings } from '@/types'
+
+const settings: SearchSettings = {
+  style: 'Premium',
+  budget: 1000,
+  currency: 'USD',
+  amazonOnly: false,
+}
+
+const entry = (userId: string, id: string, minute: number): CachedSearchResult => ({
+  id,
+  userId,
+  query: `query ${id}`,
+  settings,
+  results: [{ id: `${id}-product` }],
+  createdAt: new Date(Date.UTC(2026, 0, 1, 0, minute)).toISOString(),
+  productCount: 1,
+})
+
+describe('Memory search history store', () => {
+  let clock: number
+  const now = () => clock
+
+  beforeEach(() => {
+    clock = Date.UTC(2026, 0, 1)
+  })
+
+  it('lists a user\'s searches newest first with pagination', async () => {
+    const store = createMemorySearchHistoryStore({ now })
+    for (let i = 1; i <= 5; i++) {
+      await store.addSearch(entry('alice', `s${i}`, i))
+    }
+
+    const firstPage = await store.listSearches('alice', { offset: 0, limit: 2 })
+    expect(firstPage.total).toBe(5)
+    expect(firstPage.items.map(item => item.id)).toEqual(['s5', 's4'])
+
+    const lastPage = await store.listSearches('alice', { offset: 4, limit: 2 })
+    expect(lastPage.items.map(item => item.id)).toEqual(['s1'])
+  })
+
+  it('keeps each user\'s history separate', async () => {
+    const store = createMemorySearchHistoryStore({ now })
+    await store.addSearch(entry('alice', 's1', 1))
+
+    expect(await store.getSearch('bob', 's1')).toBeNull()
+    expect(await store.listSearches('bob', { offset: 0, limit: 10 })).toEqual({ items: [], total: 0 })
+    expect(await store.saveSearch('bob', 's1')).toBe(false)
+    expect(await store.deleteSearch('bob', 's1')).toBe(false)
+    expect(await store.getSearch('alice', 's1')).not.toBeNull()
+  })
+
+  it('expires history entries after the history TTL', async () => {
+    const store = createMemorySearchHistoryStore({ now, historyTtlSeconds: 60 })
+    await store.addSearch(entry('alice', 's1', 1))
+
+    clock += 59_000
+    expect(await store.getSearch('alice', 's1')).not.toBeNull()
+
+    clock += 2_000
+    expect(await store.getSearch('alice', 's1')).toBeNull()
+    expect((await store.listSearches('alice', { offset: 0, limit: 10 })).total).toBe(0)
+  })
+
+  it('extends the TTL of saved searches and restores it when unsaved', async () => {
+    const store = createMemorySearchHistoryStore({ now, historyTtlSeconds: 60, savedTtlSeconds: 600 })
+    await store.addSearch(entry('alice', 's1', 1))
+    await store.addSearch(entry('alice', 's2', 2))
+
+    expect(await store.saveSearch('alice', 's1')).toBe(true)
+    clock += 120_000
+
+    expect(await store.getSearch('alice', 's1')).not.toBeNull()
+    expect(await store.getSearch('alice', 's2')).toBeNull()
+
+    expect(await store.unsaveSearch('alice', 's1')).toBe(true)
+    expect(await store.unsaveSearch('alice', 's1')).toBe(false)
+    clock += 61_000
+    expect(await store.getSearch('alice', 's1')).toBeNull()
+  })
+
+  it('trims the oldest unsaved entries beyond the history limit', async () => {
+    const store = createMemorySearchHistoryStore({ now, maxHistoryEntries: 2 })
+    await store.addSearch(entry('alice', 's1', 1))
+    await store.addSearch(entry('alice', 's2', 2))
+    await store.saveSearch('alice', 's2')
+    await store.addSearch(entry('alice', 's3', 3))
+    await store.addSearch(entry('alice', 's4', 4))
+
+    const history = await store.listSearches('alice', { offset: 0, limit: 10 })
+    expect(history.items.map(item => item.id)).toEqual(['s4', 's3'])
+
+    // Saved searches outlive their place in the history
+    expect(await store.getSearch('alice', 's1')).toBeNull()
+    expect(await store.getSearch('alice', 's2')).not.toBeNull()
+    const saved = await store.listSaved('alice', { offset: 0, limit: 10 })
+    expect(saved.items.map(item => item.id)).toEqual(['s2'])
+  })
+
+  it('removes deleted searches from history and the saved list', async () => {
+    const store = createMemorySearchHistoryStore({ now })
+    await store.addSearch(entry('alice', 's1', 1))
+    await store.saveSearch('alice', 's1')
+
+    expect(await store.deleteSearch('alice', 's1')).toBe(true)
+    expect(await store.listSearches('alice', { offset: 0, limit: 10 })).toEqual({ items: [], total: 0 })
+    expect(await store.listSaved('alice', { offset: 0, limit: 10 })).toEqual({ items: [], total: 0 })
+    expect(await store.getSavedIds('alice', ['s1'])).toEqual(new Set())
+  })
+})
+
+describe('Search cache', () => {
+  beforeEach(() => {
+    setSearchHistoryStore(createMemorySearchHistoryStore())
+  })
+
+  afterEach(() => {
+    setSearchHistoryStore(null)
+  })
+
+  it('saves results to the owner\'s history', async () => {
+    const searchId = await saveSearchResults('alice', 'gaming desk', settings, [{ id: 'p1' }, { id: 'p2' }])
+
+    const cached = await getCachedSearchResult('alice', searchId)
+    expect(cached).toMatchObject({
+      id: searchId,
+      userId: 'alice',
+      query: 'gaming desk',
+      productCount: 2,
+    })
+    expect(await getCachedSearchResult('bob', searchId)).toBeNull()
+  })
+
+  it('returns history summaries with saved state and pagination', async () => {
+    const first = await saveSearchResults('alice', 'desk', settings, [])
+    await saveSearchResults('alice', 'chair', settings, [])
+    await saveSearch('alice', first)
+
+    const { items, pagination } = await getSearchHistory('alice', { offset: 0, limit: 1 })
+    expect(items).toHaveLength(1)
+    expect(items[0]).not.toHaveProperty('results')
+    expect(pagination).toEqual({ offset: 0, limit: 1, total: 2, hasMore: true })
+
+    const all = await getSearchHistory('alice', { offset: 0, limit: 10 })
+    expect(all.items.find(item => item.id === first)?.isSaved).toBe(true)
+    expect(all.pagination.hasMore).toBe(false)
+  })
+
+  it('saves, lists and unsaves searches per user', async () => {
+    const searchId = await saveSearchResults('alice', 'desk', settings, [])
+
+    expect(await saveSearch('alice', searchId)).toBe(true)
+    expect(await isSearchSaved('alice', searchId)).toBe(true)
+    expect(await isSearchSaved('bob', searchId)).toBe(false)
+
+    const saved = await getSavedSearches('alice', { offset: 0, limit: 10 })
+    expect(saved.items.map(item => item.id)).toEqual([searchId])
+    expect(saved.items[0].isSaved).toBe(true)
+
+    expect(await unsaveSearch('alice', searchId)).toBe(true)
+    expect((await getSavedSearches('alice', { offset: 0, limit: 10 })).pagination.total).toBe(0)
+    expect(await deleteCachedSearch('alice', searchId)).toBe(true)
+    expect(await getCachedSearchResult('alice', searchId)).toBeNull()
+  })
+})
+
+describe('Search history store selection', () => {
+  const originalStore = process.env.SEARCH_HISTORY_STORE
+  const originalRedisUrl = process.env.UPSTASH_REDIS_REST_URL
+
+  afterEach(() => {
+    process.env.SEARCH_HISTORY_STORE = originalStore
+    process.env.UPSTASH_REDIS_REST_URL = originalRedisUrl
+    if (originalStore === undefined) delete process.env.SEARCH_HISTORY_STORE
+    if (originalRedisUrl === undefined) delete process.env.UPSTASH_REDIS_REST_URL
+    setSearchHistoryStore(null)
+  })
+
+  it('defaults to redis only when Upstash is configured', () => {
+    delete process.env.SEARCH_HISTORY_STORE
+    delete process.env.UPSTASH_REDIS_REST_URL
+    expect(getSearchHistoryStoreName()).toBe('memory')
+
+    process.env.UPSTASH_REDIS_REST_URL = 'https://example.upstash.io'
+    expect(getSearchHistoryStoreName()).toBe('redis')
+
+    process.env.SEARCH_HISTORY_STORE = 'Memory'
+    expect(getSearchHistoryStoreName()).toBe('memory')
+  })
+
+  it('rejects unknown stores', () => {
+    process.env.SEARCH_HISTORY_STORE = 'postgres'
+    expect(() => getSearchHistoryStore()).toThrow('Unknown search history store "postgres"')
+  })
+})
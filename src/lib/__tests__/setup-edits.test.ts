@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { addSetupProduct, removeSetupProduct, toCustomProduct } from '../setup-edits'
+import { createMemorySetupRevisionStore, setSetupRevisionStore } from '../setup-revision-store'
+import { createMemorySearchHistoryStore, setSearchHistoryStore } from '../search-history-store'
+import { saveSearchResults } from '../search-cache'
+import type { Product, SearchSettings } from '@/types'
+
+const product = (id: string, price: number, category?: string): Product => ({
+  id,
+  title: `Product ${id}`,
+  price,
+  currency: 'USD',
+  merchant: 'Amazon',
+  rating: 4.5,
+  reviewCount: 100,
+  imageUrl: `https://example.com/${id}.jpg`,
+  productUrl: `https://example.com/${id}`,
+  rationale: '',
+  category,
+  features: [],
+  pros: [],
+  cons: [],
+  confidence: 0.9,
+  searchRank: 1
+})
+
+const settings: SearchSettings = {
+  style: 'Premium',
+  budget: 1000,
+  currency: 'USD',
+  amazonOnly: false,
+  region: 'US'
+}
+
+const desk = product('desk', 300, 'Desk')
+const chair = product('chair', 200, 'Chair')
+
+describe('Setup edits', () => {
+  beforeEach(() => {
+    setSetupRevisionStore(createMemorySetupRevisionStore())
+    setSearchHistoryStore(createMemorySearchHistoryStore())
+  })
+
+  afterEach(() => {
+    setSetupRevisionStore(null)
+    setSearchHistoryStore(null)
+  })
+
+  it('turns a custom item into a marked product in the setup currency', () => {
+    const item = toCustomProduct({ title: 'My old monitor', price: 150, productUrl: 'https://www.example.com/monitor' }, 'EUR')
+
+    expect(item).toMatchObject({
+      title: 'My old monitor',
+      price: 150,
+      currency: 'EUR',
+      merchant: 'example.com',
+      productUrl: 'https://www.example.com/monitor',
+      custom: true
+    })
+    expect(item.id).toMatch(/^custom_/)
+    expect(toCustomProduct({ title: 'Mug', price: 5 }, 'USD')).toMatchObject({ merchant: 'Your item', productUrl: '#' })
+  })
+
+  it('adds a custom item as a new revision', async () => {
+    const searchId = await saveSearchResults('user_1', 'office setup', settings, [desk, chair])
+
+    const revision = await addSetupProduct('user_1', searchId, {
+      type: 'custom',
+      item: { title: 'My old monitor', price: 150 }
+    })
+
+    expect(revision).toMatchObject({ revision: 2, kind: 'add', totalCost: 650 })
+    expect(revision!.products[2]).toMatchObject({ title: 'My old monitor', custom: true })
+    expect(await addSetupProduct('user_2', searchId, { type: 'custom', item: { title: 'Mug', price: 5 } })).toBeNull()
+  })
+
+  it('searches an added category within the budget left, around custom items', async () => {
+    const searchId = await saveSearchResults('user_1', 'office setup', settings, [desk, chair])
+    const withMonitor = await addSetupProduct('user_1', searchId, {
+      type: 'custom',
+      item: { title: 'My old monitor', price: 150 }
+    })
+    const find = vi.fn().mockResolvedValue({ alternatives: [product('lamp', 40)], fromCache: false })
+
+    const revision = await addSetupProduct('user_1', searchId, { type: 'category', category: 'Desk lamp' }, { find })
+
+    expect(find).toHaveBeenCalledWith(expect.objectContaining({
+      category: 'Desk lamp',
+      budget: 350,
+      excludeIds: ['desk', 'chair', withMonitor!.products[2].id],
+      fixedProducts: [withMonitor!.products[2]]
+    }))
+    expect(revision).toMatchObject({ revision: 3, totalCost: 690 })
+    expect(revision!.products[3]).toMatchObject({ id: 'lamp', category: 'Desk lamp' })
+  })
+
+  it('rejects a category when the budget is used up or nothing is found', async () => {
+    const searchId = await saveSearchResults('user_1', 'office setup', settings, [desk, product('pc', 700, 'PC')])
+    const find = vi.fn().mockResolvedValue({ alternatives: [], fromCache: false })
+
+    await expect(addSetupProduct('user_1', searchId, { type: 'category', category: 'Lamp' }, { find }))
+      .rejects.toThrow('The setup has no budget left')
+    await expect(addSetupProduct('user_1', searchId, { type: 'category', category: 'Lamp', budget: 50 }, { find }))
+      .rejects.toThrow('No Lamp found within budget')
+  })
+
+  it('removes a product but never the last one', async () => {
+    const searchId = await saveSearchResults('user_1', 'office setup', settings, [desk, chair])
+
+    const revision = await removeSetupProduct('user_1', searchId, 'chair')
+
+    expect(revision).toMatchObject({ revision: 2, kind: 'remove', totalCost: 300, note: 'Removed Chair' })
+    expect(await removeSetupProduct('user_1', searchId, 'missing')).toBeNull()
+    await expect(removeSetupProduct('user_1', searchId, 'desk')).rejects.toThrow('A setup needs at least one product')
+  })
+})
\ No newline at end of file
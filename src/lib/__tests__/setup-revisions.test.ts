@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import {
+  diffProducts,
+  diffSetupRevisions,
+  listSetupRevisions,
+  recordSetupRevision,
+  restoreSetupRevision
+} from '../setup-revisions'
+import { createMemorySetupRevisionStore, setSetupRevisionStore } from '../setup-revision-store'
+import { createMemorySearchHistoryStore, setSearchHistoryStore } from '../search-history-store'
+import { saveSearchResults } from '../search-cache'
+import type { Product, SearchSettings } from '@/types'
+
+const product = (id: string, price: number, category?: string): Product => ({
+  id,
+  title: `Product ${id}`,
+  price,
+  currency: 'USD',
+  merchant: 'Amazon',
+  rating: 4.5,
+  reviewCount: 100,
+  imageUrl: `https://example.com/${id}.jpg`,
+  productUrl: `https://example.com/${id}`,
+  rationale: '',
+  category,
+  features: [],
+  pros: [],
+  cons: [],
+  confidence: 0.9,
+  searchRank: 1
+})
+
+const settings: SearchSettings = {
+  style: 'Premium',
+  budget: 1000,
+  currency: 'USD',
+  amazonOnly: false,
+  region: 'US'
+}
+
+const desk = product('desk', 300, 'Desk')
+const chair = product('chair', 200, 'Chair')
+
+describe('Setup revisions', () => {
+  beforeEach(() => {
+    setSetupRevisionStore(createMemorySetupRevisionStore())
+    setSearchHistoryStore(createMemorySearchHistoryStore())
+  })
+
+  afterEach(() => {
+    setSetupRevisionStore(null)
+    setSearchHistoryStore(null)
+  })
+
+  it('pairs a removed and an added product of the same category as a replacement', () => {
+    const otherChair = product('chair2', 150.5, 'chair')
+    const lamp = product('lamp', 40, 'Lamp')
+
+    expect(diffProducts([desk, chair], [desk, otherChair, lamp])).toEqual({
+      added: [{ id: 'lamp', title: 'Product lamp', price: 40, category: 'Lamp' }],
+      removed: [],
+      replaced: [{
+        from: { id: 'chair', title: 'Product chair', price: 200, category: 'Chair' },
+        to: { id: 'chair2', title: 'Product chair2', price: 150.5, category: 'chair' }
+      }],
+      costDelta: -9.5
+    })
+  })
+
+  it('starts the history with the build as revision 1', async () => {
+    const searchId = await saveSearchResults('user_1', 'office setup', settings, [desk, chair])
+
+    const revisions = await listSetupRevisions('user_1', searchId)
+
+    expect(revisions).toHaveLength(1)
+    expect(revisions![0]).toMatchObject({ revision: 1, kind: 'build', totalCost: 500, author: { id: 'user_1' } })
+    expect(await listSetupRevisions('user_2', searchId)).toBeNull()
+  })
+
+  it('records changes as numbered revisions and rejects unchanged setups', async () => {
+    const searchId = await saveSearchResults('user_1', 'office setup', settings, [desk, chair])
+
+    const swapped = await recordSetupRevision('user_1', searchId, {
+      kind: 'swap',
+      products: [desk, product('chair2', 120, 'Chair')]
+    })
+
+    expect(swapped).toMatchObject({ revision: 2, kind: 'swap', totalCost: 420 })
+    expect(swapped!.changes.replaced).toHaveLength(1)
+    expect(swapped!.changes.costDelta).toBe(-80)
+    await expect(recordSetupRevision('user_1', searchId, { kind: 'swap', products: swapped!.products }))
+      .rejects.toThrow('The setup has not changed since the latest revision')
+    expect(await recordSetupRevision('user_1', 'search_missing', { kind: 'add', products: [desk] })).toBeNull()
+  })
+
+  it('restores an older revision as a new one', async () => {
+    const searchId = await saveSearchResults('user_1', 'office setup', settings, [desk, chair])
+    await recordSetupRevision('user_1', searchId, { kind: 'remove', products: [desk] })
+
+    const restored = await restoreSetupRevision('user_1', searchId, 1)
+
+    expect(restored).toMatchObject({ revision: 3, kind: 'restore', restoredFrom: 1, totalCost: 500 })
+    expect(restored!.changes.added.map(item => item.id)).toEqual(['chair'])
+    await expect(restoreSetupRevision('user_1', searchId, 3)).rejects.toThrow('already the current one')
+    expect(await restoreSetupRevision('user_1', searchId, 9)).toBeNull()
+  })
+
+  it('diffs any two revisions in either direction', async () => {
+    const searchId = await saveSearchResults('user_1', 'office setup', settings, [desk, chair])
+    await recordSetupRevision('user_1', searchId, { kind: 'remove', products: [desk] })
+
+    expect(await diffSetupRevisions('user_1', searchId, 2, 1)).toMatchObject({
+      added: [{ id: 'chair' }],
+      removed: [],
+      replaced: [],
+      costDelta: 200
+    })
+    expect(await diffSetupRevisions('user_1', searchId, 1, 5)).toBeNull()
+  })
+})
\ No newline at end of file
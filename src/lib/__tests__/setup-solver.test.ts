@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import { solveSelection, scoreProductQuality, type SolverCategory } from '../setup-solver'
+import type { RawProduct } from '@/types/api'
+
+const product = (id: string, price: number, rating = 4.5, reviewCount = 500): RawProduct => ({
+  id,
+  title: `Product ${id}`,
+  url: `https://example.com/${id}`,
+  price,
+  currency: 'USD',
+  rating,
+  reviewCount,
+})
+
+const category = (key: string, allocation: number, candidates: RawProduct[], extra: Partial<SolverCategory> = {}): SolverCategory => ({
+  key,
+  name: key,
+  allocation,
+  required: true,
+  candidates,
+  ...extra,
+})
+
+const chosenIds = (result: ReturnType<typeof solveSelection>) =>
+  result.choices.map(choice => choice.product?.id ?? null)
+
+describe('Setup solver', () => {
+  it('keeps the preferred picks when they fit the budget', () => {
+    const result = solveSelection([
+      category('monitor', 600, [product('m-best', 550, 5, 5000), product('m-pick', 500)], { preferredId: 'm-pick' }),
+      category('chair', 400, [product('c-pick', 350)], { preferredId: 'c-pick' }),
+    ], 1000)
+
+    expect(chosenIds(result)).toEqual(['m-pick', 'c-pick'])
+    expect(result.totalCost).toBe(850)
+    expect(result.tradeoffs).toEqual([])
+  })
+
+  it('swaps to a cheaper candidate instead of dropping a category', () => {
+    const result = solveSelection([
+      category('monitor', 600, [product('m-pick', 650), product('m-cheap', 450, 4.2)], { preferredId: 'm-pick' }),
+      category('chair', 400, [product('c-pick', 400)], { preferredId: 'c-pick' }),
+    ], 1000)
+
+    expect(chosenIds(result)).toEqual(['m-cheap', 'c-pick'])
+    expect(result.totalCost).toBe(850)
+    expect(result.tradeoffs).toEqual([
+      expect.objectContaining({ key: 'monitor', kind: 'swapped', savings: 200 }),
+    ])
+    expect(result.tradeoffs[0].reason).toContain('Product m-cheap')
+    expect(result.tradeoffs[0].reason).not.toContain('allocation')
+  })
+
+  it('explains picks that go past their allocation', () => {
+    const result = solveSelection([
+      category('monitor', 600, [product('m-pick', 650)], { preferredId: 'm-pick' }),
+      category('chair', 400, [product('c-pick', 300)], { preferredId: 'c-pick' }),
+    ], 1000, { currency: 'USD' })
+
+    expect(chosenIds(result)).toEqual(['m-pick', 'c-pick'])
+    expect(result.tradeoffs).toEqual([
+      expect.objectContaining({ key: 'monitor', kind: 'overran', savings: 0 }),
+    ])
+    expect(result.tradeoffs[0].reason).toContain('$50 over its $600 allocation')
+  })
+
+  it('drops optional categories before required ones', () => {
+    const result = solveSelection([
+      category('desk', 500, [product('desk', 500, 3)]),
+      category('lamp', 100, [product('lamp', 100, 5, 10000)], { required: false }),
+    ], 550)
+
+    expect(chosenIds(result)).toEqual(['desk', null])
+    expect(result.tradeoffs).toEqual([
+      expect.objectContaining({ key: 'lamp', kind: 'dropped', savings: 100 }),
+    ])
+    expect(result.tradeoffs[0].reason).toContain('optional lamp')
+  })
+
+  it('maximises the combined score across categories', () => {
+    // The cheaper monitor frees enough budget for the better chair
+    const result = solveSelection([
+      category('monitor', 500, [product('m-good', 500, 4.8), product('m-ok', 400, 4.6)]),
+      category('chair', 500, [product('c-good', 500, 4.9), product('c-poor', 350, 2)]),
+    ], 900)
+
+    expect(chosenIds(result)).toEqual(['m-ok', 'c-good'])
+  })
+
+  it('only goes more than 10% past the category allocation when allowed', () => {
+    const result = solveSelection([
+      category('mouse', 50, [product('mouse', 60)]),
+    ], 1000)
+
+    expect(chosenIds(result)).toEqual([null])
+    expect(result.tradeoffs).toEqual([])
+
+    const relaxed = solveSelection([
+      category('mouse', 50, [product('mouse', 60)]),
+    ], 1000, { maxAllocationOverrun: 0.5 })
+    expect(chosenIds(relaxed)).toEqual(['mouse'])
+    expect(relaxed.tradeoffs).toEqual([
+      expect.objectContaining({ key: 'mouse', kind: 'overran' }),
+    ])
+  })
+
+  it('ignores candidates without a price', () => {
+    const result = solveSelection([
+      category('desk', 300, [{ id: 'unpriced', title: 'Desk', url: '#' }, product('priced', 250)]),
+    ], 300)
+
+    expect(chosenIds(result)).toEqual(['priced'])
+  })
+
+  it('scores quality from rating and reviews', () => {
+    expect(scoreProductQuality(product('a', 10, 5, 10000))).toBeCloseTo(1)
+    expect(scoreProductQuality(product('b', 10, 4, 10))).toBeLessThan(scoreProductQuality(product('c', 10, 4, 1000)))
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import {
+  BUILT_IN_TEMPLATES,
+  createTemplate,
+  forkTemplate,
+  getTemplate,
+  listTemplates,
+  matchBuiltInTemplate,
+  templateToNeeds,
+  templateToPlan,
+  updateTemplate
+} from '../setup-templates'
+import { createMemoryTemplateStore, setTemplateStore } from '../template-store'
+import type { TemplateInput } from '@/types/api'
+
+const readingNook: TemplateInput = {
+  name: 'Reading nook',
+  description: '',
+  keywords: ['reading'],
+  categories: [
+    { category: 'Armchair', budgetPercent: 60, searchTerms: ['reading armchair'], requirements: ['Comfortable'], required: true },
+    { category: 'Floor Lamp', budgetPercent: 25, searchTerms: [], requirements: [], required: false }
+  ],
+  shared: false
+}
+
+describe('Setup templates', () => {
+  beforeEach(() => {
+    setTemplateStore(createMemoryTemplateStore())
+  })
+
+  afterEach(() => {
+    setTemplateStore(null)
+  })
+
+  it('ships the built-in setups within budget for both styles', () => {
+    expect(BUILT_IN_TEMPLATES.map(template => template.id)).toEqual(['gaming', 'office', 'bedroom', 'kitchen', 'living_room'])
+
+    for (const template of BUILT_IN_TEMPLATES) {
+      for (const style of ['Premium', 'Casual'] as const) {
+        const total = templateToNeeds(template, { budget: 1000, style }).reduce((sum, need) => sum + need.targetPrice, 0)
+        expect(total).toBeLessThanOrEqual(1000)
+      }
+    }
+  })
+
+  it('matches queries to built-in templates by keyword', () => {
+    expect(matchBuiltInTemplate('Cozy bedroom makeover')?.id).toBe('bedroom')
+    expect(matchBuiltInTemplate('work from home desk')?.id).toBe('office')
+    expect(matchBuiltInTemplate('wireless earbuds')).toBeNull()
+  })
+
+  it('plans a template for the style and budget', () => {
+    const gaming = BUILT_IN_TEMPLATES[0]
+
+    const [casualPc] = templateToNeeds(gaming, { budget: 2000, style: 'Casual' })
+    expect(casualPc).toEqual({
+      key: 'gaming_pc_desktop_computer',
+      name: 'Gaming PC Desktop Computer',
+      targetPrice: 900,
+      specs: 'GTX 1660+ Intel i5/AMD Ryzen 5+ 8GB+ RAM',
+      required: true,
+      searchTerms: ['gaming pc', 'gaming computer', 'desktop pc']
+    })
+
+    const plan = templateToPlan(gaming, { budget: 2000, style: 'Premium' })
+    expect(plan.categories[0]).toMatchObject({ category: 'High-End Gaming PC', priority: 10, budgetAllocation: 900 })
+    expect(plan.categories.at(-1)?.required).toBe(false)
+    expect(plan.budgetDistribution[0]).toMatchObject({ amount: 900, percentage: 45 })
+  })
+
+  it('rejects budget percentages over 100%', async () => {
+    const tooMuch = { ...readingNook, categories: [...readingNook.categories, { ...readingNook.categories[0], category: 'Rug', budgetPercent: 20 }] }
+
+    await expect(createTemplate('user-1', tooMuch)).rejects.toThrow('Budget percentages add up to 105%')
+  })
+
+  it('keeps private templates to their owner until shared', async () => {
+    const template = await createTemplate('user-1', readingNook)
+
+    expect(await getTemplate(template.id, 'user-1')).toEqual(template)
+    expect(await getTemplate(template.id, 'user-2')).toBeNull()
+    expect(await updateTemplate('user-2', template.id, { shared: true })).toBeNull()
+
+    await updateTemplate('user-1', template.id, { shared: true })
+    expect((await getTemplate(template.id, 'user-2'))?.name).toBe('Reading nook')
+    expect((await listTemplates('user-1')).own).toHaveLength(1)
+    expect((await listTemplates('user-2')).own).toHaveLength(0)
+  })
+
+  it('forks templates into private copies', async () => {
+    const fork = await forkTemplate('user-2', 'kitchen', 'My kitchen')
+
+    expect(fork).toMatchObject({ name: 'My kitchen', ownerId: 'user-2', forkedFrom: 'kitchen', shared: false })
+    expect(fork?.categories).toEqual(BUILT_IN_TEMPLATES[3].categories)
+
+    const original = await createTemplate('user-1', readingNook)
+    expect(await forkTemplate('user-2', original.id)).toBeNull()
+  })
+})
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  getRequestUsage,
+  getUpstreamUsageReport,
+  recordUpstreamCall,
+  withUsageMeter
+} from '../upstream-usage'
+import { createMemoryUpstreamUsageStore, setUpstreamUsageStore } from '../upstream-usage-store'
+import { GeminiAIClient } from '../api/gemini'
+import type { LLMProvider } from '../api/llm-provider'
+
+const NOW = new Date('2025-03-10T12:00:00Z')
+
+// Reports 1,000 input and 500 output tokens for every call
+const meteredProvider = (answer: string): LLMProvider => ({
+  name: 'gemini',
+  generateText: async (_prompt, options) => {
+    options?.onUsage?.({ inputTokens: 1000, outputTokens: 500 })
+    return answer
+  },
+  generateJSON: async () => { throw new Error('not used') },
+  generateImage: async () => { throw new Error('not used') }
+})
+
+describe('Upstream usage', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(NOW)
+    setUpstreamUsageStore(createMemoryUpstreamUsageStore())
+  })
+
+  afterEach(() => {
+    setUpstreamUsageStore(null)
+    vi.useRealTimers()
+    vi.unstubAllEnvs()
+  })
+
+  it('counts calls and estimated cost per request', async () => {
+    const usage = await withUsageMeter('req_1', async () => {
+      await Promise.all([
+        recordUpstreamCall({ service: 'serpapi', operation: 'google_shopping' }),
+        recordUpstreamCall({ service: 'serpapi', operation: 'google_shopping' }),
+        recordUpstreamCall({ service: 'gemini', operation: 'generatePlan', inputTokens: 2000, outputTokens: 1000 }),
+        recordUpstreamCall({ service: 'openai-compatible', operation: 'generatePlan', inputTokens: 100, outputTokens: 100 })
+      ])
+      return getRequestUsage()
+    })
+
+    expect(usage).toMatchObject({
+      requestId: 'req_1',
+      calls: 4,
+      inputTokens: 2100,
+      outputTokens: 1100,
+      // 2 × $0.015 + 2,000 × $0.10/M + 1,000 × $0.40/M; self-hosted models are free
+      estimatedCost: 0.0306
+    })
+    expect(usage?.operations).toContainEqual({
+      service: 'serpapi', operation: 'google_shopping', calls: 2, inputTokens: 0, outputTokens: 0, estimatedCost: 0.03
+    })
+    expect(getRequestUsage()).toBeNull()
+  })
+
+  it('keeps the meters of concurrent requests apart', async () => {
+    const [first, second] = await Promise.all(['req_1', 'req_2'].map((requestId, index) =>
+      withUsageMeter(requestId, async () => {
+        for (let i = 0; i <= index; i++) {
+          await recordUpstreamCall({ service: 'serpapi', operation: 'google_product' })
+        }
+        return getRequestUsage()
+      })
+    ))
+
+    expect(first).toMatchObject({ requestId: 'req_1', calls: 1 })
+    expect(second).toMatchObject({ requestId: 'req_2', calls: 2 })
+  })
+
+  it('records the tokens the model reports for GeminiAIClient calls', async () => {
+    const client = new GeminiAIClient(meteredProvider('["Tip one", "Tip two"]'))
+
+    const usage = await withUsageMeter('req_1', async () => {
+      await client.generateGhostTips('office setup', [])
+      return getRequestUsage()
+    })
+
+    expect(usage?.operations).toEqual([{
+      service: 'gemini',
+      operation: 'generateGhostTips',
+      calls: 1,
+      inputTokens: 1000,
+      outputTokens: 500,
+      estimatedCost: 0.0003
+    }])
+  })
+
+  it('reports daily totals and alerts once per budget threshold', async () => {
+    vi.stubEnv('UPSTREAM_DAILY_BUDGET_USD', '0.035')
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    await recordUpstreamCall({ service: 'serpapi', operation: 'google_shopping' })
+    await recordUpstreamCall({ service: 'serpapi', operation: 'google_shopping' })
+    vi.setSystemTime(NOW.getTime() + 60_000)
+    await recordUpstreamCall({ service: 'serpapi', operation: 'amazon' })
+
+    const report = await getUpstreamUsageReport(2)
+    expect(report.days.map(day => day.date)).toEqual(['2025-03-10', '2025-03-09'])
+    expect(report.days[0]).toMatchObject({ calls: 3, estimatedCost: 0.045 })
+    expect(report.days[0].alerts).toEqual([
+      { threshold: 80, triggeredAt: NOW.toISOString() },
+      { threshold: 100, triggeredAt: new Date(NOW.getTime() + 60_000).toISOString() }
+    ])
+    expect(report.days[1]).toMatchObject({ calls: 0, estimatedCost: 0, operations: [], alerts: [] })
+    expect(report.budget).toEqual({ daily: 0.035, spentToday: 0.045, percentUsed: 128.57 })
+    expect(warn).toHaveBeenCalledTimes(2)
+    warn.mockRestore()
+  })
+
+  it('never fails the call when the store does', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    setUpstreamUsageStore({
+      name: 'broken',
+      add: async () => { throw new Error('down') },
+      get: async () => ({ operations: [], alerts: [] }),
+      markAlert: async () => false
+    })
+
+    const usage = await withUsageMeter('req_1', async () => {
+      await recordUpstreamCall({ service: 'serpapi', operation: 'google_shopping' })
+      return getRequestUsage()
+    })
+
+    expect(usage?.calls).toBe(1)
+    expect(warn).toHaveBeenCalled()
+    warn.mockRestore()
+  })
+})
\ No newline at end of file
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest'
+import {
+  createMemoryUserRepository,
+  createRedisUserRepository,
+  getUserRepository,
+  setUserRepository,
+  toPublicUser,
+  type UserRepository,
+} from '../user-repository'
+import { createMemoryVerificationCodeStore } from '../verification-codes'
+import { ValidationError } from '../errors'
+
+vi.mock('../redis', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../redis')>()
+  return {
+    ...actual,
+    redis: {
+      get: vi.fn(),
+      set: vi.fn(),
+      del: vi.fn(),
+      hset: vi.fn(),
+      hgetall: vi.fn(),
+    },
+  }
+})
+
+const mockRedis = (await import('../redis')).redis as unknown as Record<'get' | 'set' | 'del' | 'hset' | 'hgetall', Mock>
+
+describe('Memory user repository', () => {
+  let repository: UserRepository
+
+  beforeEach(() => {
+    repository = createMemoryUserRepository()
+  })
+
+  it('should create users and find them by email or id', async () => {
+    const user = await repository.create({ email: 'Alice@Example.com ', name: 'Alice', password: 'hash' })
+
+    expect(user.id).toMatch(/^user_/)
+    expect(user.email).toBe('alice@example.com')
+    expect(user.isVerified).toBe(false)
+    expect(await repository.findByEmail('ALICE@example.com')).toEqual(user)
+    expect(await repository.findById(user.id)).toEqual(user)
+    expect(await repository.findByEmail('bob@example.com')).toBeNull()
+  })
+
+  it('should reject duplicate emails, including concurrent signups', async () => {
+    const results = await Promise.allSettled([
+      repository.create({ email: 'alice@example.com', name: 'Alice', password: 'a' }),
+      repository.create({ email: 'ALICE@example.com', name: 'Alice 2', password: 'b' }),
+    ])
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1)
+    const rejected = results.find(r => r.status === 'rejected') as PromiseRejectedResult
+    expect(rejected.reason).toBeInstanceOf(ValidationError)
+    expect(rejected.reason.code).toBe('USER_EXISTS')
+  })
+
+  it('should verify, update passwords and delete users', async () => {
+    await repository.create({ email: 'alice@example.com', name: 'Alice', password: 'old' })
+
+    expect((await repository.verify('alice@example.com'))?.isVerified).toBe(true)
+    expect(await repository.updatePassword('alice@example.com', 'new')).toBe(true)
+    expect((await repository.findByEmail('alice@example.com'))?.password).toBe('new')
+
+    expect(await repository.delete('alice@example.com')).toBe(true)
+    expect(await repository.findByEmail('alice@example.com')).toBeNull()
+    expect(await repository.verify('alice@example.com')).toBeNull()
+    expect(await repository.updatePassword('alice@example.com', 'x')).toBe(false)
+    expect(await repository.delete('alice@example.com')).toBe(false)
+  })
+
+  it('should not expose stored records to mutation', async () => {
+    const user = await repository.create({ email: 'alice@example.com', name: 'Alice', password: 'hash' })
+    user.isVerified = true
+
+    expect((await repository.findById(user.id))?.isVerified).toBe(false)
+  })
+
+  it('should strip the password hash for clients', async () => {
+    const user = await repository.create({ email: 'alice@example.com', name: 'Alice', password: 'hash' })
+
+    expect(toPublicUser(user)).not.toHaveProperty('password')
+  })
+})
+
+describe('Redis user repository', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should claim the email with SET NX before writing the user', async () => {
+    mockRedis.set.mockResolvedValue('OK')
+    const repository = createRedisUserRepository()
+
+    const user = await repository.create({ email: 'Alice@example.com', name: 'Alice', password: 'hash' })
+
+    expect(mockRedis.set).toHaveBeenCalledWith('user-email:alice@example.com', user.id, { nx: true })
+    expect(mockRedis.hset).toHaveBeenCalledWith(`user:${user.id}`, expect.objectContaining({
+      email: 'alice@example.com',
+      isVerified: 'false',
+    }))
+  })
+
+  it('should reject the signup that loses the email claim', async () => {
+    mockRedis.set.mockResolvedValue(null)
+    const repository = createRedisUserRepository()
+
+    await expect(repository.create({ email: 'alice@example.com', name: 'Alice', password: 'hash' }))
+      .rejects.toThrow('User already exists with this email')
+    expect(mockRedis.hset).not.toHaveBeenCalled()
+  })
+
+  it('should release the email claim when writing the user fails', async () => {
+    mockRedis.set.mockResolvedValue('OK')
+    mockRedis.hset.mockRejectedValue(new Error('Redis down'))
+    const repository = createRedisUserRepository()
+
+    await expect(repository.create({ email: 'alice@example.com', name: 'Alice', password: 'hash' }))
+      .rejects.toThrow('Redis down')
+    expect(mockRedis.del).toHaveBeenCalledWith('user-email:alice@example.com')
+  })
+
+  it('should parse stored hashes back into users', async () => {
+    mockRedis.get.mockResolvedValue('user_1')
+    mockRedis.hgetall.mockResolvedValue({
+      id: 'user_1',
+      email: 'alice@example.com',
+      name: 'Alice',
+      password: '$2a$12$hash',
+      isVerified: true,
+      createdAt: '2026-01-01T00:00:00.000Z',
+    })
+    const repository = createRedisUserRepository()
+
+    expect(await repository.findByEmail('alice@example.com')).toEqual({
+      id: 'user_1',
+      email: 'alice@example.com',
+      name: 'Alice',
+      password: '$2a$12$hash',
+      isVerified: true,
+      createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    })
+  })
+})
+
+describe('Memory verification code store', () => {
+  it('should issue, return and delete codes per purpose', async () => {
+    const store = createMemoryVerificationCodeStore()
+    const code = await store.issue('signup', 'Alice@example.com')
+
+    expect(code.otp).toMatch(/^\d{6}$/)
+    expect(await store.get('signup', 'alice@example.com')).toEqual(code)
+    expect(await store.get('password-reset', 'alice@example.com')).toBeNull()
+
+    await store.delete('signup', 'alice@example.com')
+    expect(await store.get('signup', 'alice@example.com')).toBeNull()
+  })
+
+  it('should treat expired codes as missing', async () => {
+    const store = createMemoryVerificationCodeStore()
+    await store.issue('password-reset', 'alice@example.com', -1)
+
+    expect(await store.get('password-reset', 'alice@example.com')).toBeNull()
+  })
+})
+
+describe('User repository selection', () => {
+  const originalStore = process.env.USER_STORE
+
+  afterEach(() => {
+    process.env.USER_STORE = originalStore
+    if (originalStore === undefined) delete process.env.USER_STORE
+    setUserRepository(null)
+  })
+
+  it('should reject unknown stores', () => {
+    process.env.USER_STORE = 'postgres'
+    expect(() => getUserRepository()).toThrow('Unknown user store "postgres"')
+  })
+})
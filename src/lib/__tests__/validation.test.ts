@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
 import {
   SearchSettingsSchema,
   ProductSchema,
@@ -9,7 +9,12 @@ import {
   validateProduct,
   validateSetup,
   validateBuildRequest,
-  validateBuildResponse
+  validateBuildResponse,
+  validateResponse,
+  SwapRequestSchema,
+  SwapResponseSchema,
+  SignUpRequestSchema,
+  getValidationMessage
 } from '../validation'
 
 describe('Validation Schemas', () => {
@@ -242,4 +247,47 @@ describe('Validation Schemas', () => {
       expect(() => validateSearchSettings(invalidSettings)).toThrow()
     })
   })
+
+  describe('Shared request schemas', () => {
+    it('should accept every supported currency in search settings', () => {
+      for (const currency of ['JPY', 'CNY', 'BRL', 'MXN']) {
+        expect(() => validateSearchSettings({ style: 'Casual', budget: 500, currency, amazonOnly: false })).not.toThrow()
+      }
+    })
+
+    it('should reject unsupported currencies in swap requests', () => {
+      const swap = {
+        productId: 'p1',
+        budget: 100,
+        settings: { style: 'Casual', currency: 'SEK', amazonOnly: false }
+      }
+
+      expect(SwapRequestSchema.safeParse(swap).success).toBe(false)
+      expect(SwapRequestSchema.parse({ ...swap, settings: { ...swap.settings, currency: 'EUR' } }).settings.region).toBe('US')
+    })
+
+    it('should report the first failed rule as the error message', () => {
+      const missing = SignUpRequestSchema.safeParse({ email: 'a@example.com', password: 'secret1' })
+      const short = SignUpRequestSchema.safeParse({ name: 'Ann', email: 'a@example.com', password: '123' })
+
+      expect(missing.success || getValidationMessage(missing.error)).toBe('All fields are required')
+      expect(short.success || getValidationMessage(short.error)).toBe('Password must be at least 6 characters')
+    })
+  })
+
+  describe('validateResponse', () => {
+    it('should return the body unchanged when it matches', () => {
+      const body = { alternatives: [], fromCache: true, extra: 'kept' }
+
+      expect(validateResponse(SwapResponseSchema, body)).toBe(body)
+    })
+
+    it('should throw an internal error when the body does not match', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const body = { alternatives: [], fromCache: 'no' as unknown as boolean }
+
+      expect(() => validateResponse(SwapResponseSchema, body)).toThrow('Response failed schema validation')
+    })
+  })
 })
\ No newline at end of file
@@ -0,0 +1,57 @@
+// Affiliate tags for outbound product links, per merchant (see data/affiliate-programs.json)
+import affiliateData from './data/affiliate-programs.json'
+
+export interface AffiliateProgram {
+  merchant: string
+  // Domains the program covers, subdomains included
+  hosts: string[]
+  // Query parameter that carries the tag
+  param: string
+  // Environment variable holding our tag; the program is off while it's unset
+  tagEnv: string
+  // Fixed parameters the program also expects
+  params?: Record<string, string>
+}
+
+export const AFFILIATE_PROGRAMS: AffiliateProgram[] = affiliateData.programs
+
+export interface AffiliateLink {
+  url: string
+  // Merchant of the program whose tag was applied
+  program: string | null
+}
+
+export function findAffiliateProgram(
+  url: string,
+  programs: AffiliateProgram[] = AFFILIATE_PROGRAMS
+): AffiliateProgram | null {
+  let hostname: string
+  try {
+    hostname = new URL(url).hostname.toLowerCase()
+  } catch {
+    return null
+  }
+  return programs.find(program =>
+    program.hosts.some(host => hostname === host || hostname.endsWith(`.${host}`))
+  ) ?? null
+}
+
+/**
+ * Add our tag to a merchant link when its program is configured. Any tag
+ * already on the link is replaced.
+ */
+export function applyAffiliateTag(
+  url: string,
+  options: { programs?: AffiliateProgram[]; env?: Record<string, string | undefined> } = {}
+): AffiliateLink {
+  const program = findAffiliateProgram(url, options.programs)
+  const tag = program && (options.env ?? process.env)[program.tagEnv]?.trim()
+  if (!program || !tag) return { url, program: null }
+
+  const tagged = new URL(url)
+  for (const [name, value] of Object.entries(program.params ?? {})) {
+    tagged.searchParams.set(name, value)
+  }
+  tagged.searchParams.set(program.param, tag)
+  return { url: tagged.toString(), program: program.merchant }
+}
\ No newline at end of file
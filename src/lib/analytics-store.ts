@@ -0,0 +1,158 @@
+import { redis, generateKey, TTL } from '@/lib/redis'
+import { InternalError } from '@/lib/errors'
+import type { AnalyticsEventType, AnalyticsProduct } from '@/types/api'
+
+/**
+ * Something a user did, recorded by the route that handled it
+ */
+export interface AnalyticsEvent {
+  id: string
+  type: AnalyticsEventType
+  // 'anonymous' or 'anonymous:<client id>' for signed-out users (see getRequestUserId)
+  userId: string
+  occurredAt: string
+  query?: string
+  searchId?: string
+  // Products a build or reroll picked, or the product clicked
+  products?: AnalyticsProduct[]
+}
+
+/**
+ * Append-only event log, read back by time range for /api/analytics. Events
+ * older than the retention period are dropped.
+ */
+export interface AnalyticsStore {
+  readonly name: string
+  record(event: AnalyticsEvent): Promise<void>
+  // Events that occurred between `since` and `until`, oldest first
+  list(since: Date, until: Date): Promise<AnalyticsEvent[]>
+}
+
+export interface AnalyticsStoreOptions {
+  // Memory store only; Redis days expire after TTL.ANALYTICS_EVENTS
+  retentionDays?: number
+  // Per day; the oldest are dropped first
+  maxEventsPerDay?: number
+}
+
+export const ANALYTICS_RETENTION_DAYS = 90
+export const MAX_ANALYTICS_EVENTS_PER_DAY = 50_000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// UTC day an event is filed under
+const dayOf = (date: Date) => date.toISOString().slice(0, 10)
+
+function inRange(event: AnalyticsEvent, since: Date, until: Date): boolean {
+  const time = Date.parse(event.occurredAt)
+  return time >= since.getTime() && time <= until.getTime()
+}
+
+/**
+ * In-process store, used for tests and local development without Redis
+ */
+export function createMemoryAnalyticsStore(options: AnalyticsStoreOptions = {}): AnalyticsStore {
+  const retentionMs = (options.retentionDays ?? ANALYTICS_RETENTION_DAYS) * DAY_MS
+  const maxEventsPerDay = options.maxEventsPerDay ?? MAX_ANALYTICS_EVENTS_PER_DAY
+  const days = new Map<string, AnalyticsEvent[]>()
+
+  return {
+    name: 'memory',
+
+    async record(event) {
+      const day = dayOf(new Date(event.occurredAt))
+      days.set(day, [...(days.get(day) ?? []), structuredClone(event)].slice(-maxEventsPerDay))
+
+      const oldestKept = dayOf(new Date(Date.now() - retentionMs))
+      for (const key of days.keys()) {
+        if (key < oldestKept) days.delete(key)
+      }
+    },
+
+    async list(since, until) {
+      return Array.from(days.values())
+        .flat()
+        .filter(event => inRange(event, since, until))
+        .sort((a, b) => Date.parse(a.occurredAt) - Date.parse(b.occurredAt))
+        .map(event => structuredClone(event))
+    }
+  }
+}
+
+function parseStored<T>(value: unknown): T | null {
+  if (!value) return null
+  // Upstash deserializes JSON automatically; plain strings come from older clients
+  return (typeof value === 'string' ? JSON.parse(value) : value) as T
+}
+
+/**
+ * Redis-backed store: a capped list of events per UTC day, expiring after
+ * TTL.ANALYTICS_EVENTS
+ */
+export function createRedisAnalyticsStore(options: AnalyticsStoreOptions = {}): AnalyticsStore {
+  const maxEventsPerDay = options.maxEventsPerDay ?? MAX_ANALYTICS_EVENTS_PER_DAY
+  const dayKey = (day: string) => generateKey('ANALYTICS_EVENTS', day)
+
+  return {
+    name: 'redis',
+
+    async record(event) {
+      const key = dayKey(dayOf(new Date(event.occurredAt)))
+      await redis.rpush(key, JSON.stringify(event))
+      await redis.ltrim(key, -maxEventsPerDay, -1)
+      await redis.expire(key, TTL.ANALYTICS_EVENTS)
+    },
+
+    async list(since, until) {
+      const days: string[] = []
+      for (let time = since.getTime(); dayOf(new Date(time)) <= dayOf(until); time += DAY_MS) {
+        days.push(dayOf(new Date(time)))
+      }
+
+      const lists = await Promise.all(days.map(day => redis.lrange<unknown>(dayKey(day), 0, -1)))
+      return lists
+        .flat()
+        .flatMap(value => {
+          const event = parseStored<AnalyticsEvent>(value)
+          return event && inRange(event, since, until) ? [event] : []
+        })
+        .sort((a, b) => Date.parse(a.occurredAt) - Date.parse(b.occurredAt))
+    }
+  }
+}
+
+let activeStore: AnalyticsStore | null = null
+
+/**
+ * Name of the configured backend: ANALYTICS_STORE, else redis when Upstash
+ * credentials are present, else memory
+ */
+export function getAnalyticsStoreName(): string {
+  const configured = process.env.ANALYTICS_STORE?.trim().toLowerCase()
+  if (configured) return configured
+  return process.env.UPSTASH_REDIS_REST_URL ? 'redis' : 'memory'
+}
+
+export function getAnalyticsStore(): AnalyticsStore {
+  if (!activeStore) {
+    const name = getAnalyticsStoreName()
+    if (name === 'redis') {
+      activeStore = createRedisAnalyticsStore()
+    } else if (name === 'memory') {
+      activeStore = createMemoryAnalyticsStore()
+    } else {
+      throw new InternalError(
+        `Unknown analytics store "${name}". Available: redis, memory`,
+        'UNKNOWN_ANALYTICS_STORE'
+      )
+    }
+  }
+  return activeStore
+}
+
+/**
+ * Replace the active store (e.g. with a fresh memory store in tests); pass null to reset
+ */
+export function setAnalyticsStore(store: AnalyticsStore | null): void {
+  activeStore = store
+}
\ No newline at end of file
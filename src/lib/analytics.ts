@@ -0,0 +1,189 @@
+// Event-based analytics: routes record what users do, /api/analytics aggregates it
+import { AnalyticsEvent, getAnalyticsStore } from '@/lib/analytics-store'
+import type { Product } from '@/types'
+import type { AnalyticsEventType, AnalyticsProduct, AnalyticsResponse } from '@/types/api'
+
+export type AnalyticsTimeRange = '24h' | '7d' | '30d' | '90d'
+
+export type AnalyticsEventData = Pick<AnalyticsEvent, 'query' | 'searchId' | 'products'>
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+const RANGE_MS: Record<AnalyticsTimeRange, number> = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  '90d': 90 * DAY_MS
+}
+
+const TOP_SEARCH_TERMS = 10
+const POPULAR_PRODUCTS = 50
+
+// Both are a user looking for something; a reroll runs a fresh build too
+const SEARCH_EVENTS: AnalyticsEventType[] = ['search', 'build']
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+export function toAnalyticsProduct(product: Product): AnalyticsProduct {
+  return {
+    id: product.id,
+    title: product.title,
+    price: product.price,
+    category: product.category ?? null,
+    merchant: product.merchant,
+    rating: product.custom ? null : product.rating
+  }
+}
+
+/**
+ * Record an event. Analytics never fails the request it describes, so store
+ * errors are logged and swallowed.
+ */
+export async function trackEvent(
+  type: AnalyticsEventType,
+  userId: string,
+  data: AnalyticsEventData = {}
+): Promise<void> {
+  try {
+    await getAnalyticsStore().record({
+      id: `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      userId,
+      occurredAt: new Date().toISOString(),
+      ...(data.query && { query: data.query }),
+      ...(data.searchId && { searchId: data.searchId }),
+      ...(data.products?.length && { products: data.products })
+    })
+  } catch (error) {
+    console.warn(`Failed to record ${type} analytics event:`, error)
+  }
+}
+
+// Trend buckets: hourly for a day, monthly for 90 days, else daily (UTC)
+function bucketOf(occurredAt: string, timeRange: AnalyticsTimeRange): string {
+  const iso = new Date(occurredAt).toISOString()
+  if (timeRange === '24h') return `${iso.slice(0, 10)} ${iso.slice(11, 13)}:00`
+  if (timeRange === '90d') return iso.slice(0, 7)
+  return iso.slice(0, 10)
+}
+
+function groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const key = keyOf(item)
+    groups.set(key, [...(groups.get(key) ?? []), item])
+  }
+  return groups
+}
+
+const countUsers = (events: AnalyticsEvent[]) => new Set(events.map(event => event.userId)).size
+
+function getSearchTrends(searches: AnalyticsEvent[], timeRange: AnalyticsTimeRange): AnalyticsResponse['searchTrends'] {
+  return Array.from(groupBy(searches, event => bucketOf(event.occurredAt, timeRange)), ([date, events]) => ({
+    date,
+    searches: events.length,
+    uniqueUsers: countUsers(events)
+  })).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+function getUserActivity(searches: AnalyticsEvent[]): AnalyticsResponse['userActivity'] {
+  return Array.from(groupBy(searches, event => event.occurredAt.slice(0, 10)), ([date, events]) => ({
+    date,
+    uniqueUsers: countUsers(events),
+    totalSearches: events.length
+  })).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+function getTopSearchTerms(searches: AnalyticsEvent[]): AnalyticsResponse['topSearchTerms'] {
+  const withQuery = searches.filter(event => event.query?.trim())
+  return Array.from(groupBy(withQuery, event => event.query!.trim().toLowerCase()), ([query, events]) => ({
+    query,
+    count: events.length
+  }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_SEARCH_TERMS)
+}
+
+/**
+ * Products most often picked by builds and rerolls; `views` counts the setups
+ * each was shown in
+ */
+function getPopularProducts(events: AnalyticsEvent[]): AnalyticsResponse['popularProducts'] {
+  const picks = events
+    .filter(event => event.type === 'build' || event.type === 'reroll')
+    .flatMap(event => event.products ?? [])
+
+  return Array.from(groupBy(picks, product => product.title), ([name, products]) => {
+    const prices = products.flatMap(product => (product.price === null ? [] : [product.price]))
+    return {
+      name,
+      views: products.length,
+      avgPrice: prices.length > 0 ? round(prices.reduce((sum, price) => sum + price, 0) / prices.length) : null,
+      category: products.find(product => product.category)?.category ?? null,
+      merchant: products[0].merchant || 'Unknown',
+      rating: products.find(product => product.rating !== null)?.rating ?? 0
+    }
+  })
+    .sort((a, b) => b.views - a.views)
+    .slice(0, POPULAR_PRODUCTS)
+}
+
+/**
+ * Searches, then how many of them led to a product click, a save and a share.
+ * Clicks count once per search they came from.
+ */
+function getConversionFunnel(
+  searchCount: number,
+  byType: (type: AnalyticsEventType) => AnalyticsEvent[]
+): AnalyticsResponse['conversionFunnel'] {
+  const clickedSearches = new Set(byType('product_click').map(event => event.searchId ?? event.id)).size
+  const stages: Array<[string, number]> = [
+    ['Searches', searchCount],
+    ['Products Clicked', clickedSearches],
+    ['Searches Saved', byType('save').length],
+    ['Setups Shared', byType('share').length]
+  ]
+
+  return stages.map(([stage, count]) => ({
+    stage,
+    count,
+    percentage: searchCount > 0 ? Math.min(100, Math.round((count / searchCount) * 100)) : 0
+  }))
+}
+
+/**
+ * Aggregate the events of the last `timeRange` into the analytics dashboard.
+ * Each signed-out browser counts as one user by its client cookie
+ * (`anonymous:<client id>`); requests without one count together as one.
+ */
+export async function getAnalytics(
+  timeRange: AnalyticsTimeRange,
+  options: { now?: Date } = {}
+): Promise<AnalyticsResponse> {
+  const now = options.now ?? new Date()
+  const since = new Date(now.getTime() - RANGE_MS[timeRange])
+  const events = await getAnalyticsStore().list(since, now)
+
+  const byType = (type: AnalyticsEventType) => events.filter(event => event.type === type)
+  const searches = events.filter(event => SEARCH_EVENTS.includes(event.type))
+  const saves = byType('save').length
+  const activeSince = now.getTime() - DAY_MS
+
+  return {
+    metrics: {
+      totalSearches: searches.length,
+      uniqueUsers: countUsers(events),
+      avgSearchesPerUser: round(searches.length / Math.max(countUsers(searches), 1)),
+      conversionRate: searches.length > 0 ? round((saves / searches.length) * 100) : 0,
+      totalSavedSearches: saves,
+      activeUsers: countUsers(events.filter(event => Date.parse(event.occurredAt) >= activeSince))
+    },
+    searchTrends: getSearchTrends(searches, timeRange),
+    popularProducts: getPopularProducts(events),
+    userActivity: getUserActivity(searches),
+    conversionFunnel: getConversionFunnel(searches.length, byType),
+    topSearchTerms: getTopSearchTerms(searches),
+    timeRange
+  }
+}
\ No newline at end of file
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { FixtureSearchProvider, createFixtureSearchProvider } from '../fixture-search'
+import { createSearchProvider, registerSearchProvider, isSearchProviderConfigError } from '../search-provider'
+import { SerpAPIClient } from '../serpapi'
+import { SearchRequest } from '@/types/api'
+import { InternalError } from '@/lib/errors'
+
+const fixtures = {
+  products: [
+    {
+      id: 'chair-1',
+      title: 'Ergonomic Mesh Office Chair',
+      url: 'https://www.amazon.com/chair-1',
+      price: 200,
+      currency: 'USD',
+      merchant: 'Amazon',
+      rating: 4.6,
+      category: 'chair',
+      tags: ['office chair', 'seat']
+    },
+    {
+      id: 'chair-2',
+      title: 'Gaming Chair with Lumbar Pillow',
+      url: 'https://www.bestbuy.com/chair-2',
+      price: 300,
+      currency: 'USD',
+      merchant: 'Best Buy',
+      rating: 4.8,
+      category: 'chair',
+      tags: ['gaming chair']
+    },
+    {
+      id: 'desk-1',
+      title: 'Standing Desk 55 Inch',
+      url: 'https://www.amazon.com/desk-1',
+      price: 400,
+      currency: 'USD',
+      merchant: 'Amazon',
+      rating: 4.5,
+      category: 'desk'
+    }
+  ]
+}
+
+const request = (overrides: Partial<SearchRequest> = {}): SearchRequest => ({
+  query: 'chair',
+  currency: 'USD',
+  amazonOnly: false,
+  limit: 10,
+  ...overrides
+})
+
+describe('FixtureSearchProvider', () => {
+  const provider = new FixtureSearchProvider(fixtures)
+
+  it('should match products by category, title and tags', async () => {
+    const result = await provider.searchProducts(request({ query: 'Premium Ergonomic Office Chairs' }))
+
+    expect(result.products.map(p => p.id)).toEqual(['chair-1', 'chair-2'])
+    expect(result.totalResults).toBe(2)
+    expect(result.products[0]).not.toHaveProperty('tags')
+  })
+
+  it('should return no products when nothing matches', async () => {
+    const result = await provider.searchProducts(request({ query: 'espresso machine' }))
+
+    expect(result.products).toHaveLength(0)
+    expect(result.searchMetadata.query).toBe('espresso machine')
+  })
+
+  it('should only return Amazon listings when amazonOnly is set', async () => {
+    const result = await provider.searchProducts(request({ amazonOnly: true }))
+
+    expect(result.products.map(p => p.id)).toEqual(['chair-1'])
+  })
+
+  it('should respect the limit', async () => {
+    const result = await provider.searchProducts(request({ limit: 1 }))
+
+    expect(result.products).toHaveLength(1)
+    expect(result.totalResults).toBe(2)
+  })
+
+  it('should convert prices to the requested currency', async () => {
+    const result = await provider.searchProducts(request({ query: 'desk', currency: 'GBP' }))
+
+    expect(result.products[0].currency).toBe('GBP')
+    expect(result.products[0].price).toBeLessThan(400)
+    expect(result.products[0].shipRegion).toBe('UK')
+  })
+
+  it('should reject fixture files without a products array', () => {
+    expect(() => new FixtureSearchProvider({} as any)).toThrow(InternalError)
+  })
+
+  it('should load the bundled catalogue by default', async () => {
+    const bundled = createFixtureSearchProvider()
+    const result = await bundled.searchProducts(request({ query: 'gaming monitor' }))
+
+    expect(result.products.length).toBeGreaterThan(0)
+  })
+})
+
+describe('createSearchProvider', () => {
+  const originalEnv = { ...process.env }
+
+  beforeEach(() => {
+    delete process.env.SEARCH_PROVIDER
+    delete process.env.SERPAPI_KEY
+  })
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  it('should default to SerpAPI', () => {
+    process.env.SERPAPI_KEY = 'test-key'
+
+    expect(createSearchProvider()).toBeInstanceOf(SerpAPIClient)
+  })
+
+  it('should flag a missing SerpAPI key as a configuration error', () => {
+    let caught: unknown
+    try {
+      createSearchProvider()
+    } catch (error) {
+      caught = error
+    }
+
+    expect(isSearchProviderConfigError(caught)).toBe(true)
+  })
+
+  it('should use the fixture provider when SEARCH_PROVIDER=fixture', () => {
+    process.env.SEARCH_PROVIDER = 'Fixture'
+
+    expect(createSearchProvider().name).toBe('fixture')
+  })
+
+  it('should throw for unknown providers', () => {
+    process.env.SEARCH_PROVIDER = 'nope'
+
+    expect(() => createSearchProvider()).toThrow(InternalError)
+  })
+
+  it('should allow registering custom providers', () => {
+    const custom = new FixtureSearchProvider({ products: [] })
+    registerSearchProvider('custom', () => custom)
+    process.env.SEARCH_PROVIDER = 'custom'
+
+    expect(createSearchProvider()).toBe(custom)
+  })
+})
@@ -0,0 +1,288 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  createLLMProvider,
+  getLLMProviderName,
+  isLLMProviderConfigError,
+  parseJSONResponse,
+  registerLLMProvider
+} from '../llm-provider'
+import { ScriptedLLMProvider } from '../scripted-llm'
+import { OpenAICompatibleLLMProvider } from '../openai-compatible-provider'
+import { GeminiAIClient } from '../gemini'
+import { ExternalAPIError, InternalError, RateLimitError } from '@/lib/errors'
+
+vi.mock('@google/generative-ai', () => ({
+  GoogleGenerativeAI: vi.fn(() => ({
+    getGenerativeModel: vi.fn(() => ({ generateContent: vi.fn() }))
+  }))
+}))
+
+describe('ScriptedLLMProvider', () => {
+  it('should answer from the script in order and record calls', async () => {
+    const provider = new ScriptedLLMProvider([{ text: 'first' }, { text: 'second' }])
+
+    expect(await provider.generateText('a')).toBe('first')
+    expect(await provider.generateText('b')).toBe('second')
+    expect(provider.calls.map(call => call.prompt)).toEqual(['a', 'b'])
+    expect(provider.remainingSteps).toBe(0)
+  })
+
+  it('should pick the first step matching the prompt', async () => {
+    const provider = new ScriptedLLMProvider([
+      { match: 'rank', text: 'ranked' },
+      { match: /plan/i, json: { categories: [] } }
+    ])
+
+    expect(await provider.generateJSON('Plan this setup')).toEqual({ categories: [] })
+    expect(await provider.generateText('rank these')).toBe('ranked')
+  })
+
+  it('should parse text steps for JSON calls', async () => {
+    const provider = new ScriptedLLMProvider([{ text: '```json\n{"ok": true}\n```' }])
+
+    expect(await provider.generateJSON('anything')).toEqual({ ok: true })
+  })
+
+  it('should keep repeating steps', async () => {
+    const provider = new ScriptedLLMProvider([{ text: 'again', repeat: true }])
+
+    await provider.generateText('one')
+    await provider.generateText('two')
+
+    expect(provider.remainingSteps).toBe(1)
+  })
+
+  it('should replay scripted errors', async () => {
+    const provider = new ScriptedLLMProvider([
+      { error: { message: 'quota', rateLimit: true } },
+      { error: { message: 'boom', code: 'GEMINI_500', retryable: true } }
+    ])
+
+    await expect(provider.generateText('x')).rejects.toThrow(RateLimitError)
+    await expect(provider.generateText('y')).rejects.toMatchObject({ code: 'GEMINI_500', retryable: true })
+  })
+
+  it('should throw once the script is exhausted', async () => {
+    const provider = new ScriptedLLMProvider([])
+
+    await expect(provider.generateText('x')).rejects.toMatchObject({ code: 'LLM_SCRIPT_EXHAUSTED' })
+  })
+
+  it('should not answer image calls with text-only steps', async () => {
+    const provider = new ScriptedLLMProvider([
+      { kind: 'text', text: 'nope' },
+      { kind: 'image', imageUrl: 'https://example.com/scene.png' }
+    ])
+
+    const result = await provider.generateImage('scene')
+
+    expect(result.imageUrl).toBe('https://example.com/scene.png')
+  })
+})
+
+describe('GeminiAIClient with a scripted provider', () => {
+  it('should plan from a recorded response', async () => {
+    const provider = new ScriptedLLMProvider([{
+      match: 'office setup',
+      text: JSON.stringify({
+        approach: 'setup',
+        categories: [
+          { category: 'Desk', priority: 1, budgetAllocation: 600, searchTerms: ['desk'], requirements: [] },
+          { category: 'Chair', priority: 2, budgetAllocation: 400, searchTerms: ['chair'], requirements: [] }
+        ]
+      })
+    }])
+    const client = new GeminiAIClient(provider)
+
+    const plan = await client.generatePlan({ query: 'office setup', budget: 1000, style: 'Premium', region: 'US' } as any)
+
+    expect(plan.categories.map(c => c.category)).toEqual(['Desk', 'Chair'])
+    expect(provider.calls).toHaveLength(1)
+  })
+
+  it('should fall back to heuristics when the provider fails', async () => {
+    const provider = new ScriptedLLMProvider([{ error: { message: 'offline' } }])
+    const client = new GeminiAIClient(provider)
+
+    const tips = await client.generateGhostTips('gaming setup', [])
+
+    expect(tips.length).toBeGreaterThan(0)
+  })
+
+  it('should send room photos as images and normalise the analysis', async () => {
+    const provider = new ScriptedLLMProvider([{
+      kind: 'json',
+      json: {
+        roomType: 'home office',
+        existingFurniture: ['white desk', 42, ''],
+        colorPalette: ['white', 'light oak'],
+        dimensions: '',
+        summary: 'A bright home office.'
+      }
+    }])
+    const client = new GeminiAIClient(provider)
+    const images = [{ data: 'aGVsbG8=', mimeType: 'image/jpeg' }]
+
+    const room = await client.analyzeRoomImages(images, 'make it cosier')
+
+    expect(room).toEqual({
+      roomType: 'home office',
+      existingFurniture: ['white desk'],
+      colorPalette: ['white', 'light oak'],
+      dimensions: null,
+      summary: 'A bright home office.'
+    })
+    expect(provider.calls[0].options).toMatchObject({ images })
+    expect(provider.calls[0].prompt).toContain('make it cosier')
+  })
+
+  it('should plan around the analysed room', async () => {
+    const provider = new ScriptedLLMProvider([{ text: JSON.stringify({ approach: 'setup', categories: [] }) }])
+    const client = new GeminiAIClient(provider)
+
+    await client.generatePlan({
+      query: 'desk setup',
+      budget: 800,
+      style: 'Casual',
+      currency: 'USD',
+      room: {
+        roomType: 'bedroom',
+        existingFurniture: ['oak desk'],
+        colorPalette: ['sage green'],
+        dimensions: 'narrow wall, about 2m',
+        summary: ''
+      }
+    })
+
+    const prompt = provider.calls[0].prompt
+    expect(prompt).toContain('They already own: oak desk')
+    expect(prompt).toContain('sage green')
+    expect(prompt).toContain('narrow wall, about 2m')
+  })
+})
+
+describe('OpenAICompatibleLLMProvider', () => {
+  const mockFetch = vi.fn()
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', mockFetch)
+    mockFetch.mockReset()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const provider = () => new OpenAICompatibleLLMProvider({
+    baseURL: 'http://localhost:8000/v1/',
+    model: 'llama-3.1-8b',
+    apiKey: 'local-key'
+  })
+
+  it('should call the chat completions endpoint', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: '{"items": [1, 2]}' } }] })
+    })
+
+    const result = await provider().generateJSON('list items')
+
+    expect(result).toEqual({ items: [1, 2] })
+    const [url, init] = mockFetch.mock.calls[0]
+    expect(url).toBe('http://localhost:8000/v1/chat/completions')
+    expect(init.headers.Authorization).toBe('Bearer local-key')
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'llama-3.1-8b',
+      response_format: { type: 'json_object' }
+    })
+  })
+
+  it('should send images as content parts', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: 'a desk' } }] })
+    })
+
+    await provider().generateText('describe', { images: [{ data: 'aGVsbG8=', mimeType: 'image/png' }] })
+
+    const body = JSON.parse(mockFetch.mock.calls[0][1].body)
+    expect(body.messages[0].content).toEqual([
+      { type: 'text', text: 'describe' },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,aGVsbG8=' } }
+    ])
+  })
+
+  it('should map 429 responses to RateLimitError', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 429, statusText: 'Too Many Requests' })
+
+    await expect(provider().generateText('hi')).rejects.toThrow(RateLimitError)
+  })
+
+  it('should require an image model for image generation', async () => {
+    await expect(provider().generateImage('scene')).rejects.toMatchObject({ code: 'MISSING_LLM_CONFIG' })
+  })
+})
+
+describe('createLLMProvider', () => {
+  const originalEnv = { ...process.env }
+
+  beforeEach(() => {
+    delete process.env.LLM_PROVIDER
+    delete process.env.LLM_IMAGE_PROVIDER
+    delete process.env.LLM_BASE_URL
+    delete process.env.LLM_MODEL
+    process.env.GEMINI_API_KEY = 'test-key'
+  })
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  it('should default to Gemini', () => {
+    expect(getLLMProviderName()).toBe('gemini')
+    expect(createLLMProvider().name).toBe('gemini')
+  })
+
+  it('should use LLM_IMAGE_PROVIDER for images only', () => {
+    process.env.LLM_PROVIDER = 'openai-compatible'
+    process.env.LLM_IMAGE_PROVIDER = 'gemini'
+
+    expect(getLLMProviderName('text')).toBe('openai-compatible')
+    expect(getLLMProviderName('image')).toBe('gemini')
+  })
+
+  it('should report missing self-hosted settings as a configuration error', () => {
+    process.env.LLM_PROVIDER = 'openai-compatible'
+
+    let caught: unknown
+    try {
+      createLLMProvider()
+    } catch (error) {
+      caught = error
+    }
+
+    expect(isLLMProviderConfigError(caught)).toBe(true)
+  })
+
+  it('should throw for unknown providers', () => {
+    expect(() => createLLMProvider('nope')).toThrow(InternalError)
+  })
+
+  it('should allow registering custom providers', () => {
+    const scripted = new ScriptedLLMProvider()
+    registerLLMProvider('replay', () => scripted)
+
+    expect(createLLMProvider('replay')).toBe(scripted)
+  })
+})
+
+describe('parseJSONResponse', () => {
+  it('should parse fenced and embedded JSON', () => {
+    expect(parseJSONResponse('```json\n{"a": 1}\n```')).toEqual({ a: 1 })
+    expect(parseJSONResponse('Here you go: {"a": 2}')).toEqual({ a: 2 })
+  })
+
+  it('should throw a retryable error for invalid JSON', () => {
+    expect(() => parseJSONResponse('no json here')).toThrow(ExternalAPIError)
+  })
+})
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { SerpAPIClient, createSerpAPIClient, searchProducts } from '../serpapi'
 import { SearchRequest } from '@/types/api'
 import { ExternalAPIError, RateLimitError } from '@/lib/errors'
+import { normalizeProductCurrency } from '@/lib/currency'
 
 // Mock fetch globally
 const mockFetch = vi.fn()
@@ -347,6 +348,30 @@ describe('SerpAPIClient', () => {
         reviewCount: 89
       })
     })
+
+    it('should label listings from non-USD regions in the local currency', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          ...mockSerpAPIResponse,
+          shopping_results: [{
+            position: 1,
+            title: 'Office Chair',
+            link: 'https://example.jp/chair',
+            price: '¥15,000',
+            extracted_price: 15000,
+            source: 'Rakuten'
+          }]
+        })
+      })
+
+      const result = await client.searchProducts({ query: 'office chair', currency: 'JPY', amazonOnly: false, limit: 10 })
+
+      expect(mockFetch.mock.calls[0][0]).toContain('gl=jp')
+      expect(result.products[0]).toMatchObject({ price: 15000, currency: 'JPY' })
+      // Already in the build currency, so normalisation leaves the price alone
+      expect(normalizeProductCurrency(result.products[0], 'JPY')).toMatchObject({ price: 15000, currency: 'JPY' })
+    })
   })
 
   describe('merchant extraction', () => {
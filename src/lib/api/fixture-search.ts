@@ -0,0 +1,135 @@
+import { readFileSync } from 'fs'
+import { SearchRequest, SearchResponse, RawProduct } from '@/types/api'
+import { InternalError } from '@/lib/errors'
+import { convertCurrency, getRegionFromCurrency, isSupportedCurrency } from '@/lib/currency'
+import type { ProductSearchProvider } from '@/lib/api/search-provider'
+import defaultFixtures from './fixtures/products.json'
+
+// A fixture entry is a RawProduct plus optional keywords used for matching
+export interface FixtureProduct extends RawProduct {
+  tags?: string[]
+}
+
+export interface ProductFixtureFile {
+  products: FixtureProduct[]
+}
+
+// Words that carry no product meaning and would match everything
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'for', 'with', 'of', 'to', 'in', 'on',
+  'best', 'good', 'great', 'premium', 'budget', 'cheap', 'high', 'end', 'quality', 'new'
+])
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+}
+
+// Naive singularisation so "chairs" matches "chair"
+function stem(token: string): string {
+  return token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token
+}
+
+function isAmazonListing(product: RawProduct): boolean {
+  return (product.merchant || '').toLowerCase().includes('amazon') ||
+    (product.url || '').toLowerCase().includes('amazon.')
+}
+
+/**
+ * Offline product search over a JSON fixture file.
+ *
+ * Products are matched by keyword overlap between the query and each
+ * fixture's title, category and tags, so plan needs like "Premium Ergonomic
+ * Office Chair" resolve to chair fixtures. Prices are stored in the fixture's
+ * own currency and converted to the requested one.
+ */
+export class FixtureSearchProvider implements ProductSearchProvider {
+  readonly name = 'fixture'
+  private readonly products: FixtureProduct[]
+
+  constructor(fixtures: ProductFixtureFile) {
+    if (!fixtures || !Array.isArray(fixtures.products)) {
+      throw new InternalError('Product fixtures must contain a "products" array', 'INVALID_FIXTURES')
+    }
+    this.products = fixtures.products
+  }
+
+  async searchProducts(request: SearchRequest): Promise<SearchResponse> {
+    const startTime = Date.now()
+    // Dedupe so a category repeated in the query isn't counted twice
+    const queryTokens = Array.from(new Set(tokenize(`${request.category || ''} ${request.query}`).map(stem)))
+    const region = getRegionFromCurrency(request.currency)
+
+    const scored = this.products
+      .filter(product => !request.amazonOnly || isAmazonListing(product))
+      .map(product => ({ product, score: this.scoreProduct(product, queryTokens) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || (b.product.rating || 0) - (a.product.rating || 0))
+
+    const products = scored
+      .slice(0, request.limit || 10)
+      .map(({ product }) => this.toRawProduct(product, request.currency, region))
+
+    return {
+      products,
+      totalResults: scored.length,
+      searchMetadata: {
+        totalResults: scored.length,
+        searchTime: Date.now() - startTime,
+        currency: request.currency,
+        query: request.query
+      }
+    }
+  }
+
+  private scoreProduct(product: FixtureProduct, queryTokens: string[]): number {
+    if (queryTokens.length === 0) return 0
+
+    const categoryTokens = new Set(tokenize(product.category || '').map(stem))
+    const keywordTokens = new Set([
+      ...tokenize(product.title),
+      ...(product.tags || []).flatMap(tag => tokenize(tag))
+    ].map(stem))
+
+    // Category hits weigh more than incidental title words
+    return queryTokens.reduce((score, token) => {
+      if (categoryTokens.has(token)) return score + 3
+      if (keywordTokens.has(token)) return score + 1
+      return score
+    }, 0)
+  }
+
+  private toRawProduct(product: FixtureProduct, currency: SearchRequest['currency'], region: string): RawProduct {
+    const { tags, ...raw } = product
+    const fromCurrency = raw.currency && isSupportedCurrency(raw.currency) ? raw.currency : 'USD'
+
+    return {
+      ...raw,
+      price: typeof raw.price === 'number' ? convertCurrency(raw.price, fromCurrency, currency) : undefined,
+      currency,
+      shipRegion: raw.shipRegion || region
+    }
+  }
+}
+
+/**
+ * Load fixtures from SEARCH_FIXTURES_PATH if set, otherwise the bundled catalogue
+ */
+export function loadProductFixtures(path: string | undefined = process.env.SEARCH_FIXTURES_PATH): ProductFixtureFile {
+  if (!path) {
+    return defaultFixtures as ProductFixtureFile
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as ProductFixtureFile
+  } catch (error) {
+    throw new InternalError(`Failed to load product fixtures from ${path}`, 'INVALID_FIXTURES', { error })
+  }
+}
+
+// Factory function to create the fixture search provider
+export function createFixtureSearchProvider(): FixtureSearchProvider {
+  return new FixtureSearchProvider(loadProductFixtures())
+}
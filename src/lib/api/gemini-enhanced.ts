@@ -1,4 +1,3 @@
-import { GoogleGenerativeAI } from '@google/generative-ai'
 import {
     PlanRequest,
     PlanResponse,
@@ -10,20 +9,19 @@ import {
 } from '@/types/api'
 import { Product, BudgetDistribution } from '@/types'
 import { ExternalAPIError, RateLimitError, withRetry, handleFetchError } from '@/lib/errors'
+import { LLMProvider, createLLMProvider } from '@/lib/api/llm-provider'
+import { GeminiLLMProvider } from '@/lib/api/gemini-provider'
+import { getBuiltInTemplate, matchBuiltInTemplate, templateToPlan } from '@/lib/setup-templates'
 
 // Enhanced Gemini AI client with comprehensive planning
 export class EnhancedGeminiAIClient {
-    private readonly client: GoogleGenerativeAI
-    private readonly model: any
+    private readonly llm: LLMProvider
 
-    constructor(apiKey: string) {
-        if (!apiKey) {
-            throw new ExternalAPIError('Gemini API key is required', 'MISSING_API_KEY', false)
-        }
-
-        this.client = new GoogleGenerativeAI(apiKey)
-        const MODEL = process.env.GEMINI_TEXT_MODEL ?? 'gemini-2.0-flash'
-        this.model = this.client.getGenerativeModel({ model: MODEL })
+    // Accepts a Gemini API key or any LLMProvider (self-hosted, scripted…)
+    constructor(apiKeyOrProvider: string | LLMProvider) {
+        this.llm = typeof apiKeyOrProvider === 'string'
+            ? new GeminiLLMProvider(apiKeyOrProvider)
+            : apiKeyOrProvider
     }
 
     /**
@@ -215,40 +213,10 @@ ${isPremium ? '9. Sound System (5-8% budget) - Audio quality\n10. Artwork/Decor
     }
 
     /**
-     * Generate content using Gemini AI with robust error handling
+     * Generate content through the configured LLM provider
      */
     private async generateContent(prompt: string): Promise<string> {
-        try {
-            const res = await this.model.generateContent({
-                contents: [{ role: "user", parts: [{ text: prompt }] }]
-            })
-
-            const text = res.response?.text?.()
-            if (!text) {
-                throw new ExternalAPIError('Empty response from Gemini', 'EMPTY_RESPONSE', true)
-            }
-
-            return text
-        } catch (err: any) {
-            const status = err?.status ?? err?.response?.status ?? err?.cause?.status
-            const code = (err?.code || '').toString().toUpperCase()
-            const msg = (err?.message || '').toLowerCase()
-
-            const is429 = status === 429 ||
-                code === 'RESOURCE_EXHAUSTED' ||
-                /429|rate limit|quota/i.test(msg)
-
-            if (is429) {
-                throw new RateLimitError('Gemini rate limit', 'GEMINI_RATE_LIMIT', { err })
-            }
-
-            const is5xx = (status && status >= 500) || /server error|internal/i.test(msg)
-            if (is5xx) {
-                throw new ExternalAPIError('Gemini server error', `GEMINI_${status || '5XX'}`, true, { err })
-            }
-
-            throw new ExternalAPIError(`Gemini error: ${err?.message ?? 'unknown'}`, 'GEMINI_ERROR', false, { err })
-        }
+        return this.llm.generateText(prompt)
     }
 
     /**
@@ -320,180 +288,17 @@ ${isPremium ? '9. Sound System (5-8% budget) - Audio quality\n10. Artwork/Decor
     }
 
     /**
-     * Comprehensive fallback planning when AI fails
+     * Comprehensive fallback planning when AI fails, from the built-in templates
      */
     private getComprehensiveFallbackPlan(request: PlanRequest): PlanResponse {
         const setupType = this.detectSetupType(request.query)
+        const template = matchBuiltInTemplate(request.query) ??
+            (setupType !== 'single' ? getBuiltInTemplate('gaming') : null)
 
-        if (setupType === 'gaming') {
-            return this.createGamingFallback(request)
-        } else if (setupType === 'office') {
-            return this.createOfficeFallback(request)
-        } else if (setupType === 'bedroom') {
-            return this.createBedroomFallback(request)
-        } else if (setupType === 'kitchen') {
-            return this.createKitchenFallback(request)
-        } else if (setupType === 'living_room') {
-            return this.createLivingRoomFallback(request)
-        } else if (setupType !== 'single') {
-            return this.createGeneralSetupFallback(request)
-        } else {
-            return this.createSingleItemFallback(request)
+        if (template) {
+            return templateToPlan(template, request)
         }
-    }
-
-    /**
-     * Create comprehensive gaming setup fallback
-     */
-    private createGamingFallback(request: PlanRequest): PlanResponse {
-        const isPremium = request.style === 'Premium'
-        const budget = request.budget
-
-        const categories: CategoryPlan[] = [
-            {
-                category: isPremium ? 'High-End Gaming Desktop Computer' : 'Gaming Desktop Computer',
-                priority: 10,
-                budgetAllocation: Math.round(budget * 0.45),
-                searchTerms: isPremium ? ['high end gaming pc', 'gaming desktop computer', 'gaming tower'] : ['gaming pc', 'gaming desktop', 'gaming computer'],
-                requirements: isPremium ? ['RTX 4070+', 'Intel i7/AMD Ryzen 7+', '16GB+ RAM', 'SSD'] : ['GTX 1660+', 'Intel i5/AMD Ryzen 5+', '8GB+ RAM']
-            },
-            {
-                category: isPremium ? '4K Gaming Monitor 144Hz' : 'Gaming Monitor 1440p',
-                priority: 9,
-                budgetAllocation: Math.round(budget * 0.20),
-                searchTerms: isPremium ? ['4k gaming monitor', '144hz 4k monitor', '27 inch 4k'] : ['gaming monitor', '1440p monitor', '144hz monitor'],
-                requirements: isPremium ? ['4K resolution', '144Hz+', '27-32 inch', 'Low latency'] : ['1440p resolution', '144Hz', '24-27 inch']
-            },
-            {
-                category: isPremium ? 'Premium Ergonomic Gaming Chair' : 'Gaming Chair',
-                priority: 8,
-                budgetAllocation: Math.round(budget * 0.15),
-                searchTerms: isPremium ? ['premium gaming chair', 'ergonomic gaming chair', 'high end gaming chair'] : ['gaming chair', 'office gaming chair'],
-                requirements: isPremium ? ['Premium materials', 'Full adjustability', 'Lumbar support'] : ['Comfortable', 'Adjustable height', 'Good support']
-            },
-            {
-                category: isPremium ? 'Large Gaming Desk with Cable Management' : 'Gaming Desk',
-                priority: 7,
-                budgetAllocation: Math.round(budget * 0.08),
-                searchTerms: isPremium ? ['large gaming desk', 'gaming desk cable management'] : ['gaming desk', 'computer desk'],
-                requirements: isPremium ? ['Large surface', 'Cable management', 'Sturdy build'] : ['Good size', 'Sturdy', 'Cable management']
-            },
-            {
-                category: isPremium ? 'Mechanical Gaming Keyboard RGB' : 'Mechanical Gaming Keyboard',
-                priority: 6,
-                budgetAllocation: Math.round(budget * 0.04),
-                searchTerms: isPremium ? ['mechanical gaming keyboard rgb', 'premium gaming keyboard'] : ['mechanical gaming keyboard', 'gaming keyboard'],
-                requirements: isPremium ? ['Mechanical switches', 'RGB lighting', 'Premium build'] : ['Mechanical switches', 'Gaming features']
-            },
-            {
-                category: isPremium ? 'High-DPI Gaming Mouse' : 'Gaming Mouse',
-                priority: 5,
-                budgetAllocation: Math.round(budget * 0.03),
-                searchTerms: isPremium ? ['high dpi gaming mouse', 'professional gaming mouse'] : ['gaming mouse', 'optical gaming mouse'],
-                requirements: isPremium ? ['High DPI', 'Premium sensor', 'Ergonomic'] : ['Good DPI', 'Comfortable grip']
-            },
-            {
-                category: isPremium ? 'Premium Gaming Headset' : 'Gaming Headset',
-                priority: 4,
-                budgetAllocation: Math.round(budget * 0.03),
-                searchTerms: isPremium ? ['premium gaming headset', 'high end gaming headset'] : ['gaming headset', 'gaming headphones'],
-                requirements: isPremium ? ['Premium audio', 'Noise cancelling', 'Comfortable'] : ['Good audio', 'Microphone', 'Comfortable']
-            },
-            {
-                category: 'Large Gaming Mousepad',
-                priority: 3,
-                budgetAllocation: Math.round(budget * 0.02),
-                searchTerms: ['large gaming mousepad', 'extended mousepad', 'gaming mouse mat'],
-                requirements: ['Large size', 'Smooth surface', 'Non-slip base']
-            }
-        ]
-
-        return this.buildPlanResponse(categories, request)
-    }
-
-    /**
-     * Create comprehensive office setup fallback
-     */
-    private createOfficeFallback(request: PlanRequest): PlanResponse {
-        const isPremium = request.style === 'Premium'
-        const budget = request.budget
-
-        const categories: CategoryPlan[] = [
-            {
-                category: isPremium ? 'Premium Business Laptop' : 'Business Laptop',
-                priority: 10,
-                budgetAllocation: Math.round(budget * 0.40),
-                searchTerms: isPremium ? ['premium business laptop', 'professional laptop'] : ['business laptop', 'work laptop'],
-                requirements: isPremium ? ['Intel i7+', '16GB+ RAM', 'SSD', 'Long battery'] : ['Intel i5+', '8GB+ RAM', 'SSD']
-            },
-            {
-                category: isPremium ? 'Premium Ergonomic Office Chair' : 'Ergonomic Office Chair',
-                priority: 9,
-                budgetAllocation: Math.round(budget * 0.25),
-                searchTerms: isPremium ? ['premium office chair', 'executive chair'] : ['ergonomic office chair', 'office chair'],
-                requirements: isPremium ? ['Premium materials', 'Full adjustability', 'Lumbar support'] : ['Lumbar support', 'Adjustable', 'Comfortable']
-            },
-            {
-                category: isPremium ? 'Standing Desk Adjustable' : 'Office Desk',
-                priority: 8,
-                budgetAllocation: Math.round(budget * 0.15),
-                searchTerms: isPremium ? ['standing desk', 'adjustable height desk'] : ['office desk', 'computer desk'],
-                requirements: isPremium ? ['Height adjustable', 'Large surface', 'Sturdy'] : ['Good size', 'Sturdy', 'Storage']
-            },
-            {
-                category: isPremium ? '4K Professional Monitor' : 'Office Monitor',
-                priority: 7,
-                budgetAllocation: Math.round(budget * 0.12),
-                searchTerms: isPremium ? ['4k monitor', 'professional monitor'] : ['office monitor', '1440p monitor'],
-                requirements: isPremium ? ['4K resolution', '27+ inch', 'Color accurate'] : ['1080p+', '24+ inch', 'Good colors']
-            },
-            {
-                category: 'Wireless Keyboard and Mouse Combo',
-                priority: 6,
-                budgetAllocation: Math.round(budget * 0.04),
-                searchTerms: ['wireless keyboard mouse combo', 'office keyboard mouse'],
-                requirements: ['Wireless', 'Comfortable', 'Long battery']
-            },
-            {
-                category: 'Desk Lamp LED',
-                priority: 5,
-                budgetAllocation: Math.round(budget * 0.02),
-                searchTerms: ['led desk lamp', 'office desk lamp', 'adjustable desk lamp'],
-                requirements: ['Adjustable', 'LED', 'Eye-friendly']
-            },
-            {
-                category: 'Office Storage Solutions',
-                priority: 4,
-                budgetAllocation: Math.round(budget * 0.02),
-                searchTerms: ['office storage', 'desk organizer', 'filing cabinet'],
-                requirements: ['Organization', 'Space-saving', 'Durable']
-            }
-        ]
-
-        return this.buildPlanResponse(categories, request)
-    }
-
-    /**
-     * Create other setup fallbacks (bedroom, kitchen, living room)
-     */
-    private createBedroomFallback(request: PlanRequest): PlanResponse {
-        // Implementation for bedroom - comprehensive list
-        return this.createGamingFallback(request) // Temporary fallback
-    }
-
-    private createKitchenFallback(request: PlanRequest): PlanResponse {
-        // Implementation for kitchen - comprehensive list
-        return this.createGamingFallback(request) // Temporary fallback
-    }
-
-    private createLivingRoomFallback(request: PlanRequest): PlanResponse {
-        // Implementation for living room - comprehensive list
-        return this.createGamingFallback(request) // Temporary fallback
-    }
-
-    private createGeneralSetupFallback(request: PlanRequest): PlanResponse {
-        // Implementation for general setup
-        return this.createGamingFallback(request) // Temporary fallback
+        return this.createSingleItemFallback(request)
     }
 
     private createSingleItemFallback(request: PlanRequest): PlanResponse {
@@ -537,13 +342,9 @@ ${isPremium ? '9. Sound System (5-8% budget) - Audio quality\n10. Artwork/Decor
     }
 }
 
-// Factory function to create enhanced Gemini AI client
+// Factory function to create the enhanced planning client on the configured LLM provider
 export function createEnhancedGeminiAIClient(): EnhancedGeminiAIClient {
-    const apiKey = process.env.GEMINI_API_KEY
-    if (!apiKey) {
-        throw new ExternalAPIError('GEMINI_API_KEY environment variable is not set', 'MISSING_API_KEY', false)
-    }
-    return new EnhancedGeminiAIClient(apiKey)
+    return new EnhancedGeminiAIClient(createLLMProvider())
 }
 
 // Enhanced convenience function
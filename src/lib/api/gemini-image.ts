@@ -1,7 +1,9 @@
-import { GoogleGenerativeAI } from '@google/generative-ai'
 import { SceneRequest, SceneResponse } from '@/types/api'
 import { Product } from '@/types'
 import { ExternalAPIError, RateLimitError, withRetry, handleFetchError } from '@/lib/errors'
+import { LLMProvider, LLMUsage, createLLMProvider, getLLMProviderName } from '@/lib/api/llm-provider'
+import { GeminiLLMProvider } from '@/lib/api/gemini-provider'
+import { recordUpstreamCall } from '@/lib/upstream-usage'
 
 // Scene style configurations
 const SCENE_STYLES = {
@@ -35,17 +37,13 @@ type SceneStyle = keyof typeof SCENE_STYLES
 
 // Gemini Image API client for scene generation
 export class GeminiImageClient {
-  private readonly client: GoogleGenerativeAI
-  private readonly model: any
+  private readonly llm: LLMProvider
 
-  constructor(apiKey: string) {
-    if (!apiKey) {
-      throw new ExternalAPIError('Gemini API key is required', 'MISSING_API_KEY', false)
-    }
-    
-    this.client = new GoogleGenerativeAI(apiKey)
-    // Use Gemini 2.0 Flash for image generation
-    this.model = this.client.getGenerativeModel({ model: 'gemini-2.0-flash-exp' })
+  // Accepts a Gemini API key or any LLMProvider that can generate images
+  constructor(apiKeyOrProvider: string | LLMProvider) {
+    this.llm = typeof apiKeyOrProvider === 'string'
+      ? new GeminiLLMProvider(apiKeyOrProvider)
+      : apiKeyOrProvider
   }
 
   /**
@@ -74,19 +72,10 @@ export class GeminiImageClient {
    */
   async generateSceneVariations(request: SceneRequest, count: number = 3): Promise<SceneResponse[]> {
     const variations: SceneResponse[] = []
-    const basePrompt = this.buildScenePrompt(request)
     
     for (let i = 0; i < count; i++) {
       try {
-        // Add variation to the prompt
-        const variationPrompt = this.addVariationToPrompt(basePrompt, i + 1)
-        const result = await withRetry(() => this.generateImage(variationPrompt))
-        
-        variations.push({
-          imageUrl: result.imageUrl,
-          prompt: variationPrompt,
-          style: request.style
-        })
+        variations.push(await this.generateSceneVariation(request, i + 1))
         
         // Add delay between requests to avoid rate limiting
         if (i < count - 1) {
@@ -105,6 +94,21 @@ export class GeminiImageClient {
     return variations
   }
 
+  /**
+   * Generate one numbered variation (1-based) of a scene
+   */
+  async generateSceneVariation(request: SceneRequest, variationNumber: number): Promise<SceneResponse> {
+    // Add variation to the prompt
+    const variationPrompt = this.addVariationToPrompt(this.buildScenePrompt(request), variationNumber)
+    const result = await withRetry(() => this.generateImage(variationPrompt))
+
+    return {
+      imageUrl: result.imageUrl,
+      prompt: variationPrompt,
+      style: request.style
+    }
+  }
+
   /**
    * Build scene generation prompt
    */
@@ -164,48 +168,18 @@ The scene should look like it could be featured in a premium interior design mag
   }
 
   /**
-   * Generate image using Gemini API
+   * Generate image through the configured LLM provider, recording the call
+   * under the provider's image service (e.g. gemini-image, see lib/upstream-usage)
    */
   private async generateImage(prompt: string): Promise<{ imageUrl: string }> {
-    try {
-      // Note: This is a placeholder implementation
-      // The actual Gemini Image API integration would depend on the specific API endpoints
-      // For now, we'll simulate the response structure
-      
-      const result = await this.model.generateContent([
-        {
-          text: `Generate an image based on this description: ${prompt}`
-        }
-      ])
-      
-      const response = await result.response
-      
-      // In a real implementation, this would extract the image URL from the response
-      // For now, we'll return a placeholder
-      const imageUrl = this.generatePlaceholderImageUrl(prompt)
-      
-      return { imageUrl }
-    } catch (error: any) {
-      if (error.status === 429) {
-        throw new RateLimitError('Gemini Image API rate limit exceeded', 'GEMINI_IMAGE_RATE_LIMIT', { error })
-      }
-      
-      if (error.status >= 500) {
-        throw new ExternalAPIError(
-          `Gemini Image API server error: ${error.message}`,
-          `GEMINI_IMAGE_${error.status}`,
-          true,
-          { error }
-        )
-      }
-      
-      throw new ExternalAPIError(
-        `Gemini Image API error: ${error.message}`,
-        'GEMINI_IMAGE_ERROR',
-        false,
-        { error }
-      )
-    }
+    let usage: LLMUsage | undefined
+    const result = await this.llm.generateImage(prompt, { onUsage: reported => { usage = reported } })
+    await recordUpstreamCall({ service: `${this.llm.name}-image`, operation: 'generateScene', ...usage })
+
+    // Text-only models return no image data; fall back to a stable placeholder
+    const imageUrl = result.imageUrl || this.generatePlaceholderImageUrl(prompt)
+
+    return { imageUrl }
   }
 
   /**
@@ -325,13 +299,9 @@ The scene should look like it could be featured in a premium interior design mag
   }
 }
 
-// Factory function to create Gemini Image client
+// Factory function to create the scene client on the configured image provider
 export function createGeminiImageClient(): GeminiImageClient {
-  const apiKey = process.env.GEMINI_API_KEY
-  if (!apiKey) {
-    throw new ExternalAPIError('GEMINI_API_KEY environment variable is not set', 'MISSING_API_KEY', false)
-  }
-  return new GeminiImageClient(apiKey)
+  return new GeminiImageClient(createLLMProvider(getLLMProviderName('image')))
 }
 
 // Convenience functions
@@ -347,6 +317,12 @@ export async function generateSceneVariations(request: SceneRequest, count: numb
   return client.generateSceneVariations(request, count)
 }
 
+export async function generateSceneVariation(request: SceneRequest, variationNumber: number): Promise<SceneResponse> {
+  const client = createGeminiImageClient()
+  client.validateSceneRequest(request)
+  return client.generateSceneVariation(request, variationNumber)
+}
+
 export function getAvailableSceneStyles(): Array<{ style: string; description: string }> {
   const client = createGeminiImageClient()
   return client.getAvailableStyles()
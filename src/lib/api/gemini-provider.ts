@@ -0,0 +1,141 @@
+import { GoogleGenerativeAI } from '@google/generative-ai'
+import { ExternalAPIError, RateLimitError } from '@/lib/errors'
+import {
+  LLMProvider,
+  LLMCompletionOptions,
+  LLMImageOptions,
+  LLMImageResult,
+  LLMUsage,
+  parseJSONResponse
+} from '@/lib/api/llm-provider'
+
+export interface GeminiProviderOptions {
+  textModel?: string
+  imageModel?: string
+}
+
+/**
+ * Map a Gemini SDK error to RateLimitError / ExternalAPIError.
+ * `label` and `codePrefix` distinguish text calls (GEMINI_*) from image calls (GEMINI_IMAGE_*).
+ */
+function toGeminiError(err: any, label: string, codePrefix: string): Error {
+  if (err instanceof ExternalAPIError || err instanceof RateLimitError) {
+    return err
+  }
+
+  const status = err?.status ?? err?.response?.status ?? err?.cause?.status
+  const code = (err?.code || '').toString().toUpperCase()
+  const msg = (err?.message || '').toLowerCase()
+
+  const is429 = status === 429 ||
+    code === 'RESOURCE_EXHAUSTED' ||
+    /429|rate limit|quota/i.test(msg)
+
+  if (is429) {
+    return new RateLimitError(`${label} rate limit`, `${codePrefix}_RATE_LIMIT`, { err })
+  }
+
+  const is5xx = (status && status >= 500) || /server error|internal/i.test(msg)
+  if (is5xx) {
+    return new ExternalAPIError(`${label} server error`, `${codePrefix}_${status || '5XX'}`, true, { err })
+  }
+
+  return new ExternalAPIError(`${label} error: ${err?.message ?? 'unknown'}`, `${codePrefix}_ERROR`, false, { err })
+}
+
+// Token counts from a response's usageMetadata, when present
+function reportUsage(response: any, onUsage?: (usage: LLMUsage) => void): void {
+  const metadata = response?.usageMetadata
+  if (!onUsage || !metadata) return
+  onUsage({
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: metadata.candidatesTokenCount ?? 0
+  })
+}
+
+// Gemini implementation of LLMProvider shared by the planning, ranking and scene clients
+export class GeminiLLMProvider implements LLMProvider {
+  readonly name = 'gemini'
+  private readonly client: GoogleGenerativeAI
+  private readonly textModel: any
+  private readonly imageModel: any
+
+  constructor(apiKey: string, options: GeminiProviderOptions = {}) {
+    if (!apiKey) {
+      throw new ExternalAPIError('Gemini API key is required', 'MISSING_API_KEY', false)
+    }
+
+    this.client = new GoogleGenerativeAI(apiKey)
+    this.textModel = this.client.getGenerativeModel({
+      model: options.textModel ?? process.env.GEMINI_TEXT_MODEL ?? 'gemini-2.0-flash'
+    })
+    this.imageModel = this.client.getGenerativeModel({
+      model: options.imageModel ?? process.env.GEMINI_IMAGE_MODEL ?? 'gemini-2.0-flash-exp'
+    })
+  }
+
+  async generateText(prompt: string, options: LLMCompletionOptions = {}): Promise<string> {
+    return this.complete(prompt, options)
+  }
+
+  async generateJSON<T = unknown>(prompt: string, options: LLMCompletionOptions = {}): Promise<T> {
+    const text = await this.complete(prompt, options, 'application/json')
+    return parseJSONResponse<T>(text)
+  }
+
+  /**
+   * Generate an image. Inline image data is returned as a data URL; if the model
+   * only answers with text, the result has no imageUrl and callers decide the fallback.
+   */
+  async generateImage(prompt: string, options: LLMImageOptions = {}): Promise<LLMImageResult> {
+    try {
+      const result = await this.imageModel.generateContent([
+        {
+          text: `Generate an image based on this description: ${prompt}`
+        }
+      ])
+
+      const response = await result.response
+      reportUsage(response, options.onUsage)
+      const parts: any[] = response?.candidates?.[0]?.content?.parts ?? []
+      const inline = parts.find(part => part?.inlineData?.data)?.inlineData
+
+      if (inline) {
+        const mimeType = inline.mimeType || 'image/png'
+        return { imageUrl: `data:${mimeType};base64,${inline.data}`, mimeType }
+      }
+
+      return { text: response?.text?.() }
+    } catch (error) {
+      throw toGeminiError(error, 'Gemini Image API', 'GEMINI_IMAGE')
+    }
+  }
+
+  private async complete(prompt: string, options: LLMCompletionOptions, responseMimeType?: string): Promise<string> {
+    try {
+      const generationConfig: Record<string, unknown> = {}
+      if (options.temperature !== undefined) generationConfig.temperature = options.temperature
+      if (options.maxOutputTokens !== undefined) generationConfig.maxOutputTokens = options.maxOutputTokens
+      if (responseMimeType) generationConfig.responseMimeType = responseMimeType
+
+      const imageParts = (options.images ?? []).map(image => ({
+        inlineData: { data: image.data, mimeType: image.mimeType }
+      }))
+
+      const res = await this.textModel.generateContent({
+        contents: [{ role: "user", parts: [...imageParts, { text: prompt }] }],
+        ...(Object.keys(generationConfig).length > 0 ? { generationConfig } : {})
+      })
+
+      reportUsage(res.response, options.onUsage)
+      const text = res.response?.text?.()
+      if (!text) {
+        throw new ExternalAPIError('Empty response from Gemini', 'EMPTY_RESPONSE', true)
+      }
+
+      return text
+    } catch (err) {
+      throw toGeminiError(err, 'Gemini', 'GEMINI')
+    }
+  }
+}
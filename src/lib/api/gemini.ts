@@ -1,4 +1,3 @@
-import { GoogleGenerativeAI } from '@google/generative-ai'
 import {
   PlanRequest,
   PlanResponse,
@@ -6,24 +5,29 @@ import {
   RankResponse,
   CategoryPlan,
   SearchStrategy,
-  RawProduct
+  RawProduct,
+  RoomAnalysis,
+  SetupRefinement,
+  ComparisonSpec
 } from '@/types/api'
 import { Product, BudgetDistribution } from '@/types'
 import { ExternalAPIError, RateLimitError, withRetry, handleFetchError } from '@/lib/errors'
+import { LLMImageInput, LLMProvider, LLMUsage, createLLMProvider } from '@/lib/api/llm-provider'
+import { GeminiLLMProvider } from '@/lib/api/gemini-provider'
+import { recordUpstreamCall } from '@/lib/upstream-usage'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('llm')
 
 // Gemini AI client for planning and ranking
 export class GeminiAIClient {
-  private readonly client: GoogleGenerativeAI
-  private readonly model: any
-
-  constructor(apiKey: string) {
-    if (!apiKey) {
-      throw new ExternalAPIError('Gemini API key is required', 'MISSING_API_KEY', false)
-    }
+  private readonly llm: LLMProvider
 
-    this.client = new GoogleGenerativeAI(apiKey)
-    const MODEL = process.env.GEMINI_TEXT_MODEL ?? 'gemini-2.0-flash'
-    this.model = this.client.getGenerativeModel({ model: MODEL })
+  // Accepts a Gemini API key or any LLMProvider (self-hosted, scripted…)
+  constructor(apiKeyOrProvider: string | LLMProvider) {
+    this.llm = typeof apiKeyOrProvider === 'string'
+      ? new GeminiLLMProvider(apiKeyOrProvider)
+      : apiKeyOrProvider
   }
 
   /**
@@ -32,7 +36,7 @@ export class GeminiAIClient {
   async generatePlan(request: PlanRequest): Promise<PlanResponse> {
     try {
       const prompt = this.buildPlanningPrompt(request)
-      const result = await withRetry(() => this.generateContent(prompt))
+      const result = await withRetry(() => this.generateContent(prompt, 'generatePlan'))
 
       return this.parsePlanResponse(result, request)
     } catch (error) {
@@ -52,12 +56,12 @@ export class GeminiAIClient {
   async rankProducts(request: RankRequest, existingProducts?: Product[]): Promise<RankResponse> {
     try {
       const prompt = this.buildContextAwareRankingPrompt(request, existingProducts)
-      const result = await withRetry(() => this.generateContent(prompt))
+      const result = await withRetry(() => this.generateContent(prompt, 'rankProducts'))
 
       return this.parseRankResponse(result, request.products)
     } catch (error) {
       // Fallback to enhanced heuristic ranking if AI fails
-      console.warn('Gemini AI ranking failed, falling back to enhanced heuristic ranking:', error)
+      log.warn('AI ranking failed, falling back to heuristic ranking', { error })
       return this.enhancedHeuristicRanking(request, existingProducts)
     }
   }
@@ -75,11 +79,11 @@ export class GeminiAIClient {
       if (products.length === 0) return null
 
       const prompt = this.buildContextAwareProductSelectionPrompt(need, products, context, existingProducts)
-      const result = await withRetry(() => this.generateContent(prompt))
+      const result = await withRetry(() => this.generateContent(prompt, 'selectBestProduct'))
 
       return this.parseProductSelection(result, products, need)
     } catch (error) {
-      console.warn('Gemini AI product selection failed, using enhanced fallback:', error)
+      log.warn('AI product selection failed, using fallback', { need: need.name, error })
       return this.selectEnhancedProductFallback(need, products, existingProducts)
     }
   }
@@ -90,15 +94,58 @@ export class GeminiAIClient {
   async generateGhostTips(query: string, products: Product[], context?: string): Promise<string[]> {
     try {
       const prompt = this.buildGhostTipsPrompt(query, products, context)
-      const result = await withRetry(() => this.generateContent(prompt))
+      const result = await withRetry(() => this.generateContent(prompt, 'generateGhostTips'))
 
       return this.parseGhostTips(result)
     } catch (error) {
-      console.warn('Ghost tips generation failed, using fallback tips:', error)
+      log.warn('Ghost tips generation failed, using fallback tips', { error })
       return this.getFallbackTips(query)
     }
   }
 
+  /**
+   * Describe the user's room from photos: room type, furniture already there,
+   * colour palette and any size hints. Throws when the model fails, so callers
+   * can carry on without room context.
+   */
+  async analyzeRoomImages(images: LLMImageInput[], message?: string): Promise<RoomAnalysis> {
+    const prompt = this.buildRoomAnalysisPrompt(images.length, message)
+    const result = await withRetry(() => this.metered('analyzeRoomImages', onUsage =>
+      this.llm.generateJSON(prompt, { images, temperature: 0.2, onUsage })
+    ))
+
+    return this.parseRoomAnalysis(result)
+  }
+
+  /**
+   * Interpret a chat follow-up ("cheaper chair", "drop the headset", "make it
+   * all white") against the current setup. Throws when the model fails, so
+   * callers can fall back to keyword matching.
+   */
+  async interpretRefinement(
+    message: string,
+    setup: { categories: string[]; constraints: string[]; budget: number }
+  ): Promise<SetupRefinement> {
+    const prompt = this.buildRefinementPrompt(message, setup)
+    const result = await withRetry(() => this.metered('interpretRefinement', onUsage =>
+      this.llm.generateJSON(prompt, { temperature: 0, onUsage })
+    ))
+
+    return this.parseRefinement(result, setup.categories)
+  }
+
+  /**
+   * Pull comparable specs out of product titles and features, one value per product
+   */
+  async extractComparisonSpecs(products: Product[]): Promise<ComparisonSpec[]> {
+    const prompt = this.buildComparisonSpecsPrompt(products)
+    const result = await withRetry(() => this.metered('extractComparisonSpecs', onUsage =>
+      this.llm.generateJSON(prompt, { temperature: 0, onUsage })
+    ))
+
+    return this.parseComparisonSpecs(result, products.length)
+  }
+
   /**
    * Build planning prompt for Gemini AI (slimmed down)
    */
@@ -112,6 +159,7 @@ Return JSON only:
     {
       "category": "string",
       "priority": 1-10,
+      "required": true | false,
       "budgetAllocation": number,
       "searchTerms": ["term1", "term2"],
       "requirements": ["req1", "req2"]
@@ -132,7 +180,99 @@ Rules:
 - Setup: 3-8 categories for room/workspace queries
 - Single: 1-3 variations for specific items
 - Budget must total ${request.budget}
-- Use colors: #FF6B6B, #4ECDC4, #45B7D1, #96CEB4`
+- Mark nice-to-have extras "required": false so they can be dropped first
+- Use colors: #FF6B6B, #4ECDC4, #45B7D1, #96CEB4${request.room ? this.buildRoomContext(request.room) : ''}`
+  }
+
+  /**
+   * Planning rules for a photographed room, appended to the planning prompt
+   */
+  private buildRoomContext(room: RoomAnalysis): string {
+    const lines = [`- The setup is for their ${room.roomType}`]
+    if (room.existingFurniture.length > 0) {
+      lines.push(`- They already own: ${room.existingFurniture.join(', ')}. Don't plan categories for these; pick items that work with them`)
+    }
+    if (room.colorPalette.length > 0) {
+      lines.push(`- Match the room's colour palette (${room.colorPalette.join(', ')}) in "requirements" and "searchTerms"`)
+    }
+    if (room.dimensions) {
+      lines.push(`- Respect the space: ${room.dimensions}`)
+    }
+    return `\n${lines.join('\n')}`
+  }
+
+  private buildRefinementPrompt(
+    message: string,
+    setup: { categories: string[]; constraints: string[]; budget: number }
+  ): string {
+    return `A user is refining a product setup in a chat.
+Current categories: ${setup.categories.join(', ') || 'none'}
+Current requirements: ${setup.constraints.join(', ') || 'none'}
+Total budget: ${setup.budget}
+
+User message: "${message}"
+
+Return JSON only:
+{
+  "action": "cheaper" | "upgrade" | "remove" | "add" | "restyle" | "rebuild" | "none",
+  "categories": ["category names"],
+  "constraints": ["new lasting requirements"],
+  "budget": number (only if the user changes the total budget)
+}
+
+Rules:
+- Use the current category names exactly; "add" may name new categories
+- "restyle" changes how products look (colour, material, style); "categories": [] means every category
+- "constraints": short search terms every later pick must match, e.g. "white", "wireless"
+- "rebuild" only when they want a different setup altogether
+- "none" when the message asks for no change`
+  }
+
+  private buildComparisonSpecsPrompt(products: Product[]): string {
+    const productsText = products.map((p, i) =>
+      `${i + 1}. ${p.title}${p.features.length > 0 ? `\n   Features: ${p.features.join('; ')}` : ''}`
+    ).join('\n')
+
+    return `Compare the specs of these products:
+
+${productsText}
+
+Return JSON only:
+{
+  "attributes": [
+    {
+      "label": "Screen size",
+      "unit": "in" | null,
+      "better": "higher" | "lower" | null,
+      "values": [27, 32, null]
+    }
+  ]
+}
+
+Rules:
+- Up to 8 attributes the products have in common, most important first
+- "values" has one entry per product, in the order above; null when a product doesn't say
+- Numbers in the same unit for every product; short text otherwise (e.g. "black", "wireless")
+- "better" only when more or less is clearly better for a buyer; null for size, colour and similar
+- Don't repeat price, rating or review count`
+  }
+
+  private buildRoomAnalysisPrompt(imageCount: number, message?: string): string {
+    return `Analyze ${imageCount === 1 ? 'this photo' : `these ${imageCount} photos`} of the user's room so we can plan products that fit it.${message ? `\nThe user says: "${message}"` : ''}
+
+Return JSON only:
+{
+  "roomType": "bedroom" | "home office" | "living room" | "gaming room" | ...,
+  "existingFurniture": ["white desk", "black office chair"],
+  "colorPalette": ["white", "light oak", "sage green"],
+  "dimensions": "string or null",
+  "summary": "one or two sentences"
+}
+
+Rules:
+- Only list items that are clearly visible
+- "dimensions": rough size hints from the photos (room size, wall or desk width), null if unclear
+- Colours as plain names, dominant first`
   }
 
   /**
@@ -329,39 +469,35 @@ If no product fits the budget or requirements, return: {"selectedIndex": -1, "ra
   }
 
   /**
-   * Generate content using Gemini AI with robust error handling
+   * Generate content through the configured LLM provider
+   */
+  private async generateContent(prompt: string, operation: string): Promise<string> {
+    return this.metered(operation, onUsage => this.llm.generateText(prompt, { onUsage }))
+  }
+
+  /**
+   * Make one model call, recording it and the tokens it used under `operation`
+   * (see lib/upstream-usage). Calls that fail before the model answers aren't counted.
    */
-  private async generateContent(prompt: string): Promise<string> {
+  private async metered<T>(operation: string, call: (onUsage: (usage: LLMUsage) => void) => Promise<T>): Promise<T> {
+    let usage: LLMUsage | undefined
+    let answered = false
+    const startTime = Date.now()
     try {
-      const res = await this.model.generateContent({
-        contents: [{ role: "user", parts: [{ text: prompt }] }]
+      const result = await call(reported => { usage = reported })
+      answered = true
+      return result
+    } finally {
+      log.debug('Model call', {
+        provider: this.llm.name,
+        operation,
+        answered,
+        durationMs: Date.now() - startTime,
+        ...usage
       })
-
-      const text = res.response?.text?.()
-      if (!text) {
-        throw new ExternalAPIError('Empty response from Gemini', 'EMPTY_RESPONSE', true)
+      if (answered || usage) {
+        await recordUpstreamCall({ service: this.llm.name, operation, ...usage })
       }
-
-      return text
-    } catch (err: any) {
-      const status = err?.status ?? err?.response?.status ?? err?.cause?.status
-      const code = (err?.code || '').toString().toUpperCase()
-      const msg = (err?.message || '').toLowerCase()
-
-      const is429 = status === 429 ||
-        code === 'RESOURCE_EXHAUSTED' ||
-        /429|rate limit|quota/i.test(msg)
-
-      if (is429) {
-        throw new RateLimitError('Gemini rate limit', 'GEMINI_RATE_LIMIT', { err })
-      }
-
-      const is5xx = (status && status >= 500) || /server error|internal/i.test(msg)
-      if (is5xx) {
-        throw new ExternalAPIError('Gemini server error', `GEMINI_${status || '5XX'}`, true, { err })
-      }
-
-      throw new ExternalAPIError(`Gemini error: ${err?.message ?? 'unknown'}`, 'GEMINI_ERROR', false, { err })
     }
   }
 
@@ -387,7 +523,8 @@ If no product fits the budget or requirements, return: {"selectedIndex": -1, "ra
           priority: need.priority || 5,
           budgetAllocation: need.targetPrice,
           searchTerms: [need.name],
-          requirements: [need.rationale || '']
+          requirements: [need.rationale || ''],
+          required: need.required !== false
         }))
 
         const budgetDistribution: BudgetDistribution[] = parsed.needs.map((need: any, index: number) => {
@@ -419,7 +556,8 @@ If no product fits the budget or requirements, return: {"selectedIndex": -1, "ra
         priority: Math.max(1, Math.min(10, cat.priority)),
         budgetAllocation: Math.max(0, cat.budgetAllocation),
         searchTerms: Array.isArray(cat.searchTerms) ? cat.searchTerms : [cat.category],
-        requirements: Array.isArray(cat.requirements) ? cat.requirements : []
+        requirements: Array.isArray(cat.requirements) ? cat.requirements : [],
+        required: cat.required !== false
       }))
 
       const budgetDistribution: BudgetDistribution[] = (parsed.budgetDistribution || []).map((dist: any) => ({
@@ -441,7 +579,7 @@ If no product fits the budget or requirements, return: {"selectedIndex": -1, "ra
         searchStrategy
       }
     } catch (error) {
-      console.warn('Failed to parse Gemini planning response, using fallback:', error)
+      log.warn('Failed to parse planning response, using fallback', { error })
       return this.getFallbackPlan(request)
     }
   }
@@ -493,7 +631,7 @@ If no product fits the budget or requirements, return: {"selectedIndex": -1, "ra
         reasoning: parsed.reasoning || ['AI-powered ranking based on multiple criteria']
       }
     } catch (error) {
-      console.warn('Failed to parse Gemini ranking response, using fallback:', error)
+      log.warn('Failed to parse ranking response, using fallback', { error })
       // Create a fallback request with default values
       const fallbackRequest: RankRequest = {
         products: originalProducts,
@@ -513,6 +651,71 @@ If no product fits the budget or requirements, return: {"selectedIndex": -1, "ra
     }
   }
 
+  /**
+   * Normalise the room analysis JSON, dropping anything that isn't a usable string
+   */
+  private parseRoomAnalysis(result: unknown): RoomAnalysis {
+    const data = (result && typeof result === 'object' ? result : {}) as Record<string, unknown>
+    const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
+    const list = (value: unknown) => Array.isArray(value)
+      ? value.map(text).filter(Boolean).slice(0, 10)
+      : []
+
+    return {
+      roomType: text(data.roomType) || 'room',
+      existingFurniture: list(data.existingFurniture),
+      colorPalette: list(data.colorPalette),
+      dimensions: text(data.dimensions) || null,
+      summary: text(data.summary)
+    }
+  }
+
+  /**
+   * Normalise the refinement JSON, matching category names to the setup's
+   */
+  private parseRefinement(result: unknown, categories: string[]): SetupRefinement {
+    const data = (result && typeof result === 'object' ? result : {}) as Record<string, unknown>
+    const actions: SetupRefinement['action'][] = ['cheaper', 'upgrade', 'remove', 'add', 'restyle', 'rebuild', 'none']
+    const list = (value: unknown) => Array.isArray(value)
+      ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim())
+      : []
+    const canonical = (name: string) => categories.find(category => category.toLowerCase() === name.toLowerCase()) ?? name
+    const budget = Number(data.budget)
+
+    return {
+      action: actions.includes(data.action as SetupRefinement['action']) ? data.action as SetupRefinement['action'] : 'none',
+      categories: list(data.categories).map(canonical),
+      constraints: list(data.constraints),
+      ...(Number.isFinite(budget) && budget > 0 ? { budget } : {})
+    }
+  }
+
+  private parseComparisonSpecs(result: unknown, productCount: number): ComparisonSpec[] {
+    const data = (result && typeof result === 'object' ? result : {}) as Record<string, unknown>
+    const attributes = Array.isArray(data.attributes) ? data.attributes : []
+    const value = (item: unknown): number | string | null => {
+      if (typeof item === 'number' && Number.isFinite(item)) return item
+      if (typeof item === 'string' && item.trim() !== '') return item.trim()
+      return null
+    }
+
+    return attributes.flatMap((attribute): ComparisonSpec[] => {
+      const spec = (attribute && typeof attribute === 'object' ? attribute : {}) as Record<string, unknown>
+      const rawValues: unknown[] = Array.isArray(spec.values) ? spec.values : []
+      if (typeof spec.label !== 'string' || !spec.label.trim() || rawValues.length === 0) return []
+
+      const values = Array.from({ length: productCount }, (_, i) => value(rawValues[i]))
+      if (values.every(item => item === null)) return []
+
+      return [{
+        label: spec.label.trim(),
+        unit: typeof spec.unit === 'string' && spec.unit.trim() ? spec.unit.trim() : null,
+        better: spec.better === 'higher' || spec.better === 'lower' ? spec.better : null,
+        values
+      }]
+    }).slice(0, 8)
+  }
+
   /**
    * Parse ghost tips from AI response
    */
@@ -575,10 +778,12 @@ If no product fits the budget or requirements, return: {"selectedIndex": -1, "ra
         pros: parsed.pros || [],
         cons: parsed.cons || [],
         confidence: Math.max(0, Math.min(1, parsed.confidence || 0.8)),
-        searchRank: parsed.selectedIndex + 1
+        searchRank: parsed.selectedIndex + 1,
+        originalPrice: selectedProduct.originalPrice,
+        originalCurrency: selectedProduct.originalCurrency
       }
     } catch (error) {
-      console.warn('Failed to parse product selection response:', error)
+      log.warn('Failed to parse product selection response', { error })
       return null
     }
   }
@@ -648,7 +853,9 @@ If no product fits the budget or requirements, return: {"selectedIndex": -1, "ra
       pros: this.generateEnhancedPros(best, existingProducts),
       cons: this.generateEnhancedCons(best, existingProducts),
       confidence: Math.min(0.9, 0.6 + (scored[0].score * 0.1)),
-      searchRank: 1
+      searchRank: 1,
+      originalPrice: best.originalPrice,
+      originalCurrency: best.originalCurrency
     }
   }
 
@@ -1253,13 +1460,9 @@ If no product fits the budget or requirements, return: {"selectedIndex": -1, "ra
   }
 }
 
-// Factory function to create Gemini AI client
+// Factory function to create the planning/ranking client on the configured LLM provider
 export function createGeminiAIClient(): GeminiAIClient {
-  const apiKey = process.env.GEMINI_API_KEY
-  if (!apiKey) {
-    throw new ExternalAPIError('GEMINI_API_KEY environment variable is not set', 'MISSING_API_KEY', false)
-  }
-  return new GeminiAIClient(apiKey)
+  return new GeminiAIClient(createLLMProvider())
 }
 
 // Convenience functions
@@ -1273,6 +1476,24 @@ export async function rankProducts(request: RankRequest, existingProducts?: Prod
   return client.rankProducts(request, existingProducts)
 }
 
+export async function analyzeRoomImages(images: LLMImageInput[], message?: string): Promise<RoomAnalysis> {
+  const client = createGeminiAIClient()
+  return client.analyzeRoomImages(images, message)
+}
+
+export async function interpretRefinement(
+  message: string,
+  setup: { categories: string[]; constraints: string[]; budget: number }
+): Promise<SetupRefinement> {
+  const client = createGeminiAIClient()
+  return client.interpretRefinement(message, setup)
+}
+
+export async function extractComparisonSpecs(products: Product[]): Promise<ComparisonSpec[]> {
+  const client = createGeminiAIClient()
+  return client.extractComparisonSpecs(products)
+}
+
 export async function generateGhostTips(query: string, products: Product[], context?: string): Promise<string[]> {
   const client = createGeminiAIClient()
   return client.generateGhostTips(query, products, context)
@@ -0,0 +1,137 @@
+import { ExternalAPIError, InternalError } from '@/lib/errors'
+import { GeminiLLMProvider } from '@/lib/api/gemini-provider'
+import { createOpenAICompatibleProvider } from '@/lib/api/openai-compatible-provider'
+import { createScriptedLLMProvider } from '@/lib/api/scripted-llm'
+
+export interface LLMImageInput {
+  // Base64-encoded image bytes, without a data: prefix
+  data: string
+  mimeType: string
+}
+
+// Tokens a call used, as reported by the backend
+export interface LLMUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface LLMCompletionOptions {
+  temperature?: number
+  maxOutputTokens?: number
+  // Images sent alongside the prompt; the model must accept image input
+  images?: LLMImageInput[]
+  // Called once the backend answers, when it reports token counts
+  onUsage?: (usage: LLMUsage) => void
+}
+
+export interface LLMImageOptions {
+  width?: number
+  height?: number
+  onUsage?: (usage: LLMUsage) => void
+}
+
+export interface LLMImageResult {
+  // Absent when the model answered with text only (no image data)
+  imageUrl?: string
+  mimeType?: string
+  text?: string
+}
+
+/**
+ * A model backend (Gemini, a self-hosted OpenAI-compatible server, a scripted
+ * replay…). Prompt building and response parsing stay in the clients; providers
+ * only move prompts in and completions out, mapping failures to our error classes.
+ */
+export interface LLMProvider {
+  readonly name: string
+  generateText(prompt: string, options?: LLMCompletionOptions): Promise<string>
+  generateJSON<T = unknown>(prompt: string, options?: LLMCompletionOptions): Promise<T>
+  generateImage(prompt: string, options?: LLMImageOptions): Promise<LLMImageResult>
+}
+
+export type LLMProviderFactory = () => LLMProvider
+
+// Text covers planning, ranking, selection and tips; image covers scene generation
+export type LLMTask = 'text' | 'image'
+
+export const DEFAULT_LLM_PROVIDER = 'gemini'
+
+// Built-in providers; more can be added with registerLLMProvider()
+const providerFactories = new Map<string, LLMProviderFactory>([
+  ['gemini', () => {
+    const apiKey = process.env.GEMINI_API_KEY
+    if (!apiKey) {
+      throw new ExternalAPIError('GEMINI_API_KEY environment variable is not set', 'MISSING_API_KEY', false)
+    }
+    return new GeminiLLMProvider(apiKey)
+  }],
+  ['openai-compatible', () => createOpenAICompatibleProvider()],
+  ['scripted', () => createScriptedLLMProvider()],
+])
+
+/**
+ * Register (or replace) an LLM provider under a name usable in LLM_PROVIDER
+ */
+export function registerLLMProvider(name: string, factory: LLMProviderFactory): void {
+  providerFactories.set(name.toLowerCase(), factory)
+}
+
+export function getRegisteredLLMProviders(): string[] {
+  return Array.from(providerFactories.keys())
+}
+
+/**
+ * Name of the configured provider for a task.
+ * LLM_PROVIDER applies to everything; LLM_IMAGE_PROVIDER overrides it for images.
+ */
+export function getLLMProviderName(task: LLMTask = 'text'): string {
+  const name = task === 'image'
+    ? process.env.LLM_IMAGE_PROVIDER || process.env.LLM_PROVIDER
+    : process.env.LLM_PROVIDER
+  return (name || DEFAULT_LLM_PROVIDER).trim().toLowerCase()
+}
+
+/**
+ * Resolve an LLM provider by name (defaults to the configured text provider)
+ */
+export function createLLMProvider(name: string = getLLMProviderName()): LLMProvider {
+  const factory = providerFactories.get(name.toLowerCase())
+  if (!factory) {
+    throw new InternalError(
+      `Unknown LLM provider "${name}". Available: ${getRegisteredLLMProviders().join(', ')}`,
+      'UNKNOWN_LLM_PROVIDER'
+    )
+  }
+  return factory()
+}
+
+/**
+ * True when the configured provider could not be created because of missing keys or settings
+ */
+export function isLLMProviderConfigError(error: unknown): boolean {
+  return error instanceof ExternalAPIError &&
+    (error.code === 'MISSING_API_KEY' || error.code === 'MISSING_LLM_CONFIG')
+}
+
+/**
+ * Parse a JSON completion, tolerating markdown code fences and leading prose
+ */
+export function parseJSONResponse<T = unknown>(text: string): T {
+  const trimmed = text.trim()
+  try {
+    return JSON.parse(trimmed) as T
+  } catch {
+    const match = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/) ||
+      trimmed.match(/(\{[\s\S]*\}|\[[\s\S]*\])/)
+    if (match) {
+      try {
+        return JSON.parse(match[1]) as T
+      } catch {
+        // Fall through to the error below
+      }
+    }
+    throw new ExternalAPIError('Model did not return valid JSON', 'INVALID_JSON_RESPONSE', true, {
+      response: trimmed.slice(0, 500)
+    })
+  }
+}
@@ -0,0 +1,142 @@
+import { ExternalAPIError, RateLimitError, handleFetchError } from '@/lib/errors'
+import {
+  LLMProvider,
+  LLMCompletionOptions,
+  LLMImageOptions,
+  LLMImageResult,
+  parseJSONResponse
+} from '@/lib/api/llm-provider'
+
+export interface OpenAICompatibleConfig {
+  baseURL: string
+  model: string
+  apiKey?: string
+  imageModel?: string
+}
+
+/**
+ * LLMProvider for servers speaking the OpenAI chat completions API
+ * (vLLM, Ollama, llama.cpp server, LocalAI…), used to run planning and
+ * ranking against a self-hosted model.
+ */
+export class OpenAICompatibleLLMProvider implements LLMProvider {
+  readonly name = 'openai-compatible'
+  private readonly config: OpenAICompatibleConfig
+
+  constructor(config: OpenAICompatibleConfig) {
+    if (!config.baseURL || !config.model) {
+      throw new ExternalAPIError('LLM base URL and model are required', 'MISSING_LLM_CONFIG', false)
+    }
+    this.config = { ...config, baseURL: config.baseURL.replace(/\/+$/, '') }
+  }
+
+  async generateText(prompt: string, options: LLMCompletionOptions = {}): Promise<string> {
+    return this.complete(prompt, options, false)
+  }
+
+  async generateJSON<T = unknown>(prompt: string, options: LLMCompletionOptions = {}): Promise<T> {
+    const text = await this.complete(prompt, options, true)
+    return parseJSONResponse<T>(text)
+  }
+
+  async generateImage(prompt: string, options: LLMImageOptions = {}): Promise<LLMImageResult> {
+    if (!this.config.imageModel) {
+      throw new ExternalAPIError('No image model configured for this LLM provider', 'MISSING_LLM_CONFIG', false)
+    }
+
+    const data = await this.post('/images/generations', {
+      model: this.config.imageModel,
+      prompt,
+      n: 1,
+      size: `${options.width ?? 1024}x${options.height ?? 1024}`,
+      response_format: 'b64_json'
+    })
+
+    const image = data?.data?.[0]
+    if (image?.b64_json) {
+      return { imageUrl: `data:image/png;base64,${image.b64_json}`, mimeType: 'image/png' }
+    }
+    if (image?.url) {
+      return { imageUrl: image.url }
+    }
+    throw new ExternalAPIError('Empty image response from LLM', 'EMPTY_RESPONSE', true)
+  }
+
+  private async complete(prompt: string, options: LLMCompletionOptions, json: boolean): Promise<string> {
+    // Images go in the content-parts form; plain prompts keep the string form older servers expect
+    const content = options.images?.length
+      ? [
+          { type: 'text', text: prompt },
+          ...options.images.map(image => ({
+            type: 'image_url',
+            image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+          }))
+        ]
+      : prompt
+
+    const data = await this.post('/chat/completions', {
+      model: this.config.model,
+      messages: [{ role: 'user', content }],
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+      ...(options.maxOutputTokens !== undefined ? { max_tokens: options.maxOutputTokens } : {}),
+      ...(json ? { response_format: { type: 'json_object' } } : {})
+    })
+
+    if (data?.usage && options.onUsage) {
+      options.onUsage({
+        inputTokens: data.usage.prompt_tokens ?? 0,
+        outputTokens: data.usage.completion_tokens ?? 0
+      })
+    }
+
+    const text = data?.choices?.[0]?.message?.content
+    if (!text) {
+      throw new ExternalAPIError('Empty response from LLM', 'EMPTY_RESPONSE', true)
+    }
+    return text
+  }
+
+  private async post(path: string, body: Record<string, unknown>): Promise<any> {
+    let response: Response
+    try {
+      response = await fetch(`${this.config.baseURL}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {})
+        },
+        body: JSON.stringify(body)
+      })
+    } catch (error) {
+      throw handleFetchError(error, 'LLM request')
+    }
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        throw new RateLimitError('LLM rate limit', 'LLM_RATE_LIMIT')
+      }
+      throw new ExternalAPIError(
+        `LLM request failed: ${response.status} ${response.statusText}`,
+        `LLM_${response.status}`,
+        response.status >= 500
+      )
+    }
+
+    return response.json()
+  }
+}
+
+// Factory function reading LLM_BASE_URL, LLM_MODEL, LLM_API_KEY and LLM_IMAGE_MODEL
+export function createOpenAICompatibleProvider(): OpenAICompatibleLLMProvider {
+  const baseURL = process.env.LLM_BASE_URL
+  const model = process.env.LLM_MODEL
+  if (!baseURL || !model) {
+    throw new ExternalAPIError('LLM_BASE_URL and LLM_MODEL environment variables are not set', 'MISSING_LLM_CONFIG', false)
+  }
+  return new OpenAICompatibleLLMProvider({
+    baseURL,
+    model,
+    apiKey: process.env.LLM_API_KEY,
+    imageModel: process.env.LLM_IMAGE_MODEL
+  })
+}
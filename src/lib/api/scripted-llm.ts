@@ -0,0 +1,142 @@
+import { readFileSync } from 'fs'
+import { ExternalAPIError, InternalError, RateLimitError } from '@/lib/errors'
+import {
+  LLMProvider,
+  LLMCompletionOptions,
+  LLMImageOptions,
+  LLMImageResult,
+  parseJSONResponse
+} from '@/lib/api/llm-provider'
+
+export type LLMCallKind = 'text' | 'json' | 'image'
+
+/**
+ * One scripted response. Steps are consumed in order; a step is used for the
+ * first call whose kind and prompt it matches. Everything is plain JSON so a
+ * recorded session can be saved to disk and replayed.
+ */
+export interface ScriptedLLMStep {
+  // Substring (or RegExp) the prompt must contain; omit to match any prompt
+  match?: string | RegExp
+  kind?: LLMCallKind
+  text?: string
+  json?: unknown
+  imageUrl?: string
+  error?: { message: string; code?: string; retryable?: boolean; rateLimit?: boolean }
+  // Keep the step after use instead of consuming it
+  repeat?: boolean
+}
+
+export interface ScriptedLLMScript {
+  steps: ScriptedLLMStep[]
+}
+
+export interface LLMCall {
+  kind: LLMCallKind
+  prompt: string
+  options?: LLMCompletionOptions | LLMImageOptions
+}
+
+/**
+ * Deterministic LLMProvider for tests: answers from a script and records every
+ * call so tests can assert on the prompts that were sent.
+ */
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly name = 'scripted'
+  readonly calls: LLMCall[] = []
+  private readonly steps: ScriptedLLMStep[]
+
+  constructor(steps: ScriptedLLMStep[] = []) {
+    this.steps = [...steps]
+  }
+
+  /**
+   * Steps not yet consumed (repeating steps are never consumed)
+   */
+  get remainingSteps(): number {
+    return this.steps.length
+  }
+
+  async generateText(prompt: string, options?: LLMCompletionOptions): Promise<string> {
+    const step = this.next('text', prompt, options)
+    if (step.text !== undefined) return step.text
+    if (step.json !== undefined) return JSON.stringify(step.json)
+    throw this.noResponse('text', prompt)
+  }
+
+  async generateJSON<T = unknown>(prompt: string, options?: LLMCompletionOptions): Promise<T> {
+    const step = this.next('json', prompt, options)
+    if (step.json !== undefined) return step.json as T
+    if (step.text !== undefined) return parseJSONResponse<T>(step.text)
+    throw this.noResponse('json', prompt)
+  }
+
+  async generateImage(prompt: string, options?: LLMImageOptions): Promise<LLMImageResult> {
+    const step = this.next('image', prompt, options)
+    return { imageUrl: step.imageUrl, text: step.text }
+  }
+
+  private next(kind: LLMCallKind, prompt: string, options?: LLMCompletionOptions | LLMImageOptions): ScriptedLLMStep {
+    this.calls.push({ kind, prompt, options })
+
+    const index = this.steps.findIndex(step => this.matches(step, kind, prompt))
+    if (index === -1) {
+      throw this.noResponse(kind, prompt)
+    }
+
+    const step = this.steps[index]
+    if (!step.repeat) {
+      this.steps.splice(index, 1)
+    }
+
+    if (step.error) {
+      const { message, code = 'SCRIPTED_ERROR', retryable = false, rateLimit = false } = step.error
+      throw rateLimit
+        ? new RateLimitError(message, code)
+        : new ExternalAPIError(message, code, retryable)
+    }
+
+    return step
+  }
+
+  private matches(step: ScriptedLLMStep, kind: LLMCallKind, prompt: string): boolean {
+    // JSON calls can be answered by text steps and vice versa
+    if (step.kind && step.kind !== kind && (step.kind === 'image' || kind === 'image')) {
+      return false
+    }
+    if (step.match === undefined) return true
+    return typeof step.match === 'string' ? prompt.includes(step.match) : step.match.test(prompt)
+  }
+
+  private noResponse(kind: LLMCallKind, prompt: string): ExternalAPIError {
+    return new ExternalAPIError(
+      `No scripted ${kind} response for prompt: ${prompt.slice(0, 80)}`,
+      'LLM_SCRIPT_EXHAUSTED',
+      false
+    )
+  }
+}
+
+/**
+ * Load a recorded script from LLM_SCRIPT_PATH (a `{ "steps": [...] }` JSON file)
+ */
+export function loadLLMScript(path: string | undefined = process.env.LLM_SCRIPT_PATH): ScriptedLLMScript {
+  if (!path) {
+    throw new ExternalAPIError('LLM_SCRIPT_PATH environment variable is not set', 'MISSING_LLM_CONFIG', false)
+  }
+
+  try {
+    const script = JSON.parse(readFileSync(path, 'utf8')) as ScriptedLLMScript
+    if (!Array.isArray(script.steps)) {
+      throw new Error('missing "steps" array')
+    }
+    return script
+  } catch (error) {
+    throw new InternalError(`Failed to load LLM script from ${path}`, 'INVALID_LLM_SCRIPT', { error })
+  }
+}
+
+// Factory function to create a scripted provider from the recorded script on disk
+export function createScriptedLLMProvider(): ScriptedLLMProvider {
+  return new ScriptedLLMProvider(loadLLMScript().steps)
+}
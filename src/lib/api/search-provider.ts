@@ -0,0 +1,74 @@
+import { SearchRequest, SearchResponse } from '@/types/api'
+import { ExternalAPIError, InternalError } from '@/lib/errors'
+import { SerpAPIClient } from '@/lib/api/serpapi'
+import { createFixtureSearchProvider } from '@/lib/api/fixture-search'
+
+/**
+ * A source of raw product candidates (SerpAPI, local fixtures, a retailer API…).
+ * Providers return `RawProduct`s; ranking and selection happen downstream.
+ */
+export interface ProductSearchProvider {
+  readonly name: string
+  searchProducts(request: SearchRequest): Promise<SearchResponse>
+}
+
+export type SearchProviderFactory = () => ProductSearchProvider
+
+export const DEFAULT_SEARCH_PROVIDER = 'serpapi'
+
+// Built-in providers; more can be added with registerSearchProvider()
+const providerFactories = new Map<string, SearchProviderFactory>([
+  ['serpapi', () => {
+    const apiKey = process.env.SERPAPI_KEY
+    if (!apiKey) {
+      throw new ExternalAPIError('SERPAPI_KEY environment variable is not set', 'MISSING_API_KEY', false)
+    }
+    return new SerpAPIClient(apiKey)
+  }],
+  ['fixture', () => createFixtureSearchProvider()],
+])
+
+/**
+ * Register (or replace) a search provider under a name usable in SEARCH_PROVIDER
+ */
+export function registerSearchProvider(name: string, factory: SearchProviderFactory): void {
+  providerFactories.set(name.toLowerCase(), factory)
+}
+
+export function getRegisteredSearchProviders(): string[] {
+  return Array.from(providerFactories.keys())
+}
+
+/**
+ * Name of the configured provider (SEARCH_PROVIDER env var, defaults to serpapi)
+ */
+export function getSearchProviderName(): string {
+  return (process.env.SEARCH_PROVIDER || DEFAULT_SEARCH_PROVIDER).trim().toLowerCase()
+}
+
+/**
+ * Resolve the configured product search provider
+ */
+export function createSearchProvider(name: string = getSearchProviderName()): ProductSearchProvider {
+  const factory = providerFactories.get(name.toLowerCase())
+  if (!factory) {
+    throw new InternalError(
+      `Unknown search provider "${name}". Available: ${getRegisteredSearchProviders().join(', ')}`,
+      'UNKNOWN_SEARCH_PROVIDER'
+    )
+  }
+  return factory()
+}
+
+/**
+ * True when the configured provider could not be created because its credentials are missing
+ */
+export function isSearchProviderConfigError(error: unknown): boolean {
+  return error instanceof ExternalAPIError && error.code === 'MISSING_API_KEY'
+}
+
+// Convenience function for product search through the configured provider
+export async function searchProducts(request: SearchRequest): Promise<SearchResponse> {
+  const provider = createSearchProvider()
+  return provider.searchProducts(request)
+}
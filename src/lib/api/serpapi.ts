@@ -1,6 +1,9 @@
 import { SearchRequest, SearchResponse, RawProduct } from '@/types/api'
 import { ExternalAPIError, RateLimitError, handleFetchError } from '@/lib/errors'
 import { getRegionFromCurrency, getCountryCodeFromCurrency } from '@/lib/currency'
+import type { ProductSearchProvider } from '@/lib/api/search-provider'
+import { recordUpstreamCall } from '@/lib/upstream-usage'
+import { createLogger } from '@/lib/logger'
 
 // SerpAPI specific types
 interface SerpAPIProduct {
@@ -49,17 +52,26 @@ interface SerpAPIResponse {
   error?: string
 }
 
-// Currency mapping
+// The logger masks the api_key in request URLs
+const log = createLogger('serpapi')
+
+// Currency prices are listed in for each region's Google Shopping country (see
+// getCountryCodeFromCurrency); every supported currency needs its region here
 const CURRENCY_MAPPING = {
   'US': 'USD',
   'UK': 'GBP',
   'EU': 'EUR',
   'IN': 'INR',
   'CA': 'CAD',
-  'AU': 'AUD'
+  'AU': 'AUD',
+  'JP': 'JPY',
+  'CN': 'CNY',
+  'BR': 'BRL',
+  'MX': 'MXN'
 }
 
-export class SerpAPIClient {
+export class SerpAPIClient implements ProductSearchProvider {
+  readonly name = 'serpapi'
   private readonly apiKey: string
   private readonly baseURL = 'https://serpapi.com/search.json'
 
@@ -73,8 +85,7 @@ export class SerpAPIClient {
   async searchProducts(request: SearchRequest): Promise<SearchResponse> {
     try {
       const url = this.buildSearchURL(request)
-      console.log('SerpAPI request URL:', url)
-      console.log('SerpAPI query terms:', request.query)
+      log.debug('SerpAPI request', { engine: 'google_shopping', url, query: request.query })
 
       const response = await fetch(url, {
         headers: {
@@ -96,13 +107,14 @@ export class SerpAPIClient {
         )
       }
 
+      await recordUpstreamCall({ service: this.name, operation: 'google_shopping' })
       const data = await response.json()
 
       // Log raw response (first 2 items only for debugging)
       if (data.shopping_results && data.shopping_results.length > 0) {
-        console.log('SerpAPI raw response sample:', JSON.stringify(data.shopping_results.slice(0, 2), null, 2))
+        log.debug('SerpAPI raw response sample', { sample: data.shopping_results.slice(0, 2) })
       } else {
-        console.log('SerpAPI response structure:', Object.keys(data))
+        log.debug('SerpAPI response has no shopping results', { keys: Object.keys(data) })
       }
 
       if (data.error) {
@@ -117,13 +129,17 @@ export class SerpAPIClient {
 
       // Amazon fallback: if Amazon-only requested and no products found, try Amazon engine
       if (request.amazonOnly && products.length === 0) {
-        console.warn('Amazon-only requested, Shopping returned 0 → using Amazon engine fallback')
+        log.info('Amazon-only search found no Shopping results, falling back to the Amazon engine', { query: request.query })
         products = await this.searchAmazonViaSerp(request.query, region)
       }
 
       const totalResults = data.search_information?.total_results || products.length
 
-      console.log(`SerpAPI parsed ${products.length} products from ${data.shopping_results?.length || 0} raw results`)
+      log.info('SerpAPI search finished', {
+        query: request.query,
+        rawResults: data.shopping_results?.length || 0,
+        products: products.length
+      })
 
       return {
         products,
@@ -180,6 +196,7 @@ export class SerpAPIClient {
       // Prefer direct product API if present
       if (productIdOrApi.serpapi_product_api) {
         const j = await fetch(productIdOrApi.serpapi_product_api + `&api_key=${this.apiKey}`).then(r => r.json())
+        await recordUpstreamCall({ service: this.name, operation: 'google_product' })
         const seller = j?.sellers_results?.online_sellers?.[0]?.link
         return seller || j?.product_link || null
       }
@@ -196,11 +213,12 @@ export class SerpAPIClient {
         }).toString()
 
         const j = await fetch(u).then(r => r.json())
+        await recordUpstreamCall({ service: this.name, operation: 'google_product' })
         const seller = j?.sellers_results?.online_sellers?.[0]?.link
         return seller || j?.product_link || null
       }
     } catch (e) {
-      console.warn('resolveGoogleProductLink failed', e)
+      log.warn('Failed to resolve Google product link', { error: e })
     }
     return null
   }
@@ -218,6 +236,11 @@ export class SerpAPIClient {
       'EU': 'amazon.de'
     }
 
+    // Regions without their own Amazon store search amazon.com, priced in dollars
+    const currency = amazonDomains[region]
+      ? CURRENCY_MAPPING[region as keyof typeof CURRENCY_MAPPING] || 'USD'
+      : 'USD'
+
     const u = new URL('https://serpapi.com/search.json')
     u.search = new URLSearchParams({
       engine: 'amazon',
@@ -228,9 +251,10 @@ export class SerpAPIClient {
 
     try {
       const j = await fetch(u).then(r => r.json())
-      console.log('🔍 Amazon API response summary:', {
-        total_results: j?.organic_results?.length || 0,
-        search_metadata: j?.search_metadata?.status || 'unknown'
+      await recordUpstreamCall({ service: this.name, operation: 'amazon' })
+      log.debug('SerpAPI Amazon response', {
+        results: j?.organic_results?.length || 0,
+        status: j?.search_metadata?.status || 'unknown'
       })
       const rows = j?.organic_results ?? []
 
@@ -238,7 +262,8 @@ export class SerpAPIClient {
         // Comprehensive Amazon price extraction with detailed logging
         let price: number | undefined = undefined
 
-        console.log(`🔍 Amazon product ${idx + 1}: "${r.title}" - Price data:`, {
+        log.debug('Amazon product price data', {
+          title: r.title,
           extracted_price: r.extracted_price,
           price: r.price,
           extracted_old_price: r.extracted_old_price,
@@ -250,7 +275,7 @@ export class SerpAPIClient {
         // Method 1: Direct extracted_price (most reliable for Amazon)
         if (typeof r.extracted_price === 'number' && r.extracted_price > 0) {
           price = r.extracted_price
-          console.log(`✅ Amazon price found via extracted_price: $${price}`)
+          log.debug('Amazon price found', { source: 'extracted_price', price })
         }
 
         // Method 2: Price string parsing
@@ -258,14 +283,14 @@ export class SerpAPIClient {
           const parsed = this.parsePrice(r.price)
           if (parsed) {
             price = parsed
-            console.log(`✅ Amazon price found via price string parsing: $${price} from "${r.price}"`)
+            log.debug('Amazon price found', { source: 'price', price, raw: r.price })
           }
         }
 
         // Method 3: Old price as fallback (extracted_old_price)
         else if (typeof r.extracted_old_price === 'number' && r.extracted_old_price > 0) {
           price = r.extracted_old_price
-          console.log(`✅ Amazon price found via extracted_old_price (fallback): $${price}`)
+          log.debug('Amazon price found', { source: 'extracted_old_price', price })
         }
 
         // Method 4: Old price string as fallback
@@ -273,12 +298,13 @@ export class SerpAPIClient {
           const parsed = this.parsePrice(r.old_price)
           if (parsed) {
             price = parsed
-            console.log(`✅ Amazon price found via old_price string parsing (fallback): $${price} from "${r.old_price}"`)
+            log.debug('Amazon price found', { source: 'old_price', price, raw: r.old_price })
           }
         }
 
         if (!price) {
-          console.log(`❌ No Amazon price found for "${r.title}". All price fields:`, {
+          log.debug('No Amazon price found', {
+            title: r.title,
             extracted_price: r.extracted_price,
             price: r.price,
             price_upper: r.price_upper,
@@ -294,7 +320,7 @@ export class SerpAPIClient {
           image: r.thumbnail,
           merchant: 'Amazon',
           price,
-          currency: r.price?.currency || 'USD',
+          currency: r.price?.currency || currency,
           rating: Number(r.rating) || undefined,
           reviewCount: Number(r.reviews_count || r.reviews) || undefined,
           shipRegion: region,
@@ -302,7 +328,7 @@ export class SerpAPIClient {
         }
       }).filter((p: RawProduct) => p.title && p.url)
     } catch (error) {
-      console.warn('Amazon engine search failed:', error)
+      log.warn('Amazon engine search failed', { query, error })
       return []
     }
   }
@@ -314,11 +340,11 @@ export class SerpAPIClient {
     const shoppingResults = response.shopping_results
 
     if (!shoppingResults || !Array.isArray(shoppingResults)) {
-      console.warn('SerpAPI: shopping_results missing or not an array')
+      log.warn('SerpAPI shopping_results missing or not an array')
       return []
     }
 
-    console.log(`SerpAPI: Processing ${shoppingResults.length} shopping results`)
+    log.debug('Processing SerpAPI shopping results', { results: shoppingResults.length })
 
     const currency = CURRENCY_MAPPING[region as keyof typeof CURRENCY_MAPPING] || 'USD'
 
@@ -378,16 +404,17 @@ export class SerpAPIClient {
       const isAmazon = isAmazonUrl || isAmazonMerchant
 
       if (isAmazon) {
-        console.log(`✅ Amazon product found: ${product.title} from ${merchant}`)
+        log.debug('Amazon product found', { title: product.title, merchant })
       }
 
       return isAmazon
     })
 
-    console.log(`SerpAPI: Filtered to ${filtered.length} Amazon-only products from ${products.length} total results`)
+    log.debug('Filtered to Amazon-only products', { products: filtered.length, total: products.length })
 
     if (filtered.length === 0) {
-      console.warn('⚠️ No Amazon products found. This is common due to Amazon\'s restrictions on Google Shopping API.')
+      // Common, because Amazon restricts its listings on Google Shopping
+      log.info('No Amazon products in the Shopping results', { total: products.length })
     }
 
     return filtered
@@ -401,7 +428,6 @@ export class SerpAPIClient {
     if (!priceStr) return undefined
 
     const str = String(priceStr).trim()
-    console.log(`🔍 Parsing price string: "${str}"`)
 
     // Handle various Amazon price formats
     const patterns = [
@@ -422,13 +448,12 @@ export class SerpAPIClient {
         const number = parseFloat(cleaned)
 
         if (Number.isFinite(number) && number > 0) {
-          console.log(`✅ Parsed price: ${number} from "${str}"`)
           return number
         }
       }
     }
 
-    console.log(`❌ Failed to parse price from: "${str}"`)
+    log.debug('Failed to parse price', { raw: str })
     return undefined
   }
 
@@ -457,23 +482,24 @@ export class SerpAPIClient {
 
       // Skip if missing title (URL can be resolved later)
       if (!title) {
-        console.debug('Skipping product - missing title')
+        log.debug('Skipping product without a title', { index })
         return null
       }
 
       // Parse price with better extraction and debugging
       let price = item.extracted_price
       if (typeof price === 'number' && price > 0) {
-        console.log(`✅ Google Shopping price via extracted_price: $${price} for "${title}"`)
+        log.debug('Google Shopping price found', { title, source: 'extracted_price', price })
       } else if (item.price) {
         price = this.parsePrice(item.price)
         if (price) {
-          console.log(`✅ Google Shopping price via parsePrice: $${price} for "${title}"`)
+          log.debug('Google Shopping price found', { title, source: 'price', price, raw: item.price })
         } else {
-          console.log(`❌ Google Shopping price parsing failed for "${title}". Raw price:`, item.price)
+          log.debug('Google Shopping price parsing failed', { title, raw: item.price })
         }
       } else {
-        console.log(`❌ No Google Shopping price found for "${title}". Available fields:`, {
+        log.debug('No Google Shopping price found', {
+          title,
           extracted_price: item.extracted_price,
           price: item.price,
           available_keys: Object.keys(item).filter(k => k.toLowerCase().includes('price'))
@@ -510,10 +536,10 @@ export class SerpAPIClient {
         category: undefined
       }
 
-      console.debug('Normalized product:', { title, price, merchant, rating, hasUrl: !!url })
+      log.debug('Normalized product', { title, price, merchant, rating, hasUrl: !!url })
       return product
     } catch (error) {
-      console.warn('Failed to normalize product:', error, item)
+      log.warn('Failed to normalize product', { title: item?.title, error })
       return null
     }
   }
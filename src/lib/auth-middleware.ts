@@ -0,0 +1,91 @@
+import { NextRequest } from 'next/server'
+import { User } from '@/types/auth'
+import { getUserRepository, toPublicUser } from '@/lib/user-repository'
+import { getBearerToken, verifyAuthToken } from '@/lib/auth-token'
+import { AuthenticationError, AuthorizationError, handleAPIError } from '@/lib/errors'
+
+export interface AuthOptions {
+  // Restrict the route to users listed in ADMIN_EMAILS
+  requireAdmin?: boolean
+}
+
+export interface AuthenticatedContext {
+  user: User
+}
+
+export type AuthenticatedHandler<C> = (
+  request: NextRequest,
+  context: C & AuthenticatedContext
+) => Promise<Response>
+
+/**
+ * Admin addresses from the comma-separated ADMIN_EMAILS env var, lowercased
+ */
+export function getAdminEmails(): string[] {
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+/**
+ * True when the user's email is listed in ADMIN_EMAILS
+ */
+export function isAdminUser(user: User): boolean {
+  return getAdminEmails().includes(user.email.toLowerCase())
+}
+
+/**
+ * Resolve the signed-in user from the request's bearer token.
+ * Throws AuthenticationError (401) or AuthorizationError (403).
+ */
+export async function authenticateRequest(request: Request, options: AuthOptions = {}): Promise<User> {
+  const token = getBearerToken(request)
+  if (!token) {
+    throw new AuthenticationError('Missing bearer token', 'AUTHENTICATION_REQUIRED')
+  }
+
+  const payload = verifyAuthToken(token)
+  if (!payload) {
+    throw new AuthenticationError('Invalid or expired token', 'INVALID_TOKEN')
+  }
+
+  const account = await getUserRepository().findById(payload.userId)
+  if (!account) {
+    throw new AuthenticationError('Token user no longer exists', 'USER_NOT_FOUND')
+  }
+
+  if (!account.isVerified) {
+    throw new AuthorizationError('Email address is not verified', 'EMAIL_NOT_VERIFIED')
+  }
+
+  // Never hand the password hash to route handlers
+  const user = toPublicUser(account)
+
+  if (options.requireAdmin && !isAdminUser(user)) {
+    throw new AuthorizationError('Admin access required', 'ADMIN_REQUIRED')
+  }
+
+  return user
+}
+
+/**
+ * Wrap a route handler so it only runs for authenticated users, receiving the
+ * resolved `user` alongside the route context. Failures are answered with
+ * 401/403 through handleAPIError.
+ */
+export function withAuth<C extends object = object>(
+  handler: AuthenticatedHandler<C>,
+  options: AuthOptions = {}
+) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    let user: User
+    try {
+      user = await authenticateRequest(request, options)
+    } catch (error) {
+      return handleAPIError(error)
+    }
+
+    return handler(request, { ...context, user })
+  }
+}
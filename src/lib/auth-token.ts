@@ -0,0 +1,116 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import jwt from 'jsonwebtoken'
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key'
+
+// Sign-in tokens carry it so no other token signed with JWT_SECRET passes for one
+export const AUTH_TOKEN_TYPE = 'auth'
+
+// Owner id used for searches made without a valid sign-in token or client cookie
+export const ANONYMOUS_USER_ID = 'anonymous'
+
+// Signed-out browsers get their own owner id, `anonymous:<client id>`, from this
+// cookie (set by src/middleware.ts), so they can't see each other's searches
+export const ANONYMOUS_CLIENT_COOKIE = 'ghost_client'
+export const ANONYMOUS_CLIENT_COOKIE_MAX_AGE = 60 * 60 * 24 * 365 // 1 year
+
+const ANONYMOUS_CLIENT_ID = /^[0-9a-f-]{36}$/
+
+export interface AuthTokenPayload {
+  userId: string
+  email: string
+}
+
+/**
+ * Extract the token from an `Authorization: Bearer <token>` header
+ */
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization')
+  if (!header) return null
+
+  const [scheme, token] = header.split(' ')
+  return scheme?.toLowerCase() === 'bearer' && token ? token : null
+}
+
+/**
+ * Sign-in token for /api/auth/signin and /api/auth/verify-otp, valid for 7 days
+ */
+export function createAuthToken(user: AuthTokenPayload): string {
+  return jwt.sign({ typ: AUTH_TOKEN_TYPE, userId: user.userId, email: user.email }, JWT_SECRET, { expiresIn: '7d' })
+}
+
+/**
+ * Verify a token issued by /api/auth/signin, returning null when invalid,
+ * expired or of another type. Sign-in tokens issued before the type claim
+ * have none, but always carry the email, which old click tokens never did.
+ */
+export function verifyAuthToken(token: string): AuthTokenPayload | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET)
+    if (
+      typeof payload === 'object' && payload &&
+      (payload.typ === undefined || payload.typ === AUTH_TOKEN_TYPE) &&
+      typeof payload.userId === 'string' &&
+      typeof payload.email === 'string'
+    ) {
+      return { userId: payload.userId, email: payload.email }
+    }
+    return null
+  } catch {
+    return null
+  }
+}
+
+const signClientId = (clientId: string) =>
+  createHmac('sha256', JWT_SECRET).update(`anonymous-client:${clientId}`).digest('base64url')
+
+/**
+ * Value for a new ANONYMOUS_CLIENT_COOKIE: a random client id and its signature
+ */
+export function createAnonymousClientCookie(): string {
+  const clientId = randomUUID()
+  return `${clientId}.${signClientId(clientId)}`
+}
+
+/**
+ * Client id from an ANONYMOUS_CLIENT_COOKIE value, or null when it's malformed
+ * or its signature doesn't match
+ */
+export function verifyAnonymousClientCookie(value: string): string | null {
+  const [clientId, signature] = value.split('.')
+  if (!clientId || !signature || !ANONYMOUS_CLIENT_ID.test(clientId)) return null
+
+  const expected = Buffer.from(signClientId(clientId))
+  const actual = Buffer.from(signature)
+  return actual.length === expected.length && timingSafeEqual(actual, expected) ? clientId : null
+}
+
+function getCookie(request: Request, name: string): string | null {
+  for (const pair of request.headers.get('cookie')?.split(';') ?? []) {
+    const [key, ...value] = pair.trim().split('=')
+    if (key === name) return value.join('=')
+  }
+  return null
+}
+
+/**
+ * True for ids from getRequestUserId that don't belong to a signed-in user
+ */
+export function isAnonymousUserId(userId: string): boolean {
+  return userId === ANONYMOUS_USER_ID || userId.startsWith(`${ANONYMOUS_USER_ID}:`)
+}
+
+/**
+ * Id of the signed-in user making the request; for signed-out requests,
+ * `anonymous:<client id>` from a valid ANONYMOUS_CLIENT_COOKIE, else
+ * ANONYMOUS_USER_ID
+ */
+export function getRequestUserId(request: Request): string {
+  const token = getBearerToken(request)
+  const payload = token ? verifyAuthToken(token) : null
+  if (payload) return payload.userId
+
+  const cookie = getCookie(request, ANONYMOUS_CLIENT_COOKIE)
+  const clientId = cookie ? verifyAnonymousClientCookie(cookie) : null
+  return clientId ? `${ANONYMOUS_USER_ID}:${clientId}` : ANONYMOUS_USER_ID
+}
@@ -44,6 +44,12 @@ export class AuthService {
     }
   }
 
+  // Authorization header for API routes that scope data to the signed-in user
+  static getAuthHeaders(): Record<string, string> {
+    const token = this.getToken()
+    return token ? { Authorization: `Bearer ${token}` } : {}
+  }
+
   static isAuthenticated(): boolean {
     return this.getToken() !== null && this.getUser() !== null
   }
@@ -1,5 +1,6 @@
 import { redis, generateKey, generateCacheHash, TTL } from './redis'
-import type { Product, SearchSettings, Setup } from '@/types'
+import type { ExchangeRateInfo, Product, SearchSettings, Setup } from '@/types'
+import type { SceneResponse } from '@/types/api'
 
 export interface CachedSearchResult {
   products: Product[]
@@ -26,6 +27,8 @@ export interface CachedSetup {
   totalCost: number
   settings: SearchSettings
   createdAt: string
+  exchangeRate?: ExchangeRateInfo
+  scenes?: SceneResponse[]
 }
 
 /**
@@ -137,6 +140,7 @@ function generateSearchCacheKey(query: string, settings: SearchSettings): string
     resultsMode: settings.resultsMode,
     region: settings.region,
     amazonOnly: settings.amazonOnly,
+    constraints: settings.constraints,
     cacheVersion: 'v2', // Version to avoid old cache conflicts
     timestamp: Math.floor(Date.now() / (1000 * 60 * 10)) // 10-minute cache buckets
   }
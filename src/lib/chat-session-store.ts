@@ -0,0 +1,126 @@
+import { redis, generateKey, TTL } from '@/lib/redis'
+import { InternalError } from '@/lib/errors'
+import { ChatSession } from '@/types/api'
+
+/**
+ * Storage for AI chat sessions, scoped per user. Sessions expire
+ * `ttlSeconds` after they were last saved, so an active conversation
+ * stays alive while abandoned ones clean themselves up.
+ */
+export interface ChatSessionStore {
+  readonly name: string
+  get(userId: string, sessionId: string): Promise<ChatSession | null>
+  // Creates or replaces the session, restarting its TTL
+  save(session: ChatSession): Promise<void>
+  delete(userId: string, sessionId: string): Promise<boolean>
+}
+
+export interface ChatSessionStoreOptions {
+  ttlSeconds?: number
+}
+
+export function generateChatSessionId(): string {
+  return `chat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * In-process store, used for tests and local development without Redis.
+ * `now` can be injected to exercise TTL expiry.
+ */
+export function createMemoryChatSessionStore(
+  options: ChatSessionStoreOptions & { now?: () => number } = {}
+): ChatSessionStore {
+  const ttlSeconds = options.ttlSeconds ?? TTL.CHAT_SESSION
+  const now = options.now ?? Date.now
+  const sessions = new Map<string, { session: ChatSession; expiresAt: number }>()
+  const key = (userId: string, sessionId: string) => `${userId}:${sessionId}`
+
+  return {
+    name: 'memory',
+
+    async get(userId, sessionId) {
+      const entry = sessions.get(key(userId, sessionId))
+      if (!entry) return null
+      if (entry.expiresAt <= now()) {
+        sessions.delete(key(userId, sessionId))
+        return null
+      }
+      // Copies keep callers from mutating the stored session in place
+      return structuredClone(entry.session)
+    },
+
+    async save(session) {
+      sessions.set(key(session.userId, session.id), {
+        session: structuredClone(session),
+        expiresAt: now() + ttlSeconds * 1000
+      })
+    },
+
+    async delete(userId, sessionId) {
+      return sessions.delete(key(userId, sessionId))
+    }
+  }
+}
+
+/**
+ * Redis-backed store: one key per session, holding the whole session as JSON
+ */
+export function createRedisChatSessionStore(options: ChatSessionStoreOptions = {}): ChatSessionStore {
+  const ttlSeconds = options.ttlSeconds ?? TTL.CHAT_SESSION
+  const sessionKey = (userId: string, sessionId: string) => generateKey('CHAT_SESSION', `${userId}:${sessionId}`)
+
+  return {
+    name: 'redis',
+
+    async get(userId, sessionId) {
+      const stored = await redis.get(sessionKey(userId, sessionId))
+      if (!stored) return null
+      // Upstash deserializes JSON automatically; plain strings come from older clients
+      return (typeof stored === 'string' ? JSON.parse(stored) : stored) as ChatSession
+    },
+
+    async save(session) {
+      await redis.set(sessionKey(session.userId, session.id), JSON.stringify(session), { ex: ttlSeconds })
+    },
+
+    async delete(userId, sessionId) {
+      return (await redis.del(sessionKey(userId, sessionId))) > 0
+    }
+  }
+}
+
+let activeStore: ChatSessionStore | null = null
+
+/**
+ * Name of the configured backend: CHAT_SESSION_STORE, else redis when
+ * Upstash credentials are present, else memory
+ */
+export function getChatSessionStoreName(): string {
+  const configured = process.env.CHAT_SESSION_STORE?.trim().toLowerCase()
+  if (configured) return configured
+  return process.env.UPSTASH_REDIS_REST_URL ? 'redis' : 'memory'
+}
+
+export function getChatSessionStore(): ChatSessionStore {
+  if (!activeStore) {
+    const name = getChatSessionStoreName()
+    if (name === 'redis') {
+      activeStore = createRedisChatSessionStore()
+    } else if (name === 'memory') {
+      activeStore = createMemoryChatSessionStore()
+    } else {
+      throw new InternalError(
+        `Unknown chat session store "${name}". Available: redis, memory`,
+        'UNKNOWN_CHAT_SESSION_STORE'
+      )
+    }
+  }
+  return activeStore
+}
+
+/**
+ * Replace the active store (e.g. with a fresh memory store in tests); pass null to reset
+ */
+export function setChatSessionStore(store: ChatSessionStore | null): void {
+  activeStore = store
+}
\ No newline at end of file
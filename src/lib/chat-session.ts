@@ -0,0 +1,392 @@
+// Multi-turn setup refinement for the AI chat (see lib/chat-session-store for storage)
+import { interpretRefinement } from '@/lib/api/gemini'
+import type { ProductSearchProvider } from '@/lib/api/search-provider'
+import { runBuildPipeline } from '@/lib/build-pipeline'
+import { getChatSessionStore, generateChatSessionId } from '@/lib/chat-session-store'
+import { formatCurrency } from '@/lib/currency'
+import { findAlternatives } from '@/lib/swap-pipeline'
+import { escapeRegExp } from '@/lib/utils'
+import { Product, SearchSettings } from '@/types'
+import {
+  AIChatRequest,
+  ChatSession,
+  ChatTurnResponse,
+  RoomAnalysis,
+  SetupChange,
+  SetupRefinement
+} from '@/types/api'
+
+export interface ChatSessionOptions {
+  // Resolved lazily, as in the build pipeline
+  getSearchClient: () => ProductSearchProvider
+  userId: string
+}
+
+export const DEFAULT_CHAT_BUDGET = 1000
+// Older turns are dropped from storage; the setup itself carries the state
+export const MAX_CHAT_MESSAGES = 50
+
+/**
+ * Search settings for the chat's form fields (setup type, currency, budget range)
+ */
+export function settingsFromChatRequest(request: AIChatRequest): SearchSettings {
+  const { setupType, currency, minBudget, maxBudget } = request
+  return {
+    style: setupType === 'premium' ? 'Premium' : 'Casual',
+    budget: maxBudget ?? (minBudget || DEFAULT_CHAT_BUDGET),
+    currency,
+    amazonOnly: false,
+    ...(setupType ? { setupType } : {}),
+    ...(minBudget !== undefined ? { minBudget } : {}),
+    ...(maxBudget !== undefined ? { maxBudget } : {})
+  }
+}
+
+const COLOURS = [
+  'white', 'black', 'grey', 'gray', 'silver', 'beige', 'brown', 'wood', 'oak', 'walnut',
+  'pink', 'red', 'orange', 'yellow', 'green', 'blue', 'navy', 'purple', 'rgb'
+]
+
+function mentionedCategories(text: string, categories: string[]): string[] {
+  return categories.filter(category => {
+    const name = category.toLowerCase()
+    // "chair" should find "Office Chair", and "chairs" should find "Chair".
+    // Names come from product titles and custom items, so "C++" is literal text.
+    const words = name.split(/\s+/)
+    return text.includes(name) || words.some(word =>
+      word.length > 2 && new RegExp(`(^|[^a-z0-9])${escapeRegExp(word)}s?($|[^a-z0-9])`).test(text)
+    )
+  })
+}
+
+/**
+ * Keyword interpretation of a follow-up, used when the model is unavailable
+ */
+export function parseRefinement(message: string, categories: string[]): SetupRefinement {
+  const text = message.toLowerCase().trim()
+  const mentioned = mentionedCategories(text, categories)
+  const budgetMatch = text.match(/(?:budget|under|max(?:imum)?|up to|within)\s*(?:of|to|is)?\s*[$€£₹¥]?\s*(\d[\d,]*(?:\.\d+)?)\s*(k\b)?/)
+  const budget = budgetMatch
+    ? Number(budgetMatch[1].replace(/,/g, '')) * (budgetMatch[2] ? 1000 : 1)
+    : undefined
+  const withBudget = (refinement: SetupRefinement): SetupRefinement =>
+    budget && budget > 0 ? { ...refinement, budget } : refinement
+
+  if (/\b(start over|from scratch|rebuild|something else entirely|different setup)\b/.test(text)) {
+    return withBudget({ action: 'rebuild', categories: [], constraints: [] })
+  }
+  if (/\b(drop|remove|delete|get rid of|no more|don't need|do not need|without)\b/.test(text)) {
+    return { action: 'remove', categories: mentioned, constraints: [] }
+  }
+  const addMatch = text.match(/\b(?:add|include|also (?:want|need))\s+(?:a |an |some |the )?([a-z][a-z\s-]*?)(?:\s+(?:too|as well|please))?[.!?]*$/)
+  if (addMatch) {
+    return withBudget({ action: 'add', categories: [addMatch[1].trim()], constraints: [] })
+  }
+  if (/\b(cheaper|less expensive|lower[- ]priced|save money|too expensive|costs? less)\b/.test(text)) {
+    return { action: 'cheaper', categories: mentioned, constraints: [] }
+  }
+  if (/\b(better|upgrade|nicer|higher[- ]end|more premium|fancier)\b/.test(text)) {
+    return withBudget({ action: 'upgrade', categories: mentioned, constraints: [] })
+  }
+
+  const colours = COLOURS.filter(colour => new RegExp(`\\b${colour}\\b`).test(text))
+  const styleMatch = text.match(/\b(?:make|turn|switch|change)\s+(?:it|everything|them|the setup|it all|them all)?\s*(?:all\s+)?(?:to\s+|into\s+)?([a-z][a-z\s-]*?)[.!?]*$/)
+  const constraint = colours.length > 0 ? colours.join(' ') : styleMatch?.[1]?.trim()
+  if (constraint) {
+    return withBudget({ action: 'restyle', categories: mentioned, constraints: [constraint] })
+  }
+
+  return withBudget({ action: budget ? 'rebuild' : 'none', categories: [], constraints: [] })
+}
+
+// Products from search may lack a category; the title is the next best label
+function categoryOf(product: Product): string {
+  return product.category || product.title
+}
+
+function setupTotal(products: Product[]): number {
+  return products.reduce((sum, product) => sum + product.price, 0)
+}
+
+function message(role: 'user' | 'assistant', content: string) {
+  return { role, content, createdAt: new Date().toISOString() }
+}
+
+function describeSetup(products: Product[], settings: SearchSettings): string {
+  const price = (amount: number) => formatCurrency(amount, settings.currency)
+  const lines = products.map(product => `• ${categoryOf(product)}: ${product.title} (${price(product.price)})`)
+  return [...lines, `Total: ${price(setupTotal(products))} of ${price(settings.budget)}`].join('\n')
+}
+
+function describeChanges(changes: SetupChange[], session: ChatSession): string {
+  const price = (amount: number) => formatCurrency(amount, session.settings.currency)
+  const lines = changes.map(change => {
+    switch (change.kind) {
+      case 'replaced':
+        return `• ${change.category}: swapped ${change.before!.title} (${price(change.before!.price)}) for ${change.after!.title} (${price(change.after!.price)})`
+      case 'removed':
+        return `• ${change.category}: removed ${change.before!.title}`
+      case 'added':
+        return `• ${change.category}: added ${change.after!.title} (${price(change.after!.price)})`
+      default:
+        return `• ${change.category}: kept as is${change.note ? ` - ${change.note}` : ''}`
+    }
+  })
+  if (lines.length === 0) {
+    return "I didn't change anything. Try something like \"cheaper chair\", \"drop the headset\" or \"make it all white\"."
+  }
+  return [...lines, `Total: ${price(setupTotal(session.products))} of ${price(session.settings.budget)}`].join('\n')
+}
+
+// Products of the setup a refinement targets; an empty list means all of them for restyles
+function targetProducts(products: Product[], refinement: SetupRefinement): Product[] {
+  if (refinement.categories.length === 0) {
+    return refinement.action === 'restyle' ? products : []
+  }
+  const wanted = refinement.categories.map(category => category.toLowerCase())
+  return products.filter(product => {
+    const category = categoryOf(product).toLowerCase()
+    return wanted.some(name => category === name || category.includes(name) || name.includes(category))
+  })
+}
+
+/**
+ * Find a replacement for one product through the swap pipeline, picking the
+ * best-ranked alternative that `accept` allows
+ */
+async function replaceProduct(
+  session: ChatSession,
+  product: Product,
+  budget: number,
+  accept: (candidate: Product) => boolean
+): Promise<Product | null> {
+  const { alternatives } = await findAlternatives({
+    productId: product.id,
+    category: categoryOf(product),
+    productTitle: product.title,
+    budget,
+    settings: {
+      style: session.settings.style,
+      currency: session.settings.currency,
+      region: session.settings.region ?? 'US',
+      amazonOnly: session.settings.amazonOnly,
+      constraints: session.settings.constraints
+    },
+    excludeIds: session.products.map(p => p.id),
+    constraints: session.constraints
+  })
+  const choice = alternatives.find(accept)
+  return choice ? { ...choice, category: categoryOf(product) } : null
+}
+
+async function swapProducts(
+  session: ChatSession,
+  targets: Product[],
+  refinement: SetupRefinement
+): Promise<SetupChange[]> {
+  const changes: SetupChange[] = []
+
+  // One at a time, so each pick sees the budget left by the previous ones
+  for (const product of targets) {
+    const headroom = Math.max(0, session.settings.budget - setupTotal(session.products))
+    const maxPrice = product.price + headroom
+    const { budget, accept, missing } = refinement.action === 'cheaper'
+      ? { budget: product.price, accept: (c: Product) => c.price < product.price, missing: `no cheaper ${categoryOf(product).toLowerCase()} found` }
+      : refinement.action === 'upgrade'
+        ? { budget: maxPrice, accept: (c: Product) => c.price > product.price && c.price <= maxPrice, missing: `no better option fits the budget` }
+        : { budget: maxPrice, accept: (c: Product) => c.price <= maxPrice, missing: `nothing matching "${session.constraints.join(', ')}" fits the budget` }
+
+    try {
+      const replacement = await replaceProduct(session, product, budget, accept)
+      if (!replacement) {
+        changes.push({ category: categoryOf(product), kind: 'unchanged', before: product, note: missing })
+        continue
+      }
+      session.products = session.products.map(p => (p.id === product.id ? replacement : p))
+      changes.push({ category: categoryOf(product), kind: 'replaced', before: product, after: replacement })
+    } catch (error) {
+      console.warn(`Chat refinement failed for "${categoryOf(product)}":`, error)
+      changes.push({ category: categoryOf(product), kind: 'unchanged', before: product, note: missing })
+    }
+  }
+
+  return changes
+}
+
+async function addProducts(session: ChatSession, categories: string[]): Promise<SetupChange[]> {
+  const changes: SetupChange[] = []
+
+  for (const category of categories) {
+    const remaining = session.settings.budget - setupTotal(session.products)
+    if (remaining <= 0) {
+      changes.push({ category, kind: 'unchanged', note: 'no budget left - raise the budget or make something cheaper first' })
+      continue
+    }
+
+    try {
+      const placeholder = { id: `new:${category}`, title: category, category, price: remaining } as Product
+      const added = await replaceProduct(session, placeholder, remaining, candidate => candidate.price <= remaining)
+      if (!added) {
+        changes.push({ category, kind: 'unchanged', note: 'nothing found within the remaining budget' })
+        continue
+      }
+      session.products = [...session.products, added]
+      changes.push({ category, kind: 'added', after: added })
+    } catch (error) {
+      console.warn(`Chat refinement failed to add "${category}":`, error)
+      changes.push({ category, kind: 'unchanged', note: 'nothing found within the remaining budget' })
+    }
+  }
+
+  return changes
+}
+
+function buildQuery(session: ChatSession): string {
+  return [...session.constraints, session.query].join(' ').slice(0, 200)
+}
+
+async function buildSetup(session: ChatSession, options: ChatSessionOptions): Promise<Product[]> {
+  const response = await runBuildPipeline(
+    {
+      query: buildQuery(session),
+      settings: session.settings,
+      ...(session.room ? { room: session.room } : {})
+    },
+    options
+  )
+  return response.products
+}
+
+// Changes between two complete setups, matched by category
+function diffSetups(before: Product[], after: Product[]): SetupChange[] {
+  const changes: SetupChange[] = after.map(product => {
+    const previous = before.find(p => categoryOf(p) === categoryOf(product))
+    return previous
+      ? { category: categoryOf(product), kind: 'replaced' as const, before: previous, after: product }
+      : { category: categoryOf(product), kind: 'added' as const, after: product }
+  })
+  for (const product of before) {
+    if (!after.some(p => categoryOf(p) === categoryOf(product))) {
+      changes.push({ category: categoryOf(product), kind: 'removed', before: product })
+    }
+  }
+  return changes
+}
+
+/**
+ * Apply a refinement to the session in place, changing only the categories it
+ * targets: swaps go through the swap pipeline, rebuilds through the build pipeline.
+ */
+export async function applyRefinement(
+  session: ChatSession,
+  refinement: SetupRefinement,
+  options: ChatSessionOptions
+): Promise<SetupChange[]> {
+  if (refinement.budget) {
+    session.settings = { ...session.settings, budget: refinement.budget, maxBudget: refinement.budget }
+  }
+  for (const constraint of refinement.constraints) {
+    if (!session.constraints.some(existing => existing.toLowerCase() === constraint.toLowerCase())) {
+      session.constraints = [...session.constraints, constraint]
+    }
+  }
+
+  switch (refinement.action) {
+    case 'remove': {
+      const removed = targetProducts(session.products, refinement)
+      session.products = session.products.filter(product => !removed.includes(product))
+      return removed.map(product => ({ category: categoryOf(product), kind: 'removed' as const, before: product }))
+    }
+    case 'add': {
+      const existing = targetProducts(session.products, refinement).map(product => categoryOf(product).toLowerCase())
+      return addProducts(session, refinement.categories.filter(category => !existing.includes(category.toLowerCase())))
+    }
+    case 'cheaper':
+    case 'upgrade':
+    case 'restyle':
+      return swapProducts(session, targetProducts(session.products, refinement), refinement)
+    case 'rebuild': {
+      const before = session.products
+      session.products = await buildSetup(session, options)
+      return diffSetups(before, session.products)
+    }
+    default:
+      return []
+  }
+}
+
+async function interpret(session: ChatSession, text: string): Promise<SetupRefinement> {
+  const categories = session.products.map(product => categoryOf(product))
+  try {
+    return await interpretRefinement(text, {
+      categories,
+      constraints: session.constraints,
+      budget: session.settings.budget
+    })
+  } catch (error) {
+    console.warn('Refinement interpretation failed, using keyword matching:', error)
+    return parseRefinement(text, categories)
+  }
+}
+
+function recordTurn(session: ChatSession, userText: string, reply: string) {
+  session.messages = [...session.messages, message('user', userText), message('assistant', reply)].slice(-MAX_CHAT_MESSAGES)
+  session.updatedAt = new Date().toISOString()
+}
+
+/**
+ * Start a session: build the first setup for the message (and room photos, if
+ * any were analysed) and store the conversation
+ */
+export async function startChatSession(
+  request: { message: string; settings: SearchSettings; room: RoomAnalysis | null },
+  options: ChatSessionOptions
+): Promise<ChatTurnResponse> {
+  const now = new Date().toISOString()
+  const session: ChatSession = {
+    id: generateChatSessionId(),
+    userId: options.userId,
+    query: request.message || `${request.room?.roomType ?? 'room'} setup`,
+    settings: request.settings,
+    room: request.room,
+    products: [],
+    constraints: [],
+    messages: [],
+    createdAt: now,
+    updatedAt: now
+  }
+
+  session.products = await buildSetup(session, options)
+
+  const reply = session.products.length > 0
+    ? `Here's a ${session.settings.style.toLowerCase()} setup${session.room ? ` for your ${session.room.roomType}` : ''}:\n${describeSetup(session.products, session.settings)}\n\nTell me what to change, e.g. "cheaper chair" or "make it all white".`
+    : 'I couldn\'t find products for that within the budget. Try a broader request or a higher budget.'
+  recordTurn(session, request.message, reply)
+  await getChatSessionStore().save(session)
+
+  return {
+    session,
+    reply,
+    refinement: null,
+    changes: session.products.map(product => ({ category: categoryOf(product), kind: 'added' as const, after: product }))
+  }
+}
+
+/**
+ * Handle a follow-up message: interpret it, change only the affected
+ * categories, and store the updated session
+ */
+export async function continueChatSession(
+  session: ChatSession,
+  text: string,
+  options: ChatSessionOptions
+): Promise<ChatTurnResponse> {
+  const refinement = await interpret(session, text)
+  const changes = await applyRefinement(session, refinement, options)
+
+  const reply = describeChanges(changes, session)
+  recordTurn(session, text, reply)
+  await getChatSessionStore().save(session)
+
+  return { session, reply, refinement, changes }
+}
\ No newline at end of file
@@ -0,0 +1,85 @@
+// Tracked outbound links: /api/go/{token} logs the click, then redirects to the merchant
+import jwt from 'jsonwebtoken'
+import { toAnalyticsProduct } from '@/lib/analytics'
+import type { Product } from '@/types'
+import type { AnalyticsProduct } from '@/types/api'
+
+// Tells click tokens apart from sign-in tokens (see verifyAuthToken)
+export const CLICK_TOKEN_TYPE = 'click'
+
+/**
+ * Where a tracked link leads and what a click on it is logged as. Signed, so
+ * the redirect can't be pointed anywhere else. Links end up in shared setups,
+ * so they say nothing about the user they were made for.
+ */
+export interface ClickTarget {
+  url: string
+  product: AnalyticsProduct
+  searchId?: string
+}
+
+export interface ClickContext {
+  searchId?: string
+}
+
+/**
+ * CLICK_TOKEN_SECRET; null when unset. Deliberately no fallback to JWT_SECRET:
+ * click links are public, so they must never be signed like sign-in tokens.
+ */
+export function getClickTokenSecret(): string | null {
+  return process.env.CLICK_TOKEN_SECRET || null
+}
+
+// Null when click tracking isn't configured
+export function createClickToken(target: ClickTarget): string | null {
+  const secret = getClickTokenSecret()
+  if (!secret) return null
+  return jwt.sign({ typ: CLICK_TOKEN_TYPE, ...target }, secret, { noTimestamp: true })
+}
+
+/**
+ * The target of a token made by createClickToken, or null when it was altered
+ * or isn't a click token
+ */
+export function verifyClickToken(token: string): ClickTarget | null {
+  const secret = getClickTokenSecret()
+  if (!secret) return null
+
+  try {
+    const payload = jwt.verify(token, secret)
+    if (typeof payload === 'object' && payload && payload.typ === CLICK_TOKEN_TYPE && typeof payload.url === 'string') {
+      return {
+        url: payload.url,
+        product: payload.product,
+        ...(typeof payload.searchId === 'string' && { searchId: payload.searchId })
+      }
+    }
+    return null
+  } catch {
+    return null
+  }
+}
+
+const isWebUrl = (url: string) => /^https?:\/\//i.test(url)
+
+/**
+ * Tracked link for a product, or undefined when it has no web link (custom
+ * items added without one) or CLICK_TOKEN_SECRET is unset
+ */
+export function getClickUrl(product: Product, context: ClickContext = {}): string | undefined {
+  if (!isWebUrl(product.productUrl)) return undefined
+
+  const token = createClickToken({
+    url: product.productUrl,
+    product: toAnalyticsProduct(product),
+    ...(context.searchId && { searchId: context.searchId })
+  })
+  return token ? `/api/go/${token}` : undefined
+}
+
+export function withClickUrls(products: Product[], context: ClickContext = {}): Product[] {
+  return products.map(product => {
+    const clickUrl = getClickUrl(product, context)
+    return clickUrl ? { ...product, clickUrl } : product
+  })
+}
\ No newline at end of file
@@ -0,0 +1,182 @@
+// Side-by-side product comparison for /api/compare
+import { extractComparisonSpecs } from '@/lib/api/gemini'
+import { convertCurrency, isSupportedCurrency, SupportedCurrency } from '@/lib/currency'
+import type { Product } from '@/types'
+import type { CompareResponse, ComparisonRow, ComparisonSpec, ComparisonValue } from '@/types/api'
+
+export interface CompareOptions {
+  // Currency prices are shown in; defaults to the first product's
+  currency?: SupportedCurrency
+  // Ask the model for specs, falling back to the listing patterns below
+  extractSpecs?: boolean
+  extract?: (products: Product[]) => Promise<ComparisonSpec[]>
+}
+
+export const MIN_COMPARE_PRODUCTS = 2
+export const MAX_COMPARE_PRODUCTS = 6
+
+interface SpecPattern {
+  key: string
+  label: string
+  unit: string
+  better: ComparisonSpec['better']
+  pattern: RegExp
+  // Converts a match into `unit`
+  read: (match: RegExpMatchArray) => number | null
+}
+
+const RESOLUTIONS: Record<string, number> = { '4k': 2160, uhd: 2160, '1440p': 1440, qhd: 1440, '1080p': 1080, fhd: 1080 }
+
+// Specs listings state in a predictable form, read from titles and features
+const SPEC_PATTERNS: SpecPattern[] = [
+  {
+    key: 'screenSize', label: 'Screen size', unit: 'in', better: null,
+    pattern: /(\d{2}(?:\.\d+)?)\s*(?:"|”|-?\s?inch(?:es)?\b|-?in\b)/i,
+    read: match => Number(match[1])
+  },
+  {
+    key: 'resolution', label: 'Resolution', unit: 'p', better: 'higher',
+    pattern: /\b(4k|uhd|1440p|qhd|1080p|fhd)\b/i,
+    read: match => RESOLUTIONS[match[1].toLowerCase()] ?? null
+  },
+  {
+    key: 'refreshRate', label: 'Refresh rate', unit: 'Hz', better: 'higher',
+    pattern: /(\d{2,3})\s*hz\b/i,
+    read: match => Number(match[1])
+  },
+  {
+    key: 'capacity', label: 'Capacity', unit: 'GB', better: 'higher',
+    pattern: /(\d+(?:\.\d+)?)\s*(tb|gb)\b/i,
+    read: match => Number(match[1]) * (match[2].toLowerCase() === 'tb' ? 1024 : 1)
+  },
+  {
+    key: 'battery', label: 'Battery', unit: 'mAh', better: 'higher',
+    pattern: /(\d{3,5})\s*mah\b/i,
+    read: match => Number(match[1])
+  },
+  {
+    key: 'power', label: 'Power', unit: 'W', better: null,
+    pattern: /(\d+(?:\.\d+)?)\s*(?:w|watts?)\b/i,
+    read: match => Number(match[1])
+  },
+  {
+    key: 'weight', label: 'Weight', unit: 'kg', better: 'lower',
+    pattern: /(\d+(?:\.\d+)?)\s*(kg|lbs?|pounds?)\b/i,
+    read: match => {
+      const amount = Number(match[1])
+      return Math.round((match[2].toLowerCase() === 'kg' ? amount : amount * 0.4536) * 100) / 100
+    }
+  }
+]
+
+function slugify(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+(.)?/g, (_, next: string | undefined) => next?.toUpperCase() ?? '')
+}
+
+/**
+ * Specs found in the products' titles and features with SPEC_PATTERNS. Only
+ * specs at least one product states are returned.
+ */
+export function extractListingSpecs(products: Product[]): Array<ComparisonSpec & { key: string }> {
+  return SPEC_PATTERNS.flatMap(({ key, label, unit, better, pattern, read }) => {
+    const values = products.map(product => {
+      const match = [product.title, ...product.features].join(' · ').match(pattern)
+      const value = match ? read(match) : null
+      return value !== null && Number.isFinite(value) && value > 0 ? value : null
+    })
+    return values.some(value => value !== null) ? [{ key, label, unit, better, values }] : []
+  })
+}
+
+function rankValue(value: ComparisonValue): number | null {
+  if (typeof value === 'number') return value
+  if (Array.isArray(value)) return value.length
+  return null
+}
+
+/**
+ * ID of the product with the best value, or null on a tie, for unranked
+ * attributes and when fewer than two products have a value to rank
+ */
+export function pickWinner(
+  values: ComparisonValue[],
+  better: ComparisonSpec['better'],
+  productIds: string[]
+): string | null {
+  if (!better) return null
+
+  const ranked = values.flatMap((value, i) => {
+    const rank = rankValue(value)
+    return rank === null ? [] : [{ id: productIds[i], rank }]
+  })
+  if (ranked.length < MIN_COMPARE_PRODUCTS) return null
+
+  const best = better === 'higher'
+    ? Math.max(...ranked.map(item => item.rank))
+    : Math.min(...ranked.map(item => item.rank))
+  const leaders = ranked.filter(item => item.rank === best)
+  return leaders.length === 1 ? leaders[0].id : null
+}
+
+function priceIn(product: Product, currency: SupportedCurrency): number | null {
+  if (product.currency === currency) return product.price
+  return isSupportedCurrency(product.currency) ? convertCurrency(product.price, product.currency, currency) : null
+}
+
+async function extractSpecs(products: Product[], options: CompareOptions): Promise<{
+  specs: Array<ComparisonSpec & { key: string }>
+  source: CompareResponse['specsSource']
+}> {
+  if (options.extractSpecs) {
+    try {
+      const specs = await (options.extract ?? extractComparisonSpecs)(products)
+      if (specs.length > 0) {
+        return { specs: specs.map(spec => ({ ...spec, key: slugify(spec.label) })), source: 'model' }
+      }
+    } catch (error) {
+      console.warn('Spec extraction failed, reading specs from the listings:', error)
+    }
+  }
+  return { specs: extractListingSpecs(products), source: 'listing' }
+}
+
+/**
+ * Align the products' price, rating, reviews, features, pros, cons and specs
+ * into rows, each with the product that wins it
+ */
+export async function compareProducts(products: Product[], options: CompareOptions = {}): Promise<CompareResponse> {
+  const firstCurrency = products[0]?.currency
+  const currency = options.currency ?? (firstCurrency && isSupportedCurrency(firstCurrency) ? firstCurrency : 'USD')
+  const productIds = products.map(product => product.id)
+
+  const overview: Array<ComparisonSpec & { key: string }> = [
+    { key: 'price', label: 'Price', unit: currency, better: 'lower', values: products.map(product => priceIn(product, currency)) },
+    { key: 'rating', label: 'Rating', unit: null, better: 'higher', values: products.map(product => product.rating) },
+    { key: 'reviewCount', label: 'Reviews', unit: null, better: 'higher', values: products.map(product => product.reviewCount) },
+    { key: 'merchant', label: 'Merchant', unit: null, better: null, values: products.map(product => product.merchant) },
+    { key: 'features', label: 'Features', unit: null, better: null, values: products.map(product => product.features) },
+    { key: 'pros', label: 'Pros', unit: null, better: 'higher', values: products.map(product => product.pros) },
+    { key: 'cons', label: 'Cons', unit: null, better: 'lower', values: products.map(product => product.cons) }
+  ]
+  const { specs, source } = await extractSpecs(products, options)
+
+  const toRow = (group: ComparisonRow['group']) => (spec: ComparisonSpec & { key: string }): ComparisonRow => ({
+    key: spec.key,
+    group,
+    label: spec.label,
+    unit: spec.unit,
+    better: spec.better,
+    values: spec.values,
+    winnerId: pickWinner(spec.values, spec.better, productIds)
+  })
+  // The model is told not to repeat overview attributes, but may anyway
+  const extraSpecs = specs.filter(spec => !overview.some(row => row.key === spec.key))
+  const rows = [...overview.map(toRow('overview')), ...extraSpecs.map(toRow('specs'))]
+
+  const wins = Object.fromEntries(productIds.map(id => [id, 0]))
+  for (const row of rows) {
+    if (row.winnerId) wins[row.winnerId]++
+  }
+
+  return { products, currency, rows, wins, specsSource: source }
+}
\ No newline at end of file
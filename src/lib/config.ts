@@ -10,12 +10,41 @@ export const APP_CONFIG = {
 export const API_CONFIG = {
   timeout: 30000, // 30 seconds
   retries: 3,
+  // Sliding-window limits per signed-in user, or per IP address for everyone else
   rateLimit: {
     requests: 100,
     window: 60000, // 1 minute
+    // Routes that spend SerpAPI and Gemini quota get their own, lower limits
+    routes: {
+      search: { requests: 30, window: 60000 },
+      build: { requests: 10, window: 60000 },
+      reroll: { requests: 10, window: 60000 },
+      swap: { requests: 20, window: 60000 },
+      // Adding a category to a setup searches and ranks like a swap
+      'setup-add': { requests: 20, window: 60000 },
+      plan: { requests: 20, window: 60000 },
+      rank: { requests: 20, window: 60000 },
+      compare: { requests: 20, window: 60000 },
+      'ai-chat': { requests: 20, window: 60000 },
+      'ai-scene': { requests: 5, window: 60000 },
+    },
   },
 } as const
 
+// Estimated USD prices of upstream calls, by service (see lib/upstream-usage).
+// Services not listed, like self-hosted LLMs, are counted at no cost.
+export const UPSTREAM_PRICING: Record<string, { perCall?: number; perMillionInputTokens?: number; perMillionOutputTokens?: number }> = {
+  // Developer plan: $75 for 5,000 searches
+  serpapi: { perCall: 0.015 },
+  // gemini-2.0-flash
+  gemini: { perMillionInputTokens: 0.1, perMillionOutputTokens: 0.4 },
+  // Image output is billed at $30 per million tokens (~1,290 tokens per image)
+  'gemini-image': { perMillionInputTokens: 0.1, perMillionOutputTokens: 30 },
+}
+
+// Percentages of UPSTREAM_DAILY_BUDGET_USD that alert the admins, once per day each
+export const UPSTREAM_BUDGET_ALERT_THRESHOLDS = [80, 100] as const
+
 export const GHOST_TIPS = [
   "Chairs with lumbar support are trending today 👻",
   "Pro tip: Check reviews for durability insights 👻",
@@ -1,4 +1,5 @@
 // Currency conversion and formatting utilities
+import type { ExchangeRateInfo } from '@/types'
 
 export type SupportedCurrency = 'USD' | 'EUR' | 'GBP' | 'INR' | 'CAD' | 'AUD' | 'JPY' | 'CNY' | 'BRL' | 'MXN'
 
@@ -30,7 +31,7 @@ export const CURRENCY_NAMES: Record<SupportedCurrency, string> = {
   MXN: 'Mexican Peso'
 }
 
-// Approximate exchange rates (in production, these should come from a real API)
+// Approximate exchange rates, used until live rates are loaded (see lib/exchange-rates)
 // Base currency: USD
 export const EXCHANGE_RATES: Record<SupportedCurrency, number> = {
   USD: 1.0,
@@ -45,6 +46,48 @@ export const EXCHANGE_RATES: Record<SupportedCurrency, number> = {
   MXN: 17.0
 }
 
+// A full set of USD-based rates and where they came from
+export interface ExchangeRateSnapshot {
+  rates: Record<SupportedCurrency, number>
+  source: string
+  // ISO timestamp of the fetch; null for the static table
+  updatedAt: string | null
+}
+
+export const STATIC_EXCHANGE_RATES: ExchangeRateSnapshot = {
+  rates: EXCHANGE_RATES,
+  source: 'static',
+  updatedAt: null
+}
+
+let currentRates: ExchangeRateSnapshot = STATIC_EXCHANGE_RATES
+
+/**
+ * Rates used by convertCurrency and friends
+ */
+export function getCurrentExchangeRates(): ExchangeRateSnapshot {
+  return currentRates
+}
+
+/**
+ * Install a fresh set of rates for conversions; pass null to go back to the static table
+ */
+export function setCurrentExchangeRates(snapshot: ExchangeRateSnapshot | null): void {
+  currentRates = snapshot ?? STATIC_EXCHANGE_RATES
+}
+
+/**
+ * The current USD rate for a currency, in the form recorded on setups
+ */
+export function getExchangeRateInfo(currency: SupportedCurrency): ExchangeRateInfo {
+  return {
+    currency,
+    rate: currentRates.rates[currency],
+    source: currentRates.source,
+    updatedAt: currentRates.updatedAt
+  }
+}
+
 // Regional currency defaults
 export const REGION_CURRENCY_MAP: Record<string, SupportedCurrency> = {
   US: 'USD',
@@ -72,8 +115,9 @@ export function convertCurrency(
   }
   
   // Convert to USD first, then to target currency
-  const usdAmount = amount / EXCHANGE_RATES[fromCurrency]
-  const convertedAmount = usdAmount * EXCHANGE_RATES[toCurrency]
+  const { rates } = currentRates
+  const usdAmount = amount / rates[fromCurrency]
+  const convertedAmount = usdAmount * rates[toCurrency]
   
   return Math.round(convertedAmount * 100) / 100 // Round to 2 decimal places
 }
@@ -251,6 +295,32 @@ export function getSupportedCurrencies(): Array<{
   }))
 }
 
+/**
+ * Express a listed price in `currency`, keeping the price it was listed at in
+ * originalPrice/originalCurrency. Items without a currency are assumed to be
+ * quoted in `currency` already; returns null when the listed currency isn't
+ * one we can convert.
+ */
+export function normalizeProductCurrency<
+  T extends { price?: number; currency?: string; originalPrice?: number; originalCurrency?: string }
+>(item: T, currency: SupportedCurrency): T | null {
+  const listedCurrency = item.currency?.trim().toUpperCase() || currency
+  if (listedCurrency === currency || typeof item.price !== 'number') {
+    return { ...item, currency }
+  }
+  if (!isSupportedCurrency(listedCurrency)) {
+    return null
+  }
+
+  return {
+    ...item,
+    price: convertCurrency(item.price, listedCurrency, currency),
+    currency,
+    originalPrice: item.price,
+    originalCurrency: listedCurrency
+  }
+}
+
 /**
  * Calculate total cost in a specific currency
  */
@@ -1,4 +1,6 @@
 import nodemailer from 'nodemailer'
+import { formatCurrency, isSupportedCurrency } from '@/lib/currency'
+import type { PriceDropAlert } from '@/lib/price-tracker'
 
 // Create Gmail transporter
 const createTransporter = () => {
@@ -117,4 +119,102 @@ export async function sendOTPEmail(email: string, otp: string, name: string) {
   } catch (error: any) {
     throw error
   }
+}
+
+const formatPrice = (amount: number, currency: string) =>
+  isSupportedCurrency(currency) ? formatCurrency(amount, currency) : `${amount.toFixed(2)} ${currency}`
+
+// Tell a user that products in one of their saved searches got cheaper
+export async function sendPriceDropEmail(
+  email: string,
+  name: string,
+  alert: Pick<PriceDropAlert, 'query' | 'drops'>
+) {
+  if (!process.env.GMAIL_USER || !process.env.GMAIL_APP_PASSWORD) {
+    throw new Error('Gmail credentials not configured. Please set GMAIL_USER and GMAIL_APP_PASSWORD in your .env.local file.')
+  }
+
+  const transporter = createTransporter()
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'
+  const itemCount = alert.drops.length === 1 ? '1 item' : `${alert.drops.length} items`
+
+  const rows = alert.drops.map(drop => `
+            <tr>
+              <td style="padding:8px 0"><a href="${drop.productUrl}">${drop.title}</a></td>
+              <td style="padding:8px 0;text-align:right;white-space:nowrap">
+                <s style="color:#777e8e">${formatPrice(drop.savedPrice, drop.currency)}</s>
+                <strong>${formatPrice(drop.price, drop.currency)}</strong> (-${drop.dropPercent}%)
+              </td>
+            </tr>`).join('')
+
+  const info = await transporter.sendMail({
+    from: `"Ghost Setup Finder" <${process.env.GMAIL_USER}>`,
+    to: email,
+    subject: `Price drop: ${itemCount} in "${alert.query}" got cheaper`,
+    html: `
+      <!doctype html>
+      <html lang="en">
+      <body style="margin:0;padding:24px;background:#f6f7fb;font:400 15px/1.6 system-ui, -apple-system, 'Segoe UI', Roboto, Arial;color:#141414">
+        <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:14px;border:1px solid #eceef3;padding:24px">
+          <h1 style="margin:0 0 8px;font-size:20px">👻 Prices dropped</h1>
+          <p style="color:#5f6677">Hi ${name}, ${itemCount} in your saved setup <strong>${alert.query}</strong> got cheaper.</p>
+          <table role="presentation" style="width:100%;border-collapse:collapse">${rows}
+          </table>
+          <p style="font-size:13px;color:#777e8e">Manage alerts from your <a href="${baseUrl}/saved-lists">saved searches</a>.</p>
+        </div>
+      </body>
+      </html>
+    `,
+    text: [
+      `Hi ${name},`,
+      '',
+      `${itemCount} in your saved setup "${alert.query}" got cheaper:`,
+      ...alert.drops.map(drop =>
+        `- ${drop.title}: ${formatPrice(drop.savedPrice, drop.currency)} -> ${formatPrice(drop.price, drop.currency)} (-${drop.dropPercent}%) ${drop.productUrl}`
+      ),
+      '',
+      'Ghost Setup Finder Team'
+    ].join('\n')
+  })
+
+  return { success: true, messageId: info.messageId }
+}
+
+// Tell the admins that upstream API spend reached a share of the daily budget
+export async function sendUsageBudgetAlertEmail(
+  emails: string[],
+  alert: { day: string; spent: number; budget: number; threshold: number }
+) {
+  if (!process.env.GMAIL_USER || !process.env.GMAIL_APP_PASSWORD) {
+    throw new Error('Gmail credentials not configured. Please set GMAIL_USER and GMAIL_APP_PASSWORD in your .env.local file.')
+  }
+
+  const transporter = createTransporter()
+  const spent = formatCurrency(alert.spent, 'USD')
+  const budget = formatCurrency(alert.budget, 'USD')
+
+  const info = await transporter.sendMail({
+    from: `"Ghost Setup Finder" <${process.env.GMAIL_USER}>`,
+    to: emails.join(', '),
+    subject: `Upstream spend at ${alert.threshold}% of the daily budget (${alert.day})`,
+    html: `
+      <!doctype html>
+      <html lang="en">
+      <body style="margin:0;padding:24px;background:#f6f7fb;font:400 15px/1.6 system-ui, -apple-system, 'Segoe UI', Roboto, Arial;color:#141414">
+        <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:14px;border:1px solid #eceef3;padding:24px">
+          <h1 style="margin:0 0 8px;font-size:20px">👻 Upstream budget alert</h1>
+          <p style="color:#5f6677">Estimated SerpAPI and LLM spend for ${alert.day} (UTC) is <strong>${spent}</strong>, ${alert.threshold}% of the ${budget} daily budget.</p>
+          <p style="font-size:13px;color:#777e8e">See <code>GET /api/admin/usage</code> for the breakdown.</p>
+        </div>
+      </body>
+      </html>
+    `,
+    text: [
+      `Estimated SerpAPI and LLM spend for ${alert.day} (UTC) is ${spent}, ${alert.threshold}% of the ${budget} daily budget.`,
+      '',
+      'See GET /api/admin/usage for the breakdown.'
+    ].join('\n')
+  })
+
+  return { success: true, messageId: info.messageId }
 }
\ No newline at end of file
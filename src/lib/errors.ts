@@ -122,6 +122,54 @@ export class InternalError extends Error {
   }
 }
 
+export class AuthenticationError extends Error {
+  public readonly type = ErrorType.AUTHENTICATION_ERROR
+  public readonly retryable = false
+  public readonly code: string
+  public readonly details?: unknown
+
+  constructor(message: string, code: string = 'AUTHENTICATION_REQUIRED', details?: unknown) {
+    super(message)
+    this.name = 'AuthenticationError'
+    this.code = code
+    this.details = details
+  }
+
+  toAPIError(): APIError {
+    return {
+      type: this.type,
+      message: this.message,
+      code: this.code,
+      details: this.details,
+      retryable: this.retryable
+    }
+  }
+}
+
+export class AuthorizationError extends Error {
+  public readonly type = ErrorType.AUTHORIZATION_ERROR
+  public readonly retryable = false
+  public readonly code: string
+  public readonly details?: unknown
+
+  constructor(message: string, code: string = 'FORBIDDEN', details?: unknown) {
+    super(message)
+    this.name = 'AuthorizationError'
+    this.code = code
+    this.details = details
+  }
+
+  toAPIError(): APIError {
+    return {
+      type: this.type,
+      message: this.message,
+      code: this.code,
+      details: this.details,
+      retryable: this.retryable
+    }
+  }
+}
+
 // Error handling utilities
 export function createAPIError(
   type: ErrorType,
@@ -139,6 +187,24 @@ export function createAPIError(
   }
 }
 
+// Convert any thrown value into a client-safe APIError payload
+export function toClientAPIError(error: unknown): APIError {
+  if (error instanceof ValidationError ||
+      error instanceof ExternalAPIError ||
+      error instanceof RateLimitError ||
+      error instanceof NetworkError ||
+      error instanceof InternalError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError) {
+    const apiError = error.toAPIError()
+    return { ...apiError, message: getUserFriendlyMessage(apiError), details: undefined }
+  }
+
+  const message = error instanceof Error ? error.message : 'An unexpected error occurred'
+  const apiError = new InternalError(message, 'UNKNOWN_ERROR').toAPIError()
+  return { ...apiError, message: getUserFriendlyMessage(apiError) }
+}
+
 export function handleZodError(error: any): ValidationError {
   const issues = error.issues || []
   const messages = issues.map((issue: any) => `${issue.path.join('.')}: ${issue.message}`)
@@ -222,6 +288,12 @@ export function getUserFriendlyMessage(error: APIError): string {
     case ErrorType.INTERNAL_ERROR:
       return 'Something went wrong on our end. Please try again later.'
     
+    case ErrorType.AUTHENTICATION_ERROR:
+      return 'Please sign in to continue.'
+    
+    case ErrorType.AUTHORIZATION_ERROR:
+      return "You don't have permission to do that."
+    
     default:
       return 'An unexpected error occurred. Please try again.'
   }
@@ -280,7 +352,9 @@ export function handleAPIError(error: unknown): Response {
       error instanceof ExternalAPIError || 
       error instanceof RateLimitError || 
       error instanceof NetworkError || 
-      error instanceof InternalError) {
+      error instanceof InternalError ||
+      error instanceof AuthenticationError ||
+      error instanceof AuthorizationError) {
     const apiError = error.toAPIError()
     const status = getStatusFromErrorType(apiError.type)
     
@@ -343,6 +417,10 @@ function getStatusFromErrorType(type: ErrorType): number {
       return 503
     case ErrorType.INTERNAL_ERROR:
       return 500
+    case ErrorType.AUTHENTICATION_ERROR:
+      return 401
+    case ErrorType.AUTHORIZATION_ERROR:
+      return 403
     default:
       return 500
   }
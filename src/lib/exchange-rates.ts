@@ -0,0 +1,213 @@
+import { redis, generateKey, TTL } from '@/lib/redis'
+import { ExternalAPIError, InternalError } from '@/lib/errors'
+import {
+  EXCHANGE_RATES,
+  ExchangeRateSnapshot,
+  STATIC_EXCHANGE_RATES,
+  SupportedCurrency,
+  setCurrentExchangeRates
+} from '@/lib/currency'
+
+/**
+ * A source of USD-based exchange rates for every supported currency
+ */
+export interface ExchangeRateProvider {
+  readonly name: string
+  fetchRates(): Promise<Record<SupportedCurrency, number>>
+}
+
+/**
+ * Where the last fetched snapshot is kept between refreshes
+ */
+export interface ExchangeRateCache {
+  readonly name: string
+  get(): Promise<ExchangeRateSnapshot | null>
+  set(snapshot: ExchangeRateSnapshot): Promise<void>
+}
+
+export const DEFAULT_REFRESH_SECONDS = 60 * 60 * 6 // 6 hours
+
+const SUPPORTED_CURRENCIES = Object.keys(EXCHANGE_RATES) as SupportedCurrency[]
+
+/**
+ * The hard-coded table, for offline development and tests
+ */
+export function createStaticExchangeRateProvider(): ExchangeRateProvider {
+  return {
+    name: 'static',
+    async fetchRates() {
+      return { ...EXCHANGE_RATES }
+    }
+  }
+}
+
+/**
+ * Fetches `{ rates: { EUR: 0.92, ... } }` with USD as the base, the shape
+ * returned by open.er-api.com and most free rate APIs
+ */
+export function createHttpExchangeRateProvider(url: string): ExchangeRateProvider {
+  return {
+    name: 'http',
+    async fetchRates() {
+      const response = await fetch(url, { headers: { Accept: 'application/json' } })
+      if (!response.ok) {
+        throw new ExternalAPIError(`Exchange rate API returned ${response.status}`, 'EXCHANGE_RATE_API_FAILED')
+      }
+
+      const data = await response.json()
+      const rates: Partial<Record<SupportedCurrency, number>> = {}
+      for (const currency of SUPPORTED_CURRENCIES) {
+        const rate = currency === 'USD' ? 1 : Number(data?.rates?.[currency])
+        if (!Number.isFinite(rate) || rate <= 0) {
+          throw new ExternalAPIError(`Exchange rate API has no rate for ${currency}`, 'EXCHANGE_RATE_MISSING', false)
+        }
+        rates[currency] = rate
+      }
+      return rates as Record<SupportedCurrency, number>
+    }
+  }
+}
+
+export function createMemoryExchangeRateCache(): ExchangeRateCache {
+  let stored: ExchangeRateSnapshot | null = null
+
+  return {
+    name: 'memory',
+    async get() {
+      return stored
+    },
+    async set(snapshot) {
+      stored = snapshot
+    }
+  }
+}
+
+/**
+ * Shares rates across instances so each refresh interval costs one API call
+ */
+export function createRedisExchangeRateCache(): ExchangeRateCache {
+  const key = generateKey('EXCHANGE_RATES', 'usd')
+
+  return {
+    name: 'redis',
+    async get() {
+      const stored = await redis.get(key)
+      if (!stored) return null
+      return (typeof stored === 'string' ? JSON.parse(stored) : stored) as ExchangeRateSnapshot
+    },
+    async set(snapshot) {
+      await redis.setex(key, TTL.EXCHANGE_RATES, JSON.stringify(snapshot))
+    }
+  }
+}
+
+/**
+ * Name of the configured rate source: EXCHANGE_RATE_PROVIDER, else http when
+ * EXCHANGE_RATE_API_URL is set, else static
+ */
+export function getExchangeRateProviderName(): string {
+  const configured = process.env.EXCHANGE_RATE_PROVIDER?.trim().toLowerCase()
+  if (configured) return configured
+  return process.env.EXCHANGE_RATE_API_URL ? 'http' : 'static'
+}
+
+export function getRefreshIntervalSeconds(): number {
+  const configured = Number(process.env.EXCHANGE_RATE_REFRESH_SECONDS)
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_REFRESH_SECONDS
+}
+
+let activeProvider: ExchangeRateProvider | null = null
+let activeCache: ExchangeRateCache | null = null
+let pendingRefresh: Promise<ExchangeRateSnapshot> | null = null
+
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  if (!activeProvider) {
+    const name = getExchangeRateProviderName()
+    if (name === 'http') {
+      const url = process.env.EXCHANGE_RATE_API_URL
+      if (!url) {
+        throw new InternalError('EXCHANGE_RATE_API_URL environment variable is not set', 'MISSING_EXCHANGE_RATE_URL')
+      }
+      activeProvider = createHttpExchangeRateProvider(url)
+    } else if (name === 'static') {
+      activeProvider = createStaticExchangeRateProvider()
+    } else {
+      throw new InternalError(
+        `Unknown exchange rate provider "${name}". Available: http, static`,
+        'UNKNOWN_EXCHANGE_RATE_PROVIDER'
+      )
+    }
+  }
+  return activeProvider
+}
+
+export function getExchangeRateCache(): ExchangeRateCache {
+  if (!activeCache) {
+    activeCache = process.env.UPSTASH_REDIS_REST_URL
+      ? createRedisExchangeRateCache()
+      : createMemoryExchangeRateCache()
+  }
+  return activeCache
+}
+
+/**
+ * Replace the provider and/or cache (e.g. in tests); pass null to reset
+ */
+export function setExchangeRateProvider(provider: ExchangeRateProvider | null): void {
+  activeProvider = provider
+}
+
+export function setExchangeRateCache(cache: ExchangeRateCache | null): void {
+  activeCache = cache
+}
+
+function isFresh(snapshot: ExchangeRateSnapshot): boolean {
+  if (!snapshot.updatedAt) return false
+  return Date.now() - new Date(snapshot.updatedAt).getTime() < getRefreshIntervalSeconds() * 1000
+}
+
+async function refreshExchangeRates(): Promise<ExchangeRateSnapshot> {
+  const cache = getExchangeRateCache()
+
+  let cached: ExchangeRateSnapshot | null = null
+  try {
+    cached = await cache.get()
+  } catch (error) {
+    console.warn('Failed to read cached exchange rates:', error)
+  }
+  if (cached && isFresh(cached)) return cached
+
+  try {
+    const provider = getExchangeRateProvider()
+    const snapshot: ExchangeRateSnapshot = {
+      rates: await provider.fetchRates(),
+      source: provider.name,
+      updatedAt: new Date().toISOString()
+    }
+    await cache.set(snapshot).catch(error => console.warn('Failed to cache exchange rates:', error))
+    return snapshot
+  } catch (error) {
+    // Stale live rates are still closer than the static table
+    console.warn('Exchange rate refresh failed, using fallback rates:', error)
+    return cached ?? STATIC_EXCHANGE_RATES
+  }
+}
+
+/**
+ * Current exchange rates, refreshed from the configured provider at most once
+ * per refresh interval (EXCHANGE_RATE_REFRESH_SECONDS). Never throws: when the
+ * provider fails, the last cached rates or the static table are used.
+ *
+ * The result is also installed for the synchronous helpers in lib/currency.
+ */
+export async function getExchangeRates(): Promise<ExchangeRateSnapshot> {
+  if (!pendingRefresh) {
+    pendingRefresh = refreshExchangeRates().finally(() => {
+      pendingRefresh = null
+    })
+  }
+
+  const snapshot = await pendingRefresh
+  setCurrentExchangeRates(snapshot)
+  return snapshot
+}
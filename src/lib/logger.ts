@@ -0,0 +1,190 @@
+// Structured logging with request-scoped correlation IDs and span timing
+import { AsyncLocalStorage } from 'async_hooks'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+  // A logger that adds `fields` to every entry
+  child(fields: LogFields): Logger
+  /**
+   * Time `fn` as the span `name`: logs `<name> finished` with its duration at
+   * info, or `<name> failed` with the error at warn, and passes through the
+   * result or rethrows
+   */
+  span<T>(name: string, fn: () => Promise<T>, fields?: LogFields): Promise<T>
+}
+
+interface RequestContext {
+  requestId: string
+}
+
+export const REQUEST_ID_HEADER = 'X-Request-Id'
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+// Field names whose values are never written out
+const SECRET_FIELD = /^(api[_-]?key|token|access[_-]?token|secret|password|authorization|cookie)$/i
+
+// Credentials passed in query strings, e.g. SerpAPI's api_key
+const SECRET_QUERY_PARAM = /([?&](?:api[_-]?key|key|token|access[_-]?token|secret|password)=)[^&#\s"']+/gi
+
+const REDACTED = '[REDACTED]'
+
+// Deeper values are summarised rather than walked
+const MAX_DEPTH = 5
+
+// Incoming X-Request-Id values are reused only when they look like an ID
+const INCOMING_REQUEST_ID = /^[\w.:-]{1,128}$/
+
+const contexts = new AsyncLocalStorage<RequestContext>()
+
+export function createRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * The caller's X-Request-Id when it's a plausible ID, so a request can be
+ * followed across services; otherwise a new one
+ */
+export function resolveRequestId(headers: Headers): string {
+  const incoming = headers.get(REQUEST_ID_HEADER)?.trim()
+  return incoming && INCOMING_REQUEST_ID.test(incoming) ? incoming : createRequestId()
+}
+
+/**
+ * Run `fn` under `requestId`: every entry logged while it runs, including in
+ * parallel branches and the API clients it calls, carries the ID
+ */
+export function withRequestContext<T>(requestId: string, fn: () => T): T {
+  return contexts.run({ requestId }, fn)
+}
+
+/**
+ * Run a route handler under the request's ID (see resolveRequestId) and
+ * return the ID in the X-Request-Id response header
+ */
+export function withRequestId<R extends Request, A extends unknown[]>(
+  handler: (request: R, ...args: A) => Promise<Response>
+) {
+  return async (request: R, ...args: A): Promise<Response> => {
+    const requestId = resolveRequestId(request.headers)
+    const response = await withRequestContext(requestId, () => handler(request, ...args))
+    response.headers.set(REQUEST_ID_HEADER, requestId)
+    return response
+  }
+}
+
+// ID of the request the caller runs under; undefined outside withRequestContext
+export function getRequestId(): string | undefined {
+  return contexts.getStore()?.requestId
+}
+
+// LOG_LEVEL, else debug in development and info everywhere else
+export function getLogLevel(): LogLevel {
+  const configured = process.env.LOG_LEVEL?.trim().toLowerCase()
+  if (configured && configured in LEVELS) return configured as LogLevel
+  return process.env.NODE_ENV === 'development' ? 'debug' : 'info'
+}
+
+// LOG_FORMAT, else one-line text in development and JSON everywhere else
+function getLogFormat(): 'json' | 'pretty' {
+  const configured = process.env.LOG_FORMAT?.trim().toLowerCase()
+  if (configured === 'json' || configured === 'pretty') return configured
+  return process.env.NODE_ENV === 'development' ? 'pretty' : 'json'
+}
+
+/**
+ * Mask credentials in query strings, e.g. `?api_key=abc` becomes `?api_key=[REDACTED]`
+ */
+export function redactSecrets(text: string): string {
+  return text.replace(SECRET_QUERY_PARAM, `$1${REDACTED}`)
+}
+
+// Make a field value safe and serialisable: secrets masked, errors flattened
+function sanitize(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactSecrets(value)
+  if (value instanceof Error) {
+    const code = (value as { code?: unknown }).code
+    return {
+      name: value.name,
+      message: redactSecrets(value.message),
+      ...(code !== undefined ? { code } : {}),
+      ...(value.stack ? { stack: redactSecrets(value.stack) } : {})
+    }
+  }
+  if (value instanceof URL) return redactSecrets(value.toString())
+  if (value instanceof Date) return value.toISOString()
+  if (value === null || typeof value !== 'object') return value
+  if (depth >= MAX_DEPTH) return Array.isArray(value) ? '[Array]' : '[Object]'
+
+  if (Array.isArray(value)) return value.map(item => sanitize(item, depth + 1))
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, SECRET_FIELD.test(key) ? REDACTED : sanitize(item, depth + 1)])
+  )
+}
+
+function write(level: LogLevel, message: string, fields: LogFields): void {
+  if (LEVELS[level] < LEVELS[getLogLevel()]) return
+
+  const requestId = getRequestId()
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    ...(requestId ? { requestId } : {}),
+    ...(sanitize(fields) as LogFields),
+    msg: redactSecrets(message)
+  }
+
+  let line: string
+  if (getLogFormat() === 'json') {
+    line = JSON.stringify(entry)
+  } else {
+    const { time, level: _level, component, requestId: id, msg, ...rest } = entry as LogFields
+    const context = Object.entries(rest).map(([key, item]) => `${key}=${JSON.stringify(item)}`).join(' ')
+    line = [time, level.toUpperCase().padEnd(5), component ? `[${component}]` : '', id ?? '', msg, context]
+      .filter(Boolean)
+      .join(' ')
+  }
+
+  const sink = level === 'error' ? console.error : level === 'warn' ? console.warn : level === 'debug' ? console.debug : console.log
+  sink(line)
+}
+
+/**
+ * Logger for one part of the app; `component` names it in every entry
+ * (e.g. 'build', 'serpapi'). Entries are JSON lines with the time, level,
+ * message and the current request ID, at or above LOG_LEVEL.
+ */
+export function createLogger(component: string, fields: LogFields = {}): Logger {
+  const bound = { component, ...fields }
+
+  const logger: Logger = {
+    debug: (message, extra) => write('debug', message, { ...bound, ...extra }),
+    info: (message, extra) => write('info', message, { ...bound, ...extra }),
+    warn: (message, extra) => write('warn', message, { ...bound, ...extra }),
+    error: (message, extra) => write('error', message, { ...bound, ...extra }),
+
+    child: extra => createLogger(component, { ...fields, ...extra }),
+
+    async span(name, fn, extra) {
+      const startTime = Date.now()
+      logger.debug(`${name} started`, { span: name, ...extra })
+      try {
+        const result = await fn()
+        logger.info(`${name} finished`, { span: name, durationMs: Date.now() - startTime, ...extra })
+        return result
+      } catch (error) {
+        logger.warn(`${name} failed`, { span: name, durationMs: Date.now() - startTime, ...extra, error })
+        throw error
+      }
+    }
+  }
+
+  return logger
+}
\ No newline at end of file
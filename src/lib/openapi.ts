@@ -0,0 +1,330 @@
+import { z } from 'zod'
+import * as schemas from '@/lib/validation'
+
+// OpenAPI description of the HTTP API, generated from the schemas in lib/validation
+// so the extension and other clients never drift from what the routes accept.
+
+type HttpMethod = 'get' | 'post' | 'patch' | 'delete'
+
+interface ApiOperation {
+  method: HttpMethod
+  path: string
+  summary: string
+  // Requires `Authorization: Bearer <token>` (see lib/auth-middleware)
+  auth?: boolean
+  request?: { name: string; schema: z.ZodType; contentType?: string }
+  // Query string (or path) parameters, one per object key
+  query?: z.ZodObject
+  pathParams?: string[]
+  response?: { name: string; schema: z.ZodType; contentType?: string }
+}
+
+const paginationQuery = schemas.PaginationQuerySchema
+const searchIdQuery = z.object({ id: z.string() })
+
+const request = (name: string, schema: z.ZodType, contentType?: string) => ({ name, schema, contentType })
+const response = request
+
+export const API_OPERATIONS: ApiOperation[] = [
+  { method: 'post', path: '/api/build', summary: 'Plan, search and select a complete setup',
+    request: request('BuildRequest', schemas.BuildRequestSchema),
+    response: response('BuildResponse', schemas.BuildResponseSchema) },
+  { method: 'post', path: '/api/build/stream', summary: 'Build a setup, streaming progress as Server-Sent Events',
+    request: request('BuildRequest', schemas.BuildRequestSchema),
+    response: response('BuildStreamEvent', schemas.BuildStreamEventSchema, 'text/event-stream') },
+  { method: 'post', path: '/api/plan', summary: 'Plan the categories and budget split for a query',
+    request: request('PlanRequest', schemas.PlanRequestSchema),
+    response: response('PlanResponse', schemas.PlanResponseSchema) },
+  { method: 'get', path: '/api/templates', summary: 'Built-in setup templates, plus the caller\'s own when signed in',
+    response: response('TemplateListResponse', schemas.TemplateListResponseSchema) },
+  { method: 'post', path: '/api/templates', summary: 'Create a setup template', auth: true,
+    request: request('TemplateInput', schemas.TemplateInputSchema),
+    response: response('TemplateResponse', schemas.TemplateResponseSchema) },
+  { method: 'get', path: '/api/templates/{id}', summary: 'A built-in, own or shared setup template',
+    pathParams: ['id'],
+    response: response('TemplateResponse', schemas.TemplateResponseSchema) },
+  { method: 'patch', path: '/api/templates/{id}', summary: 'Edit or share one of the caller\'s templates', auth: true,
+    pathParams: ['id'],
+    request: request('TemplateUpdate', schemas.TemplateUpdateSchema),
+    response: response('TemplateResponse', schemas.TemplateResponseSchema) },
+  { method: 'delete', path: '/api/templates/{id}', summary: 'Delete one of the caller\'s templates', auth: true,
+    pathParams: ['id'],
+    response: response('MessageResponse', schemas.MessageResponseSchema) },
+  { method: 'post', path: '/api/templates/{id}/fork', summary: 'Copy a built-in or shared template into the caller\'s own', auth: true,
+    pathParams: ['id'],
+    request: request('TemplateForkRequest', schemas.TemplateForkRequestSchema),
+    response: response('TemplateResponse', schemas.TemplateResponseSchema) },
+  { method: 'post', path: '/api/search', summary: 'Search products for a single query',
+    request: request('SearchRequest', schemas.SearchRequestSchema),
+    response: response('SearchResponse', schemas.SearchResponseSchema) },
+  { method: 'post', path: '/api/rank', summary: 'Rank raw search results',
+    request: request('RankRequest', schemas.RankRequestSchema),
+    response: response('RankResponse', schemas.RankResponseSchema) },
+  { method: 'post', path: '/api/reroll', summary: 'Build a fresh setup for the same query',
+    request: request('RerollRequest', schemas.RerollRequestSchema),
+    response: response('RerollResponse', schemas.RerollResponseSchema) },
+  { method: 'post', path: '/api/swap', summary: 'Find alternatives for one product',
+    request: request('SwapRequest', schemas.SwapRequestSchema),
+    response: response('SwapResponse', schemas.SwapResponseSchema) },
+  { method: 'post', path: '/api/compare', summary: 'Compare products side by side, with a winner per attribute',
+    request: request('CompareRequest', schemas.CompareRequestSchema),
+    response: response('CompareResponse', schemas.CompareResponseSchema) },
+  { method: 'post', path: '/api/ai-scene', summary: 'Generate room scenes featuring the products',
+    query: z.object({ variations: z.number().int().min(1).max(5).optional() }),
+    request: request('SceneRequest', schemas.SceneRequestSchema),
+    response: response('SceneGenerationResponse', schemas.SceneGenerationResponseSchema) },
+  { method: 'post', path: '/api/ai-scene/jobs', summary: 'Queue scene generation; poll the returned job (501 when SCENE_JOB_QUEUE is unset)',
+    request: request('SceneJobRequest', schemas.SceneJobRequestSchema),
+    response: response('SceneJobResponse', schemas.SceneJobResponseSchema) },
+  { method: 'get', path: '/api/ai-scene/jobs/{jobId}', summary: 'Progress and results of a scene job, per variation',
+    pathParams: ['jobId'],
+    response: response('SceneJobResponse', schemas.SceneJobResponseSchema) },
+  { method: 'delete', path: '/api/ai-scene/jobs/{jobId}', summary: 'Cancel a scene job',
+    pathParams: ['jobId'],
+    response: response('SceneJobResponse', schemas.SceneJobResponseSchema) },
+  { method: 'get', path: '/api/ai-scene/image/{id}', summary: 'A generated scene image (binary, cached immutably)',
+    pathParams: ['id'] },
+  { method: 'post', path: '/api/ai-chat', summary: 'Ask for setup advice, optionally with reference images',
+    request: request('AIChatRequest', schemas.AIChatRequestSchema, 'multipart/form-data'),
+    response: response('AIChatResponse', schemas.AIChatResponseSchema) },
+  { method: 'post', path: '/api/ai-chat/sessions', summary: 'Start a chat session with a built setup',
+    request: request('AIChatRequest', schemas.AIChatRequestSchema, 'multipart/form-data'),
+    response: response('ChatTurnResponse', schemas.ChatTurnResponseSchema) },
+  { method: 'get', path: '/api/ai-chat/sessions/{sessionId}', summary: 'Load a chat session',
+    pathParams: ['sessionId'],
+    response: response('ChatSessionResponse', schemas.ChatSessionResponseSchema) },
+  { method: 'delete', path: '/api/ai-chat/sessions/{sessionId}', summary: 'Delete a chat session',
+    pathParams: ['sessionId'],
+    response: response('MessageResponse', schemas.MessageResponseSchema) },
+  { method: 'post', path: '/api/ai-chat/sessions/{sessionId}/messages', summary: 'Refine the session\'s setup with a follow-up message',
+    pathParams: ['sessionId'],
+    request: request('ChatTurnRequest', schemas.ChatTurnRequestSchema),
+    response: response('ChatTurnResponse', schemas.ChatTurnResponseSchema) },
+  { method: 'post', path: '/api/share', summary: 'Share a setup',
+    request: request('ShareRequest', schemas.ShareRequestSchema),
+    response: response('ShareResponse', schemas.ShareResponseSchema) },
+  { method: 'get', path: '/api/share', summary: 'Load a shared setup',
+    query: searchIdQuery.extend({ revision: z.number().int().positive().optional() }),
+    response: response('SharedSetupResponse', schemas.SharedSetupResponseSchema) },
+  { method: 'get', path: '/api/search-history', summary: 'List the caller\'s recent searches', auth: true,
+    query: paginationQuery,
+    response: response('SearchSummaryPageResponse', schemas.SearchSummaryPageResponseSchema) },
+  { method: 'delete', path: '/api/search-history', summary: 'Delete a search from history', auth: true,
+    query: searchIdQuery,
+    response: response('MessageResponse', schemas.MessageResponseSchema) },
+  { method: 'get', path: '/api/saved-searches', summary: 'List the caller\'s saved searches', auth: true,
+    query: paginationQuery,
+    response: response('SearchSummaryPageResponse', schemas.SearchSummaryPageResponseSchema) },
+  { method: 'delete', path: '/api/saved-searches', summary: 'Remove a search from the saved list', auth: true,
+    query: searchIdQuery,
+    response: response('MessageResponse', schemas.MessageResponseSchema) },
+  { method: 'get', path: '/api/saved-searches/{id}/prices', summary: 'Price history of a saved search\'s products', auth: true,
+    pathParams: ['id'],
+    response: response('PriceHistoryResponse', schemas.PriceHistoryResponseSchema) },
+  { method: 'post', path: '/api/saved-searches/{id}/prices', summary: 'Turn on price-drop alerts for a saved search', auth: true,
+    pathParams: ['id'],
+    request: request('PriceAlertRequest', schemas.PriceAlertRequestSchema),
+    response: response('PriceHistoryResponse', schemas.PriceHistoryResponseSchema) },
+  { method: 'delete', path: '/api/saved-searches/{id}/prices', summary: 'Turn off price-drop alerts for a saved search', auth: true,
+    pathParams: ['id'],
+    response: response('MessageResponse', schemas.MessageResponseSchema) },
+  { method: 'post', path: '/api/save-search', summary: 'Save a search from history', auth: true,
+    request: request('SaveSearchRequest', schemas.SaveSearchRequestSchema),
+    response: response('MessageResponse', schemas.MessageResponseSchema) },
+  { method: 'get', path: '/api/save-search', summary: 'Saved state of one search (with ?id) or a page of saved IDs', auth: true,
+    query: searchIdQuery.partial().extend(paginationQuery.shape),
+    response: response('SavedSearchLookupResponse', z.union([schemas.SavedStateResponseSchema, schemas.SavedIdsResponseSchema])) },
+  { method: 'delete', path: '/api/save-search', summary: 'Unsave a search', auth: true,
+    query: searchIdQuery,
+    response: response('MessageResponse', schemas.MessageResponseSchema) },
+  { method: 'get', path: '/api/cached-results/{searchId}', summary: 'Load the results of a cached search',
+    pathParams: ['searchId'],
+    response: response('CachedResultsResponse', schemas.CachedResultsResponseSchema) },
+  { method: 'delete', path: '/api/cached-results/{searchId}', summary: 'Delete a cached search',
+    pathParams: ['searchId'],
+    response: response('MessageResponse', schemas.MessageResponseSchema) },
+  { method: 'get', path: '/api/setups/{id}/revisions', summary: 'Revision history of a built setup, oldest first',
+    pathParams: ['id'],
+    response: response('RevisionListResponse', schemas.RevisionListResponseSchema) },
+  { method: 'post', path: '/api/setups/{id}/revisions', summary: 'Record a swap, reroll, add or remove as a new revision',
+    pathParams: ['id'],
+    request: request('RevisionRequest', schemas.RevisionRequestSchema),
+    response: response('RevisionResponse', schemas.RevisionResponseSchema) },
+  { method: 'get', path: '/api/setups/{id}/revisions/diff', summary: 'Products added, removed and replaced between two revisions',
+    pathParams: ['id'],
+    query: schemas.RevisionDiffQuerySchema,
+    response: response('RevisionDiffResponse', schemas.RevisionDiffResponseSchema) },
+  { method: 'get', path: '/api/setups/{id}/revisions/{revision}', summary: 'One revision of a setup, with its products',
+    pathParams: ['id', 'revision'],
+    response: response('RevisionResponse', schemas.RevisionResponseSchema) },
+  { method: 'post', path: '/api/setups/{id}/revisions/{revision}/restore', summary: 'Make an older revision current again',
+    pathParams: ['id', 'revision'],
+    response: response('RevisionResponse', schemas.RevisionResponseSchema) },
+  { method: 'post', path: '/api/setups/{id}/products', summary: 'Add a category or a custom item to a setup as a new revision',
+    pathParams: ['id'],
+    request: request('SetupAddRequest', schemas.SetupAddRequestSchema),
+    response: response('RevisionResponse', schemas.RevisionResponseSchema) },
+  { method: 'delete', path: '/api/setups/{id}/products/{productId}', summary: 'Remove a product from a setup as a new revision',
+    pathParams: ['id', 'productId'],
+    response: response('RevisionResponse', schemas.RevisionResponseSchema) },
+  { method: 'post', path: '/api/auth/signup', summary: 'Create an account and send a verification code',
+    request: request('SignUpRequest', schemas.SignUpRequestSchema),
+    response: response('AuthMessageResponse', schemas.AuthMessageResponseSchema) },
+  { method: 'post', path: '/api/auth/verify-otp', summary: 'Verify a new account and sign in',
+    request: request('OTPVerificationRequest', schemas.OTPVerificationRequestSchema),
+    response: response('AuthSessionResponse', schemas.AuthSessionResponseSchema) },
+  { method: 'post', path: '/api/auth/signin', summary: 'Sign in with email and password',
+    request: request('SignInRequest', schemas.SignInRequestSchema),
+    response: response('AuthSessionResponse', schemas.AuthSessionResponseSchema) },
+  { method: 'post', path: '/api/auth/reset-password', summary: 'Send a password reset code',
+    request: request('ResetPasswordRequest', schemas.ResetPasswordRequestSchema),
+    response: response('AuthMessageResponse', schemas.AuthMessageResponseSchema) },
+  { method: 'post', path: '/api/auth/verify-reset-otp', summary: 'Check a password reset code',
+    request: request('OTPVerificationRequest', schemas.OTPVerificationRequestSchema),
+    response: response('AuthMessageResponse', schemas.AuthMessageResponseSchema) },
+  { method: 'post', path: '/api/auth/update-password', summary: 'Set a new password with a reset code',
+    request: request('UpdatePasswordRequest', schemas.UpdatePasswordRequestSchema),
+    response: response('AuthMessageResponse', schemas.AuthMessageResponseSchema) },
+  { method: 'post', path: '/api/support/contact', summary: 'Send a message to support',
+    request: request('ContactRequest', schemas.ContactRequestSchema),
+    response: response('MessageResponse', schemas.MessageResponseSchema) },
+  { method: 'post', path: '/api/cache/clear', summary: 'Clear cached search results (admins only)', auth: true,
+    response: response('CacheClearResponse', schemas.CacheClearResponseSchema) },
+  { method: 'get', path: '/api/admin/usage', summary: 'Daily SerpAPI and LLM usage, estimated cost and budget alerts (admins only)', auth: true,
+    query: z.object({ days: z.number().int().min(1).max(90).optional() }),
+    response: response('UsageResponse', schemas.UsageResponseSchema) },
+  { method: 'get', path: '/api/analytics', summary: 'Usage analytics (admins only)', auth: true,
+    query: z.object({ timeRange: z.enum(['24h', '7d', '30d', '90d']).optional() }),
+    response: response('AnalyticsResponse', schemas.AnalyticsResponseSchema) },
+  { method: 'get', path: '/api/go/{token}', summary: 'Log a product click and redirect (302) to the merchant',
+    pathParams: ['token'] },
+  { method: 'post', path: '/api/analytics/events', summary: 'Record a product click for analytics',
+    request: request('ProductClickEventRequest', schemas.ProductClickEventRequestSchema),
+    response: response('MessageResponse', schemas.MessageResponseSchema) },
+  { method: 'get', path: '/api/cron/price-check', summary: 'Check watched prices and send alerts (scheduled; bearer CRON_SECRET)',
+    response: response('PriceCheckResponse', schemas.PriceCheckResponseSchema) },
+  { method: 'get', path: '/api/openapi', summary: 'This OpenAPI document' }
+]
+
+const componentRef = (name: string) => ({ $ref: `#/components/schemas/${name}` })
+
+function describeForJSON(ctx: { zodSchema: { _zod: { def: { type: string } } }; jsonSchema: Record<string, unknown> }) {
+  // Dates are sent as ISO strings once serialized to JSON
+  if (ctx.zodSchema._zod.def.type === 'date') {
+    ctx.jsonSchema.type = 'string'
+    ctx.jsonSchema.format = 'date-time'
+  }
+  // Responses are checked, not stripped, so clients should tolerate extra fields
+  if (ctx.jsonSchema.additionalProperties === false) {
+    delete ctx.jsonSchema.additionalProperties
+  }
+}
+
+// Requests are described as clients send them (defaults optional), responses as the server emits them
+function componentSchemas(io: 'input' | 'output', entries: Array<{ name: string; schema: z.ZodType }>) {
+  const registry = z.registry<{ id: string }>()
+  for (const { name, schema } of entries) {
+    if (!registry.has(schema)) registry.add(schema, { id: name })
+  }
+
+  const { schemas: components } = z.toJSONSchema(registry, {
+    io,
+    unrepresentable: 'any',
+    override: describeForJSON,
+    uri: id => componentRef(id).$ref
+  })
+  for (const component of Object.values(components)) {
+    delete component.$schema
+    delete component.$id
+  }
+  return components
+}
+
+function parametersFor(operation: ApiOperation) {
+  const pathParams = (operation.pathParams ?? []).map(name => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' }
+  }))
+  if (!operation.query) return pathParams
+
+  const query = z.toJSONSchema(operation.query, { io: 'input' }) as {
+    properties?: Record<string, object>
+    required?: string[]
+  }
+  const queryParams = Object.entries(query.properties ?? {}).map(([name, schema]) => ({
+    name,
+    in: 'query',
+    required: query.required?.includes(name) ?? false,
+    schema
+  }))
+  return [...pathParams, ...queryParams]
+}
+
+/**
+ * Build the OpenAPI 3.1 document for every route in API_OPERATIONS
+ */
+export function generateOpenAPIDocument(options: { serverUrl?: string } = {}) {
+  const requests = API_OPERATIONS.flatMap(operation => (operation.request ? [operation.request] : []))
+  const responses = API_OPERATIONS.flatMap(operation => (operation.response ? [operation.response] : []))
+
+  const paths: Record<string, Record<string, unknown>> = {}
+  for (const operation of API_OPERATIONS) {
+    const parameters = parametersFor(operation)
+    const success = operation.response
+      ? {
+          description: 'Success',
+          content: { [operation.response.contentType ?? 'application/json']: { schema: componentRef(operation.response.name) } }
+        }
+      : { description: 'Success' }
+
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: {
+        summary: operation.summary,
+        ...(operation.auth ? { security: [{ bearerAuth: [] }] } : {}),
+        ...(parameters.length > 0 ? { parameters } : {}),
+        ...(operation.request
+          ? {
+              requestBody: {
+                required: true,
+                content: {
+                  [operation.request.contentType ?? 'application/json']: { schema: componentRef(operation.request.name) }
+                }
+              }
+            }
+          : {}),
+        responses: {
+          200: success,
+          default: {
+            description: 'Error',
+            content: { 'application/json': { schema: componentRef('ErrorResponse') } }
+          }
+        }
+      }
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Ghost Setup Finder API',
+      version: '1.0.0'
+    },
+    ...(options.serverUrl ? { servers: [{ url: options.serverUrl }] } : {}),
+    paths,
+    components: {
+      schemas: {
+        ...componentSchemas('input', requests),
+        ...componentSchemas('output', [
+          ...responses,
+          { name: 'ErrorResponse', schema: schemas.ErrorResponseSchema }
+        ])
+      },
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+      }
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import { redis, generateKey, TTL } from '@/lib/redis'
+import { InternalError } from '@/lib/errors'
+import type { PricePoint } from '@/types/api'
+
+/**
+ * A product being watched for price drops, with the price it was saved at
+ */
+export interface WatchedProduct {
+  // Price history key (see getPriceTrackingKey in lib/price-tracker)
+  key: string
+  productId: string
+  title: string
+  productUrl: string
+  savedPrice: number
+  // Price the last alert was sent at; only a further drop alerts again
+  lastAlertPrice: number | null
+}
+
+/**
+ * Price-drop alerts for one of a user's saved searches
+ */
+export interface PriceWatch {
+  userId: string
+  searchId: string
+  query: string
+  currency: string
+  thresholdPercent: number
+  products: WatchedProduct[]
+  createdAt: string
+  lastCheckedAt: string | null
+}
+
+/**
+ * Price time series per product, plus the saved searches being watched.
+ * Histories are shared by every search containing the same product and
+ * keep the newest `maxPoints` prices.
+ */
+export interface PriceHistoryStore {
+  readonly name: string
+  recordPrice(productKey: string, point: PricePoint): Promise<void>
+  // Oldest first
+  getHistory(productKey: string): Promise<PricePoint[]>
+  // Creates or replaces the watch
+  saveWatch(watch: PriceWatch): Promise<void>
+  getWatch(userId: string, searchId: string): Promise<PriceWatch | null>
+  deleteWatch(userId: string, searchId: string): Promise<boolean>
+  // Every user's watches, for the periodic price check
+  listWatches(): Promise<PriceWatch[]>
+}
+
+export interface PriceHistoryStoreOptions {
+  maxPoints?: number
+}
+
+export const MAX_PRICE_POINTS = 180
+
+/**
+ * In-process store, used for tests and local development without Redis
+ */
+export function createMemoryPriceHistoryStore(options: PriceHistoryStoreOptions = {}): PriceHistoryStore {
+  const maxPoints = options.maxPoints ?? MAX_PRICE_POINTS
+  const histories = new Map<string, PricePoint[]>()
+  const watches = new Map<string, PriceWatch>()
+  const watchKey = (userId: string, searchId: string) => `${userId}:${searchId}`
+
+  return {
+    name: 'memory',
+
+    async recordPrice(productKey, point) {
+      const history = [...(histories.get(productKey) ?? []), { ...point }]
+      histories.set(productKey, history.slice(-maxPoints))
+    },
+
+    async getHistory(productKey) {
+      return (histories.get(productKey) ?? []).map(point => ({ ...point }))
+    },
+
+    async saveWatch(watch) {
+      watches.set(watchKey(watch.userId, watch.searchId), structuredClone(watch))
+    },
+
+    async getWatch(userId, searchId) {
+      const watch = watches.get(watchKey(userId, searchId))
+      return watch ? structuredClone(watch) : null
+    },
+
+    async deleteWatch(userId, searchId) {
+      return watches.delete(watchKey(userId, searchId))
+    },
+
+    async listWatches() {
+      return Array.from(watches.values(), watch => structuredClone(watch))
+    }
+  }
+}
+
+function parseStored<T>(value: unknown): T | null {
+  if (!value) return null
+  // Upstash deserializes JSON automatically; plain strings come from older clients
+  return (typeof value === 'string' ? JSON.parse(value) : value) as T
+}
+
+/**
+ * Redis-backed store: a capped list per product history, one key per watch
+ * and a set indexing every watch for the price check
+ */
+export function createRedisPriceHistoryStore(options: PriceHistoryStoreOptions = {}): PriceHistoryStore {
+  const maxPoints = options.maxPoints ?? MAX_PRICE_POINTS
+  const historyKey = (productKey: string) => generateKey('PRICE_HISTORY', productKey)
+  const watchId = (userId: string, searchId: string) => `${userId}:${searchId}`
+  const watchKey = (id: string) => generateKey('PRICE_WATCH', id)
+  const indexKey = generateKey('PRICE_WATCHES', 'all')
+
+  return {
+    name: 'redis',
+
+    async recordPrice(productKey, point) {
+      const key = historyKey(productKey)
+      await redis.rpush(key, JSON.stringify(point))
+      await redis.ltrim(key, -maxPoints, -1)
+      await redis.expire(key, TTL.PRICE_HISTORY)
+    },
+
+    async getHistory(productKey) {
+      const values = await redis.lrange<unknown>(historyKey(productKey), 0, -1)
+      return values.flatMap(value => {
+        const point = parseStored<PricePoint>(value)
+        return point ? [point] : []
+      })
+    },
+
+    async saveWatch(watch) {
+      const id = watchId(watch.userId, watch.searchId)
+      await redis.set(watchKey(id), JSON.stringify(watch), { ex: TTL.PRICE_WATCH })
+      await redis.sadd(indexKey, id)
+    },
+
+    async getWatch(userId, searchId) {
+      return parseStored<PriceWatch>(await redis.get(watchKey(watchId(userId, searchId))))
+    },
+
+    async deleteWatch(userId, searchId) {
+      const id = watchId(userId, searchId)
+      await redis.srem(indexKey, id)
+      return (await redis.del(watchKey(id))) > 0
+    },
+
+    async listWatches() {
+      const ids = await redis.smembers(indexKey)
+      if (ids.length === 0) return []
+
+      const values = await redis.mget<unknown[]>(...ids.map(watchKey))
+      const watches: PriceWatch[] = []
+      const expiredIds: string[] = []
+      values.forEach((value, i) => {
+        const watch = parseStored<PriceWatch>(value)
+        if (watch) {
+          watches.push(watch)
+        } else {
+          expiredIds.push(ids[i])
+        }
+      })
+
+      // Lazily prune IDs whose watches have expired
+      if (expiredIds.length > 0) {
+        await redis.srem(indexKey, ...expiredIds)
+      }
+      return watches
+    }
+  }
+}
+
+let activeStore: PriceHistoryStore | null = null
+
+/**
+ * Name of the configured backend: PRICE_HISTORY_STORE, else redis when
+ * Upstash credentials are present, else memory
+ */
+export function getPriceHistoryStoreName(): string {
+  const configured = process.env.PRICE_HISTORY_STORE?.trim().toLowerCase()
+  if (configured) return configured
+  return process.env.UPSTASH_REDIS_REST_URL ? 'redis' : 'memory'
+}
+
+export function getPriceHistoryStore(): PriceHistoryStore {
+  if (!activeStore) {
+    const name = getPriceHistoryStoreName()
+    if (name === 'redis') {
+      activeStore = createRedisPriceHistoryStore()
+    } else if (name === 'memory') {
+      activeStore = createMemoryPriceHistoryStore()
+    } else {
+      throw new InternalError(
+        `Unknown price history store "${name}". Available: redis, memory`,
+        'UNKNOWN_PRICE_HISTORY_STORE'
+      )
+    }
+  }
+  return activeStore
+}
+
+/**
+ * Replace the active store (e.g. with a fresh memory store in tests); pass null to reset
+ */
+export function setPriceHistoryStore(store: PriceHistoryStore | null): void {
+  activeStore = store
+}
\ No newline at end of file
@@ -0,0 +1,357 @@
+import { createHash } from 'crypto'
+import { searchProducts } from '@/lib/api/search-provider'
+import { isSupportedCurrency, normalizeProductCurrency, SupportedCurrency } from '@/lib/currency'
+import { sendPriceDropEmail } from '@/lib/email'
+import { getPriceHistoryStore, PriceWatch, WatchedProduct } from '@/lib/price-history-store'
+import { CachedSearchResult, getCachedSearchResult, isSearchSaved } from '@/lib/search-cache'
+import { getUserRepository } from '@/lib/user-repository'
+import type { Product } from '@/types'
+import type { PricePoint, ProductPriceHistory, SearchRequest, SearchResponse } from '@/types/api'
+
+export interface PriceDrop {
+  productId: string
+  title: string
+  productUrl: string
+  currency: string
+  savedPrice: number
+  price: number
+  dropPercent: number
+}
+
+export interface PriceDropAlert {
+  userId: string
+  searchId: string
+  query: string
+  drops: PriceDrop[]
+}
+
+export type PriceDropNotifier = (alert: PriceDropAlert) => Promise<void>
+
+export interface PriceCheckOptions {
+  search?: (request: SearchRequest) => Promise<SearchResponse>
+  notify?: PriceDropNotifier
+  now?: () => number
+  // Provider lookups per run, so a run fits in one function invocation
+  maxLookups?: number
+  // Lookups in flight at once
+  concurrency?: number
+}
+
+export interface PriceCheckSummary {
+  watchesChecked: number
+  pricesRecorded: number
+  alertsSent: number
+}
+
+export interface SavedSearchPrices {
+  alert: { thresholdPercent: number; createdAt: string; lastCheckedAt: string | null } | null
+  products: ProductPriceHistory[]
+}
+
+export const DEFAULT_PRICE_CHECK_INTERVAL_SECONDS = 60 * 60 * 12 // 12 hours, the cron schedule in vercel.json
+// Cron ticks that fire a little early still find the watches checked on the previous tick due
+export const PRICE_CHECK_SLACK_MS = 10 * 60 * 1000 // 10 minutes
+// A lookup takes a few seconds, so 40 of them, 5 at a time, fit in the 60s function limit
+export const MAX_LOOKUPS_PER_CHECK = 40
+export const PRICE_LOOKUP_CONCURRENCY = 5
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+export function getPriceCheckIntervalSeconds(): number {
+  const configured = Number(process.env.PRICE_CHECK_INTERVAL_SECONDS)
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_PRICE_CHECK_INTERVAL_SECONDS
+}
+
+/**
+ * Host and path only, so tracking parameters don't split one listing's history
+ */
+export function normalizeProductUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    return `${parsed.host.toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}`
+  } catch {
+    return url.trim()
+  }
+}
+
+/**
+ * History key for a product: its listing URL when known, else its ID. Every
+ * saved search containing the listing shares the same time series.
+ */
+export function getPriceTrackingKey(product: { id: string; productUrl?: string }): string {
+  const identity = product.productUrl ? `url:${normalizeProductUrl(product.productUrl)}` : `id:${product.id}`
+  return createHash('sha256').update(identity).digest('hex').slice(0, 32)
+}
+
+function savedProducts(search: CachedSearchResult): Product[] {
+  return (search.results as Product[]).filter(product =>
+    product && typeof product.id === 'string' && typeof product.price === 'number' && product.price > 0
+  )
+}
+
+function toWatchedProduct(product: Product, previous?: WatchedProduct): WatchedProduct {
+  return {
+    key: getPriceTrackingKey(product),
+    productId: product.id,
+    title: product.title,
+    productUrl: product.productUrl,
+    savedPrice: product.price,
+    lastAlertPrice: previous?.lastAlertPrice ?? null
+  }
+}
+
+async function loadSavedSearch(userId: string, searchId: string): Promise<CachedSearchResult | null> {
+  if (!(await isSearchSaved(userId, searchId))) return null
+  return getCachedSearchResult(userId, searchId)
+}
+
+/**
+ * Price history of every product in a saved search, with its alert settings.
+ * Returns null when the search isn't saved by the user.
+ */
+export async function getSavedSearchPrices(userId: string, searchId: string): Promise<SavedSearchPrices | null> {
+  const search = await loadSavedSearch(userId, searchId)
+  if (!search) return null
+
+  const store = getPriceHistoryStore()
+  const watch = await store.getWatch(userId, searchId)
+  const currency = search.settings.currency
+
+  const products = await Promise.all(savedProducts(search).map(async (product): Promise<ProductPriceHistory> => {
+    const history = (await store.getHistory(getPriceTrackingKey(product)))
+      .filter(point => point.currency === currency)
+    const currentPrice = history.length > 0 ? history[history.length - 1].price : product.price
+
+    return {
+      productId: product.id,
+      title: product.title,
+      productUrl: product.productUrl,
+      currency,
+      savedPrice: product.price,
+      currentPrice,
+      lowestPrice: Math.min(product.price, ...history.map(point => point.price)),
+      changePercent: round(((currentPrice - product.price) / product.price) * 100),
+      history
+    }
+  }))
+
+  return {
+    alert: watch && {
+      thresholdPercent: watch.thresholdPercent,
+      createdAt: watch.createdAt,
+      lastCheckedAt: watch.lastCheckedAt
+    },
+    products
+  }
+}
+
+/**
+ * Start (or update) price-drop alerts for a saved search. The saved prices
+ * become the start of each product's history. Returns null when the search
+ * isn't saved by the user.
+ */
+export async function watchSavedSearch(
+  userId: string,
+  searchId: string,
+  thresholdPercent: number
+): Promise<PriceWatch | null> {
+  const search = await loadSavedSearch(userId, searchId)
+  if (!search) return null
+
+  const store = getPriceHistoryStore()
+  const existing = await store.getWatch(userId, searchId)
+  const previous = new Map(existing?.products.map(product => [product.key, product]))
+
+  const watch: PriceWatch = {
+    userId,
+    searchId,
+    query: search.query,
+    currency: search.settings.currency,
+    thresholdPercent,
+    products: savedProducts(search).map(product =>
+      toWatchedProduct(product, previous.get(getPriceTrackingKey(product)))
+    ),
+    createdAt: existing?.createdAt ?? new Date().toISOString(),
+    lastCheckedAt: existing?.lastCheckedAt ?? null
+  }
+
+  for (const product of watch.products) {
+    if ((await store.getHistory(product.key)).length === 0) {
+      await store.recordPrice(product.key, {
+        price: product.savedPrice,
+        currency: watch.currency,
+        recordedAt: search.createdAt
+      })
+    }
+  }
+
+  await store.saveWatch(watch)
+  return watch
+}
+
+export async function unwatchSavedSearch(userId: string, searchId: string): Promise<boolean> {
+  return getPriceHistoryStore().deleteWatch(userId, searchId)
+}
+
+/**
+ * Re-query the search provider for a saved product and return its current
+ * price in `currency`, or null when the listing can't be found
+ */
+async function lookUpPrice(
+  product: WatchedProduct,
+  currency: SupportedCurrency,
+  search: NonNullable<PriceCheckOptions['search']>
+): Promise<number | null> {
+  try {
+    const response = await search({ query: product.title.slice(0, 200), currency, amazonOnly: false, limit: 10 })
+    const savedUrl = normalizeProductUrl(product.productUrl)
+    const listing = response.products.find(candidate =>
+      candidate.id === product.productId || normalizeProductUrl(candidate.url) === savedUrl
+    )
+    if (!listing) return null
+
+    const normalized = normalizeProductCurrency(listing, currency)
+    return typeof normalized?.price === 'number' ? round(normalized.price) : null
+  } catch (error) {
+    console.warn(`Price lookup failed for "${product.title}":`, error)
+    return null
+  }
+}
+
+/**
+ * Look up every queued product, `concurrency` at a time, keyed like the queue
+ */
+async function lookUpPrices(
+  lookups: Map<string, { product: WatchedProduct; currency: SupportedCurrency }>,
+  concurrency: number,
+  search: NonNullable<PriceCheckOptions['search']>
+): Promise<Map<string, number | null>> {
+  const prices = new Map<string, number | null>()
+  const queue = [...lookups]
+
+  const worker = async () => {
+    for (let next = queue.shift(); next; next = queue.shift()) {
+      const [priceKey, { product, currency }] = next
+      prices.set(priceKey, await lookUpPrice(product, currency, search))
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), queue.length) }, worker))
+  return prices
+}
+
+/**
+ * Emails the search's owner through lib/email
+ */
+export const emailPriceDropAlert: PriceDropNotifier = async alert => {
+  const user = await getUserRepository().findById(alert.userId)
+  if (!user) return
+  await sendPriceDropEmail(user.email, user.name, alert)
+}
+
+/**
+ * Check the prices of watched saved searches that are due (last checked over
+ * PRICE_CHECK_INTERVAL_SECONDS ago), record them and send an alert for each
+ * search with products that dropped past its threshold. A product alerts
+ * again only when it drops below the price of its last alert.
+ *
+ * Watches are taken oldest check first while their lookups fit in
+ * `maxLookups`; the rest wait for the next run.
+ */
+export async function checkPrices(options: PriceCheckOptions = {}): Promise<PriceCheckSummary> {
+  const search = options.search ?? searchProducts
+  const notify = options.notify ?? emailPriceDropAlert
+  const now = options.now ?? Date.now
+  const store = getPriceHistoryStore()
+  const intervalMs = getPriceCheckIntervalSeconds() * 1000
+  const summary: PriceCheckSummary = { watchesChecked: 0, pricesRecorded: 0, alertsSent: 0 }
+  // Taken before any lookup and recorded as the check time, so a slow run
+  // doesn't push the watches it checked past the next cron tick
+  const startedAt = now()
+  const recordedAt = new Date(startedAt).toISOString()
+
+  const lastChecked = (watch: PriceWatch) => (watch.lastCheckedAt ? Date.parse(watch.lastCheckedAt) : 0)
+  const maxLookups = options.maxLookups ?? MAX_LOOKUPS_PER_CHECK
+  const due = (await store.listWatches())
+    .filter(watch => startedAt - lastChecked(watch) >= intervalMs - PRICE_CHECK_SLACK_MS)
+    .sort((a, b) => lastChecked(a) - lastChecked(b))
+
+  const currencyOf = (watch: PriceWatch): SupportedCurrency =>
+    isSupportedCurrency(watch.currency) ? watch.currency : 'USD'
+
+  // Products shared by several watches are looked up once per run
+  const lookups = new Map<string, { product: WatchedProduct; currency: SupportedCurrency }>()
+  const checked: PriceWatch[] = []
+
+  for (const watch of due) {
+    if (!(await isSearchSaved(watch.userId, watch.searchId))) {
+      await store.deleteWatch(watch.userId, watch.searchId)
+      continue
+    }
+
+    const currency = currencyOf(watch)
+    const added = watch.products.filter(product => !lookups.has(`${product.key}:${currency}`))
+    // A search bigger than the whole budget still gets checked, over its first products only
+    if (lookups.size + added.length > maxLookups && checked.length > 0) break
+
+    for (const product of added.slice(0, maxLookups - lookups.size)) {
+      lookups.set(`${product.key}:${currency}`, { product, currency })
+    }
+    checked.push(watch)
+  }
+
+  const prices = await lookUpPrices(lookups, options.concurrency ?? PRICE_LOOKUP_CONCURRENCY, search)
+
+  for (const [priceKey, price] of prices) {
+    if (price === null) continue
+    const { product, currency } = lookups.get(priceKey)!
+    await store.recordPrice(product.key, { price, currency, recordedAt } satisfies PricePoint)
+    summary.pricesRecorded++
+  }
+
+  for (const watch of checked) {
+    const currency = currencyOf(watch)
+    const drops: Array<PriceDrop & { product: WatchedProduct }> = []
+
+    for (const product of watch.products) {
+      const price = prices.get(`${product.key}:${currency}`)
+      if (price === undefined || price === null) continue
+
+      const dropPercent = round(((product.savedPrice - price) / product.savedPrice) * 100)
+      if (dropPercent >= watch.thresholdPercent && price < (product.lastAlertPrice ?? product.savedPrice)) {
+        drops.push({
+          product,
+          productId: product.productId,
+          title: product.title,
+          productUrl: product.productUrl,
+          currency,
+          savedPrice: product.savedPrice,
+          price,
+          dropPercent
+        })
+      }
+    }
+
+    if (drops.length > 0) {
+      try {
+        await notify({
+          userId: watch.userId,
+          searchId: watch.searchId,
+          query: watch.query,
+          drops: drops.map(({ product: _product, ...drop }) => drop)
+        })
+        for (const drop of drops) drop.product.lastAlertPrice = drop.price
+        summary.alertsSent++
+      } catch (error) {
+        // Leave lastAlertPrice alone so the next check tries again
+        console.warn(`Failed to send price alert for search ${watch.searchId}:`, error)
+      }
+    }
+
+    watch.lastCheckedAt = recordedAt
+    await store.saveWatch(watch)
+    summary.watchesChecked++
+  }
+
+  return summary
+}
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { redis, generateKey } from '@/lib/redis'
+import { InternalError } from '@/lib/errors'
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  // Requests still allowed in the current window, after this one
+  remaining: number
+  // When the oldest counted request leaves the window and frees a slot (ms since epoch)
+  resetAt: number
+}
+
+/**
+ * Sliding-window request log: a request is allowed when fewer than `limit`
+ * requests were counted for the key in the last `windowMs`. Rejected requests
+ * are not counted, so retrying early doesn't extend the wait.
+ */
+export interface RateLimitStore {
+  readonly name: string
+  hit(key: string, limit: number, windowMs: number): Promise<RateLimitResult>
+}
+
+// Memory store only; keys are swept once more than this many are tracked
+export const MAX_TRACKED_RATE_LIMIT_KEYS = 10_000
+
+function toResult(count: number, limit: number, allowed: boolean, oldest: number, windowMs: number): RateLimitResult {
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(limit - count, 0),
+    resetAt: oldest + windowMs
+  }
+}
+
+/**
+ * In-process store, used for tests and local development without Redis. Each
+ * server instance counts separately.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const hits = new Map<string, { times: number[]; windowMs: number }>()
+
+  const sweep = (now: number) => {
+    for (const [key, { times, windowMs }] of hits) {
+      if (times[times.length - 1] <= now - windowMs) hits.delete(key)
+    }
+  }
+
+  return {
+    name: 'memory',
+
+    async hit(key, limit, windowMs) {
+      const now = Date.now()
+      const times = (hits.get(key)?.times ?? []).filter(time => time > now - windowMs)
+      const allowed = times.length < limit
+      if (allowed) times.push(now)
+      hits.set(key, { times, windowMs })
+
+      if (hits.size > MAX_TRACKED_RATE_LIMIT_KEYS) sweep(now)
+
+      return toResult(times.length, limit, allowed, times[0] ?? now, windowMs)
+    }
+  }
+}
+
+/**
+ * Redis-backed store shared by all server instances: a sorted set of request
+ * times per key, expiring one window after the last request
+ */
+export function createRedisRateLimitStore(): RateLimitStore {
+  return {
+    name: 'redis',
+
+    async hit(key, limit, windowMs) {
+      const redisKey = generateKey('RATE_LIMIT', key)
+      const now = Date.now()
+      const member = `${now}_${Math.random().toString(36).substr(2, 9)}`
+
+      // Count this request first so concurrent requests can't all slip under the limit
+      const [, , count] = await redis.multi()
+        .zremrangebyscore(redisKey, 0, now - windowMs)
+        .zadd(redisKey, { score: now, member })
+        .zcard(redisKey)
+        .pexpire(redisKey, windowMs)
+        .exec<[number, number | null, number, number]>()
+
+      const allowed = count <= limit
+      if (!allowed) await redis.zrem(redisKey, member)
+
+      const [, oldest] = await redis.zrange<[string, number]>(redisKey, 0, 0, { withScores: true })
+      return toResult(allowed ? count : limit, limit, allowed, Number(oldest ?? now), windowMs)
+    }
+  }
+}
+
+let activeStore: RateLimitStore | null = null
+
+/**
+ * Name of the configured backend: RATE_LIMIT_STORE, else redis when Upstash
+ * credentials are present, else memory
+ */
+export function getRateLimitStoreName(): string {
+  const configured = process.env.RATE_LIMIT_STORE?.trim().toLowerCase()
+  if (configured) return configured
+  return process.env.UPSTASH_REDIS_REST_URL ? 'redis' : 'memory'
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!activeStore) {
+    const name = getRateLimitStoreName()
+    if (name === 'redis') {
+      activeStore = createRedisRateLimitStore()
+    } else if (name === 'memory') {
+      activeStore = createMemoryRateLimitStore()
+    } else {
+      throw new InternalError(
+        `Unknown rate limit store "${name}". Available: redis, memory`,
+        'UNKNOWN_RATE_LIMIT_STORE'
+      )
+    }
+  }
+  return activeStore
+}
+
+/**
+ * Replace the active store (e.g. with a fresh memory store in tests); pass null to reset
+ */
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  activeStore = store
+}
\ No newline at end of file
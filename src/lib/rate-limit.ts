@@ -0,0 +1,112 @@
+// Per-route request limits for the API, keyed by client IP and signed-in user
+import { NextRequest } from 'next/server'
+import { API_CONFIG } from '@/lib/config'
+import { getRequestUserId, isAnonymousUserId } from '@/lib/auth-token'
+import { RateLimitError, handleAPIError } from '@/lib/errors'
+import { RateLimitResult, getRateLimitStore } from '@/lib/rate-limit-store'
+
+export type RateLimitRoute = keyof typeof API_CONFIG.rateLimit.routes
+
+export interface RateLimit {
+  requests: number
+  // Milliseconds
+  window: number
+}
+
+export function getRateLimit(route: string): RateLimit {
+  const routes: Record<string, RateLimit> = API_CONFIG.rateLimit.routes
+  return routes[route] ?? { requests: API_CONFIG.rateLimit.requests, window: API_CONFIG.rateLimit.window }
+}
+
+// RATE_LIMIT_ENABLED=false turns limits off, e.g. for load tests
+export function isRateLimitEnabled(): boolean {
+  return process.env.RATE_LIMIT_ENABLED?.trim().toLowerCase() !== 'false'
+}
+
+/**
+ * Client address as reported by the proxy in front of the app (Vercel sets
+ * x-forwarded-for); 'unknown' when there is none
+ */
+export function getClientIp(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+  return forwarded || request.headers.get('x-real-ip')?.trim() || 'unknown'
+}
+
+/**
+ * Who a request counts against: always the client IP, so signing in doesn't
+ * buy a fresh quota, and also the signed-in user, so changing networks
+ * doesn't reset theirs
+ */
+export function getRateLimitIdentities(request: Request): string[] {
+  const identities = [`ip:${getClientIp(request)}`]
+  const userId = getRequestUserId(request)
+  if (!isAnonymousUserId(userId)) identities.push(`user:${userId}`)
+  return identities
+}
+
+// Blocked beats allowed, then fewest remaining, then latest reset
+function stricter(a: RateLimitResult, b: RateLimitResult): RateLimitResult {
+  if (a.allowed !== b.allowed) return a.allowed ? b : a
+  if (a.remaining !== b.remaining) return a.remaining < b.remaining ? a : b
+  return a.resetAt >= b.resetAt ? a : b
+}
+
+/**
+ * Count a request against the route's limit for each of its identities and
+ * return the stricter result. A request one bucket rejects still counts in
+ * the other.
+ */
+export async function checkRateLimit(request: Request, route: string): Promise<RateLimitResult> {
+  const { requests, window } = getRateLimit(route)
+  const store = getRateLimitStore()
+  const results = await Promise.all(
+    getRateLimitIdentities(request).map(identity => store.hit(`${route}:${identity}`, requests, window))
+  )
+  return results.reduce(stricter)
+}
+
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    // Unix time in seconds, like GitHub's API
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000))
+  }
+  if (!result.allowed) {
+    headers['Retry-After'] = String(Math.max(Math.ceil((result.resetAt - Date.now()) / 1000), 1))
+  }
+  return headers
+}
+
+/**
+ * Wrap a route handler so requests over the route's limit are answered with a
+ * 429 (RateLimitError through handleAPIError) and a Retry-After header. Every
+ * response carries the X-RateLimit-* headers. When the store fails, requests
+ * are let through rather than taking the API down with it.
+ */
+export function withRateLimit<A extends unknown[]>(
+  route: RateLimitRoute,
+  handler: (request: NextRequest, ...args: A) => Promise<Response>
+) {
+  return async (request: NextRequest, ...args: A): Promise<Response> => {
+    if (!isRateLimitEnabled()) return handler(request, ...args)
+
+    let result: RateLimitResult
+    try {
+      result = await checkRateLimit(request, route)
+    } catch (error) {
+      console.warn(`Rate limit check failed for ${route}, allowing request:`, error)
+      return handler(request, ...args)
+    }
+
+    const headers = getRateLimitHeaders(result)
+    const response = result.allowed
+      ? await handler(request, ...args)
+      : handleAPIError(new RateLimitError(`Rate limit exceeded for ${route}`, 'RATE_LIMIT_EXCEEDED', { route }))
+
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value)
+    }
+    return response
+  }
+}
\ No newline at end of file
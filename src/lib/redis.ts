@@ -10,16 +10,45 @@ export const redis = new Redis({
 export const REDIS_KEYS = {
   SEARCH_RESULTS: 'search:',
   SHARED_SETUP: 'setup:',
+  SEARCH_HISTORY: 'history:',
+  SEARCH_HISTORY_ENTRY: 'history-entry:',
+  SAVED_SEARCHES: 'saved:',
+  USER: 'user:',
+  USER_EMAIL: 'user-email:',
+  VERIFICATION_CODE: 'otp:',
+  EXCHANGE_RATES: 'fx:',
   USER_SESSION: 'session:',
+  CHAT_SESSION: 'chat:',
+  SCENE_ASSET: 'scene-asset:',
+  PRICE_HISTORY: 'prices:',
+  PRICE_WATCH: 'price-watch:',
+  PRICE_WATCHES: 'price-watches:',
+  SETUP_TEMPLATE: 'template:',
+  USER_TEMPLATES: 'templates:',
+  SETUP_REVISIONS: 'revisions:',
   RATE_LIMIT: 'rate:',
+  ANALYTICS_EVENTS: 'analytics:',
+  UPSTREAM_USAGE: 'usage:',
 } as const
 
 // TTL constants (in seconds)
 export const TTL = {
   SEARCH_RESULTS: 60 * 60, // 1 hour
   SHARED_SETUP: 60 * 60 * 24 * 7, // 7 days
+  SEARCH_HISTORY: 60 * 60 * 24 * 7, // 7 days
+  SAVED_SEARCH: 60 * 60 * 24 * 90, // 90 days
+  VERIFICATION_CODE: 60 * 10, // 10 minutes
+  EXCHANGE_RATES: 60 * 60 * 24 * 7, // 7 days, kept as a fallback past the refresh interval
   USER_SESSION: 60 * 60 * 24, // 24 hours
+  CHAT_SESSION: 60 * 60 * 24, // 24 hours since the last message
+  SCENE_CACHE: 60 * 60 * 24 * 7, // 7 days
+  SCENE_ASSET: 60 * 60 * 24 * 30, // 30 days, outliving the cached scenes and shared setups that link to it
+  PRICE_HISTORY: 60 * 60 * 24 * 180, // 180 days since the last recorded price
+  PRICE_WATCH: 60 * 60 * 24 * 90, // 90 days, like the saved search it watches
+  SETUP_REVISIONS: 60 * 60 * 24 * 90, // 90 days since the last revision, like a saved search
   RATE_LIMIT: 60, // 1 minute
+  ANALYTICS_EVENTS: 60 * 60 * 24 * 91, // 91 days, covering the longest analytics range
+  UPSTREAM_USAGE: 60 * 60 * 24 * 91, // 91 days, covering the longest usage report
 } as const
 
 /**
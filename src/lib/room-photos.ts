@@ -0,0 +1,68 @@
+// Room photos uploaded to the AI chat (image_0, image_1… form fields)
+import { analyzeRoomImages } from '@/lib/api/gemini'
+import { LLMImageInput } from '@/lib/api/llm-provider'
+import { RoomAnalysis } from '@/types/api'
+
+export const MAX_ROOM_PHOTOS = 4
+export const MAX_ROOM_PHOTO_BYTES = 5 * 1024 * 1024 // 5MB
+
+// Read image_0, image_1… until the first gap
+export function collectRoomPhotos(formData: FormData): File[] {
+  const images: File[] = []
+  let imageIndex = 0
+  while (formData.get(`image_${imageIndex}`)) {
+    images.push(formData.get(`image_${imageIndex}`) as File)
+    imageIndex++
+  }
+  return images
+}
+
+/**
+ * Error message for uploads we won't send to the model, or null when they're fine
+ */
+export function validateRoomPhotos(images: File[]): string | null {
+  if (images.length > MAX_ROOM_PHOTOS) {
+    return `At most ${MAX_ROOM_PHOTOS} images can be uploaded`
+  }
+  for (const image of images) {
+    if (typeof image === 'string' || !image.type?.startsWith('image/')) {
+      return 'Uploads must be image files'
+    }
+    if (image.size > MAX_ROOM_PHOTO_BYTES) {
+      return `Images must be smaller than ${MAX_ROOM_PHOTO_BYTES / 1024 / 1024}MB`
+    }
+  }
+  return null
+}
+
+async function toImageInput(image: File): Promise<LLMImageInput> {
+  const data = Buffer.from(await image.arrayBuffer()).toString('base64')
+  return { data, mimeType: image.type }
+}
+
+export function describeRoom(room: RoomAnalysis): string {
+  const lines = [room.summary || `Looks like a ${room.roomType}.`]
+  if (room.existingFurniture.length > 0) lines.push(`Already there: ${room.existingFurniture.join(', ')}`)
+  if (room.colorPalette.length > 0) lines.push(`Colour palette: ${room.colorPalette.join(', ')}`)
+  if (room.dimensions) lines.push(`Space: ${room.dimensions}`)
+  return lines.join('\n')
+}
+
+/**
+ * Analyse the photos with the configured model. The photos are context, not a
+ * requirement: when analysis fails, `room` is null and callers plan without it.
+ */
+export async function analyzeRoomPhotos(
+  images: File[],
+  message?: string
+): Promise<{ room: RoomAnalysis | null; description: string | null }> {
+  if (images.length === 0) return { room: null, description: null }
+
+  try {
+    const room = await analyzeRoomImages(await Promise.all(images.map(toImageInput)), message || undefined)
+    return { room, description: describeRoom(room) }
+  } catch (error) {
+    console.error('Image analysis error:', error)
+    return { room: null, description: 'Images uploaded but analysis temporarily unavailable.' }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { redis, generateKey, TTL } from '@/lib/redis'
+import { InternalError } from '@/lib/errors'
+
+/**
+ * A generated scene image. The ID is the SHA-256 of the image bytes, so the
+ * same image is only ever stored once and its URL never changes.
+ */
+export interface SceneAsset {
+  id: string
+  mimeType: string
+  // Base64-encoded image bytes
+  data: string
+  createdAt: string
+}
+
+export interface SceneAssetStore {
+  readonly name: string
+  get(id: string): Promise<SceneAsset | null>
+  // Saving an asset that already exists only restarts its TTL
+  save(asset: SceneAsset): Promise<void>
+}
+
+export interface SceneAssetStoreOptions {
+  ttlSeconds?: number
+}
+
+/**
+ * In-process store, used for tests and local development without Redis.
+ * `now` can be injected to exercise TTL expiry.
+ */
+export function createMemorySceneAssetStore(
+  options: SceneAssetStoreOptions & { now?: () => number } = {}
+): SceneAssetStore {
+  const ttlSeconds = options.ttlSeconds ?? TTL.SCENE_ASSET
+  const now = options.now ?? Date.now
+  const assets = new Map<string, { asset: SceneAsset; expiresAt: number }>()
+
+  return {
+    name: 'memory',
+
+    async get(id) {
+      const entry = assets.get(id)
+      if (!entry) return null
+      if (entry.expiresAt <= now()) {
+        assets.delete(id)
+        return null
+      }
+      return { ...entry.asset }
+    },
+
+    async save(asset) {
+      const existing = assets.get(asset.id)
+      assets.set(asset.id, {
+        asset: existing?.asset ?? { ...asset },
+        expiresAt: now() + ttlSeconds * 1000
+      })
+    }
+  }
+}
+
+/**
+ * Redis-backed store: one key per image, holding the asset as JSON. Upstash
+ * caps request size (1 MB on the free plan), so large images need a plan
+ * with a higher limit.
+ */
+export function createRedisSceneAssetStore(options: SceneAssetStoreOptions = {}): SceneAssetStore {
+  const ttlSeconds = options.ttlSeconds ?? TTL.SCENE_ASSET
+  const assetKey = (id: string) => generateKey('SCENE_ASSET', id)
+
+  return {
+    name: 'redis',
+
+    async get(id) {
+      const stored = await redis.get(assetKey(id))
+      if (!stored) return null
+      return (typeof stored === 'string' ? JSON.parse(stored) : stored) as SceneAsset
+    },
+
+    async save(asset) {
+      // The bytes behind an ID never change, so only the TTL needs refreshing
+      if (await redis.expire(assetKey(asset.id), ttlSeconds)) return
+      await redis.set(assetKey(asset.id), JSON.stringify(asset), { ex: ttlSeconds })
+    }
+  }
+}
+
+let activeStore: SceneAssetStore | null = null
+
+/**
+ * Name of the configured backend: SCENE_ASSET_STORE, else redis when
+ * Upstash credentials are present, else memory
+ */
+export function getSceneAssetStoreName(): string {
+  const configured = process.env.SCENE_ASSET_STORE?.trim().toLowerCase()
+  if (configured) return configured
+  return process.env.UPSTASH_REDIS_REST_URL ? 'redis' : 'memory'
+}
+
+export function getSceneAssetStore(): SceneAssetStore {
+  if (!activeStore) {
+    const name = getSceneAssetStoreName()
+    if (name === 'redis') {
+      activeStore = createRedisSceneAssetStore()
+    } else if (name === 'memory') {
+      activeStore = createMemorySceneAssetStore()
+    } else {
+      throw new InternalError(
+        `Unknown scene asset store "${name}". Available: redis, memory`,
+        'UNKNOWN_SCENE_ASSET_STORE'
+      )
+    }
+  }
+  return activeStore
+}
+
+/**
+ * Replace the active store (e.g. with a fresh memory store in tests); pass null to reset
+ */
+export function setSceneAssetStore(store: SceneAssetStore | null): void {
+  activeStore = store
+}
\ No newline at end of file
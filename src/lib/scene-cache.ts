@@ -0,0 +1,111 @@
+import { createHash } from 'crypto'
+import { getSceneAssetStore } from '@/lib/scene-asset-store'
+import type { SceneGenerationResponse, SceneRequest, SceneResponse } from '@/types/api'
+
+export const SCENE_IMAGE_PATH = '/api/ai-scene/image'
+
+const DATA_URL_PATTERN = /^data:(image\/[\w.+-]+);base64,(.+)$/
+const SCENE_ASSET_ID_PATTERN = /^[a-f0-9]{64}$/
+
+const pendingGenerations = new Map<string, Promise<unknown>>()
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * Cache key for a scene request. Scenes are keyed by what they show, not by
+ * who asked: the same products (in any order) in the same style and room
+ * share one entry, across searches, chat sessions and shared setups.
+ */
+export function getSceneCacheKey(request: SceneRequest, variationCount: number = 1): string {
+  const identity = {
+    productIds: request.products.map(product => product.id).sort(),
+    style: request.style,
+    roomType: request.roomType?.trim().toLowerCase() || null,
+    variations: variationCount
+  }
+  return `scene:${sha256(JSON.stringify(identity))}`
+}
+
+/**
+ * Rough scene generation time in seconds, shown to users while they wait
+ */
+export function estimateSceneGenerationTime(productCount: number, variationCount: number = 1): number {
+  const baseTime = 30 // seconds
+  const timePerProduct = 5 // seconds
+  const timePerVariation = 20 // seconds
+
+  return baseTime + (productCount * timePerProduct) + ((variationCount - 1) * timePerVariation)
+}
+
+export function buildSceneGenerationResponse(
+  request: SceneRequest,
+  scenes: SceneResponse[],
+  variationCount: number
+): SceneGenerationResponse {
+  return {
+    scenes,
+    count: scenes.length,
+    style: request.style,
+    productCount: request.products.length,
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      style: request.style,
+      roomType: request.roomType || 'inferred',
+      productTitles: request.products.slice(0, 3).map(p => p.title),
+      estimatedGenerationTime: estimateSceneGenerationTime(request.products.length, variationCount)
+    }
+  }
+}
+
+export function isSceneAssetId(id: string): boolean {
+  return SCENE_ASSET_ID_PATTERN.test(id)
+}
+
+export function getSceneImageUrl(id: string): string {
+  return `${SCENE_IMAGE_PATH}/${id}`
+}
+
+/**
+ * Move an inline `data:` image into the asset store and return its stable
+ * URL. Other URLs (placeholders, provider-hosted images) are returned as
+ * they are, and so is the data URL itself when it can't be stored.
+ */
+export async function storeSceneImage(imageUrl: string): Promise<string> {
+  const match = DATA_URL_PATTERN.exec(imageUrl)
+  if (!match) return imageUrl
+
+  const [, mimeType, data] = match
+  const id = sha256(Buffer.from(data, 'base64'))
+
+  try {
+    await getSceneAssetStore().save({ id, mimeType, data, createdAt: new Date().toISOString() })
+    return getSceneImageUrl(id)
+  } catch (error) {
+    console.warn('Failed to store scene image, returning it inline:', error)
+    return imageUrl
+  }
+}
+
+export async function persistSceneImages(scenes: SceneResponse[]): Promise<SceneResponse[]> {
+  return Promise.all(scenes.map(async scene => ({
+    ...scene,
+    imageUrl: await storeSceneImage(scene.imageUrl)
+  })))
+}
+
+/**
+ * Run `generate` at most once per key at a time: identical requests that
+ * arrive while a scene is rendering wait for it instead of paying again
+ */
+export function generateSceneOnce<T>(key: string, generate: () => Promise<T>): Promise<T> {
+  const pending = pendingGenerations.get(key)
+  if (pending) return pending as Promise<T>
+
+  const generation = generate().finally(() => {
+    pendingGenerations.delete(key)
+  })
+  pendingGenerations.set(key, generation)
+  return generation
+}
\ No newline at end of file
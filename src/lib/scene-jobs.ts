@@ -0,0 +1,287 @@
+import { generateScene, generateSceneVariation } from '@/lib/api/gemini-image'
+import { getCachedData, setCachedData } from '@/lib/cache'
+import { InternalError } from '@/lib/errors'
+import { TTL } from '@/lib/redis'
+import {
+  buildSceneGenerationResponse,
+  estimateSceneGenerationTime,
+  getSceneCacheKey,
+  storeSceneImage
+} from '@/lib/scene-cache'
+import type { SceneGenerationResponse, SceneJob, SceneRequest, SceneResponse } from '@/types/api'
+
+/**
+ * Runs scene generation outside the request that asked for it. Callers
+ * enqueue a job, then poll it: each variation reports its own status and
+ * scene, so finished renders show up before the slowest one is done.
+ */
+export interface SceneJobQueue {
+  readonly name: string
+  // Returns the job in its initial (queued) state; `ownerId` is the user who
+  // queued it (see getRequestUserId)
+  enqueue(request: SceneRequest, variationCount: number, ownerId: string): Promise<SceneJob>
+  get(jobId: string): Promise<SceneJob | null>
+  // Stops variations that haven't finished; finished jobs are returned
+  // unchanged. Returns null when the job isn't found or isn't `ownerId`'s.
+  cancel(jobId: string, ownerId: string): Promise<SceneJob | null>
+}
+
+/**
+ * Renders one variation (1-based) of a job's scene
+ */
+export type SceneVariationRenderer = (
+  request: SceneRequest,
+  variation: number,
+  variationCount: number
+) => Promise<SceneResponse>
+
+export interface MemorySceneJobQueueOptions {
+  render?: SceneVariationRenderer
+  // Jobs rendering at the same time
+  concurrency?: number
+  // Pause between variations of a job, to stay under image API rate limits
+  variationDelayMs?: number
+  // How long a job stays readable after its last update
+  ttlSeconds?: number
+  now?: () => number
+}
+
+export const DEFAULT_SCENE_JOB_TTL_SECONDS = 60 * 60 // 1 hour
+
+const FINISHED_STATUSES: ReadonlyArray<SceneJob['status']> = ['completed', 'failed', 'cancelled']
+
+// Single scenes keep the plain prompt, so they share cache entries with /api/ai-scene
+const renderSceneVariation: SceneVariationRenderer = (request, variation, variationCount) =>
+  variationCount > 1 ? generateSceneVariation(request, variation) : generateScene(request)
+
+export function generateSceneJobId(): string {
+  return `scene_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+export function isFinishedSceneJob(job: SceneJob): boolean {
+  return FINISHED_STATUSES.includes(job.status)
+}
+
+/**
+ * In-process queue. Jobs run in the server process that accepted them and
+ * are only visible to it, so this needs one long-running server (`npm start`):
+ * on serverless hosts a job dies with the function that queued it and polls
+ * reach other instances. Expired jobs are swept on every enqueue. `now` can
+ * be injected to exercise TTL expiry.
+ */
+export function createMemorySceneJobQueue(options: MemorySceneJobQueueOptions = {}): SceneJobQueue {
+  const render = options.render ?? renderSceneVariation
+  const concurrency = Math.max(1, options.concurrency ?? 2)
+  const variationDelayMs = options.variationDelayMs ?? 2000
+  const ttlSeconds = options.ttlSeconds ?? DEFAULT_SCENE_JOB_TTL_SECONDS
+  const now = options.now ?? Date.now
+
+  const jobs = new Map<string, { job: SceneJob; request: SceneRequest; ownerId: string; expiresAt: number }>()
+  const pending: string[] = []
+  let running = 0
+
+  const touch = (jobId: string) => {
+    const entry = jobs.get(jobId)
+    if (!entry) return
+    entry.job.updatedAt = new Date(now()).toISOString()
+    entry.expiresAt = now() + ttlSeconds * 1000
+  }
+
+  const finish = (jobId: string, result: SceneGenerationResponse | null) => {
+    const entry = jobs.get(jobId)
+    if (!entry || entry.job.status === 'cancelled') return
+    entry.job.result = result
+    entry.job.status = result ? 'completed' : 'failed'
+    entry.job.error = result ? null : 'Failed to generate any scene variations'
+    touch(jobId)
+  }
+
+  async function run(jobId: string): Promise<void> {
+    const entry = jobs.get(jobId)
+    if (!entry || entry.job.status !== 'queued') return
+    const { job, request } = entry
+    // cancel() flips the status while this runs
+    const isCancelled = () => job.status === 'cancelled'
+
+    job.status = 'running'
+    touch(jobId)
+
+    // Same key as /api/ai-scene, so either path reuses the other's renders
+    const cacheKey = getSceneCacheKey(request, job.variationCount)
+    const cached = await getCachedData<SceneGenerationResponse>(cacheKey)
+    if (cached) {
+      job.variations.forEach((variation, index) => {
+        const scene = cached.scenes[index] ?? null
+        variation.status = scene ? 'completed' : 'failed'
+        variation.scene = scene
+      })
+      finish(jobId, cached)
+      return
+    }
+
+    for (const variation of job.variations) {
+      if (isCancelled()) return
+
+      variation.status = 'running'
+      touch(jobId)
+
+      try {
+        const scene = await render(request, variation.variation, job.variationCount)
+        // A cancel while rendering discards the result
+        if (isCancelled()) return
+        variation.scene = { ...scene, imageUrl: await storeSceneImage(scene.imageUrl) }
+        variation.status = 'completed'
+      } catch (error) {
+        if (isCancelled()) return
+        console.warn(`Failed to generate scene variation ${variation.variation}:`, error)
+        variation.status = 'failed'
+        variation.error = error instanceof Error ? error.message : 'Scene generation failed'
+      }
+      touch(jobId)
+
+      const isLast = variation.variation === job.variationCount
+      if (!isLast && variationDelayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, variationDelayMs))
+      }
+    }
+
+    const scenes = job.variations.flatMap(variation => (variation.scene ? [variation.scene] : []))
+    if (scenes.length === 0) {
+      finish(jobId, null)
+      return
+    }
+
+    const result = buildSceneGenerationResponse(request, scenes, job.variationCount)
+    await setCachedData(cacheKey, result, TTL.SCENE_CACHE)
+    finish(jobId, result)
+  }
+
+  function pump(): void {
+    while (running < concurrency && pending.length > 0) {
+      const jobId = pending.shift() as string
+      running++
+      run(jobId)
+        .catch(error => {
+          console.error('Scene job failed:', error)
+          finish(jobId, null)
+        })
+        .finally(() => {
+          running--
+          pump()
+        })
+    }
+  }
+
+  // Drop every expired job, including ones nobody polls again
+  function sweep(): void {
+    for (const [jobId, entry] of jobs) {
+      if (entry.expiresAt <= now()) jobs.delete(jobId)
+    }
+  }
+
+  function read(jobId: string): SceneJob | null {
+    const entry = jobs.get(jobId)
+    if (!entry) return null
+    if (entry.expiresAt <= now()) {
+      jobs.delete(jobId)
+      return null
+    }
+    // Copies keep callers from seeing (or making) changes mid-render
+    return structuredClone(entry.job)
+  }
+
+  return {
+    name: 'memory',
+
+    async enqueue(request, variationCount, ownerId) {
+      sweep()
+      const createdAt = new Date(now()).toISOString()
+      const job: SceneJob = {
+        id: generateSceneJobId(),
+        status: 'queued',
+        style: request.style,
+        roomType: request.roomType ?? null,
+        productCount: request.products.length,
+        variationCount,
+        variations: Array.from({ length: variationCount }, (_, index) => ({
+          variation: index + 1,
+          status: 'queued' as const,
+          scene: null,
+          error: null
+        })),
+        result: null,
+        error: null,
+        estimatedGenerationTime: estimateSceneGenerationTime(request.products.length, variationCount),
+        createdAt,
+        updatedAt: createdAt
+      }
+
+      jobs.set(job.id, { job, request: structuredClone(request), ownerId, expiresAt: now() + ttlSeconds * 1000 })
+      pending.push(job.id)
+      const queued = structuredClone(job)
+      pump()
+      return queued
+    },
+
+    async get(jobId) {
+      return read(jobId)
+    },
+
+    async cancel(jobId, ownerId) {
+      const entry = jobs.get(jobId)
+      if (!entry || entry.ownerId !== ownerId || !read(jobId)) return null
+
+      const { job } = entry
+      if (!isFinishedSceneJob(job)) {
+        job.status = 'cancelled'
+        for (const variation of job.variations) {
+          if (variation.status === 'queued' || variation.status === 'running') {
+            variation.status = 'cancelled'
+          }
+        }
+        const index = pending.indexOf(jobId)
+        if (index >= 0) pending.splice(index, 1)
+        touch(jobId)
+      }
+      return read(jobId)
+    }
+  }
+}
+
+let activeQueue: SceneJobQueue | null = null
+
+/**
+ * Name of the configured queue: SCENE_JOB_QUEUE, else null. There is no
+ * default: the memory queue only works on a long-running server, so it has
+ * to be chosen explicitly.
+ */
+export function getSceneJobQueueName(): string | null {
+  return process.env.SCENE_JOB_QUEUE?.trim().toLowerCase() || null
+}
+
+/**
+ * The configured queue, or null when SCENE_JOB_QUEUE is unset and scenes are
+ * rendered by the blocking POST /api/ai-scene instead
+ */
+export function getSceneJobQueue(): SceneJobQueue | null {
+  if (!activeQueue) {
+    const name = getSceneJobQueueName()
+    if (!name) return null
+    if (name === 'memory') {
+      activeQueue = createMemorySceneJobQueue()
+    } else {
+      throw new InternalError(
+        `Unknown scene job queue "${name}". Available: memory`,
+        'UNKNOWN_SCENE_JOB_QUEUE'
+      )
+    }
+  }
+  return activeQueue
+}
+
+/**
+ * Replace the active queue (e.g. with one using a stub renderer in tests); pass null to reset
+ */
+export function setSceneJobQueue(queue: SceneJobQueue | null): void {
+  activeQueue = queue
+}
\ No newline at end of file
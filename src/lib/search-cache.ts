@@ -1,51 +1,110 @@
-// Search result caching system
+// Per-user search history and saved searches (see lib/search-history-store for backends)
 import { SearchSettings } from '@/types'
+import { SearchSummary, Pagination } from '@/types/api'
+import { getSearchHistoryStore, PageOptions } from '@/lib/search-history-store'
 
 export interface CachedSearchResult {
   id: string
+  userId: string
   query: string
   settings: SearchSettings
   results: any[] // The actual product results
-  createdAt: Date
+  createdAt: string
   productCount: number
 }
 
-// In-memory cache (in production, use Redis or database)
-const searchCache = new Map<string, CachedSearchResult>()
-
-export function saveSearchResults(
-  query: string, 
-  settings: SearchSettings, 
+export async function saveSearchResults(
+  userId: string,
+  query: string,
+  settings: SearchSettings,
   results: any[]
-): string {
+): Promise<string> {
   const searchId = `search_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-  
+
   const cachedResult: CachedSearchResult = {
     id: searchId,
+    userId,
     query,
     settings,
     results,
-    createdAt: new Date(),
+    createdAt: new Date().toISOString(),
     productCount: results.length
   }
-  
-  searchCache.set(searchId, cachedResult)
-  
+
+  await getSearchHistoryStore().addSearch(cachedResult)
+
   return searchId
 }
 
-export function getCachedSearchResult(searchId: string): CachedSearchResult | null {
-  const result = searchCache.get(searchId)
-  return result || null
+export async function getCachedSearchResult(userId: string, searchId: string): Promise<CachedSearchResult | null> {
+  return getSearchHistoryStore().getSearch(userId, searchId)
+}
+
+/**
+ * One page of the user's history, newest first, flagged with saved state
+ */
+export async function getSearchHistory(
+  userId: string,
+  page: PageOptions
+): Promise<{ items: SearchSummary[]; pagination: Pagination }> {
+  const store = getSearchHistoryStore()
+  const { items, total } = await store.listSearches(userId, page)
+  const savedIds = await store.getSavedIds(userId, items.map(item => item.id))
+
+  return {
+    items: items.map(item => toSearchSummary(item, savedIds.has(item.id))),
+    pagination: toPagination(page, items.length, total)
+  }
+}
+
+/**
+ * One page of the user's saved searches, most recently saved first
+ */
+export async function getSavedSearches(
+  userId: string,
+  page: PageOptions
+): Promise<{ items: SearchSummary[]; pagination: Pagination }> {
+  const { items, total } = await getSearchHistoryStore().listSaved(userId, page)
+
+  return {
+    items: items.map(item => toSearchSummary(item, true)),
+    pagination: toPagination(page, items.length, total)
+  }
 }
 
-export function getAllCachedSearches(): CachedSearchResult[] {
-  return Array.from(searchCache.values()).sort((a, b) => 
-    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  )
+export async function isSearchSaved(userId: string, searchId: string): Promise<boolean> {
+  const savedIds = await getSearchHistoryStore().getSavedIds(userId, [searchId])
+  return savedIds.has(searchId)
 }
 
-export function deleteCachedSearch(searchId: string): boolean {
-  const deleted = searchCache.delete(searchId)
-  return deleted
-}
\ No newline at end of file
+export async function saveSearch(userId: string, searchId: string): Promise<boolean> {
+  return getSearchHistoryStore().saveSearch(userId, searchId)
+}
+
+export async function unsaveSearch(userId: string, searchId: string): Promise<boolean> {
+  return getSearchHistoryStore().unsaveSearch(userId, searchId)
+}
+
+export async function deleteCachedSearch(userId: string, searchId: string): Promise<boolean> {
+  return getSearchHistoryStore().deleteSearch(userId, searchId)
+}
+
+function toSearchSummary(search: CachedSearchResult, isSaved: boolean): SearchSummary {
+  return {
+    id: search.id,
+    query: search.query,
+    settings: search.settings,
+    createdAt: search.createdAt,
+    productCount: search.productCount,
+    isSaved
+  }
+}
+
+function toPagination({ offset, limit }: PageOptions, count: number, total: number): Pagination {
+  return {
+    offset,
+    limit,
+    total,
+    hasMore: offset + count < total
+  }
+}
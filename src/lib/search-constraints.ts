@@ -0,0 +1,120 @@
+// Hard candidate filters from SearchSettings.constraints, shared by build, swap and reroll
+import type { SearchConstraints } from '@/types'
+import { escapeRegExp } from '@/lib/utils'
+import type { ConstraintName, ConstraintRemoval, RawProduct } from '@/types/api'
+
+export interface ConstraintResult {
+  candidates: RawProduct[]
+  // Only constraints that removed something; each candidate is reported once,
+  // under the first constraint it failed
+  removals: ConstraintRemoval[]
+}
+
+type Check = (product: RawProduct) => boolean
+
+// Whole-word match, so "LG" doesn't match "Logitech"
+function mentions(text: string | undefined, names: string[]): boolean {
+  if (!text) return false
+  return names.some(name => new RegExp(`(^|[^a-z0-9])${escapeRegExp(name)}($|[^a-z0-9])`, 'i').test(text))
+}
+
+function merchantMatches(merchant: string | undefined, names: string[]): boolean {
+  const normalized = merchant?.toLowerCase() ?? ''
+  return normalized !== '' && names.some(name => normalized.includes(name.toLowerCase()))
+}
+
+/**
+ * Price range for a category, looked up by any of its names (need key,
+ * display name…) and falling back to the "*" entry
+ */
+export function getCategoryPriceRange(
+  constraints: SearchConstraints | undefined,
+  categoryNames: string[]
+): { min?: number; max?: number } | null {
+  const ranges = constraints?.categoryPrices
+  if (!ranges) return null
+
+  const wanted = categoryNames.map(name => name.trim().toLowerCase()).filter(Boolean)
+  const match = Object.entries(ranges).find(([name]) => wanted.includes(name.trim().toLowerCase()))
+  return match?.[1] ?? ranges['*'] ?? null
+}
+
+function buildChecks(constraints: SearchConstraints, categoryNames: string[]): Array<[ConstraintName, Check]> {
+  const checks: Array<[ConstraintName, Check]> = []
+  const { includeBrands, excludeBrands, allowMerchants, denyMerchants, minRating, minReviewCount, shipsTo } = constraints
+
+  if (includeBrands?.length) {
+    checks.push(['includeBrands', product => mentions(product.title, includeBrands)])
+  }
+  if (excludeBrands?.length) {
+    checks.push(['excludeBrands', product => !mentions(product.title, excludeBrands)])
+  }
+  if (allowMerchants?.length) {
+    checks.push(['allowMerchants', product => merchantMatches(product.merchant, allowMerchants)])
+  }
+  if (denyMerchants?.length) {
+    checks.push(['denyMerchants', product => !merchantMatches(product.merchant, denyMerchants)])
+  }
+  // Unrated and unreviewed listings can't prove they meet a floor
+  if (minRating !== undefined) {
+    checks.push(['minRating', product => product.rating !== undefined && product.rating >= minRating])
+  }
+  if (minReviewCount !== undefined) {
+    checks.push(['minReviewCount', product => product.reviewCount !== undefined && product.reviewCount >= minReviewCount])
+  }
+
+  const range = getCategoryPriceRange(constraints, categoryNames)
+  if (range && (range.min !== undefined || range.max !== undefined)) {
+    checks.push(['categoryPrices', product =>
+      product.price !== undefined &&
+      (range.min === undefined || product.price >= range.min) &&
+      (range.max === undefined || product.price <= range.max)
+    ])
+  }
+  if (shipsTo) {
+    checks.push(['shipsTo', product => product.shipRegion?.toUpperCase() === shipsTo.toUpperCase()])
+  }
+
+  return checks
+}
+
+export function hasSearchConstraints(constraints: SearchConstraints | undefined): boolean {
+  return !!constraints && Object.values(constraints).some(value =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined
+  )
+}
+
+/**
+ * Remove candidates that break a constraint. `needKey` labels the removals;
+ * `categoryNames` select the category price range (the need key is always one).
+ * Prices are compared as given, so normalize candidates to the settings currency first.
+ */
+export function applySearchConstraints(
+  candidates: RawProduct[],
+  constraints: SearchConstraints | undefined,
+  needKey: string,
+  categoryNames: string[] = []
+): ConstraintResult {
+  if (!constraints || !hasSearchConstraints(constraints)) {
+    return { candidates, removals: [] }
+  }
+
+  const checks = buildChecks(constraints, [needKey, ...categoryNames])
+  const removed = new Map<ConstraintName, RawProduct[]>()
+  const kept = candidates.filter(product => {
+    const failed = checks.find(([, check]) => !check(product))
+    if (!failed) return true
+    removed.set(failed[0], [...(removed.get(failed[0]) ?? []), product])
+    return false
+  })
+
+  return {
+    candidates: kept,
+    removals: checks.flatMap(([constraint]) => {
+      const products = removed.get(constraint)
+      return products
+        ? [{ needKey, constraint, removed: products.map(product => ({ id: product.id, title: product.title })) }]
+        : []
+    })
+  }
+}
\ No newline at end of file
@@ -0,0 +1,346 @@
+import { redis, generateKey, TTL } from '@/lib/redis'
+import { InternalError } from '@/lib/errors'
+import type { CachedSearchResult } from '@/lib/search-cache'
+
+export interface PageOptions {
+  offset: number
+  limit: number
+}
+
+export interface Page<T> {
+  items: T[]
+  total: number
+}
+
+/**
+ * Per-user storage for search history and saved searches.
+ *
+ * History entries expire after `historyTtlSeconds` and only the newest
+ * `maxHistoryEntries` are kept per user. Saving a search keeps its entry for
+ * `savedTtlSeconds` instead, even once it has dropped out of the history.
+ */
+export interface SearchHistoryStore {
+  readonly name: string
+  addSearch(result: CachedSearchResult): Promise<void>
+  getSearch(userId: string, searchId: string): Promise<CachedSearchResult | null>
+  // Newest first
+  listSearches(userId: string, page: PageOptions): Promise<Page<CachedSearchResult>>
+  // Removes the entry from history and from the saved list
+  deleteSearch(userId: string, searchId: string): Promise<boolean>
+  // Returns false when the search does not exist (or has expired)
+  saveSearch(userId: string, searchId: string): Promise<boolean>
+  // Returns false when the search was not saved
+  unsaveSearch(userId: string, searchId: string): Promise<boolean>
+  // Most recently saved first
+  listSaved(userId: string, page: PageOptions): Promise<Page<CachedSearchResult>>
+  getSavedIds(userId: string, searchIds: string[]): Promise<Set<string>>
+}
+
+export interface SearchHistoryStoreOptions {
+  historyTtlSeconds?: number
+  savedTtlSeconds?: number
+  maxHistoryEntries?: number
+}
+
+export const MAX_HISTORY_ENTRIES = 100
+
+function resolveOptions(options: SearchHistoryStoreOptions): Required<SearchHistoryStoreOptions> {
+  return {
+    historyTtlSeconds: options.historyTtlSeconds ?? TTL.SEARCH_HISTORY,
+    savedTtlSeconds: options.savedTtlSeconds ?? TTL.SAVED_SEARCH,
+    maxHistoryEntries: options.maxHistoryEntries ?? MAX_HISTORY_ENTRIES
+  }
+}
+
+interface MemoryEntry {
+  result: CachedSearchResult
+  expiresAt: number
+}
+
+interface MemoryUserData {
+  entries: Map<string, MemoryEntry>
+  // searchId -> createdAt, insertion ordered oldest first
+  history: Map<string, number>
+  // searchId -> savedAt, insertion ordered oldest first
+  saved: Map<string, number>
+}
+
+/**
+ * In-process store, used for tests and local development without Redis.
+ * `now` can be injected to exercise TTL expiry.
+ */
+export function createMemorySearchHistoryStore(
+  options: SearchHistoryStoreOptions & { now?: () => number } = {}
+): SearchHistoryStore {
+  const { historyTtlSeconds, savedTtlSeconds, maxHistoryEntries } = resolveOptions(options)
+  const now = options.now ?? Date.now
+  const users = new Map<string, MemoryUserData>()
+
+  const getUser = (userId: string): MemoryUserData => {
+    let data = users.get(userId)
+    if (!data) {
+      data = { entries: new Map(), history: new Map(), saved: new Map() }
+      users.set(userId, data)
+    }
+    return data
+  }
+
+  // Drop an expired entry from every index, returning the live entry if any
+  const getLiveEntry = (data: MemoryUserData, searchId: string): MemoryEntry | null => {
+    const entry = data.entries.get(searchId)
+    if (entry && entry.expiresAt > now()) return entry
+
+    data.entries.delete(searchId)
+    data.history.delete(searchId)
+    data.saved.delete(searchId)
+    return null
+  }
+
+  const listPage = (data: MemoryUserData, index: Map<string, number>, { offset, limit }: PageOptions) => {
+    const liveIds = Array.from(index.keys())
+      .reverse()
+      .filter(id => getLiveEntry(data, id) !== null)
+
+    return {
+      items: liveIds.slice(offset, offset + limit).map(id => data.entries.get(id)!.result),
+      total: liveIds.length
+    }
+  }
+
+  return {
+    name: 'memory',
+
+    async addSearch(result) {
+      const data = getUser(result.userId)
+      data.entries.set(result.id, { result, expiresAt: now() + historyTtlSeconds * 1000 })
+      data.history.set(result.id, new Date(result.createdAt).getTime())
+
+      // Trim the oldest history entries; saved ones stay reachable through the saved list
+      const overflow = data.history.size - maxHistoryEntries
+      if (overflow > 0) {
+        for (const id of Array.from(data.history.keys()).slice(0, overflow)) {
+          data.history.delete(id)
+          if (!data.saved.has(id)) data.entries.delete(id)
+        }
+      }
+    },
+
+    async getSearch(userId, searchId) {
+      const data = users.get(userId)
+      if (!data) return null
+      return getLiveEntry(data, searchId)?.result ?? null
+    },
+
+    async listSearches(userId, page) {
+      const data = users.get(userId)
+      if (!data) return { items: [], total: 0 }
+      return listPage(data, data.history, page)
+    },
+
+    async deleteSearch(userId, searchId) {
+      const data = users.get(userId)
+      if (!data || !getLiveEntry(data, searchId)) return false
+
+      data.entries.delete(searchId)
+      data.history.delete(searchId)
+      data.saved.delete(searchId)
+      return true
+    },
+
+    async saveSearch(userId, searchId) {
+      const data = users.get(userId)
+      const entry = data ? getLiveEntry(data, searchId) : null
+      if (!data || !entry) return false
+
+      data.saved.delete(searchId)
+      data.saved.set(searchId, now())
+      entry.expiresAt = now() + savedTtlSeconds * 1000
+      return true
+    },
+
+    async unsaveSearch(userId, searchId) {
+      const data = users.get(userId)
+      if (!data || !data.saved.delete(searchId)) return false
+
+      const entry = getLiveEntry(data, searchId)
+      if (entry) {
+        if (data.history.has(searchId)) {
+          entry.expiresAt = now() + historyTtlSeconds * 1000
+        } else {
+          // Already trimmed from history, nothing references it any more
+          data.entries.delete(searchId)
+        }
+      }
+      return true
+    },
+
+    async listSaved(userId, page) {
+      const data = users.get(userId)
+      if (!data) return { items: [], total: 0 }
+      return listPage(data, data.saved, page)
+    },
+
+    async getSavedIds(userId, searchIds) {
+      const data = users.get(userId)
+      return new Set(data ? searchIds.filter(id => data.saved.has(id)) : [])
+    }
+  }
+}
+
+function parseStored(value: unknown): CachedSearchResult | null {
+  if (!value) return null
+  // Upstash deserializes JSON automatically; plain strings come from older clients
+  return (typeof value === 'string' ? JSON.parse(value) : value) as CachedSearchResult
+}
+
+/**
+ * Redis-backed store. Each user has a history sorted set and a saved sorted
+ * set of search IDs; the results themselves live under their own keys so
+ * they can carry separate TTLs.
+ */
+export function createRedisSearchHistoryStore(options: SearchHistoryStoreOptions = {}): SearchHistoryStore {
+  const { historyTtlSeconds, savedTtlSeconds, maxHistoryEntries } = resolveOptions(options)
+
+  const historyKey = (userId: string) => generateKey('SEARCH_HISTORY', userId)
+  const savedKey = (userId: string) => generateKey('SAVED_SEARCHES', userId)
+  const entryKey = (userId: string, searchId: string) => generateKey('SEARCH_HISTORY_ENTRY', `${userId}:${searchId}`)
+
+  const listPage = async (
+    userId: string,
+    indexKey: string,
+    { offset, limit }: PageOptions
+  ): Promise<Page<CachedSearchResult>> => {
+    const [ids, total] = await Promise.all([
+      redis.zrange<string[]>(indexKey, offset, offset + limit - 1, { rev: true }),
+      redis.zcard(indexKey)
+    ])
+    if (ids.length === 0) return { items: [], total }
+
+    const values = await redis.mget<unknown[]>(...ids.map(id => entryKey(userId, id)))
+    const items: CachedSearchResult[] = []
+    const expiredIds: string[] = []
+    values.forEach((value, i) => {
+      const result = parseStored(value)
+      if (result) {
+        items.push(result)
+      } else {
+        expiredIds.push(ids[i])
+      }
+    })
+
+    // Lazily prune IDs whose entries have expired
+    if (expiredIds.length > 0) {
+      await redis.zrem(indexKey, ...expiredIds)
+    }
+
+    return { items, total: total - expiredIds.length }
+  }
+
+  return {
+    name: 'redis',
+
+    async addSearch(result) {
+      const { userId, id } = result
+      await redis.set(entryKey(userId, id), JSON.stringify(result), { ex: historyTtlSeconds })
+      await redis.zadd(historyKey(userId), { score: new Date(result.createdAt).getTime(), member: id })
+      await redis.expire(historyKey(userId), savedTtlSeconds)
+
+      // Trim the oldest history entries; saved ones stay reachable through the saved list
+      const overflowIds = await redis.zrange<string[]>(historyKey(userId), 0, -(maxHistoryEntries + 1))
+      if (overflowIds.length > 0) {
+        const savedScores = await redis.zmscore(savedKey(userId), overflowIds)
+        const unsavedIds = overflowIds.filter((_, i) => savedScores?.[i] == null)
+        if (unsavedIds.length > 0) {
+          await redis.del(...unsavedIds.map(searchId => entryKey(userId, searchId)))
+        }
+        await redis.zremrangebyrank(historyKey(userId), 0, overflowIds.length - 1)
+      }
+    },
+
+    async getSearch(userId, searchId) {
+      return parseStored(await redis.get(entryKey(userId, searchId)))
+    },
+
+    listSearches(userId, page) {
+      return listPage(userId, historyKey(userId), page)
+    },
+
+    async deleteSearch(userId, searchId) {
+      const deleted = await redis.del(entryKey(userId, searchId))
+      await Promise.all([
+        redis.zrem(historyKey(userId), searchId),
+        redis.zrem(savedKey(userId), searchId)
+      ])
+      return deleted > 0
+    },
+
+    async saveSearch(userId, searchId) {
+      const extended = await redis.expire(entryKey(userId, searchId), savedTtlSeconds)
+      if (!extended) return false
+
+      await redis.zadd(savedKey(userId), { score: Date.now(), member: searchId })
+      await redis.expire(savedKey(userId), savedTtlSeconds)
+      return true
+    },
+
+    async unsaveSearch(userId, searchId) {
+      const removed = await redis.zrem(savedKey(userId), searchId)
+      if (!removed) return false
+
+      const inHistory = await redis.zscore(historyKey(userId), searchId)
+      if (inHistory !== null) {
+        await redis.expire(entryKey(userId, searchId), historyTtlSeconds)
+      } else {
+        // Already trimmed from history, nothing references it any more
+        await redis.del(entryKey(userId, searchId))
+      }
+      return true
+    },
+
+    listSaved(userId, page) {
+      return listPage(userId, savedKey(userId), page)
+    },
+
+    async getSavedIds(userId, searchIds) {
+      if (searchIds.length === 0) return new Set()
+      const scores = await redis.zmscore(savedKey(userId), searchIds)
+      return new Set(searchIds.filter((_, i) => scores?.[i] != null))
+    }
+  }
+}
+
+let activeStore: SearchHistoryStore | null = null
+
+/**
+ * Name of the configured backend: SEARCH_HISTORY_STORE, else redis when
+ * Upstash credentials are present, else memory
+ */
+export function getSearchHistoryStoreName(): string {
+  const configured = process.env.SEARCH_HISTORY_STORE?.trim().toLowerCase()
+  if (configured) return configured
+  return process.env.UPSTASH_REDIS_REST_URL ? 'redis' : 'memory'
+}
+
+export function getSearchHistoryStore(): SearchHistoryStore {
+  if (!activeStore) {
+    const name = getSearchHistoryStoreName()
+    if (name === 'redis') {
+      activeStore = createRedisSearchHistoryStore()
+    } else if (name === 'memory') {
+      activeStore = createMemorySearchHistoryStore()
+    } else {
+      throw new InternalError(
+        `Unknown search history store "${name}". Available: redis, memory`,
+        'UNKNOWN_SEARCH_HISTORY_STORE'
+      )
+    }
+  }
+  return activeStore
+}
+
+/**
+ * Replace the active store (e.g. with a fresh memory store in tests); pass null to reset
+ */
+export function setSearchHistoryStore(store: SearchHistoryStore | null): void {
+  activeStore = store
+}
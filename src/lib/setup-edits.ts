@@ -0,0 +1,132 @@
+// Manual setup changes: add a category or a custom item, or remove a product.
+// Each change is recorded as a revision (see lib/setup-revisions).
+import { ValidationError } from '@/lib/errors'
+import { getCachedSearchResult } from '@/lib/search-cache'
+import { getLatestSetupRevision, recordSetupRevision } from '@/lib/setup-revisions'
+import { findAlternatives } from '@/lib/swap-pipeline'
+import { extractDomain } from '@/lib/utils'
+import type { Product } from '@/types'
+import type { CustomItem, SetupAddRequest, SetupRevision, SwapRequest, SwapResponse } from '@/types/api'
+
+export interface SetupEditOptions {
+  // Finds the product for an added category; defaults to the swap search
+  find?: (request: SwapRequest) => Promise<SwapResponse>
+}
+
+// Shown in place of a photo for custom items
+const CUSTOM_ITEM_IMAGE = '/file.svg'
+
+/**
+ * A custom item as a setup product, priced in the setup's currency
+ */
+export function toCustomProduct(item: CustomItem, currency: string): Product {
+  return {
+    id: `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    title: item.title,
+    price: item.price,
+    currency,
+    merchant: item.productUrl ? extractDomain(item.productUrl) : 'Your item',
+    rating: 0,
+    reviewCount: 0,
+    imageUrl: CUSTOM_ITEM_IMAGE,
+    productUrl: item.productUrl ?? '#',
+    rationale: 'Added by you',
+    ...(item.category && { category: item.category }),
+    features: [],
+    pros: [],
+    cons: [],
+    confidence: 1,
+    searchRank: 1,
+    custom: true
+  }
+}
+
+const isCustom = (product: Product) => product.custom === true
+
+/**
+ * Add a product to the user's setup: the best match for a new category, within
+ * the given budget or what's left of the setup's, or a custom item. Returns
+ * null when the setup is unknown.
+ */
+export async function addSetupProduct(
+  userId: string,
+  searchId: string,
+  request: SetupAddRequest,
+  options: SetupEditOptions = {}
+): Promise<SetupRevision | null> {
+  const [latest, search] = await Promise.all([
+    getLatestSetupRevision(userId, searchId),
+    getCachedSearchResult(userId, searchId)
+  ])
+  if (!latest) return null
+
+  if (request.type === 'custom') {
+    const currency = search?.settings.currency ?? latest.products[0]?.currency ?? 'USD'
+    const product = toCustomProduct(request.item, currency)
+    return recordSetupRevision(userId, searchId, {
+      kind: 'add',
+      products: [...latest.products, product],
+      note: `Added ${product.title}`
+    })
+  }
+
+  // Category searches use the settings the setup was built with
+  if (!search) {
+    throw new ValidationError('The search this setup was built from has expired', 'SETUP_SEARCH_EXPIRED')
+  }
+
+  const budget = request.budget ?? search.settings.budget - latest.totalCost
+  if (budget <= 0) {
+    throw new ValidationError('The setup has no budget left; give a budget for the new category', 'SETUP_BUDGET_EXHAUSTED')
+  }
+
+  const { settings } = search
+  const { alternatives } = await (options.find ?? findAlternatives)({
+    productId: `add:${request.category}`,
+    category: request.category,
+    budget,
+    settings: {
+      style: settings.style,
+      currency: settings.currency,
+      region: settings.region ?? 'US',
+      amazonOnly: settings.amazonOnly,
+      constraints: settings.constraints
+    },
+    excludeIds: latest.products.map(product => product.id),
+    fixedProducts: latest.products.filter(isCustom)
+  })
+  const [pick] = alternatives
+  if (!pick) {
+    throw new ValidationError(`No ${request.category} found within budget`, 'SETUP_NO_PRODUCT_FOUND')
+  }
+
+  return recordSetupRevision(userId, searchId, {
+    kind: 'add',
+    products: [...latest.products, { ...pick, category: request.category }],
+    note: `Added ${request.category}`
+  })
+}
+
+/**
+ * Remove a product from the user's setup. Returns null when the setup or the
+ * product is unknown.
+ */
+export async function removeSetupProduct(
+  userId: string,
+  searchId: string,
+  productId: string
+): Promise<SetupRevision | null> {
+  const latest = await getLatestSetupRevision(userId, searchId)
+  const product = latest?.products.find(item => item.id === productId)
+  if (!latest || !product) return null
+
+  if (latest.products.length === 1) {
+    throw new ValidationError('A setup needs at least one product', 'SETUP_EMPTY')
+  }
+
+  return recordSetupRevision(userId, searchId, {
+    kind: 'remove',
+    products: latest.products.filter(item => item.id !== productId),
+    note: `Removed ${product.category ?? product.title}`
+  })
+}
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { redis, generateKey, TTL } from '@/lib/redis'
+import { InternalError } from '@/lib/errors'
+import type { SetupRevision } from '@/types/api'
+
+/**
+ * Revision history of each of a user's setups (searches). Only the newest
+ * `maxRevisions` are kept per setup; revision numbers keep counting up.
+ */
+export interface SetupRevisionStore {
+  readonly name: string
+  addRevision(userId: string, revision: SetupRevision): Promise<void>
+  // Oldest first
+  listRevisions(userId: string, searchId: string): Promise<SetupRevision[]>
+}
+
+export interface SetupRevisionStoreOptions {
+  maxRevisions?: number
+}
+
+export const MAX_SETUP_REVISIONS = 100
+
+/**
+ * In-process store, used for tests and local development without Redis
+ */
+export function createMemorySetupRevisionStore(options: SetupRevisionStoreOptions = {}): SetupRevisionStore {
+  const maxRevisions = options.maxRevisions ?? MAX_SETUP_REVISIONS
+  const setups = new Map<string, SetupRevision[]>()
+  const setupKey = (userId: string, searchId: string) => `${userId}:${searchId}`
+
+  return {
+    name: 'memory',
+
+    async addRevision(userId, revision) {
+      const key = setupKey(userId, revision.searchId)
+      const revisions = [...(setups.get(key) ?? []), structuredClone(revision)]
+      setups.set(key, revisions.slice(-maxRevisions))
+    },
+
+    async listRevisions(userId, searchId) {
+      return (setups.get(setupKey(userId, searchId)) ?? []).map(revision => structuredClone(revision))
+    }
+  }
+}
+
+function parseStored(value: unknown): SetupRevision | null {
+  if (!value) return null
+  // Upstash deserializes JSON automatically; plain strings come from older clients
+  return (typeof value === 'string' ? JSON.parse(value) : value) as SetupRevision
+}
+
+/**
+ * Redis-backed store: a capped list per setup, expiring like a saved search
+ * once the setup stops changing
+ */
+export function createRedisSetupRevisionStore(options: SetupRevisionStoreOptions = {}): SetupRevisionStore {
+  const maxRevisions = options.maxRevisions ?? MAX_SETUP_REVISIONS
+  const setupKey = (userId: string, searchId: string) => generateKey('SETUP_REVISIONS', `${userId}:${searchId}`)
+
+  return {
+    name: 'redis',
+
+    async addRevision(userId, revision) {
+      const key = setupKey(userId, revision.searchId)
+      await redis.rpush(key, JSON.stringify(revision))
+      await redis.ltrim(key, -maxRevisions, -1)
+      await redis.expire(key, TTL.SETUP_REVISIONS)
+    },
+
+    async listRevisions(userId, searchId) {
+      const values = await redis.lrange<unknown>(setupKey(userId, searchId), 0, -1)
+      return values.flatMap(value => {
+        const revision = parseStored(value)
+        return revision ? [revision] : []
+      })
+    }
+  }
+}
+
+let activeStore: SetupRevisionStore | null = null
+
+/**
+ * Name of the configured backend: SETUP_REVISION_STORE, else redis when
+ * Upstash credentials are present, else memory
+ */
+export function getSetupRevisionStoreName(): string {
+  const configured = process.env.SETUP_REVISION_STORE?.trim().toLowerCase()
+  if (configured) return configured
+  return process.env.UPSTASH_REDIS_REST_URL ? 'redis' : 'memory'
+}
+
+export function getSetupRevisionStore(): SetupRevisionStore {
+  if (!activeStore) {
+    const name = getSetupRevisionStoreName()
+    if (name === 'redis') {
+      activeStore = createRedisSetupRevisionStore()
+    } else if (name === 'memory') {
+      activeStore = createMemorySetupRevisionStore()
+    } else {
+      throw new InternalError(
+        `Unknown setup revision store "${name}". Available: redis, memory`,
+        'UNKNOWN_SETUP_REVISION_STORE'
+      )
+    }
+  }
+  return activeStore
+}
+
+/**
+ * Replace the active store (e.g. with a fresh memory store in tests); pass null to reset
+ */
+export function setSetupRevisionStore(store: SetupRevisionStore | null): void {
+  activeStore = store
+}
\ No newline at end of file
@@ -0,0 +1,184 @@
+// Setup versioning: every swap, reroll, add, remove or restore of a built setup
+// becomes a numbered revision of the search it came from
+import { ValidationError } from '@/lib/errors'
+import { getCachedSearchResult } from '@/lib/search-cache'
+import { getSetupRevisionStore } from '@/lib/setup-revision-store'
+import { getUserRepository } from '@/lib/user-repository'
+import type { Product } from '@/types'
+import type { RevisionChanges, RevisionKind, RevisionProduct, RevisionRequest, SetupRevision } from '@/types/api'
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+export function getTotalCost(products: Product[]): number {
+  return round(products.reduce((sum, product) => sum + product.price, 0))
+}
+
+function toRevisionProduct(product: Product): RevisionProduct {
+  return {
+    id: product.id,
+    title: product.title,
+    price: product.price,
+    ...(product.category && { category: product.category })
+  }
+}
+
+const sameCategory = (a: Product, b: Product) =>
+  !!a.category && !!b.category && a.category.trim().toLowerCase() === b.category.trim().toLowerCase()
+
+/**
+ * Products added, removed and replaced going from `before` to `after`.
+ * Products are matched by ID; a removed product and an added one of the same
+ * category are paired up as a replacement.
+ */
+export function diffProducts(before: Product[], after: Product[]): RevisionChanges {
+  const beforeIds = new Set(before.map(product => product.id))
+  const afterIds = new Set(after.map(product => product.id))
+  const removed = before.filter(product => !afterIds.has(product.id))
+  const added = after.filter(product => !beforeIds.has(product.id))
+
+  const replaced: RevisionChanges['replaced'] = []
+  for (const product of [...removed]) {
+    const replacement = added.find(candidate => sameCategory(product, candidate))
+    if (!replacement) continue
+    replaced.push({ from: toRevisionProduct(product), to: toRevisionProduct(replacement) })
+    removed.splice(removed.indexOf(product), 1)
+    added.splice(added.indexOf(replacement), 1)
+  }
+
+  return {
+    added: added.map(toRevisionProduct),
+    removed: removed.map(toRevisionProduct),
+    replaced,
+    costDelta: round(getTotalCost(after) - getTotalCost(before))
+  }
+}
+
+async function getAuthor(userId: string): Promise<SetupRevision['author']> {
+  const user = await getUserRepository().findById(userId).catch(() => null)
+  return { id: userId, name: user?.name ?? null }
+}
+
+/**
+ * Every revision of the user's search, oldest first, or null when the search
+ * is unknown. The first call stores the build's picks as revision 1.
+ */
+export async function listSetupRevisions(userId: string, searchId: string): Promise<SetupRevision[] | null> {
+  const store = getSetupRevisionStore()
+  const revisions = await store.listRevisions(userId, searchId)
+  if (revisions.length > 0) return revisions
+
+  const search = await getCachedSearchResult(userId, searchId)
+  if (!search) return null
+
+  const products = search.results as Product[]
+  const base: SetupRevision = {
+    searchId,
+    revision: 1,
+    kind: 'build',
+    note: null,
+    restoredFrom: null,
+    author: await getAuthor(userId),
+    createdAt: search.createdAt,
+    products,
+    totalCost: getTotalCost(products),
+    changes: diffProducts([], products)
+  }
+  await store.addRevision(userId, base)
+  return [base]
+}
+
+export async function getSetupRevision(
+  userId: string,
+  searchId: string,
+  revision: number
+): Promise<SetupRevision | null> {
+  const revisions = await listSetupRevisions(userId, searchId)
+  return revisions?.find(item => item.revision === revision) ?? null
+}
+
+export async function getLatestSetupRevision(userId: string, searchId: string): Promise<SetupRevision | null> {
+  const revisions = await listSetupRevisions(userId, searchId)
+  return revisions?.[revisions.length - 1] ?? null
+}
+
+async function addRevision(
+  userId: string,
+  latest: SetupRevision,
+  kind: RevisionKind,
+  products: Product[],
+  details: { note?: string; restoredFrom?: number } = {}
+): Promise<SetupRevision> {
+  const revision: SetupRevision = {
+    searchId: latest.searchId,
+    revision: latest.revision + 1,
+    kind,
+    note: details.note || null,
+    restoredFrom: details.restoredFrom ?? null,
+    author: await getAuthor(userId),
+    createdAt: new Date().toISOString(),
+    products,
+    totalCost: getTotalCost(products),
+    changes: diffProducts(latest.products, products)
+  }
+  await getSetupRevisionStore().addRevision(userId, revision)
+  return revision
+}
+
+/**
+ * Record the setup's products after a swap, reroll, add or remove. Returns
+ * null when the search is unknown; throws when nothing changed.
+ */
+export async function recordSetupRevision(
+  userId: string,
+  searchId: string,
+  request: RevisionRequest
+): Promise<SetupRevision | null> {
+  const latest = await getLatestSetupRevision(userId, searchId)
+  if (!latest) return null
+
+  const changes = diffProducts(latest.products, request.products)
+  if (changes.added.length === 0 && changes.removed.length === 0 && changes.replaced.length === 0) {
+    throw new ValidationError('The setup has not changed since the latest revision', 'REVISION_UNCHANGED')
+  }
+
+  return addRevision(userId, latest, request.kind, request.products, { note: request.note })
+}
+
+/**
+ * Make an older revision's products current again, as a new revision. Returns
+ * null when the search or revision is unknown.
+ */
+export async function restoreSetupRevision(
+  userId: string,
+  searchId: string,
+  revision: number
+): Promise<SetupRevision | null> {
+  const revisions = await listSetupRevisions(userId, searchId)
+  const target = revisions?.find(item => item.revision === revision)
+  if (!revisions || !target) return null
+
+  const latest = revisions[revisions.length - 1]
+  if (target.revision === latest.revision) {
+    throw new ValidationError('That revision is already the current one', 'REVISION_UNCHANGED')
+  }
+
+  return addRevision(userId, latest, 'restore', target.products, { restoredFrom: target.revision })
+}
+
+/**
+ * Changes going from revision `from` to revision `to` (either can be the
+ * older one). Returns null when the search or either revision is unknown.
+ */
+export async function diffSetupRevisions(
+  userId: string,
+  searchId: string,
+  from: number,
+  to: number
+): Promise<RevisionChanges | null> {
+  const revisions = await listSetupRevisions(userId, searchId)
+  const fromRevision = revisions?.find(item => item.revision === from)
+  const toRevision = revisions?.find(item => item.revision === to)
+  if (!fromRevision || !toRevision) return null
+
+  return diffProducts(fromRevision.products, toRevision.products)
+}
\ No newline at end of file
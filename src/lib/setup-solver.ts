@@ -0,0 +1,224 @@
+import { RawProduct } from '@/types/api'
+import { formatCurrency, isSupportedCurrency } from '@/lib/currency'
+
+export interface SolverCategory {
+  key: string
+  name: string
+  // Planned spend for this category (PlanResponse budgetAllocation)
+  allocation: number
+  // Required categories are only left out when no combination can fit them all
+  required: boolean
+  candidates: RawProduct[]
+  // Candidate picked by the per-category selector (AI or heuristic)
+  preferredId?: string
+}
+
+export interface SolverOptions {
+  // How far past its allocation a category may go, as a fraction (0.1 = up to 10% over)
+  maxAllocationOverrun?: number
+  // Used to format prices in trade-off explanations
+  currency?: string
+}
+
+export interface CategoryChoice {
+  key: string
+  product: RawProduct | null
+  score: number
+}
+
+export interface SolverTradeoff {
+  key: string
+  // 'overran' keeps the category's best candidate but goes past its allocation
+  kind: 'swapped' | 'dropped' | 'overran'
+  // What the category would have had without the total budget
+  replaced: RawProduct
+  // The candidate chosen instead (swaps and overruns)
+  chosen?: RawProduct
+  savings: number
+  reason: string
+}
+
+export interface SolverResult {
+  choices: CategoryChoice[]
+  totalCost: number
+  totalScore: number
+  tradeoffs: SolverTradeoff[]
+}
+
+// Rounding room only; callers that accept bigger overruns must ask for them
+export const DEFAULT_MAX_ALLOCATION_OVERRUN = 0.1
+
+// Keeping the selector's pick always outweighs any quality difference between candidates
+const PREFERRED_BONUS = 2
+// Share of the quality score lost per 100% over the category allocation
+const OVERRUN_PENALTY = 0.5
+// Filling a category always beats leaving it empty, however poor the candidate
+const MIN_SCORE = 0.01
+
+/**
+ * Quality of a product in [0, 1] from its rating and (log-scaled) review count
+ */
+export function scoreProductQuality(product: RawProduct): number {
+  const rating = Math.min(Math.max(product.rating ?? 3.5, 0), 5) / 5
+  const reviews = Math.min(Math.log10((product.reviewCount ?? 0) + 1) / 4, 1)
+  return rating * 0.7 + reviews * 0.3
+}
+
+function scoreCandidate(product: RawProduct, category: SolverCategory): number {
+  const overrun = category.allocation > 0
+    ? Math.max(0, (product.price as number) / category.allocation - 1)
+    : 0
+  const score = Math.max(MIN_SCORE, scoreProductQuality(product) - overrun * OVERRUN_PENALTY)
+  return product.id === category.preferredId ? score + PREFERRED_BONUS : score
+}
+
+interface ScoredCandidate {
+  product: RawProduct
+  price: number
+  score: number
+}
+
+function eligibleCandidates(category: SolverCategory, budget: number, maxOverrun: number): ScoredCandidate[] {
+  const priceCap = category.allocation > 0 ? category.allocation * (1 + maxOverrun) : budget
+  return category.candidates
+    .filter(product => typeof product.price === 'number' && product.price > 0)
+    .filter(product => (product.price as number) <= Math.min(priceCap, budget))
+    .map(product => ({
+      product,
+      price: product.price as number,
+      score: scoreCandidate(product, category)
+    }))
+}
+
+interface PartialSelection {
+  cost: number
+  requiredFilled: number
+  score: number
+  picks: Array<ScoredCandidate | null>
+}
+
+// Lexicographic: fill as many required categories as possible, then maximise quality
+function isBetter(a: PartialSelection, b: PartialSelection): boolean {
+  if (a.requiredFilled !== b.requiredFilled) return a.requiredFilled > b.requiredFilled
+  return a.score > b.score
+}
+
+// Keep only selections that no cheaper selection beats
+function paretoFront(selections: PartialSelection[]): PartialSelection[] {
+  const sorted = [...selections].sort((a, b) =>
+    a.cost - b.cost || (isBetter(a, b) ? -1 : isBetter(b, a) ? 1 : 0)
+  )
+  const front: PartialSelection[] = []
+  for (const selection of sorted) {
+    const last = front[front.length - 1]
+    if (!last || isBetter(selection, last)) front.push(selection)
+  }
+  return front
+}
+
+/**
+ * Choose at most one product per category so the total stays within budget,
+ * maximising the combined quality score. Each category may also be left
+ * empty; required categories are only dropped when no combination fits them.
+ *
+ * The search keeps the Pareto front of (cost, value) over the categories seen
+ * so far, so it is exact while staying small for realistic candidate lists.
+ */
+export function solveSelection(
+  categories: SolverCategory[],
+  budget: number,
+  options: SolverOptions = {}
+): SolverResult {
+  const maxOverrun = options.maxAllocationOverrun ?? DEFAULT_MAX_ALLOCATION_OVERRUN
+  const eligible = categories.map(category => eligibleCandidates(category, budget, maxOverrun))
+
+  let front: PartialSelection[] = [{ cost: 0, requiredFilled: 0, score: 0, picks: [] }]
+
+  categories.forEach((category, index) => {
+    const next: PartialSelection[] = []
+    for (const selection of front) {
+      next.push({ ...selection, picks: [...selection.picks, null] })
+      for (const candidate of eligible[index]) {
+        const cost = selection.cost + candidate.price
+        if (cost > budget) continue
+        next.push({
+          cost,
+          requiredFilled: selection.requiredFilled + (category.required ? 1 : 0),
+          score: selection.score + candidate.score,
+          picks: [...selection.picks, candidate]
+        })
+      }
+    }
+    front = paretoFront(next)
+  })
+
+  // The front is ordered by cost with strictly increasing value, so the last entry is optimal
+  const best = front[front.length - 1]
+
+  const choices = categories.map((category, index) => ({
+    key: category.key,
+    product: best.picks[index]?.product ?? null,
+    score: best.picks[index]?.score ?? 0
+  }))
+
+  return {
+    choices,
+    totalCost: best.cost,
+    totalScore: best.score,
+    tradeoffs: explainTradeoffs(categories, eligible, best.picks, options.currency)
+  }
+}
+
+function explainTradeoffs(
+  categories: SolverCategory[],
+  eligible: ScoredCandidate[][],
+  picks: Array<ScoredCandidate | null>,
+  currency?: string
+): SolverTradeoff[] {
+  const price = (amount: number) =>
+    currency && isSupportedCurrency(currency) ? formatCurrency(amount, currency) : `$${amount}`
+  const tradeoffs: SolverTradeoff[] = []
+
+  categories.forEach((category, index) => {
+    if (eligible[index].length === 0) return
+
+    // What this category would get if it had the whole budget to itself
+    const ideal = eligible[index].reduce((a, b) => (b.score > a.score ? b : a))
+    const pick = picks[index]
+    const overrun = pick && category.allocation > 0 ? pick.price - category.allocation : 0
+    const overrunNote = `${price(overrun)} over its ${price(category.allocation)} allocation`
+
+    if (pick?.product.id === ideal.product.id) {
+      if (overrun <= 0) return
+      tradeoffs.push({
+        key: category.key,
+        kind: 'overran',
+        replaced: ideal.product,
+        chosen: pick.product,
+        savings: 0,
+        reason: `Chose "${pick.product.title}" (${price(pick.price)}) for ${category.name}, ${overrunNote}`
+      })
+    } else if (pick) {
+      tradeoffs.push({
+        key: category.key,
+        kind: 'swapped',
+        replaced: ideal.product,
+        chosen: pick.product,
+        savings: ideal.price - pick.price,
+        reason: `Chose "${pick.product.title}" (${price(pick.price)}) over "${ideal.product.title}" (${price(ideal.price)}) for ${category.name} to stay within budget` +
+          (overrun > 0 ? `, ${overrunNote}` : '')
+      })
+    } else {
+      const cheapest = Math.min(...eligible[index].map(candidate => candidate.price))
+      tradeoffs.push({
+        key: category.key,
+        kind: 'dropped',
+        replaced: ideal.product,
+        savings: ideal.price,
+        reason: `Left out ${category.required ? 'required' : 'optional'} ${category.name}: even its cheapest option (${price(cheapest)}) didn't fit alongside the rest`
+      })
+    }
+  })
+
+  return tradeoffs
+}
@@ -0,0 +1,192 @@
+// Setup templates: category plans with budget shares, built in or defined by users
+import { ValidationError } from '@/lib/errors'
+import { generateTemplateId, getTemplateStore } from '@/lib/template-store'
+import { SetupTemplateSchema } from '@/lib/validation'
+import type { SearchSettings } from '@/types'
+import type {
+  BuildNeed,
+  PlanResponse,
+  SetupTemplate,
+  TemplateCategory,
+  TemplateInput,
+  TemplateUpdate
+} from '@/types/api'
+import builtInTemplateData from './data/setup-templates.json'
+
+type SetupStyle = SearchSettings['style']
+
+const CHART_COLORS = ['#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FECA57', '#FF9FF3', '#54A0FF', '#5F27CD', '#FFA07A', '#98D8C8', '#F7DC6F', '#DDA0DD']
+
+export const BUILT_IN_TEMPLATES: SetupTemplate[] = builtInTemplateData.templates.map(template =>
+  SetupTemplateSchema.parse({ ...template, ownerId: null, forkedFrom: null, shared: true })
+)
+
+export function getBuiltInTemplate(id: string): SetupTemplate | null {
+  return BUILT_IN_TEMPLATES.find(template => template.id === id) ?? null
+}
+
+/**
+ * First built-in template with a keyword in the query, used when planning fails
+ */
+export function matchBuiltInTemplate(query: string): SetupTemplate | null {
+  const lowerQuery = query.toLowerCase()
+  return BUILT_IN_TEMPLATES.find(template => template.keywords.some(keyword => lowerQuery.includes(keyword))) ?? null
+}
+
+/**
+ * The category as planned for a style: Premium uses its `premium` overrides
+ */
+function resolveCategory(category: TemplateCategory, style: SetupStyle) {
+  const premium = style === 'Premium' ? category.premium : undefined
+  return {
+    name: premium?.category ?? category.category,
+    budgetPercent: premium?.budgetPercent ?? category.budgetPercent,
+    searchTerms: premium?.searchTerms ?? category.searchTerms,
+    requirements: premium?.requirements ?? category.requirements,
+    required: category.required
+  }
+}
+
+const toNeedKey = (name: string) => name.toLowerCase().replace(/\s+/g, '_')
+
+/**
+ * Build needs for a template, skipping model planning
+ */
+export function templateToNeeds(template: SetupTemplate, settings: { budget: number; style: SetupStyle }): BuildNeed[] {
+  return template.categories.map(category => {
+    const { name, budgetPercent, searchTerms, requirements, required } = resolveCategory(category, settings.style)
+    return {
+      key: toNeedKey(name),
+      name,
+      targetPrice: Math.round(settings.budget * budgetPercent / 100),
+      specs: requirements.join(' '),
+      required,
+      ...(searchTerms.length > 0 ? { searchTerms } : {})
+    }
+  })
+}
+
+/**
+ * The template as a /api/plan response, ordered (and prioritised) as listed
+ */
+export function templateToPlan(template: SetupTemplate, request: { budget: number; style: SetupStyle }): PlanResponse {
+  const categories = template.categories.map((category, index) => {
+    const { name, budgetPercent, searchTerms, requirements, required } = resolveCategory(category, request.style)
+    return {
+      category: name,
+      priority: Math.max(1, 10 - index),
+      budgetAllocation: Math.round(request.budget * budgetPercent / 100),
+      searchTerms: searchTerms.length > 0 ? searchTerms : [name],
+      requirements,
+      required
+    }
+  })
+
+  return {
+    categories,
+    budgetDistribution: categories.map((category, index) => ({
+      category: category.category,
+      amount: category.budgetAllocation,
+      percentage: Math.round((category.budgetAllocation / request.budget) * 100),
+      color: CHART_COLORS[index % CHART_COLORS.length]
+    })),
+    searchStrategy: {
+      approach: 'setup',
+      categories: categories.map(category => category.category),
+      totalItems: categories.length
+    }
+  }
+}
+
+function checkBudgetShares(categories: TemplateCategory[]): void {
+  for (const style of ['Casual', 'Premium'] as const) {
+    const total = categories.reduce((sum, category) => sum + resolveCategory(category, style).budgetPercent, 0)
+    if (total > 100) {
+      throw new ValidationError(
+        `Budget percentages add up to ${Math.round(total)}%${style === 'Premium' ? ' for the Premium style' : ''}; they can't exceed 100%`,
+        'TEMPLATE_BUDGET_EXCEEDED'
+      )
+    }
+  }
+}
+
+const canUse = (template: SetupTemplate, userId: string) => template.shared || template.ownerId === userId
+
+/**
+ * A built-in template, one of the user's own or a shared one; null when it
+ * doesn't exist or is private to someone else
+ */
+export async function getTemplate(id: string, userId: string): Promise<SetupTemplate | null> {
+  const builtIn = getBuiltInTemplate(id)
+  if (builtIn) return builtIn
+
+  const template = await getTemplateStore().get(id)
+  return template && canUse(template, userId) ? template : null
+}
+
+export async function listTemplates(userId: string): Promise<{ builtIn: SetupTemplate[]; own: SetupTemplate[] }> {
+  return {
+    builtIn: BUILT_IN_TEMPLATES,
+    own: await getTemplateStore().listByOwner(userId)
+  }
+}
+
+export async function createTemplate(
+  userId: string,
+  input: TemplateInput,
+  forkedFrom: string | null = null
+): Promise<SetupTemplate> {
+  checkBudgetShares(input.categories)
+
+  const now = new Date().toISOString()
+  const template: SetupTemplate = {
+    ...input,
+    id: generateTemplateId(),
+    ownerId: userId,
+    forkedFrom,
+    createdAt: now,
+    updatedAt: now
+  }
+  await getTemplateStore().save(template)
+  return template
+}
+
+/**
+ * Change the user's own template; null when it isn't theirs
+ */
+export async function updateTemplate(userId: string, id: string, update: TemplateUpdate): Promise<SetupTemplate | null> {
+  const store = getTemplateStore()
+  const existing = await store.get(id)
+  if (!existing || existing.ownerId !== userId) return null
+
+  const fields = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined))
+  const template: SetupTemplate = { ...existing, ...fields, updatedAt: new Date().toISOString() }
+  checkBudgetShares(template.categories)
+
+  await store.save(template)
+  return template
+}
+
+export async function deleteTemplate(userId: string, id: string): Promise<boolean> {
+  const store = getTemplateStore()
+  const existing = await store.get(id)
+  if (!existing || existing.ownerId !== userId) return false
+  return store.delete(id)
+}
+
+/**
+ * Copy a template the user can use into their own, private templates. Null
+ * when the source isn't found.
+ */
+export async function forkTemplate(userId: string, id: string, name?: string): Promise<SetupTemplate | null> {
+  const source = await getTemplate(id, userId)
+  if (!source) return null
+
+  return createTemplate(userId, {
+    name: name ?? `${source.name} (copy)`,
+    description: source.description,
+    keywords: source.keywords,
+    categories: structuredClone(source.categories),
+    shared: false
+  }, source.id)
+}
\ No newline at end of file
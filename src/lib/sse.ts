@@ -0,0 +1,106 @@
+// Minimal Server-Sent Events helpers shared by streaming routes and their clients
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  'X-Accel-Buffering': 'no', // Disable proxy buffering so events flush immediately
+} as const
+
+/**
+ * Encode a typed event as an SSE frame (`event:` line + JSON `data:` line)
+ */
+export function encodeSSE<T extends { type: string }>(event: T): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+}
+
+/**
+ * Create a ReadableStream that emits SSE frames produced by `producer`.
+ * The stream closes once the producer settles. `signal` aborts when the
+ * client cancels the stream, so the producer can stop its work.
+ */
+export function createSSEStream<T extends { type: string }>(
+  producer: (send: (event: T) => void, signal: AbortSignal) => Promise<void>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  const abort = new AbortController()
+  let closed = false
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: T) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(encodeSSE(event)))
+      }
+
+      try {
+        await producer(send, abort.signal)
+      } finally {
+        closed = true
+        try {
+          controller.close()
+        } catch {
+          // Stream was already cancelled by the client
+        }
+      }
+    },
+
+    cancel(reason) {
+      closed = true
+      abort.abort(reason)
+    }
+  })
+}
+
+/**
+ * Incremental SSE parser: feed it decoded text chunks, get back the JSON
+ * payloads of every complete frame received so far.
+ */
+export function createSSEParser<T>() {
+  let buffer = ''
+
+  return (chunk: string): T[] => {
+    buffer += chunk.replace(/\r\n/g, '\n')
+    const frames = buffer.split('\n\n')
+    buffer = frames.pop() || ''
+
+    const events: T[] = []
+    for (const frame of frames) {
+      const data = frame
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n')
+
+      if (!data) continue
+
+      try {
+        events.push(JSON.parse(data) as T)
+      } catch {
+        // Ignore malformed frames rather than killing the stream
+      }
+    }
+
+    return events
+  }
+}
+
+/**
+ * Read an SSE response body to completion, invoking `onEvent` for every frame
+ */
+export async function readSSEStream<T>(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: T) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  const parse = createSSEParser<T>()
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    parse(decoder.decode(value, { stream: true })).forEach(onEvent)
+  }
+
+  parse(decoder.decode() + '\n\n').forEach(onEvent)
+}
@@ -0,0 +1,171 @@
+import { searchProducts } from '@/lib/api/search-provider'
+import { rankProducts } from '@/lib/api/gemini'
+import { getCachedData, setCachedData } from '@/lib/cache'
+import { ExternalAPIError } from '@/lib/errors'
+import { applySearchConstraints } from '@/lib/search-constraints'
+import { createLogger } from '@/lib/logger'
+import { Product } from '@/types'
+import { RankRequest, SearchRequest, SwapRequest, SwapResponse } from '@/types/api'
+
+const log = createLogger('swap')
+
+/**
+ * Generate intelligent search query for finding product alternatives
+ */
+export function generateSwapSearchQuery(category?: string, productTitle?: string): string {
+  // If we have a category, use it as the primary search term
+  if (category) {
+    return category
+  }
+  
+  // If we have a product title, extract the product type from it
+  if (productTitle) {
+    const title = productTitle.toLowerCase()
+    
+    // Extract product type keywords from title
+    const productTypes = [
+      'laptop', 'computer', 'pc', 'desktop', 'monitor', 'screen', 'display',
+      'chair', 'desk', 'table', 'keyboard', 'mouse', 'headset', 'headphones',
+      'mattress', 'bed', 'pillow', 'sheets', 'dresser', 'nightstand',
+      'sofa', 'couch', 'tv', 'television', 'coffee table', 'lamp',
+      'refrigerator', 'fridge', 'stove', 'microwave', 'cookware', 'knife'
+    ]
+    
+    // Find the first matching product type
+    for (const type of productTypes) {
+      if (title.includes(type)) {
+        return type
+      }
+    }
+    
+    // If no specific type found, use the first few words of the title
+    const words = productTitle.split(' ').slice(0, 3).join(' ')
+    return words
+  }
+  
+  // Fallback to generic search
+  return 'alternative product'
+}
+
+/**
+ * Search and rank alternatives for one product of a setup (used by /api/swap
+ * and chat refinements). Throws ExternalAPIError when nothing new is found.
+ */
+export async function findAlternatives(request: SwapRequest): Promise<SwapResponse> {
+  const { productId, category, productTitle, budget, settings, excludeIds = [], constraints = [], fixedProducts = [] } = request
+
+  // Create cache key for swap results
+  const cacheKey = `swap:${productId}:${JSON.stringify({
+    category,
+    productTitle,
+    budget,
+    settings,
+    excludeIds,
+    ...(constraints.length > 0 ? { constraints } : {}),
+    ...(fixedProducts.length > 0 ? { fixedIds: fixedProducts.map(product => product.id) } : {})
+  })}`
+  
+  // Check cache first
+  const cached = await getCachedData<Product[]>(cacheKey)
+  if (cached) {
+    return { alternatives: cached, fromCache: true }
+  }
+
+  // Generate intelligent search query based on product information
+  const searchQuery = [...constraints, generateSwapSearchQuery(category, productTitle)].join(' ')
+  log.info('Swap request', {
+    productId,
+    category,
+    productTitle,
+    searchQuery,
+    budget,
+    excludeIds: excludeIds.length
+  })
+  
+  // Search for alternative products with better parameters
+  const searchRequest: SearchRequest = {
+    query: searchQuery,
+    category,
+    budget: budget * 1.2, // Allow slightly higher budget for more options
+    currency: settings.currency,
+    amazonOnly: settings.amazonOnly,
+    limit: 15 // Get more options to filter from
+  }
+  
+  const searchResponse = await searchProducts(searchRequest)
+
+  if (!searchResponse.products || searchResponse.products.length === 0) {
+    throw new ExternalAPIError(
+      'No alternative products found',
+      'SWAP_NO_RESULTS',
+      false
+    )
+  }
+
+  // Filter out excluded products (original + any previously swapped)
+  const filteredProducts = searchResponse.products.filter(
+    product => !excludeIds.includes(product.id)
+  )
+
+  if (filteredProducts.length === 0) {
+    log.warn('No new alternatives after filtering', { productId, resultCount: searchResponse.products.length })
+    throw new ExternalAPIError(
+      'No new alternatives available. Try adjusting your budget or search criteria.',
+      'SWAP_NO_NEW_RESULTS',
+      false
+    )
+  }
+
+  log.debug('Alternatives found', { alternatives: filteredProducts.length, resultCount: searchResponse.products.length })
+
+  // Hard constraints apply before the AI ranks anything
+  const { candidates, removals } = applySearchConstraints(
+    filteredProducts,
+    settings.constraints,
+    category || productId,
+    productTitle ? [generateSwapSearchQuery(undefined, productTitle)] : []
+  )
+
+  if (candidates.length === 0) {
+    throw new ExternalAPIError(
+      'No alternatives meet your filters. Try loosening brand, merchant or rating limits.',
+      'SWAP_NO_MATCHING_RESULTS',
+      false,
+      { constraintRemovals: removals }
+    )
+  }
+
+  // Rank the alternative products with swap-optimized criteria; custom items
+  // are passed along as the rest of the setup to pick around
+  const rankRequest: RankRequest = {
+    products: candidates,
+    criteria: {
+      priceWeight: 0.25,      // Price is important but not everything
+      ratingWeight: 0.35,     // Prioritize highly rated alternatives
+      reviewWeight: 0.25,     // Good review count indicates reliability
+      relevanceWeight: 0.15   // Relevance to search query
+    },
+    userPreferences: {
+      style: settings.style,
+      budget,
+      prioritizeRating: true
+    }
+  }
+  const rankResponse = fixedProducts.length > 0
+    ? await rankProducts(rankRequest, fixedProducts)
+    : await rankProducts(rankRequest)
+
+  // Return top 5 alternatives for better choice
+  const alternatives = rankResponse.rankedProducts.slice(0, 5)
+
+  log.info('Swap complete', { alternatives: alternatives.length, searchQuery })
+
+  // Cache the results for 30 minutes
+  await setCachedData(cacheKey, alternatives, 1800)
+
+  return {
+    alternatives,
+    fromCache: false,
+    ...(removals.length > 0 ? { constraintRemovals: removals } : {})
+  }
+}
\ No newline at end of file
@@ -0,0 +1,144 @@
+import { redis, generateKey } from '@/lib/redis'
+import { InternalError } from '@/lib/errors'
+import type { SetupTemplate } from '@/types/api'
+
+/**
+ * User-defined setup templates. Built-in templates aren't stored here; they
+ * ship with the app (see lib/setup-templates).
+ */
+export interface TemplateStore {
+  readonly name: string
+  // Creates or replaces the template
+  save(template: SetupTemplate): Promise<void>
+  get(id: string): Promise<SetupTemplate | null>
+  // Most recently updated first
+  listByOwner(ownerId: string): Promise<SetupTemplate[]>
+  delete(id: string): Promise<boolean>
+}
+
+export function generateTemplateId(): string {
+  return `template_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+const byUpdatedDesc = (a: SetupTemplate, b: SetupTemplate) =>
+  (b.updatedAt ?? '').localeCompare(a.updatedAt ?? '')
+
+/**
+ * In-process store, used for tests and local development without Redis
+ */
+export function createMemoryTemplateStore(): TemplateStore {
+  const templates = new Map<string, SetupTemplate>()
+
+  return {
+    name: 'memory',
+
+    async save(template) {
+      templates.set(template.id, structuredClone(template))
+    },
+
+    async get(id) {
+      const template = templates.get(id)
+      return template ? structuredClone(template) : null
+    },
+
+    async listByOwner(ownerId) {
+      return Array.from(templates.values())
+        .filter(template => template.ownerId === ownerId)
+        .map(template => structuredClone(template))
+        .sort(byUpdatedDesc)
+    },
+
+    async delete(id) {
+      return templates.delete(id)
+    }
+  }
+}
+
+function parseStored(value: unknown): SetupTemplate | null {
+  if (!value) return null
+  // Upstash deserializes JSON automatically; plain strings come from older clients
+  return (typeof value === 'string' ? JSON.parse(value) : value) as SetupTemplate
+}
+
+/**
+ * Redis-backed store: one key per template and a set of template IDs per owner.
+ * Templates don't expire.
+ */
+export function createRedisTemplateStore(): TemplateStore {
+  const templateKey = (id: string) => generateKey('SETUP_TEMPLATE', id)
+  const ownerKey = (ownerId: string) => generateKey('USER_TEMPLATES', ownerId)
+
+  return {
+    name: 'redis',
+
+    async save(template) {
+      await redis.set(templateKey(template.id), JSON.stringify(template))
+      if (template.ownerId) {
+        await redis.sadd(ownerKey(template.ownerId), template.id)
+      }
+    },
+
+    async get(id) {
+      return parseStored(await redis.get(templateKey(id)))
+    },
+
+    async listByOwner(ownerId) {
+      const ids = await redis.smembers(ownerKey(ownerId))
+      if (ids.length === 0) return []
+
+      const values = await redis.mget<unknown[]>(...ids.map(templateKey))
+      return values
+        .flatMap(value => {
+          const template = parseStored(value)
+          return template ? [template] : []
+        })
+        .sort(byUpdatedDesc)
+    },
+
+    async delete(id) {
+      const template = parseStored(await redis.get(templateKey(id)))
+      if (!template) return false
+
+      if (template.ownerId) {
+        await redis.srem(ownerKey(template.ownerId), id)
+      }
+      return (await redis.del(templateKey(id))) > 0
+    }
+  }
+}
+
+let activeStore: TemplateStore | null = null
+
+/**
+ * Name of the configured backend: TEMPLATE_STORE, else redis when Upstash
+ * credentials are present, else memory
+ */
+export function getTemplateStoreName(): string {
+  const configured = process.env.TEMPLATE_STORE?.trim().toLowerCase()
+  if (configured) return configured
+  return process.env.UPSTASH_REDIS_REST_URL ? 'redis' : 'memory'
+}
+
+export function getTemplateStore(): TemplateStore {
+  if (!activeStore) {
+    const name = getTemplateStoreName()
+    if (name === 'redis') {
+      activeStore = createRedisTemplateStore()
+    } else if (name === 'memory') {
+      activeStore = createMemoryTemplateStore()
+    } else {
+      throw new InternalError(
+        `Unknown template store "${name}". Available: redis, memory`,
+        'UNKNOWN_TEMPLATE_STORE'
+      )
+    }
+  }
+  return activeStore
+}
+
+/**
+ * Replace the active store (e.g. with a fresh memory store in tests); pass null to reset
+ */
+export function setTemplateStore(store: TemplateStore | null): void {
+  activeStore = store
+}
\ No newline at end of file
@@ -0,0 +1,190 @@
+import { redis, generateKey, TTL } from '@/lib/redis'
+import { InternalError } from '@/lib/errors'
+import type { UpstreamOperationUsage, UsageBudgetAlert } from '@/types/api'
+
+/**
+ * What one UTC day spent upstream, per service and operation
+ */
+export interface UpstreamUsageDay {
+  operations: UpstreamOperationUsage[]
+  alerts: UsageBudgetAlert[]
+}
+
+/**
+ * Daily upstream usage counters, read back by /api/admin/usage. Days older
+ * than the retention period are dropped.
+ */
+export interface UpstreamUsageStore {
+  readonly name: string
+  // Add to the day's counters; resolves to the day's estimated cost so far
+  add(day: string, usage: UpstreamOperationUsage): Promise<number>
+  get(day: string): Promise<UpstreamUsageDay>
+  // Record that the day reached `threshold` percent of the budget; false when it already had
+  markAlert(day: string, alert: UsageBudgetAlert): Promise<boolean>
+}
+
+export const UPSTREAM_USAGE_RETENTION_DAYS = 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const COUNTERS = ['calls', 'inputTokens', 'outputTokens', 'estimatedCost'] as const
+
+const emptyUsage = (service: string, operation: string): UpstreamOperationUsage => ({
+  service,
+  operation,
+  calls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  estimatedCost: 0
+})
+
+const byName = (a: UpstreamOperationUsage, b: UpstreamOperationUsage) =>
+  a.service.localeCompare(b.service) || a.operation.localeCompare(b.operation)
+
+/**
+ * In-process store, used for tests and local development without Redis
+ */
+export function createMemoryUpstreamUsageStore(options: { retentionDays?: number } = {}): UpstreamUsageStore {
+  const retentionMs = (options.retentionDays ?? UPSTREAM_USAGE_RETENTION_DAYS) * DAY_MS
+  const days = new Map<string, { operations: Map<string, UpstreamOperationUsage>; alerts: UsageBudgetAlert[] }>()
+
+  const dayOf = (day: string) => {
+    let entry = days.get(day)
+    if (!entry) {
+      entry = { operations: new Map(), alerts: [] }
+      days.set(day, entry)
+
+      const oldestKept = new Date(Date.now() - retentionMs).toISOString().slice(0, 10)
+      for (const key of days.keys()) {
+        if (key < oldestKept) days.delete(key)
+      }
+    }
+    return entry
+  }
+
+  return {
+    name: 'memory',
+
+    async add(day, usage) {
+      const { operations } = dayOf(day)
+      const key = `${usage.service}|${usage.operation}`
+      const total = operations.get(key) ?? emptyUsage(usage.service, usage.operation)
+      for (const counter of COUNTERS) total[counter] += usage[counter]
+      operations.set(key, total)
+
+      return Array.from(operations.values()).reduce((sum, operation) => sum + operation.estimatedCost, 0)
+    },
+
+    async get(day) {
+      const entry = days.get(day)
+      return {
+        operations: Array.from(entry?.operations.values() ?? []).map(usage => ({ ...usage })).sort(byName),
+        alerts: entry?.alerts.map(alert => ({ ...alert })) ?? []
+      }
+    },
+
+    async markAlert(day, alert) {
+      const { alerts } = dayOf(day)
+      if (alerts.some(existing => existing.threshold === alert.threshold)) return false
+      alerts.push({ ...alert })
+      return true
+    }
+  }
+}
+
+/**
+ * Redis-backed store: one hash of counters per UTC day, expiring after
+ * TTL.UPSTREAM_USAGE. Fields are `op|<service>|<operation>|<counter>`,
+ * `total|estimatedCost` and `alert|<threshold>`.
+ */
+export function createRedisUpstreamUsageStore(): UpstreamUsageStore {
+  const dayKey = (day: string) => generateKey('UPSTREAM_USAGE', day)
+
+  return {
+    name: 'redis',
+
+    async add(day, usage) {
+      const key = dayKey(day)
+      const field = (counter: string) => `op|${usage.service}|${usage.operation}|${counter}`
+
+      const results = await redis.multi()
+        .hincrby(key, field('calls'), usage.calls)
+        .hincrby(key, field('inputTokens'), usage.inputTokens)
+        .hincrby(key, field('outputTokens'), usage.outputTokens)
+        .hincrbyfloat(key, field('estimatedCost'), usage.estimatedCost)
+        .hincrbyfloat(key, 'total|estimatedCost', usage.estimatedCost)
+        .expire(key, TTL.UPSTREAM_USAGE)
+        .exec<unknown[]>()
+
+      return Number(results[4])
+    },
+
+    async get(day) {
+      const hash = await redis.hgetall<Record<string, unknown>>(dayKey(day)) ?? {}
+      const operations = new Map<string, UpstreamOperationUsage>()
+      const alerts: UsageBudgetAlert[] = []
+
+      for (const [field, value] of Object.entries(hash)) {
+        const [kind, ...rest] = field.split('|')
+        if (kind === 'alert') {
+          alerts.push({ threshold: Number(rest[0]), triggeredAt: String(value) })
+        } else if (kind === 'op' && rest.length === 3) {
+          const [service, operation, counter] = rest
+          if (!COUNTERS.includes(counter as typeof COUNTERS[number])) continue
+          const key = `${service}|${operation}`
+          const usage = operations.get(key) ?? emptyUsage(service, operation)
+          usage[counter as typeof COUNTERS[number]] = Number(value)
+          operations.set(key, usage)
+        }
+      }
+
+      return {
+        operations: Array.from(operations.values()).sort(byName),
+        alerts: alerts.sort((a, b) => a.threshold - b.threshold)
+      }
+    },
+
+    async markAlert(day, alert) {
+      const key = dayKey(day)
+      const added = await redis.hsetnx(key, `alert|${alert.threshold}`, alert.triggeredAt)
+      await redis.expire(key, TTL.UPSTREAM_USAGE)
+      return added === 1
+    }
+  }
+}
+
+let activeStore: UpstreamUsageStore | null = null
+
+/**
+ * Name of the configured backend: UPSTREAM_USAGE_STORE, else redis when
+ * Upstash credentials are present, else memory
+ */
+export function getUpstreamUsageStoreName(): string {
+  const configured = process.env.UPSTREAM_USAGE_STORE?.trim().toLowerCase()
+  if (configured) return configured
+  return process.env.UPSTASH_REDIS_REST_URL ? 'redis' : 'memory'
+}
+
+export function getUpstreamUsageStore(): UpstreamUsageStore {
+  if (!activeStore) {
+    const name = getUpstreamUsageStoreName()
+    if (name === 'redis') {
+      activeStore = createRedisUpstreamUsageStore()
+    } else if (name === 'memory') {
+      activeStore = createMemoryUpstreamUsageStore()
+    } else {
+      throw new InternalError(
+        `Unknown upstream usage store "${name}". Available: redis, memory`,
+        'UNKNOWN_UPSTREAM_USAGE_STORE'
+      )
+    }
+  }
+  return activeStore
+}
+
+/**
+ * Replace the active store (e.g. with a fresh memory store in tests); pass null to reset
+ */
+export function setUpstreamUsageStore(store: UpstreamUsageStore | null): void {
+  activeStore = store
+}
\ No newline at end of file
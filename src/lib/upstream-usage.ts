@@ -0,0 +1,190 @@
+// Accounting for SerpAPI and LLM calls: per request for build responses, per day for /api/admin/usage
+import { AsyncLocalStorage } from 'async_hooks'
+import { UPSTREAM_BUDGET_ALERT_THRESHOLDS, UPSTREAM_PRICING } from '@/lib/config'
+import { getAdminEmails } from '@/lib/auth-middleware'
+import { sendUsageBudgetAlertEmail } from '@/lib/email'
+import { getUpstreamUsageStore } from '@/lib/upstream-usage-store'
+import { createLogger } from '@/lib/logger'
+import type {
+  UpstreamOperationUsage,
+  UpstreamUsage,
+  UpstreamUsageTotals,
+  UsageBudgetAlert,
+  UsageResponse
+} from '@/types/api'
+
+/**
+ * One call to an upstream API, reported by the client that made it
+ */
+export interface UpstreamCall {
+  // 'serpapi', or the LLM provider name
+  service: string
+  operation: string
+  inputTokens?: number
+  outputTokens?: number
+}
+
+interface UsageMeter {
+  requestId: string
+  operations: Map<string, UpstreamOperationUsage>
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Tracks the meter of the request a call belongs to across awaits and parallel branches
+const meters = new AsyncLocalStorage<UsageMeter>()
+
+const log = createLogger('upstream-usage')
+
+// Costs are kept to the micro-dollar
+const roundCost = (value: number) => Math.round(value * 1_000_000) / 1_000_000
+
+const dayOf = (date: Date) => date.toISOString().slice(0, 10)
+
+/**
+ * Estimated USD cost of a call from UPSTREAM_PRICING; 0 for unpriced services
+ */
+export function estimateUpstreamCost(call: UpstreamCall): number {
+  const pricing = UPSTREAM_PRICING[call.service]
+  if (!pricing) return 0
+
+  const tokens = (call.inputTokens ?? 0) * (pricing.perMillionInputTokens ?? 0) +
+    (call.outputTokens ?? 0) * (pricing.perMillionOutputTokens ?? 0)
+  return (pricing.perCall ?? 0) + tokens / 1_000_000
+}
+
+// UPSTREAM_DAILY_BUDGET_USD; null when unset or not a positive number
+export function getDailyUpstreamBudget(): number | null {
+  const budget = Number(process.env.UPSTREAM_DAILY_BUDGET_USD)
+  return Number.isFinite(budget) && budget > 0 ? budget : null
+}
+
+export function summarizeUsage(operations: UpstreamOperationUsage[]): UpstreamUsageTotals {
+  const sum = (counter: 'calls' | 'inputTokens' | 'outputTokens' | 'estimatedCost') =>
+    operations.reduce((total, operation) => total + operation[counter], 0)
+
+  return {
+    calls: sum('calls'),
+    inputTokens: sum('inputTokens'),
+    outputTokens: sum('outputTokens'),
+    estimatedCost: roundCost(sum('estimatedCost')),
+    operations: operations.map(operation => ({ ...operation, estimatedCost: roundCost(operation.estimatedCost) }))
+  }
+}
+
+/**
+ * Run `fn` with a usage meter: upstream calls made while it runs, including in
+ * parallel branches, are counted under `requestId` (see getRequestUsage)
+ */
+export function withUsageMeter<T>(requestId: string, fn: () => Promise<T>): Promise<T> {
+  return meters.run({ requestId, operations: new Map() }, fn)
+}
+
+/**
+ * Calls counted so far by the meter the caller runs under; null outside withUsageMeter
+ */
+export function getRequestUsage(): UpstreamUsage | null {
+  const meter = meters.getStore()
+  if (!meter) return null
+
+  return {
+    requestId: meter.requestId,
+    ...summarizeUsage(Array.from(meter.operations.values()))
+  }
+}
+
+async function alertAdmins(day: string, spent: number, budget: number, alert: UsageBudgetAlert): Promise<void> {
+  log.warn(`Upstream spend for ${day} reached ${alert.threshold}% of the daily budget`, {
+    day,
+    threshold: alert.threshold,
+    spent: Number(spent.toFixed(2)),
+    budget
+  })
+
+  const emails = getAdminEmails()
+  if (emails.length === 0) return
+  try {
+    await sendUsageBudgetAlertEmail(emails, { day, spent, budget, threshold: alert.threshold })
+  } catch (error) {
+    log.warn('Failed to email the upstream budget alert', { day, error })
+  }
+}
+
+/**
+ * Count one upstream call against the current request's meter and the day's
+ * totals, alerting the admins the first time the day crosses each budget
+ * threshold. Accounting never fails the call it describes, so store errors
+ * are logged and swallowed.
+ */
+export async function recordUpstreamCall(call: UpstreamCall): Promise<void> {
+  const usage: UpstreamOperationUsage = {
+    service: call.service,
+    operation: call.operation,
+    calls: 1,
+    inputTokens: call.inputTokens ?? 0,
+    outputTokens: call.outputTokens ?? 0,
+    estimatedCost: estimateUpstreamCost(call)
+  }
+
+  const meter = meters.getStore()
+  if (meter) {
+    const key = `${usage.service}|${usage.operation}`
+    const total = meter.operations.get(key)
+    meter.operations.set(key, total
+      ? {
+          ...total,
+          calls: total.calls + 1,
+          inputTokens: total.inputTokens + usage.inputTokens,
+          outputTokens: total.outputTokens + usage.outputTokens,
+          estimatedCost: total.estimatedCost + usage.estimatedCost
+        }
+      : usage)
+  }
+
+  try {
+    const store = getUpstreamUsageStore()
+    const day = dayOf(new Date())
+    const spent = await store.add(day, usage)
+
+    const budget = getDailyUpstreamBudget()
+    if (!budget) return
+    for (const threshold of UPSTREAM_BUDGET_ALERT_THRESHOLDS) {
+      if (spent < (budget * threshold) / 100) continue
+      const alert = { threshold, triggeredAt: new Date().toISOString() }
+      if (await store.markAlert(day, alert)) {
+        await alertAdmins(day, spent, budget, alert)
+      }
+    }
+  } catch (error) {
+    log.warn('Failed to record upstream usage', { service: call.service, operation: call.operation, error })
+  }
+}
+
+/**
+ * Daily totals of the last `days` UTC days (today first) and today's spend
+ * against the budget
+ */
+export async function getUpstreamUsageReport(
+  days: number,
+  options: { now?: Date } = {}
+): Promise<UsageResponse> {
+  const now = options.now ?? new Date()
+  const store = getUpstreamUsageStore()
+  const dates = Array.from({ length: days }, (_, index) => dayOf(new Date(now.getTime() - index * DAY_MS)))
+
+  const totals = await Promise.all(dates.map(async date => {
+    const { operations, alerts } = await store.get(date)
+    return { date, ...summarizeUsage(operations), alerts }
+  }))
+
+  const budget = getDailyUpstreamBudget()
+  const spentToday = totals[0]?.estimatedCost ?? 0
+  return {
+    days: totals,
+    budget: {
+      daily: budget,
+      spentToday,
+      percentUsed: budget ? Math.round((spentToday / budget) * 10000) / 100 : null
+    }
+  }
+}
\ No newline at end of file
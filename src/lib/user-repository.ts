@@ -0,0 +1,251 @@
+import { redis, generateKey } from '@/lib/redis'
+import { InternalError, ValidationError } from '@/lib/errors'
+import { User } from '@/types/auth'
+
+// A user record as persisted, including the bcrypt password hash
+export interface StoredUser extends User {
+  password: string
+}
+
+export interface CreateUserData {
+  email: string
+  name: string
+  // Already hashed
+  password: string
+  isVerified?: boolean
+}
+
+/**
+ * Account storage used by the auth routes and request authentication.
+ * Emails are compared case-insensitively and are unique: `create` throws a
+ * ValidationError (USER_EXISTS) when the email is taken, even when two
+ * signups race.
+ */
+export interface UserRepository {
+  readonly name: string
+  create(data: CreateUserData): Promise<StoredUser>
+  findByEmail(email: string): Promise<StoredUser | null>
+  findById(id: string): Promise<StoredUser | null>
+  // Marks the account as verified, returning null when it doesn't exist
+  verify(email: string): Promise<StoredUser | null>
+  updatePassword(email: string, hashedPassword: string): Promise<boolean>
+  delete(email: string): Promise<boolean>
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+export function generateUserId(): string {
+  return `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+function duplicateUserError(): ValidationError {
+  return new ValidationError('User already exists with this email', 'USER_EXISTS')
+}
+
+/**
+ * Strip the password hash before returning a user to clients
+ */
+export function toPublicUser(user: StoredUser): User {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    createdAt: user.createdAt,
+    isVerified: user.isVerified
+  }
+}
+
+/**
+ * In-process repository for tests and local development; accounts are lost on restart
+ */
+export function createMemoryUserRepository(): UserRepository {
+  const usersById = new Map<string, StoredUser>()
+  const idsByEmail = new Map<string, string>()
+
+  const findByEmail = (email: string) => {
+    const id = idsByEmail.get(normalizeEmail(email))
+    return id ? usersById.get(id) ?? null : null
+  }
+
+  return {
+    name: 'memory',
+
+    async create(data) {
+      const email = normalizeEmail(data.email)
+      // Check and insert without yielding, so concurrent signups can't both succeed
+      if (idsByEmail.has(email)) throw duplicateUserError()
+
+      const user: StoredUser = {
+        id: generateUserId(),
+        email,
+        name: data.name,
+        password: data.password,
+        isVerified: data.isVerified ?? false,
+        createdAt: new Date()
+      }
+      idsByEmail.set(email, user.id)
+      usersById.set(user.id, user)
+      return { ...user }
+    },
+
+    async findByEmail(email) {
+      const user = findByEmail(email)
+      return user ? { ...user } : null
+    },
+
+    async findById(id) {
+      const user = usersById.get(id)
+      return user ? { ...user } : null
+    },
+
+    async verify(email) {
+      const user = findByEmail(email)
+      if (!user) return null
+      user.isVerified = true
+      return { ...user }
+    },
+
+    async updatePassword(email, hashedPassword) {
+      const user = findByEmail(email)
+      if (!user) return false
+      user.password = hashedPassword
+      return true
+    },
+
+    async delete(email) {
+      const user = findByEmail(email)
+      if (!user) return false
+      idsByEmail.delete(user.email)
+      usersById.delete(user.id)
+      return true
+    }
+  }
+}
+
+function parseStoredUser(record: Record<string, unknown> | null): StoredUser | null {
+  if (!record || !record.id) return null
+  return {
+    id: String(record.id),
+    email: String(record.email),
+    name: String(record.name),
+    password: String(record.password),
+    // Upstash may hand back hash fields already JSON-decoded
+    isVerified: String(record.isVerified) === 'true',
+    createdAt: new Date(String(record.createdAt))
+  }
+}
+
+/**
+ * Redis-backed repository. Each account is a hash under `user:<id>`; a
+ * `user-email:<email>` key claimed with SET NX guarantees email uniqueness.
+ */
+export function createRedisUserRepository(): UserRepository {
+  const userKey = (id: string) => generateKey('USER', id)
+  const emailKey = (email: string) => generateKey('USER_EMAIL', normalizeEmail(email))
+
+  const findByEmail = async (email: string): Promise<StoredUser | null> => {
+    const id = await redis.get<string>(emailKey(email))
+    if (!id) return null
+    return parseStoredUser(await redis.hgetall(userKey(String(id))))
+  }
+
+  return {
+    name: 'redis',
+
+    async create(data) {
+      const user: StoredUser = {
+        id: generateUserId(),
+        email: normalizeEmail(data.email),
+        name: data.name,
+        password: data.password,
+        isVerified: data.isVerified ?? false,
+        createdAt: new Date()
+      }
+
+      // Claim the email first; only one concurrent signup can win
+      const claimed = await redis.set(emailKey(user.email), user.id, { nx: true })
+      if (claimed !== 'OK') throw duplicateUserError()
+
+      try {
+        await redis.hset(userKey(user.id), {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          password: user.password,
+          isVerified: String(user.isVerified),
+          createdAt: user.createdAt.toISOString()
+        })
+      } catch (error) {
+        // Release the email so the signup can be retried
+        await redis.del(emailKey(user.email))
+        throw error
+      }
+      return user
+    },
+
+    findByEmail,
+
+    async findById(id) {
+      return parseStoredUser(await redis.hgetall(userKey(id)))
+    },
+
+    async verify(email) {
+      const user = await findByEmail(email)
+      if (!user) return null
+      await redis.hset(userKey(user.id), { isVerified: 'true' })
+      return { ...user, isVerified: true }
+    },
+
+    async updatePassword(email, hashedPassword) {
+      const user = await findByEmail(email)
+      if (!user) return false
+      await redis.hset(userKey(user.id), { password: hashedPassword })
+      return true
+    },
+
+    async delete(email) {
+      const user = await findByEmail(email)
+      if (!user) return false
+      await redis.del(userKey(user.id), emailKey(user.email))
+      return true
+    }
+  }
+}
+
+let activeRepository: UserRepository | null = null
+
+/**
+ * Name of the configured backend: USER_STORE, else redis when Upstash
+ * credentials are present, else memory
+ */
+export function getUserRepositoryName(): string {
+  const configured = process.env.USER_STORE?.trim().toLowerCase()
+  if (configured) return configured
+  return process.env.UPSTASH_REDIS_REST_URL ? 'redis' : 'memory'
+}
+
+export function getUserRepository(): UserRepository {
+  if (!activeRepository) {
+    const name = getUserRepositoryName()
+    if (name === 'redis') {
+      activeRepository = createRedisUserRepository()
+    } else if (name === 'memory') {
+      activeRepository = createMemoryUserRepository()
+    } else {
+      throw new InternalError(
+        `Unknown user store "${name}". Available: redis, memory`,
+        'UNKNOWN_USER_STORE'
+      )
+    }
+  }
+  return activeRepository
+}
+
+/**
+ * Replace the active repository (e.g. with a fresh memory repository in tests); pass null to reset
+ */
+export function setUserRepository(repository: UserRepository | null): void {
+  activeRepository = repository
+}
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx'
 import { twMerge } from 'tailwind-merge'
+import type { BudgetDistribution, Product } from '@/types'
 
 /**
  * Utility function to merge Tailwind CSS classes
@@ -113,6 +114,26 @@ export function generateCategoryColor(index: number): string {
   return colors[index % colors.length]
 }
 
+/**
+ * Budget chart slices from a setup's products, one per category, as shares of
+ * the setup's total cost
+ */
+export function getBudgetDistribution(products: Product[]): BudgetDistribution[] {
+  const amounts = new Map<string, number>()
+  for (const product of products) {
+    const category = product.category ?? 'Other'
+    amounts.set(category, (amounts.get(category) ?? 0) + product.price)
+  }
+
+  const total = products.reduce((sum, product) => sum + product.price, 0)
+  return Array.from(amounts, ([category, amount], index) => ({
+    category,
+    amount: Math.round(amount * 100) / 100,
+    percentage: total > 0 ? (amount / total) * 100 : 0,
+    color: generateCategoryColor(index)
+  })).filter(slice => slice.amount > 0)
+}
+
 /**
  * Validate URL format
  */
@@ -291,4 +312,11 @@ export function uniqueBy<T>(array: T[], key: keyof T): T[] {
     seen.add(value)
     return true
   })
+}
+
+/**
+ * Escape text for use as a literal inside a RegExp
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
 }
\ No newline at end of file
@@ -1,11 +1,65 @@
 import { z } from 'zod'
+import { InternalError } from '@/lib/errors'
+
+// The single source of truth for API payloads: request and response types in
+// src/types are derived from these schemas with z.infer, routes validate their
+// input and output against them, and /api/openapi publishes them as JSON Schema.
 
 // Core validation schemas
+export const CurrencySchema = z.enum(['USD', 'EUR', 'GBP', 'INR', 'CAD', 'AUD', 'JPY', 'CNY', 'BRL', 'MXN'])
+
+export const SetupStyleSchema = z.enum(['Premium', 'Casual'])
+
+export const CategoryPriceRangeSchema = z.object({
+  min: z.number().min(0).optional(),
+  max: z.number().positive().optional()
+})
+
+// Hard limits every candidate must meet before AI selection (see lib/search-constraints).
+// Brands are matched in titles, merchants in merchant names, both case-insensitively.
+export const SearchConstraintsSchema = z.object({
+  includeBrands: z.array(z.string().trim().min(1)).optional(),
+  excludeBrands: z.array(z.string().trim().min(1)).optional(),
+  allowMerchants: z.array(z.string().trim().min(1)).optional(),
+  denyMerchants: z.array(z.string().trim().min(1)).optional(),
+  minRating: z.number().min(0).max(5).optional(),
+  minReviewCount: z.number().int().min(0).optional(),
+  // Price floor/ceiling by category name or key (case-insensitive), in the settings
+  // currency; "*" applies to every category
+  categoryPrices: z.record(z.string(), CategoryPriceRangeSchema).optional(),
+  // Region code candidates must ship to, e.g. "US"
+  shipsTo: z.string().trim().min(2).optional()
+})
+
+export const ConstraintNameSchema = z.enum([
+  'includeBrands',
+  'excludeBrands',
+  'allowMerchants',
+  'denyMerchants',
+  'minRating',
+  'minReviewCount',
+  'categoryPrices',
+  'shipsTo'
+])
+
+// Candidates a constraint removed for one category (need key, or the swapped category)
+export const ConstraintRemovalSchema = z.object({
+  needKey: z.string(),
+  constraint: ConstraintNameSchema,
+  removed: z.array(z.object({ id: z.string(), title: z.string() }))
+})
+
 export const SearchSettingsSchema = z.object({
-  style: z.enum(['Premium', 'Casual']),
+  style: SetupStyleSchema,
   budget: z.number().positive().max(1000000),
-  currency: z.enum(['USD', 'EUR', 'GBP', 'INR', 'CAD', 'AUD', 'JPY', 'CNY', 'BRL', 'MXN']),
-  amazonOnly: z.boolean()
+  currency: CurrencySchema,
+  resultsMode: z.enum(['Single', 'Multiple']).optional(),
+  region: z.string().optional(),
+  amazonOnly: z.boolean(),
+  setupType: z.enum(['premium', 'casual']).optional(),
+  minBudget: z.number().min(0).optional(),
+  maxBudget: z.number().min(0).optional(),
+  constraints: SearchConstraintsSchema.optional()
 })
 
 export const ProductSchema = z.object({
@@ -24,7 +78,15 @@ export const ProductSchema = z.object({
   pros: z.array(z.string()).default([]),
   cons: z.array(z.string()).default([]),
   confidence: z.number().min(0).max(1),
-  searchRank: z.number().min(1)
+  searchRank: z.number().min(1),
+  // Listing price before conversion, when the merchant quoted another currency
+  originalPrice: z.number().positive().optional(),
+  originalCurrency: z.string().length(3).optional(),
+  // Added by the user (owned or found elsewhere) rather than picked by a build;
+  // swaps and rerolls keep it and plan around it
+  custom: z.boolean().optional(),
+  // Tracked link to productUrl (/api/go/{token}) that counts clicks
+  clickUrl: z.string().optional()
 })
 
 export const BudgetDistributionSchema = z.object({
@@ -34,6 +96,15 @@ export const BudgetDistributionSchema = z.object({
   color: z.string().regex(/^#[0-9A-F]{6}$/i)
 })
 
+// USD exchange rate a setup's prices were converted with
+export const ExchangeRateInfoSchema = z.object({
+  currency: z.string().length(3),
+  // Units of `currency` per US dollar
+  rate: z.number().positive(),
+  source: z.string().min(1),
+  updatedAt: z.string().nullable()
+})
+
 export const SetupSchema = z.object({
   id: z.string().min(1),
   query: z.string().min(1).max(200),
@@ -42,15 +113,28 @@ export const SetupSchema = z.object({
   totalCost: z.number().positive(),
   settings: SearchSettingsSchema,
   createdAt: z.date(),
-  shareId: z.string().optional()
+  shareId: z.string().optional(),
+  exchangeRate: ExchangeRateInfoSchema.optional()
+})
+
+// Plan API (/api/plan)
+// What photos of the user's room show, extracted by /api/ai-chat
+export const RoomAnalysisSchema = z.object({
+  roomType: z.string().min(1),
+  existingFurniture: z.array(z.string()),
+  colorPalette: z.array(z.string()),
+  // Free-form size hints ("small room, ~3m wide desk wall"), when the photos give any
+  dimensions: z.string().nullable(),
+  summary: z.string()
 })
 
-// API Request/Response Schemas
 export const PlanRequestSchema = z.object({
   query: z.string().min(1).max(200),
   budget: z.number().positive().max(1000000),
-  style: z.enum(['Premium', 'Casual']),
-  currency: z.enum(['USD', 'EUR', 'GBP', 'INR', 'CAD', 'AUD', 'JPY', 'CNY', 'BRL', 'MXN'])
+  style: SetupStyleSchema,
+  currency: CurrencySchema,
+  // Plan around what the user already has
+  room: RoomAnalysisSchema.optional()
 })
 
 export const CategoryPlanSchema = z.object({
@@ -58,7 +142,9 @@ export const CategoryPlanSchema = z.object({
   priority: z.number().min(1).max(10),
   budgetAllocation: z.number().positive(),
   searchTerms: z.array(z.string()),
-  requirements: z.array(z.string())
+  requirements: z.array(z.string()),
+  // Optional categories are dropped first when the budget runs short (defaults to required)
+  required: z.boolean().optional()
 })
 
 export const SearchStrategySchema = z.object({
@@ -73,12 +159,82 @@ export const PlanResponseSchema = z.object({
   searchStrategy: SearchStrategySchema
 })
 
+// Setup templates (/api/templates): a category plan with budget shares instead of
+// amounts, so it fits any budget. Categories are listed most important first.
+const TemplateTextSchema = z.string().trim().min(1).max(120)
+
+export const TemplateCategorySchema = z.object({
+  category: TemplateTextSchema,
+  budgetPercent: z.number().positive().max(100),
+  searchTerms: z.array(TemplateTextSchema).max(10).default([]),
+  requirements: z.array(TemplateTextSchema).max(10).default([]),
+  required: z.boolean().default(true),
+  // Used instead for the Premium style
+  premium: z.object({
+    category: TemplateTextSchema.optional(),
+    budgetPercent: z.number().positive().max(100).optional(),
+    searchTerms: z.array(TemplateTextSchema).max(10).optional(),
+    requirements: z.array(TemplateTextSchema).max(10).optional()
+  }).optional()
+})
+
+const TemplateNameSchema = z.string({ error: 'Name is required' }).trim().min(1, 'Name is required').max(80)
+const TemplateDescriptionSchema = z.string().trim().max(500)
+// Words that make a query fall back to the template when planning fails
+const TemplateKeywordsSchema = z.array(z.string().trim().toLowerCase().min(1).max(40)).max(20)
+const TemplateCategoriesSchema = z.array(TemplateCategorySchema).min(1, 'Add at least one category').max(15)
+
+export const TemplateInputSchema = z.object({
+  name: TemplateNameSchema,
+  description: TemplateDescriptionSchema.default(''),
+  keywords: TemplateKeywordsSchema.default([]),
+  categories: TemplateCategoriesSchema,
+  // Shared templates can be used and forked by anyone with the ID
+  shared: z.boolean().default(false)
+})
+
+// Only the fields sent are changed
+export const TemplateUpdateSchema = z.object({
+  name: TemplateNameSchema.optional(),
+  description: TemplateDescriptionSchema.optional(),
+  keywords: TemplateKeywordsSchema.optional(),
+  categories: TemplateCategoriesSchema.optional(),
+  shared: z.boolean().optional()
+})
+
+export const TemplateForkRequestSchema = z.object({
+  name: TemplateNameSchema.optional()
+})
+
+export const SetupTemplateSchema = TemplateInputSchema.extend({
+  id: z.string(),
+  // Null for built-in templates
+  ownerId: z.string().nullable(),
+  forkedFrom: z.string().nullable(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional()
+})
+
+export const TemplateResponseSchema = z.object({
+  success: z.literal(true),
+  data: SetupTemplateSchema
+})
+
+export const TemplateListResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    builtIn: z.array(SetupTemplateSchema),
+    own: z.array(SetupTemplateSchema)
+  })
+})
+
+// Search API (/api/search)
 export const SearchRequestSchema = z.object({
-  query: z.string().min(1).max(200),
+  query: z.string({ error: 'Query is required' }).trim().min(1, 'Query is required').max(200),
   category: z.string().optional(),
   budget: z.number().positive().optional(),
-  currency: z.enum(['USD', 'EUR', 'GBP', 'INR', 'CAD', 'AUD', 'JPY', 'CNY', 'BRL', 'MXN']),
-  amazonOnly: z.boolean(),
+  currency: CurrencySchema.default('USD'),
+  amazonOnly: z.boolean().default(false),
   limit: z.number().min(1).max(50).default(10)
 })
 
@@ -93,22 +249,55 @@ export const RawProductSchema = z.object({
   reviewCount: z.number().min(0).optional(),
   image: z.string().optional(),
   shipRegion: z.string().optional(),
-  category: z.string().optional()
+  category: z.string().optional(),
+  originalPrice: z.number().positive().optional(),
+  originalCurrency: z.string().optional()
+})
+
+// SerpAPI and LLM calls behind a request or a day, per service and operation (see lib/upstream-usage)
+export const UpstreamOperationUsageSchema = z.object({
+  // 'serpapi', or the LLM provider name ('gemini', 'gemini-image' for scenes…)
+  service: z.string(),
+  // SerpAPI engine, or the client method that called the model
+  operation: z.string(),
+  calls: z.number().int().min(0),
+  inputTokens: z.number().int().min(0),
+  outputTokens: z.number().int().min(0),
+  // USD, from UPSTREAM_PRICING
+  estimatedCost: z.number().min(0)
+})
+
+export const UpstreamUsageTotalsSchema = z.object({
+  calls: z.number().int().min(0),
+  inputTokens: z.number().int().min(0),
+  outputTokens: z.number().int().min(0),
+  estimatedCost: z.number().min(0),
+  operations: z.array(UpstreamOperationUsageSchema)
+})
+
+export const UpstreamUsageSchema = UpstreamUsageTotalsSchema.extend({
+  requestId: z.string()
 })
 
 export const SearchMetadataSchema = z.object({
   totalResults: z.number().min(0),
-  searchTime: z.number().positive(),
+  searchTime: z.number().min(0),
   currency: z.string(),
-  query: z.string()
+  query: z.string(),
+  // Upstream calls the request made (builds and rerolls)
+  usage: UpstreamUsageSchema.optional()
 })
 
 export const SearchResponseSchema = z.object({
   products: z.array(RawProductSchema),
   totalResults: z.number().min(0),
-  searchMetadata: SearchMetadataSchema
+  searchMetadata: SearchMetadataSchema,
+  // Explains an empty result, e.g. when the Amazon-only filter removed everything
+  message: z.string().optional(),
+  type: z.string().optional()
 })
 
+// Rank API (/api/rank)
 export const RankingCriteriaSchema = z.object({
   priceWeight: z.number().min(0).max(1),
   ratingWeight: z.number().min(0).max(1),
@@ -117,7 +306,7 @@ export const RankingCriteriaSchema = z.object({
 })
 
 export const UserPreferencesSchema = z.object({
-  style: z.enum(['Premium', 'Casual']),
+  style: SetupStyleSchema,
   budget: z.number().positive(),
   prioritizeRating: z.boolean()
 })
@@ -133,9 +322,39 @@ export const RankResponseSchema = z.object({
   reasoning: z.array(z.string())
 })
 
+// Build API (/api/build, /api/build/stream)
 export const BuildRequestSchema = z.object({
   query: z.string().min(1).max(200),
-  settings: SearchSettingsSchema
+  settings: SearchSettingsSchema,
+  // Passed on to planning (see PlanRequestSchema)
+  room: RoomAnalysisSchema.optional(),
+  // Build from a setup template's categories instead of planning with the model
+  templateId: z.string().min(1).optional(),
+  // The user's own items: kept as they are, their categories aren't searched and
+  // their cost comes out of the budget
+  fixedProducts: z.array(ProductSchema).max(20).optional()
+})
+
+export const BuildNeedSchema = z.object({
+  key: z.string(),
+  name: z.string(),
+  targetPrice: z.number(),
+  specs: z.string().optional(),
+  required: z.boolean().optional(),
+  // Searched instead of the name when given (template categories)
+  searchTerms: z.array(z.string()).optional()
+})
+
+// A category the budget solver downgraded, left out or let go past its allocation
+export const SelectionTradeoffSchema = z.object({
+  needKey: z.string(),
+  kind: z.enum(['swapped', 'dropped', 'overran']),
+  // Product the category would have had without the total budget
+  replacedId: z.string(),
+  // The product chosen instead (swaps and overruns)
+  product: ProductSchema.optional(),
+  savings: z.number(),
+  reason: z.string()
 })
 
 export const BuildResponseSchema = z.object({
@@ -143,12 +362,149 @@ export const BuildResponseSchema = z.object({
   budgetChart: z.array(BudgetDistributionSchema).optional(),
   ghostTips: z.array(z.string()),
   searchMetadata: SearchMetadataSchema,
-  isSetup: z.boolean()
+  isSetup: z.boolean(),
+  // ID for cached search results
+  searchId: z.string().optional(),
+  // What the budget solver gave up to fit the budget
+  tradeoffs: z.array(SelectionTradeoffSchema).optional(),
+  // Candidates removed by settings.constraints, per category
+  constraintRemovals: z.array(ConstraintRemovalSchema).optional(),
+  // USD rate used for the settings currency
+  exchangeRate: ExchangeRateInfoSchema.optional()
+})
+
+// Server-Sent Events from /api/build/stream
+export const BuildStreamEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('plan_ready'), needs: z.array(BuildNeedSchema), isSingleItem: z.boolean() }),
+  z.object({ type: z.literal('search_started'), needKey: z.string(), index: z.number(), total: z.number() }),
+  z.object({
+    type: z.literal('search_finished'),
+    needKey: z.string(),
+    index: z.number(),
+    resultCount: z.number(),
+    error: z.string().optional()
+  }),
+  z.object({
+    type: z.literal('constraints_applied'),
+    needKey: z.string(),
+    index: z.number(),
+    removals: z.array(ConstraintRemovalSchema),
+    // Candidates left for selection
+    remaining: z.number()
+  }),
+  z.object({
+    type: z.literal('product_selected'),
+    needKey: z.string(),
+    index: z.number(),
+    product: ProductSchema.nullable(),
+    method: z.enum(['ai', 'fallback', 'none'])
+  }),
+  z.object({
+    type: z.literal('budget_adjusted'),
+    removedIds: z.array(z.string()),
+    tradeoffs: z.array(SelectionTradeoffSchema),
+    totalCost: z.number(),
+    budget: z.number()
+  }),
+  z.object({ type: z.literal('done'), response: BuildResponseSchema }),
+  z.object({
+    type: z.literal('error'),
+    error: z.object({ type: z.string(), message: z.string(), code: z.string(), retryable: z.boolean() })
+  })
+])
+
+// Reroll API (/api/reroll)
+export const RerollRequestSchema = z.object({
+  originalQuery: z.string().min(1),
+  settings: SearchSettingsSchema,
+  excludeIds: z.array(z.string()).optional(),
+  templateId: z.string().min(1).optional(),
+  fixedProducts: z.array(ProductSchema).max(20).optional()
+})
+
+export const RerollResponseSchema = z.object({
+  products: z.array(ProductSchema),
+  budgetChart: z.array(BudgetDistributionSchema).optional(),
+  ghostTips: z.array(z.string()),
+  searchMetadata: SearchMetadataSchema,
+  isSetup: z.boolean(),
+  constraintRemovals: z.array(ConstraintRemovalSchema).optional()
+})
+
+// Swap API (/api/swap)
+export const SwapRequestSchema = z.object({
+  productId: z.string(),
+  category: z.string().optional(),
+  productTitle: z.string().optional(),
+  budget: z.number().positive(),
+  settings: z.object({
+    style: SetupStyleSchema,
+    currency: CurrencySchema,
+    region: z.string().default('US'),
+    amazonOnly: z.boolean(),
+    constraints: SearchConstraintsSchema.optional()
+  }),
+  excludeIds: z.array(z.string()).optional(),
+  // Extra search terms every alternative should match, e.g. ['white']
+  constraints: z.array(z.string().trim().min(1)).optional(),
+  // The user's own items, which alternatives are ranked to go with
+  fixedProducts: z.array(ProductSchema).max(20).optional()
+})
+
+export const SwapResponseSchema = z.object({
+  alternatives: z.array(ProductSchema),
+  fromCache: z.boolean(),
+  constraintRemovals: z.array(ConstraintRemovalSchema).optional()
+})
+
+// Compare API (/api/compare). Products are sent in full, or by ID from one of
+// the user's searches (`searchId`); both can be mixed.
+export const CompareRequestSchema = z.object({
+  products: z.array(ProductSchema).default([]),
+  productIds: z.array(z.string().min(1)).default([]),
+  searchId: z.string().min(1).optional(),
+  // Prices are converted to this currency; defaults to the first product's
+  currency: CurrencySchema.optional(),
+  // Let the model pull specs (size, capacity, wattage…) out of titles and features
+  extractSpecs: z.boolean().default(false)
+})
+
+// A value per compared product: a number, text, a list (features, pros, cons) or null when unknown
+export const ComparisonValueSchema = z.union([z.number(), z.string(), z.array(z.string()), z.null()])
+
+// One attribute across every compared product, as extracted from titles and features
+export const ComparisonSpecSchema = z.object({
+  label: z.string().min(1),
+  unit: z.string().nullable(),
+  // Which way wins; null when the attribute isn't ranked (e.g. merchant, colour)
+  better: z.enum(['higher', 'lower']).nullable(),
+  // In the order of the compared products
+  values: z.array(ComparisonValueSchema)
+})
+
+export const ComparisonRowSchema = ComparisonSpecSchema.extend({
+  key: z.string(),
+  group: z.enum(['overview', 'specs']),
+  // Product with the best value; null on a tie or when fewer than two products have one.
+  // Lists are ranked by length.
+  winnerId: z.string().nullable()
 })
 
+export const CompareResponseSchema = z.object({
+  products: z.array(ProductSchema),
+  currency: CurrencySchema,
+  rows: z.array(ComparisonRowSchema),
+  // Attributes won, by product ID
+  wins: z.record(z.string(), z.number()),
+  specsSource: z.enum(['model', 'listing'])
+})
+
+// AI Scene API (/api/ai-scene)
+export const SceneStyleSchema = z.enum(['Cozy', 'Minimal', 'Gaming', 'Modern'])
+
 export const SceneRequestSchema = z.object({
   products: z.array(ProductSchema),
-  style: z.enum(['Cozy', 'Minimal', 'Gaming', 'Modern']),
+  style: SceneStyleSchema,
   roomType: z.string().optional()
 })
 
@@ -158,14 +514,152 @@ export const SceneResponseSchema = z.object({
   style: z.string()
 })
 
+export const SceneGenerationResponseSchema = z.object({
+  scenes: z.array(SceneResponseSchema),
+  count: z.number(),
+  style: SceneStyleSchema,
+  productCount: z.number(),
+  metadata: z.object({
+    generatedAt: z.string(),
+    style: SceneStyleSchema,
+    roomType: z.string(),
+    productTitles: z.array(z.string()),
+    // Seconds
+    estimatedGenerationTime: z.number()
+  })
+})
+
+// Scene jobs (/api/ai-scene/jobs): variations render in the background and are polled
+export const SceneJobStatusSchema = z.enum(['queued', 'running', 'completed', 'failed', 'cancelled'])
+
+export const SceneJobRequestSchema = SceneRequestSchema.extend({
+  variations: z.number().int().min(1).max(5).default(1)
+})
+
+export const SceneVariationStatusSchema = z.object({
+  // 1-based
+  variation: z.number().int().min(1),
+  status: SceneJobStatusSchema,
+  scene: SceneResponseSchema.nullable(),
+  error: z.string().nullable()
+})
+
+export const SceneJobSchema = z.object({
+  id: z.string().min(1),
+  // completed once every variation has finished and at least one succeeded
+  status: SceneJobStatusSchema,
+  style: SceneStyleSchema,
+  roomType: z.string().nullable(),
+  productCount: z.number().int(),
+  variationCount: z.number().int().min(1),
+  variations: z.array(SceneVariationStatusSchema),
+  result: SceneGenerationResponseSchema.nullable(),
+  error: z.string().nullable(),
+  // Seconds
+  estimatedGenerationTime: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+})
+
+export const SceneJobResponseSchema = z.object({
+  job: SceneJobSchema
+})
+
+// AI Chat API (/api/ai-chat, multipart form data; images are sent as image_0, image_1, ...)
+export const AIChatRequestSchema = z.object({
+  message: z.string().trim().default(''),
+  setupType: z.enum(['premium', 'casual']).optional(),
+  currency: CurrencySchema.default('USD'),
+  minBudget: z.coerce.number().min(0).optional(),
+  maxBudget: z.coerce.number().positive().max(1000000).optional()
+})
+
+export const AIChatResponseSchema = z.object({
+  // Readable answer for the chat view
+  response: z.string(),
+  plan: PlanResponseSchema,
+  roomAnalysis: RoomAnalysisSchema.nullable(),
+  imageAnalysis: z.string().nullable(),
+  metadata: z.object({
+    setupType: z.string().optional(),
+    currency: z.string().optional(),
+    minBudget: z.number().optional(),
+    maxBudget: z.number().optional(),
+    imagesAnalyzed: z.number()
+  })
+})
+
+// AI chat sessions (/api/ai-chat/sessions). A session is started like /api/ai-chat
+// (same form fields) and refined with follow-up messages such as "cheaper chair".
+export const ChatMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  createdAt: z.string()
+})
+
+// What a follow-up message asks for, as interpreted by the model (or the keyword fallback)
+export const SetupRefinementSchema = z.object({
+  action: z.enum(['cheaper', 'upgrade', 'remove', 'add', 'restyle', 'rebuild', 'none']),
+  // Categories to change; for restyle, empty means every category
+  categories: z.array(z.string()),
+  // Lasting requirements for every later pick, e.g. "white"
+  constraints: z.array(z.string()),
+  budget: z.number().positive().max(1000000).optional()
+})
+
+export const SetupChangeSchema = z.object({
+  category: z.string(),
+  kind: z.enum(['replaced', 'removed', 'added', 'unchanged']),
+  before: ProductSchema.optional(),
+  after: ProductSchema.optional(),
+  // Why nothing changed (no cheaper option found, search failed…)
+  note: z.string().optional()
+})
+
+export const ChatSessionSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  query: z.string(),
+  settings: SearchSettingsSchema,
+  room: RoomAnalysisSchema.nullable(),
+  products: z.array(ProductSchema),
+  constraints: z.array(z.string()),
+  messages: z.array(ChatMessageSchema),
+  createdAt: z.string(),
+  updatedAt: z.string()
+})
+
+export const ChatTurnRequestSchema = z.object({
+  message: z.string({ error: 'Message is required' }).trim().min(1, 'Message is required').max(500)
+})
+
+export const ChatTurnResponseSchema = z.object({
+  session: ChatSessionSchema,
+  // The assistant message added by this turn
+  reply: z.string(),
+  refinement: SetupRefinementSchema.nullable(),
+  changes: z.array(SetupChangeSchema)
+})
+
+export const ChatSessionResponseSchema = z.object({
+  session: ChatSessionSchema
+})
+
+// Share API (/api/share)
 export const ShareRequestSchema = z.object({
   setup: z.object({
     query: z.string().min(1),
     products: z.array(ProductSchema),
     budgetDistribution: z.array(BudgetDistributionSchema).optional(),
     totalCost: z.number().positive(),
-    settings: SearchSettingsSchema
-  })
+    settings: SearchSettingsSchema,
+    // Generated scenes travel with the setup; inline images are stored and linked
+    scenes: z.array(SceneResponseSchema).optional()
+  }),
+  // Share one of the user's searches so the link follows its revisions, or
+  // stays on `revision` when one is given
+  searchId: z.string().min(1).optional(),
+  revision: z.number().int().positive().optional()
 })
 
 export const ShareResponseSchema = z.object({
@@ -174,15 +668,390 @@ export const ShareResponseSchema = z.object({
   expiresAt: z.date()
 })
 
+export const SharedSetupResponseSchema = z.object({
+  setup: ShareRequestSchema.shape.setup.extend({
+    shareId: z.string().optional(),
+    expiresAt: z.string().optional(),
+    exchangeRate: ExchangeRateInfoSchema.optional()
+  }),
+  metadata: z.object({
+    shareId: z.string(),
+    sharedAt: z.string().optional(),
+    expiresAt: z.string().optional(),
+    accessCount: z.number(),
+    lastAccessed: z.string(),
+    // Set when the share follows a search's revisions
+    revision: z.object({
+      number: z.number(),
+      pinned: z.boolean(),
+      latest: z.number()
+    }).optional()
+  })
+})
+
+// Search history API (/api/search-history, /api/saved-searches, /api/save-search, /api/cached-results)
+export const PaginationQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+})
+
+export const PaginationSchema = z.object({
+  offset: z.number(),
+  limit: z.number(),
+  total: z.number(),
+  hasMore: z.boolean()
+})
+
+export const SearchSummarySchema = z.object({
+  id: z.string(),
+  query: z.string(),
+  settings: SearchSettingsSchema,
+  createdAt: z.string(),
+  productCount: z.number(),
+  isSaved: z.boolean()
+})
+
+export const SearchSummaryPageResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.array(SearchSummarySchema),
+  pagination: PaginationSchema
+})
+
+export const SaveSearchRequestSchema = z.object({
+  searchId: z.string({ error: 'Search ID is required' }).min(1, 'Search ID is required')
+})
+
+export const SavedStateResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({ searchId: z.string(), isSaved: z.boolean() })
+})
+
+export const SavedIdsResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.array(z.string()),
+  pagination: PaginationSchema
+})
+
+export const CachedResultsResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    query: z.string(),
+    settings: SearchSettingsSchema,
+    results: z.array(z.unknown()),
+    productCount: z.number(),
+    createdAt: z.string()
+  })
+})
+
+// Price tracking (/api/saved-searches/{id}/prices, /api/cron/price-check)
+export const PricePointSchema = z.object({
+  price: z.number(),
+  currency: z.string(),
+  recordedAt: z.string()
+})
+
+export const PriceAlertRequestSchema = z.object({
+  // Alert when a product drops at least this far below its saved price
+  thresholdPercent: z.number({ error: 'Threshold must be a number' })
+    .min(1, 'Threshold must be at least 1%')
+    .max(90, 'Threshold must be at most 90%')
+    .default(10)
+})
+
+export const ProductPriceHistorySchema = z.object({
+  productId: z.string(),
+  title: z.string(),
+  productUrl: z.string(),
+  currency: z.string(),
+  savedPrice: z.number(),
+  currentPrice: z.number(),
+  lowestPrice: z.number(),
+  // Current price against the saved one; negative when it got cheaper
+  changePercent: z.number(),
+  // Oldest first
+  history: z.array(PricePointSchema)
+})
+
+export const PriceHistoryResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    searchId: z.string(),
+    alert: z.object({
+      thresholdPercent: z.number(),
+      createdAt: z.string(),
+      lastCheckedAt: z.string().nullable()
+    }).nullable(),
+    products: z.array(ProductPriceHistorySchema)
+  })
+})
+
+export const PriceCheckResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    watchesChecked: z.number(),
+    pricesRecorded: z.number(),
+    alertsSent: z.number()
+  })
+})
+
+// Setup revisions (/api/setups/{id}/revisions). A setup is one of the user's
+// searches; revision 1 is what the build picked.
+export const RevisionKindSchema = z.enum(['build', 'swap', 'reroll', 'add', 'remove', 'restore'])
+
+export const RevisionProductSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  price: z.number(),
+  category: z.string().optional()
+})
+
+// What changed between two revisions; a removed and an added product of the
+// same category count as a replacement
+export const RevisionChangesSchema = z.object({
+  added: z.array(RevisionProductSchema),
+  removed: z.array(RevisionProductSchema),
+  replaced: z.array(z.object({ from: RevisionProductSchema, to: RevisionProductSchema })),
+  // Total cost of the newer revision minus the older one
+  costDelta: z.number()
+})
+
+export const SetupRevisionSchema = z.object({
+  searchId: z.string(),
+  revision: z.number().int().positive(),
+  kind: RevisionKindSchema,
+  note: z.string().nullable(),
+  // Revision a restore copied
+  restoredFrom: z.number().int().positive().nullable(),
+  author: z.object({ id: z.string(), name: z.string().nullable() }),
+  createdAt: z.string(),
+  products: z.array(ProductSchema),
+  totalCost: z.number(),
+  // Against the previous revision
+  changes: RevisionChangesSchema
+})
+
+export const SetupRevisionSummarySchema = SetupRevisionSchema.omit({ products: true })
+
+export const RevisionRequestSchema = z.object({
+  kind: z.enum(['swap', 'reroll', 'add', 'remove'], { error: 'Kind must be swap, reroll, add or remove' }),
+  products: z.array(ProductSchema).min(1, 'A setup needs at least one product').max(50),
+  note: z.string().trim().max(200).optional()
+})
+
+// Something the user already owns or found elsewhere
+export const CustomItemSchema = z.object({
+  title: z.string({ error: 'Title is required' }).trim().min(1, 'Title is required').max(500),
+  price: z.number({ error: 'Price must be a number' }).positive('Price must be positive'),
+  productUrl: z.url('Product URL must be a valid URL').optional(),
+  category: z.string().trim().min(1).max(100).optional()
+})
+
+// Add a category (searched and picked like a swap) or a custom item to a setup
+export const SetupAddRequestSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('category'),
+    category: z.string().trim().min(1, 'Category is required').max(100),
+    // Defaults to what's left of the setup's budget
+    budget: z.number().positive().optional()
+  }),
+  z.object({ type: z.literal('custom'), item: CustomItemSchema })
+], { error: 'Type must be category or custom' })
+
+export const RevisionDiffQuerySchema = z.object({
+  from: z.coerce.number({ error: 'from must be a revision number' }).int().positive(),
+  to: z.coerce.number({ error: 'to must be a revision number' }).int().positive()
+})
+
+export const RevisionListResponseSchema = z.object({
+  success: z.literal(true),
+  data: z.object({
+    searchId: z.string(),
+    latest: z.number(),
+    // Oldest first
+    revisions: z.array(SetupRevisionSummarySchema)
+  })
+})
+
+export const RevisionResponseSchema = z.object({
+  success: z.literal(true),
+  data: SetupRevisionSchema
+})
+
+export const RevisionDiffResponseSchema = z.object({
+  success: z.literal(true),
+  data: RevisionChangesSchema.extend({
+    searchId: z.string(),
+    from: z.number(),
+    to: z.number()
+  })
+})
+
+// Auth API (/api/auth/*)
+const requiredString = (message: string) => z.string({ error: message }).min(1, message)
+
+export const UserSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string(),
+  createdAt: z.date(),
+  isVerified: z.boolean()
+})
+
+export const SignUpRequestSchema = z.object({
+  name: requiredString('All fields are required'),
+  email: requiredString('All fields are required'),
+  password: requiredString('All fields are required').min(6, 'Password must be at least 6 characters')
+})
+
+export const SignInRequestSchema = z.object({
+  email: requiredString('Email and password are required'),
+  password: requiredString('Email and password are required')
+})
+
+export const OTPVerificationRequestSchema = z.object({
+  email: requiredString('Email and OTP are required'),
+  otp: requiredString('Email and OTP are required')
+})
+
+export const ResetPasswordRequestSchema = z.object({
+  email: requiredString('Email is required')
+})
+
+export const UpdatePasswordRequestSchema = z.object({
+  email: requiredString('Email, OTP, and new password are required'),
+  otp: requiredString('Email, OTP, and new password are required'),
+  newPassword: requiredString('Email, OTP, and new password are required')
+    .min(6, 'Password must be at least 6 characters')
+})
+
+export const AuthSessionResponseSchema = z.object({
+  message: z.string(),
+  user: UserSchema,
+  token: z.string()
+})
+
+// Auth steps that may hand back the code when email delivery isn't available (development)
+export const AuthMessageResponseSchema = z.object({
+  message: z.string(),
+  success: z.boolean().optional(),
+  user: UserSchema.optional(),
+  otp: z.string().optional(),
+  emailError: z.boolean().optional(),
+  configError: z.boolean().optional(),
+  configInfo: z.string().optional()
+})
+
+// Support API (/api/support/contact)
+export const ContactRequestSchema = z.object({
+  name: requiredString('All fields are required'),
+  email: requiredString('All fields are required'),
+  issue: requiredString('All fields are required')
+})
+
+// Generic acknowledgement returned by mutations
+export const MessageResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  fallback: z.boolean().optional()
+})
+
+// Admin API (/api/cache/clear)
+export const CacheClearResponseSchema = MessageResponseSchema.extend({
+  clearedKeys: z.number()
+})
+
+// Upstream usage API (/api/admin/usage)
+export const UsageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).catch(7)
+})
+
+export const UsageBudgetAlertSchema = z.object({
+  // Percent of the daily budget that was reached
+  threshold: z.number(),
+  triggeredAt: z.string()
+})
+
+export const UsageResponseSchema = z.object({
+  // Newest first, one entry per UTC day including days without calls
+  days: z.array(UpstreamUsageTotalsSchema.extend({
+    date: z.string(),
+    alerts: z.array(UsageBudgetAlertSchema)
+  })),
+  budget: z.object({
+    // UPSTREAM_DAILY_BUDGET_USD; null when unset
+    daily: z.number().nullable(),
+    spentToday: z.number(),
+    percentUsed: z.number().nullable()
+  })
+})
+
+// Analytics API (/api/analytics)
+export const AnalyticsQuerySchema = z.object({
+  timeRange: z.enum(['24h', '7d', '30d', '90d']).catch('7d')
+})
+
+export const AnalyticsResponseSchema = z.object({
+  metrics: z.object({
+    totalSearches: z.number(),
+    uniqueUsers: z.number(),
+    avgSearchesPerUser: z.number(),
+    conversionRate: z.number(),
+    totalSavedSearches: z.number(),
+    activeUsers: z.number()
+  }),
+  searchTrends: z.array(z.object({ date: z.string(), searches: z.number(), uniqueUsers: z.number() })),
+  popularProducts: z.array(z.object({
+    name: z.string(),
+    views: z.number(),
+    avgPrice: z.number().nullable(),
+    category: z.string().nullish(),
+    merchant: z.string(),
+    rating: z.number()
+  })),
+  userActivity: z.array(z.object({ date: z.string(), uniqueUsers: z.number(), totalSearches: z.number() })),
+  conversionFunnel: z.array(z.object({ stage: z.string(), count: z.number(), percentage: z.number() })),
+  topSearchTerms: z.array(z.object({ query: z.string(), count: z.number() })),
+  timeRange: z.string()
+})
+
+// Analytics events, recorded by the routes (see lib/analytics)
+export const AnalyticsEventTypeSchema = z.enum(['search', 'build', 'swap', 'reroll', 'share', 'save', 'product_click'])
+
+// What events keep of a product, enough to rank popular products
+export const AnalyticsProductSchema = z.object({
+  id: z.string().min(1).max(200),
+  title: z.string().min(1).max(500),
+  price: z.number().nullable(),
+  category: z.string().max(100).nullish(),
+  merchant: z.string().max(200),
+  rating: z.number().nullable()
+})
+
+// Sent by the client when a product link is opened (/api/analytics/events)
+export const ProductClickEventRequestSchema = z.object({
+  searchId: z.string().min(1).max(100).optional(),
+  product: AnalyticsProductSchema
+})
+
 // Error validation schema
 export const APIErrorSchema = z.object({
-  type: z.enum(['VALIDATION_ERROR', 'EXTERNAL_API_ERROR', 'RATE_LIMIT_ERROR', 'NETWORK_ERROR', 'INTERNAL_ERROR']),
+  type: z.enum(['VALIDATION_ERROR', 'EXTERNAL_API_ERROR', 'RATE_LIMIT_ERROR', 'NETWORK_ERROR', 'INTERNAL_ERROR', 'AUTHENTICATION_ERROR', 'AUTHORIZATION_ERROR']),
   message: z.string().min(1),
   code: z.string().min(1),
   details: z.unknown().optional(),
   retryable: z.boolean()
 })
 
+// Body of every error response: either handleAPIError's shape or a plain `{ error: message }`
+export const ErrorResponseSchema = z.object({
+  error: z.union([z.literal(true), z.string()]),
+  type: z.string().optional(),
+  message: z.string().optional(),
+  code: z.string().optional(),
+  retryable: z.boolean().optional(),
+  details: z.unknown().optional()
+})
+
 // Validation helper functions
 export function validateSearchSettings(data: unknown) {
   return SearchSettingsSchema.parse(data)
@@ -204,9 +1073,39 @@ export function validateBuildResponse(data: unknown) {
   return BuildResponseSchema.parse(data)
 }
 
+export function validatePaginationQuery(searchParams: URLSearchParams) {
+  return PaginationQuerySchema.parse({
+    offset: searchParams.get('offset') ?? undefined,
+    limit: searchParams.get('limit') ?? undefined
+  })
+}
+
+/**
+ * First issue of a failed parse, for routes that answer `{ error: message }`
+ */
+export function getValidationMessage(error: z.ZodError): string {
+  return error.issues[0]?.message || 'Invalid request data'
+}
+
+/**
+ * Check a response body against its schema before it is sent. A mismatch is a
+ * server bug, so it surfaces as an InternalError (500) instead of reaching clients.
+ * The body is returned as given, so fields outside the schema are not stripped.
+ */
+export function validateResponse<S extends z.ZodType, T extends z.input<S>>(schema: S, data: T): T {
+  const result = schema.safeParse(data)
+  if (!result.success) {
+    console.error('Response failed schema validation:', result.error.issues)
+    throw new InternalError('Response failed schema validation', 'INVALID_RESPONSE', {
+      issues: result.error.issues
+    })
+  }
+  return data
+}
+
 // Type inference from schemas
 export type ValidatedSearchSettings = z.infer<typeof SearchSettingsSchema>
 export type ValidatedProduct = z.infer<typeof ProductSchema>
 export type ValidatedSetup = z.infer<typeof SetupSchema>
 export type ValidatedBuildRequest = z.infer<typeof BuildRequestSchema>
-export type ValidatedBuildResponse = z.infer<typeof BuildResponseSchema>
\ No newline at end of file
+export type ValidatedBuildResponse = z.infer<typeof BuildResponseSchema>
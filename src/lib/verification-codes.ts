@@ -0,0 +1,125 @@
+import { redis, generateKey, TTL } from '@/lib/redis'
+import { InternalError } from '@/lib/errors'
+import { normalizeEmail, getUserRepositoryName } from '@/lib/user-repository'
+
+// Signup email verification and password reset use separate codes
+export type VerificationPurpose = 'signup' | 'password-reset'
+
+export interface VerificationCode {
+  otp: string
+  expiresAt: Date
+}
+
+/**
+ * Short-lived one-time codes keyed by purpose and email
+ */
+export interface VerificationCodeStore {
+  readonly name: string
+  // Replaces any pending code for the same purpose and email
+  issue(purpose: VerificationPurpose, email: string, ttlSeconds?: number): Promise<VerificationCode>
+  // Returns null once the code has expired
+  get(purpose: VerificationPurpose, email: string): Promise<VerificationCode | null>
+  delete(purpose: VerificationPurpose, email: string): Promise<void>
+}
+
+export function generateOTP(): string {
+  return Math.floor(100000 + Math.random() * 900000).toString()
+}
+
+function newCode(ttlSeconds: number): VerificationCode {
+  return { otp: generateOTP(), expiresAt: new Date(Date.now() + ttlSeconds * 1000) }
+}
+
+const codeId = (purpose: VerificationPurpose, email: string) => `${purpose}:${normalizeEmail(email)}`
+
+export function createMemoryVerificationCodeStore(): VerificationCodeStore {
+  const codes = new Map<string, VerificationCode>()
+
+  return {
+    name: 'memory',
+
+    async issue(purpose, email, ttlSeconds = TTL.VERIFICATION_CODE) {
+      const code = newCode(ttlSeconds)
+      codes.set(codeId(purpose, email), code)
+      return code
+    },
+
+    async get(purpose, email) {
+      const code = codes.get(codeId(purpose, email))
+      if (!code) return null
+      if (new Date() > code.expiresAt) {
+        codes.delete(codeId(purpose, email))
+        return null
+      }
+      return code
+    },
+
+    async delete(purpose, email) {
+      codes.delete(codeId(purpose, email))
+    }
+  }
+}
+
+/**
+ * Redis-backed codes; Redis expires them, so nothing outlives its TTL
+ */
+export function createRedisVerificationCodeStore(): VerificationCodeStore {
+  const key = (purpose: VerificationPurpose, email: string) => generateKey('VERIFICATION_CODE', codeId(purpose, email))
+
+  return {
+    name: 'redis',
+
+    async issue(purpose, email, ttlSeconds = TTL.VERIFICATION_CODE) {
+      const code = newCode(ttlSeconds)
+      await redis.setex(key(purpose, email), ttlSeconds, JSON.stringify({
+        otp: code.otp,
+        expiresAt: code.expiresAt.toISOString()
+      }))
+      return code
+    },
+
+    async get(purpose, email) {
+      const stored = await redis.get(key(purpose, email))
+      if (!stored) return null
+
+      const { otp, expiresAt } = (typeof stored === 'string' ? JSON.parse(stored) : stored) as {
+        otp: string
+        expiresAt: string
+      }
+      return { otp: String(otp), expiresAt: new Date(expiresAt) }
+    },
+
+    async delete(purpose, email) {
+      await redis.del(key(purpose, email))
+    }
+  }
+}
+
+let activeStore: VerificationCodeStore | null = null
+
+/**
+ * Codes live next to the accounts they verify, so this follows USER_STORE
+ */
+export function getVerificationCodeStore(): VerificationCodeStore {
+  if (!activeStore) {
+    const name = getUserRepositoryName()
+    if (name === 'redis') {
+      activeStore = createRedisVerificationCodeStore()
+    } else if (name === 'memory') {
+      activeStore = createMemoryVerificationCodeStore()
+    } else {
+      throw new InternalError(
+        `Unknown user store "${name}". Available: redis, memory`,
+        'UNKNOWN_USER_STORE'
+      )
+    }
+  }
+  return activeStore
+}
+
+/**
+ * Replace the active store (e.g. in tests); pass null to reset
+ */
+export function setVerificationCodeStore(store: VerificationCodeStore | null): void {
+  activeStore = store
+}
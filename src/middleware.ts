@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  ANONYMOUS_CLIENT_COOKIE,
+  ANONYMOUS_CLIENT_COOKIE_MAX_AGE,
+  createAnonymousClientCookie,
+  verifyAnonymousClientCookie
+} from '@/lib/auth-token'
+
+// Pages as well as API routes, so a browser has its cookie before its first API call
+export const config = {
+  matcher: '/((?!_next/static|_next/image|favicon.ico).*)',
+  runtime: 'nodejs'
+}
+
+/**
+ * Give every browser without a valid client cookie a new one. The request is
+ * passed on with the cookie too, so the route it reaches already sees it.
+ */
+export function middleware(request: NextRequest) {
+  const current = request.cookies.get(ANONYMOUS_CLIENT_COOKIE)?.value
+  if (current && verifyAnonymousClientCookie(current)) return NextResponse.next()
+
+  const value = createAnonymousClientCookie()
+  request.cookies.set(ANONYMOUS_CLIENT_COOKIE, value)
+  const response = NextResponse.next({ request: { headers: request.headers } })
+  response.cookies.set(ANONYMOUS_CLIENT_COOKIE, value, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: ANONYMOUS_CLIENT_COOKIE_MAX_AGE
+  })
+  return response
+}
\ No newline at end of file
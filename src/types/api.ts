@@ -1,176 +1,117 @@
-// API-specific type definitions
+// API-specific type definitions, derived from the schemas in lib/validation
 
-import { Product, SearchSettings, BudgetDistribution } from './index'
-
-// Extract currency type from SearchSettings for consistency
-type Currency = SearchSettings['currency']
+import type { z } from 'zod'
+import type * as schemas from '@/lib/validation'
 
 // Planning API Types
-export interface PlanRequest {
-  query: string
-  budget: number
-  style: 'Premium' | 'Casual'
-  currency: Currency
-}
-
-export interface CategoryPlan {
-  category: string
-  priority: number
-  budgetAllocation: number
-  searchTerms: string[]
-  requirements: string[]
-}
-
-export interface SearchStrategy {
-  approach: 'setup'
-  categories: string[]
-  totalItems: number
-}
-
-export interface PlanResponse {
-  categories: CategoryPlan[]
-  budgetDistribution: BudgetDistribution[]
-  searchStrategy: SearchStrategy
-}
+export type RoomAnalysis = z.infer<typeof schemas.RoomAnalysisSchema>
+export type PlanRequest = z.infer<typeof schemas.PlanRequestSchema>
+export type CategoryPlan = z.infer<typeof schemas.CategoryPlanSchema>
+export type SearchStrategy = z.infer<typeof schemas.SearchStrategySchema>
+export type PlanResponse = z.infer<typeof schemas.PlanResponseSchema>
+
+// Setup template Types (/api/templates)
+export type TemplateCategory = z.infer<typeof schemas.TemplateCategorySchema>
+export type TemplateInput = z.infer<typeof schemas.TemplateInputSchema>
+export type TemplateUpdate = z.infer<typeof schemas.TemplateUpdateSchema>
+export type SetupTemplate = z.infer<typeof schemas.SetupTemplateSchema>
 
 // Search API Types
-export interface SearchRequest {
-  query: string
-  category?: string
-  budget?: number
-  currency: Currency
-  amazonOnly: boolean
-  limit: number
-}
-
-export interface RawProduct {
-  id: string
-  title: string
-  url: string
-  price?: number
-  currency?: string
-  merchant?: string
-  rating?: number
-  reviewCount?: number
-  image?: string
-  shipRegion?: string
-  category?: string
-}
-
-export interface SearchMetadata {
-  totalResults: number
-  searchTime: number
-  currency: string
-  query: string
-}
-
-export interface SearchResponse {
-  products: RawProduct[]
-  totalResults: number
-  searchMetadata: SearchMetadata
-}
+export type SearchRequest = z.infer<typeof schemas.SearchRequestSchema>
+export type RawProduct = z.infer<typeof schemas.RawProductSchema>
+export type SearchMetadata = z.infer<typeof schemas.SearchMetadataSchema>
+export type SearchResponse = z.infer<typeof schemas.SearchResponseSchema>
 
 // Ranking API Types
-export interface RankingCriteria {
-  priceWeight: number
-  ratingWeight: number
-  reviewWeight: number
-  relevanceWeight: number
-}
-
-export interface UserPreferences {
-  style: 'Premium' | 'Casual'
-  budget: number
-  prioritizeRating: boolean
-}
-
-export interface RankRequest {
-  products: RawProduct[]
-  criteria: RankingCriteria
-  userPreferences: UserPreferences
-}
-
-export interface RankResponse {
-  rankedProducts: Product[]
-  reasoning: string[]
-}
+export type RankingCriteria = z.infer<typeof schemas.RankingCriteriaSchema>
+export type UserPreferences = z.infer<typeof schemas.UserPreferencesSchema>
+export type RankRequest = z.infer<typeof schemas.RankRequestSchema>
+export type RankResponse = z.infer<typeof schemas.RankResponseSchema>
 
 // Build API Types (Main Orchestrator)
-export interface BuildRequest {
-  query: string
-  settings: SearchSettings
-}
-
-export interface BuildResponse {
-  products: Product[]
-  budgetChart?: BudgetDistribution[]
-  ghostTips: string[]
-  searchMetadata: SearchMetadata
-  isSetup: boolean
-  searchId?: string // ID for cached search results
-}
+export type BuildRequest = z.infer<typeof schemas.BuildRequestSchema>
+export type BuildResponse = z.infer<typeof schemas.BuildResponseSchema>
+export type SelectionTradeoff = z.infer<typeof schemas.SelectionTradeoffSchema>
+export type ConstraintName = z.infer<typeof schemas.ConstraintNameSchema>
+export type ConstraintRemoval = z.infer<typeof schemas.ConstraintRemovalSchema>
+
+// Search History Types (/api/search-history, /api/saved-searches)
+export type SearchSummary = z.infer<typeof schemas.SearchSummarySchema>
+export type Pagination = z.infer<typeof schemas.PaginationSchema>
+
+// Price Tracking Types (/api/saved-searches/{id}/prices)
+export type PricePoint = z.infer<typeof schemas.PricePointSchema>
+export type ProductPriceHistory = z.infer<typeof schemas.ProductPriceHistorySchema>
+export type PriceHistoryResponse = z.infer<typeof schemas.PriceHistoryResponseSchema>
+
+// Setup Revision Types (/api/setups/{id}/revisions)
+export type RevisionKind = z.infer<typeof schemas.RevisionKindSchema>
+export type RevisionProduct = z.infer<typeof schemas.RevisionProductSchema>
+export type RevisionChanges = z.infer<typeof schemas.RevisionChangesSchema>
+export type SetupRevision = z.infer<typeof schemas.SetupRevisionSchema>
+export type SetupRevisionSummary = z.infer<typeof schemas.SetupRevisionSummarySchema>
+export type RevisionRequest = z.infer<typeof schemas.RevisionRequestSchema>
+export type CustomItem = z.infer<typeof schemas.CustomItemSchema>
+export type SetupAddRequest = z.infer<typeof schemas.SetupAddRequestSchema>
+
+// Build Streaming Types (Server-Sent Events from /api/build/stream)
+export type BuildNeed = z.infer<typeof schemas.BuildNeedSchema>
+export type BuildStreamEvent = z.infer<typeof schemas.BuildStreamEventSchema>
+export type BuildStreamEventType = BuildStreamEvent['type']
 
 // AI Scene Generation Types
-export interface SceneRequest {
-  products: Product[]
-  style: 'Cozy' | 'Minimal' | 'Gaming' | 'Modern'
-  roomType?: string
-}
-
-export interface SceneResponse {
-  imageUrl: string
-  prompt: string
-  style: string
-}
+export type SceneRequest = z.infer<typeof schemas.SceneRequestSchema>
+export type SceneResponse = z.infer<typeof schemas.SceneResponseSchema>
+export type SceneGenerationResponse = z.infer<typeof schemas.SceneGenerationResponseSchema>
+export type SceneJobStatus = z.infer<typeof schemas.SceneJobStatusSchema>
+export type SceneJobRequest = z.infer<typeof schemas.SceneJobRequestSchema>
+export type SceneVariationStatus = z.infer<typeof schemas.SceneVariationStatusSchema>
+export type SceneJob = z.infer<typeof schemas.SceneJobSchema>
+export type SceneJobResponse = z.infer<typeof schemas.SceneJobResponseSchema>
+
+// AI Chat Types
+export type AIChatRequest = z.infer<typeof schemas.AIChatRequestSchema>
+export type AIChatResponse = z.infer<typeof schemas.AIChatResponseSchema>
 
 // Share API Types
-export interface ShareRequest {
-  setup: {
-    query: string
-    products: Product[]
-    budgetDistribution?: BudgetDistribution[]
-    totalCost: number
-    settings: SearchSettings
-  }
-}
-
-export interface ShareResponse {
-  shareId: string
-  shortUrl: string
-  expiresAt: Date
-}
+export type ShareRequest = z.infer<typeof schemas.ShareRequestSchema>
+export type ShareResponse = z.infer<typeof schemas.ShareResponseSchema>
+export type SharedSetupResponse = z.infer<typeof schemas.SharedSetupResponseSchema>
+
+// AI chat session Types
+export type ChatMessage = z.infer<typeof schemas.ChatMessageSchema>
+export type SetupRefinement = z.infer<typeof schemas.SetupRefinementSchema>
+export type SetupChange = z.infer<typeof schemas.SetupChangeSchema>
+export type ChatSession = z.infer<typeof schemas.ChatSessionSchema>
+export type ChatTurnRequest = z.infer<typeof schemas.ChatTurnRequestSchema>
+export type ChatTurnResponse = z.infer<typeof schemas.ChatTurnResponseSchema>
 
 // Swap API Types
-export interface SwapRequest {
-  productId: string
-  category?: string
-  productTitle?: string
-  budget: number
-  settings: {
-    style: 'Premium' | 'Casual'
-    currency: Currency
-    region: string
-    amazonOnly: boolean
-  }
-  excludeIds?: string[]
-}
-
-export interface SwapResponse {
-  alternatives: Product[]
-  fromCache: boolean
-}
+export type SwapRequest = z.infer<typeof schemas.SwapRequestSchema>
+export type SwapResponse = z.infer<typeof schemas.SwapResponseSchema>
+
+// Compare API Types
+export type CompareRequest = z.infer<typeof schemas.CompareRequestSchema>
+export type ComparisonValue = z.infer<typeof schemas.ComparisonValueSchema>
+export type ComparisonSpec = z.infer<typeof schemas.ComparisonSpecSchema>
+export type ComparisonRow = z.infer<typeof schemas.ComparisonRowSchema>
+export type CompareResponse = z.infer<typeof schemas.CompareResponseSchema>
 
 // Reroll API Types
-export interface RerollRequest {
-  originalQuery: string
-  settings: SearchSettings
-  excludeIds?: string[]
-}
-
-export interface RerollResponse {
-  products: Product[]
-  budgetChart?: BudgetDistribution[]
-  ghostTips: string[]
-  searchMetadata: SearchMetadata
-  isSetup: boolean
-}
\ No newline at end of file
+export type RerollRequest = z.infer<typeof schemas.RerollRequestSchema>
+export type RerollResponse = z.infer<typeof schemas.RerollResponseSchema>
+
+// Support, admin and analytics API Types
+export type ContactRequest = z.infer<typeof schemas.ContactRequestSchema>
+export type MessageResponse = z.infer<typeof schemas.MessageResponseSchema>
+export type CacheClearResponse = z.infer<typeof schemas.CacheClearResponseSchema>
+export type UpstreamOperationUsage = z.infer<typeof schemas.UpstreamOperationUsageSchema>
+export type UpstreamUsageTotals = z.infer<typeof schemas.UpstreamUsageTotalsSchema>
+export type UpstreamUsage = z.infer<typeof schemas.UpstreamUsageSchema>
+export type UsageBudgetAlert = z.infer<typeof schemas.UsageBudgetAlertSchema>
+export type UsageResponse = z.infer<typeof schemas.UsageResponseSchema>
+export type AnalyticsResponse = z.infer<typeof schemas.AnalyticsResponseSchema>
+export type AnalyticsEventType = z.infer<typeof schemas.AnalyticsEventTypeSchema>
+export type AnalyticsProduct = z.infer<typeof schemas.AnalyticsProductSchema>
+export type ProductClickEventRequest = z.infer<typeof schemas.ProductClickEventRequestSchema>
+export type ErrorResponse = z.infer<typeof schemas.ErrorResponseSchema>
\ No newline at end of file
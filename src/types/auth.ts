@@ -1,10 +1,12 @@
-export interface User {
-  id: string
-  email: string
-  name: string
-  createdAt: Date
-  isVerified: boolean
-}
+import type { z } from 'zod'
+import type {
+  UserSchema,
+  SignUpRequestSchema,
+  SignInRequestSchema,
+  OTPVerificationRequestSchema
+} from '@/lib/validation'
+
+export type User = z.infer<typeof UserSchema>
 
 export interface AuthState {
   user: User | null
@@ -12,18 +14,8 @@ export interface AuthState {
   isAuthenticated: boolean
 }
 
-export interface SignUpData {
-  name: string
-  email: string
-  password: string
-}
+export type SignUpData = z.infer<typeof SignUpRequestSchema>
 
-export interface SignInData {
-  email: string
-  password: string
-}
+export type SignInData = z.infer<typeof SignInRequestSchema>
 
-export interface OTPVerificationData {
-  email: string
-  otp: string
-}
\ No newline at end of file
+export type OTPVerificationData = z.infer<typeof OTPVerificationRequestSchema>
\ No newline at end of file
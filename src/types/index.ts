@@ -1,52 +1,29 @@
 // Core type definitions for Ghost Setup Finder
 
-export interface SearchSettings {
-  style: 'Premium' | 'Casual'
-  budget: number
-  currency: 'USD' | 'EUR' | 'GBP' | 'INR' | 'CAD' | 'AUD' | 'JPY' | 'CNY' | 'BRL' | 'MXN'
-  amazonOnly: boolean
-  setupType?: 'premium' | 'casual'
-  minBudget?: number
-  maxBudget?: number
-  region?: string
-}
+import type { z } from 'zod'
+import type {
+  SearchSettingsSchema,
+  SearchConstraintsSchema,
+  ProductSchema,
+  BudgetDistributionSchema,
+  ExchangeRateInfoSchema,
+  SetupSchema
+} from '@/lib/validation'
 
-export interface Product {
-  id: string
-  title: string
-  price: number
-  currency: string
-  merchant: string
-  rating: number
-  reviewCount: number
-  imageUrl: string
-  productUrl: string
-  rationale: string
-  category?: string
-  features: string[]
-  pros: string[]
-  cons: string[]
-  confidence: number
-  searchRank: number
-}
+// Payload types are derived from the schemas in lib/validation
+export type SearchSettings = z.infer<typeof SearchSettingsSchema>
 
-export interface BudgetDistribution {
-  category: string
-  amount: number
-  percentage: number
-  color: string
-}
+// Hard limits on candidates (brands, merchants, ratings, prices, shipping)
+export type SearchConstraints = z.infer<typeof SearchConstraintsSchema>
 
-export interface Setup {
-  id: string
-  query: string
-  products: Product[]
-  budgetDistribution: BudgetDistribution[]
-  totalCost: number
-  settings: SearchSettings
-  createdAt: Date
-  shareId?: string
-}
+export type Product = z.infer<typeof ProductSchema>
+
+export type BudgetDistribution = z.infer<typeof BudgetDistributionSchema>
+
+// USD exchange rate a setup's prices were converted with
+export type ExchangeRateInfo = z.infer<typeof ExchangeRateInfoSchema>
+
+export type Setup = z.infer<typeof SetupSchema>
 
 export interface CategoryStats {
   category: string
@@ -70,7 +47,9 @@ export enum ErrorType {
   EXTERNAL_API_ERROR = 'EXTERNAL_API_ERROR',
   RATE_LIMIT_ERROR = 'RATE_LIMIT_ERROR',
   NETWORK_ERROR = 'NETWORK_ERROR',
-  INTERNAL_ERROR = 'INTERNAL_ERROR'
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+  AUTHENTICATION_ERROR = 'AUTHENTICATION_ERROR',
+  AUTHORIZATION_ERROR = 'AUTHORIZATION_ERROR'
 }
 
 export interface APIError {
@@ -6,6 +6,12 @@ export default defineConfig({
     environment: 'jsdom',
     globals: true,
     setupFiles: ['./src/test-setup.tsx'],
+    // Route tests send many requests from one client; rate-limit tests turn it back on.
+    // Tracked links need their own signing secret.
+    env: {
+      RATE_LIMIT_ENABLED: 'false',
+      CLICK_TOKEN_SECRET: 'test-click-secret',
+    },
   },
   resolve: {
     alias: {